@@ -0,0 +1,84 @@
+import { Fragment } from "react";
+import { HoverCard, HoverCardContent, HoverCardTrigger } from "@/components/ui/hover-card";
+import { ExternalLink, FileText } from "lucide-react";
+
+export interface Citation {
+  marker: number;
+  chunkId: string;
+  url: string | null;
+  documentId: string | null;
+  documentName: string | null;
+  quote: string;
+  quoteStart: number;
+  quoteEnd: number;
+  offsets: { start: number; end: number }[];
+}
+
+interface CitedAnswerProps {
+  text: string;
+  citations: Citation[];
+}
+
+// Same markers the server resolves: [3], [Reference 3] and [1, 4]
+const MARKER_PATTERN = /\[(?:Reference\s+)?(\d+(?:\s*,\s*\d+)*)\]/gi;
+
+function CitationFootnote({ marker, citation }: { marker: number; citation?: Citation }) {
+  if (!citation) {
+    return <sup className="text-gray-400">[{marker}]</sup>;
+  }
+
+  return (
+    <HoverCard openDelay={150}>
+      <HoverCardTrigger asChild>
+        <sup
+          className="cursor-help text-primary-600 font-medium hover:underline"
+          data-testid={`citation-${citation.chunkId}`}
+        >
+          [{marker}]
+        </sup>
+      </HoverCardTrigger>
+      <HoverCardContent className="w-96 text-xs space-y-2">
+        {citation.url ? (
+          <a
+            href={citation.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center text-blue-600 hover:underline break-all"
+          >
+            <ExternalLink className="mr-1 h-3 w-3 flex-shrink-0" />
+            {citation.url}
+          </a>
+        ) : (
+          <div className="flex items-center text-gray-700 font-medium">
+            <FileText className="mr-1 h-3 w-3 flex-shrink-0" />
+            {citation.documentName || 'Reference document'}
+          </div>
+        )}
+        <blockquote className="border-l-2 border-gray-300 pl-2 italic text-gray-700 whitespace-pre-wrap">
+          {citation.quote}
+        </blockquote>
+      </HoverCardContent>
+    </HoverCard>
+  );
+}
+
+/**
+ * An answer whose [N] citation markers become footnotes showing the quoted source on hover
+ */
+export function CitedAnswer({ text, citations }: CitedAnswerProps) {
+  const byMarker = new Map(citations.map(citation => [citation.marker, citation]));
+  const parts: JSX.Element[] = [];
+  let lastIndex = 0;
+
+  Array.from(text.matchAll(MARKER_PATTERN)).forEach((match, matchIndex) => {
+    parts.push(<Fragment key={`text-${matchIndex}`}>{text.slice(lastIndex, match.index)}</Fragment>);
+    match[1].split(',').forEach((value, markerIndex) => {
+      const marker = parseInt(value.trim(), 10);
+      parts.push(<CitationFootnote key={`marker-${matchIndex}-${markerIndex}`} marker={marker} citation={byMarker.get(marker)} />);
+    });
+    lastIndex = match.index! + match[0].length;
+  });
+  parts.push(<Fragment key="text-end">{text.slice(lastIndex)}</Fragment>);
+
+  return <>{parts}</>;
+}
@@ -53,6 +53,7 @@ export function JobTable({ jobs, onJobUpdate }: JobTableProps) {
   const getStatusBadge = (status: string) => {
     const statusConfig = {
       completed: { variant: "default" as const, className: "bg-success-100 text-success-800", label: "Completed" },
+      completed_with_errors: { variant: "default" as const, className: "bg-warning-100 text-warning-800", label: "Completed with Errors" },
       in_progress: { variant: "default" as const, className: "bg-primary-100 text-primary-800", label: "In Progress" },
       paused: { variant: "default" as const, className: "bg-warning-100 text-warning-800", label: "Paused" },
       not_started: { variant: "secondary" as const, className: "", label: "Not Started" },
@@ -194,6 +195,7 @@ export function JobTable({ jobs, onJobUpdate }: JobTableProps) {
                   <SelectItem value="in_progress">In Progress</SelectItem>
                   <SelectItem value="paused">Paused</SelectItem>
                   <SelectItem value="completed">Completed</SelectItem>
+                  <SelectItem value="completed_with_errors">Completed with Errors</SelectItem>
                   <SelectItem value="error">Error</SelectItem>
                 </SelectContent>
               </Select>
@@ -320,7 +322,7 @@ export function JobTable({ jobs, onJobUpdate }: JobTableProps) {
                           </Button>
                         </>
                       )}
-                      {(job.status === 'completed' || job.status === 'error') && (
+                      {(job.status === 'completed' || job.status === 'completed_with_errors' || job.status === 'error') && (
                         <Button
                           variant="ghost"
                           size="sm"
@@ -0,0 +1,392 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Loader2, Play, Plus, Square } from "lucide-react";
+import { authService } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import { formatCost, type TokenUsage } from "@/lib/usage";
+
+type ComparisonPick = 'baseline' | 'variant' | 'tie';
+
+interface ComparisonSide {
+  status: string;
+  answer: string | null;
+  latency: number | null;
+  tokenUsage: TokenUsage | null;
+  errorMessage?: string | null;
+}
+
+interface ComparisonRow {
+  rowIndex: number;
+  question: string;
+  baseline: ComparisonSide;
+  variant: ComparisonSide;
+  pick: ComparisonPick | null;
+}
+
+interface Comparison {
+  id: string;
+  status: 'pending' | 'in_progress' | 'completed' | 'error' | 'cancelled';
+  totalRows: number;
+  processedRows: number;
+  errorMessage: string | null;
+  createdAt: string;
+  isRunning: boolean;
+  variant: { pipelineId: string; version: number; name: string } | null;
+}
+
+interface ComparisonSummary {
+  totalRows: number;
+  completedRows: number;
+  reviewedRows: number;
+  baselineWins: number;
+  variantWins: number;
+  ties: number;
+  variantWinRate: number | null;
+  baseline: { avgLatency: number | null; avgTotalTokens: number | null; avgCost: number | null };
+  variant: { avgLatency: number | null; avgTotalTokens: number | null; avgCost: number | null };
+}
+
+interface PipelineComparisonViewProps {
+  jobId: string;
+  baselineLabel: string; // e.g. "Pipeline v3", the version the job ran with
+}
+
+const formatLatency = (latency: number | null | undefined) =>
+  latency === null || latency === undefined ? '—' : `${(latency / 1000).toFixed(1)}s`;
+
+const formatTokens = (tokens: number | null | undefined) =>
+  tokens === null || tokens === undefined ? '—' : `${tokens.toLocaleString()} tokens`;
+
+function AnswerCell({ side }: { side: ComparisonSide }) {
+  return (
+    <div className="space-y-1">
+      {side.status === 'failed' ? (
+        <p className="text-sm text-red-700">{side.errorMessage || 'Failed'}</p>
+      ) : side.status === 'pending' || side.status === 'processing' ? (
+        <p className="text-sm text-gray-400 italic">{side.status === 'processing' ? 'Running...' : 'Waiting...'}</p>
+      ) : (
+        <div className="text-sm text-gray-900 whitespace-pre-wrap max-h-64 overflow-y-auto">{side.answer || '—'}</div>
+      )}
+      <div className="text-xs text-gray-500">
+        {formatLatency(side.latency)} • {formatTokens(side.tokenUsage?.totalTokens)}
+        {side.tokenUsage && ` • ${formatCost(side.tokenUsage.cost)}`}
+      </div>
+    </div>
+  );
+}
+
+export function PipelineComparisonView({ jobId, baselineLabel }: PipelineComparisonViewProps) {
+  const user = authService.getCurrentUser();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [pipelineId, setPipelineId] = useState('');
+  const [version, setVersion] = useState('current');
+  const [sampleSize, setSampleSize] = useState('');
+
+  const headers = { 'x-user-id': user?.id || 'user-1' };
+
+  const { data: comparisons = [] } = useQuery<Comparison[]>({
+    queryKey: ['/api/jobs', jobId, 'comparisons'],
+    queryFn: () => fetch(`/api/jobs/${jobId}/comparisons`, { credentials: 'include', headers }).then(res => res.json()),
+  });
+
+  const { data: pipelines = [] } = useQuery<{ id: string; name: string }[]>({
+    queryKey: ['/api/pipelines'],
+    queryFn: () => fetch('/api/pipelines', { credentials: 'include', headers }).then(res => res.json()),
+    enabled: dialogOpen,
+  });
+
+  const { data: versionData } = useQuery<{ currentVersion: number; versions: { id: string; version: number; changeNote: string | null }[] }>({
+    queryKey: ['/api/pipelines', pipelineId, 'versions'],
+    queryFn: () => fetch(`/api/pipelines/${pipelineId}/versions`, { credentials: 'include', headers }).then(res => res.json()),
+    enabled: dialogOpen && !!pipelineId,
+  });
+
+  // Show the newest comparison until the user picks another one
+  useEffect(() => {
+    if (comparisons.length > 0 && (!selectedId || !comparisons.some(comparison => comparison.id === selectedId))) {
+      setSelectedId(comparisons[0].id);
+    }
+  }, [comparisons, selectedId]);
+
+  const { data: details, isLoading: detailsLoading } = useQuery<{ comparison: Comparison; rows: ComparisonRow[]; summary: ComparisonSummary }>({
+    queryKey: ['/api/comparisons', selectedId],
+    queryFn: () => fetch(`/api/comparisons/${selectedId}`, { credentials: 'include', headers }).then(res => res.json()),
+    enabled: !!selectedId,
+    refetchInterval: (query) => query.state.data?.comparison.status === 'in_progress' ? 3000 : false,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/jobs', jobId, 'comparisons'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/comparisons'] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/jobs/${jobId}/comparisons`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { ...headers, 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          pipelineId,
+          version: version === 'current' ? undefined : version,
+          sampleSize: sampleSize ? parseInt(sampleSize, 10) : undefined
+        })
+      });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to start comparison');
+      }
+      return result as Comparison;
+    },
+    onSuccess: (comparison) => {
+      setDialogOpen(false);
+      setSelectedId(comparison.id);
+      invalidate();
+      toast({ title: 'Comparison Started', description: `Re-running ${comparison.totalRows} rows with the selected pipeline` });
+    },
+    onError: (error) => {
+      toast({ title: 'Error', description: error instanceof Error ? error.message : 'Failed to start comparison', variant: 'destructive' });
+    }
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async (action: 'cancel' | 'resume') => {
+      const response = await fetch(`/api/comparisons/${selectedId}/${action}`, { method: 'POST', credentials: 'include', headers });
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        throw new Error(result.message || `Failed to ${action} comparison`);
+      }
+    },
+    onSuccess: invalidate,
+    onError: (error) => {
+      toast({ title: 'Error', description: error instanceof Error ? error.message : 'Comparison action failed', variant: 'destructive' });
+    }
+  });
+
+  const pickMutation = useMutation({
+    mutationFn: async ({ rowIndex, pick }: { rowIndex: number; pick: ComparisonPick | null }) => {
+      const response = await fetch(`/api/comparisons/${selectedId}/rows/${rowIndex}/pick`, {
+        method: 'PATCH',
+        credentials: 'include',
+        headers: { ...headers, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ pick })
+      });
+      if (!response.ok) {
+        throw new Error('Failed to save pick');
+      }
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/comparisons', selectedId] }),
+    onError: () => {
+      toast({ title: 'Error', description: 'Failed to save pick', variant: 'destructive' });
+    }
+  });
+
+  const comparison = details?.comparison;
+  const summary = details?.summary;
+  const variantLabel = comparison?.variant ? `${comparison.variant.name} v${comparison.variant.version}` : 'Variant';
+
+  return (
+    <div className="h-full overflow-auto px-6 py-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          {comparisons.length > 0 && (
+            <Select value={selectedId || undefined} onValueChange={setSelectedId}>
+              <SelectTrigger className="w-80" data-testid="select-comparison">
+                <SelectValue placeholder="Select a comparison" />
+              </SelectTrigger>
+              <SelectContent>
+                {comparisons.map((item) => (
+                  <SelectItem key={item.id} value={item.id}>
+                    {item.variant ? `${item.variant.name} v${item.variant.version}` : 'Deleted version'} • {item.totalRows} rows • {new Date(item.createdAt).toLocaleDateString()}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {comparison && (
+            <Badge variant="outline">{comparison.status.replace('_', ' ')}</Badge>
+          )}
+          {comparison?.isRunning && (
+            <Button variant="outline" size="sm" onClick={() => actionMutation.mutate('cancel')} data-testid="button-cancel-comparison">
+              <Square className="h-4 w-4 mr-2" />
+              Stop
+            </Button>
+          )}
+          {comparison && !comparison.isRunning && comparison.processedRows < comparison.totalRows && (
+            <Button variant="outline" size="sm" onClick={() => actionMutation.mutate('resume')} data-testid="button-resume-comparison">
+              <Play className="h-4 w-4 mr-2" />
+              Resume
+            </Button>
+          )}
+        </div>
+
+        <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+          <DialogTrigger asChild>
+            <Button data-testid="button-new-comparison">
+              <Plus className="h-4 w-4 mr-2" />
+              New Comparison
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Compare with another pipeline</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Completed rows are re-run with the selected pipeline. Results are stored separately and never change this job's answers.
+              </p>
+              <div>
+                <Label>Pipeline</Label>
+                <Select value={pipelineId} onValueChange={(value) => { setPipelineId(value); setVersion('current'); }}>
+                  <SelectTrigger data-testid="select-comparison-pipeline">
+                    <SelectValue placeholder="Select a pipeline" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {pipelines.map((pipeline) => (
+                      <SelectItem key={pipeline.id} value={pipeline.id}>{pipeline.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Version</Label>
+                <Select value={version} onValueChange={setVersion} disabled={!pipelineId}>
+                  <SelectTrigger data-testid="select-comparison-version">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="current">Current{versionData ? ` (v${versionData.currentVersion})` : ''}</SelectItem>
+                    {(versionData?.versions || []).map((item) => (
+                      <SelectItem key={item.id} value={item.version.toString()}>
+                        v{item.version}{item.changeNote ? ` — ${item.changeNote}` : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="comparison-sample">Sample size (optional)</Label>
+                <Input
+                  id="comparison-sample"
+                  type="number"
+                  min={1}
+                  value={sampleSize}
+                  onChange={(e) => setSampleSize(e.target.value)}
+                  placeholder="All completed rows"
+                  data-testid="input-comparison-sample"
+                />
+              </div>
+              <div className="flex justify-end">
+                <Button onClick={() => createMutation.mutate()} disabled={!pipelineId || createMutation.isPending} data-testid="button-start-comparison">
+                  {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Start Comparison
+                </Button>
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {comparisons.length === 0 && (
+        <p className="text-sm text-gray-500">
+          No comparisons yet. Start one to re-run this job's rows with a different pipeline or version.
+        </p>
+      )}
+
+      {selectedId && detailsLoading && (
+        <div className="flex items-center text-sm text-gray-500">
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          Loading comparison...
+        </div>
+      )}
+
+      {comparison && summary && (
+        <>
+          <div className="grid grid-cols-4 gap-4">
+            <div className="border rounded-lg p-4">
+              <div className="text-xs text-gray-500 uppercase">Variant win rate</div>
+              <div className="text-2xl font-semibold text-gray-900" data-testid="text-win-rate">
+                {summary.variantWinRate === null ? '—' : `${Math.round(summary.variantWinRate * 100)}%`}
+              </div>
+              <div className="text-xs text-gray-500">Ties count as half a win</div>
+            </div>
+            <div className="border rounded-lg p-4">
+              <div className="text-xs text-gray-500 uppercase">Reviewer picks</div>
+              <div className="text-sm text-gray-900 mt-1">
+                {summary.variantWins} variant • {summary.ties} tie • {summary.baselineWins} baseline
+              </div>
+              <div className="text-xs text-gray-500">{summary.reviewedRows} of {summary.totalRows} rows reviewed</div>
+            </div>
+            <div className="border rounded-lg p-4">
+              <div className="text-xs text-gray-500 uppercase">Avg latency per row</div>
+              <div className="text-sm text-gray-900 mt-1">
+                {formatLatency(summary.baseline.avgLatency)} → {formatLatency(summary.variant.avgLatency)}
+              </div>
+              <div className="text-xs text-gray-500">Baseline → variant</div>
+            </div>
+            <div className="border rounded-lg p-4">
+              <div className="text-xs text-gray-500 uppercase">Progress</div>
+              <div className="text-sm text-gray-900 mt-1">
+                {comparison.processedRows} / {comparison.totalRows} rows
+              </div>
+              <div className="text-xs text-gray-500">
+                {comparison.errorMessage || `Avg cost ${formatCost(summary.baseline.avgCost)} → ${formatCost(summary.variant.avgCost)}`}
+              </div>
+            </div>
+          </div>
+
+          <table className="min-w-full border-collapse">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="border border-gray-300 px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase w-12">#</th>
+                <th className="border border-gray-300 px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase w-64">Question</th>
+                <th className="border border-gray-300 px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Baseline ({baselineLabel})</th>
+                <th className="border border-gray-300 px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Variant ({variantLabel})</th>
+                <th className="border border-gray-300 px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase w-40">Better answer</th>
+              </tr>
+            </thead>
+            <tbody>
+              {details.rows.map((row) => (
+                <tr key={row.rowIndex} className="align-top" data-testid={`comparison-row-${row.rowIndex}`}>
+                  <td className="border border-gray-300 px-4 py-2 text-sm text-gray-500">{row.rowIndex + 1}</td>
+                  <td className="border border-gray-300 px-4 py-2 text-sm text-gray-900">{row.question}</td>
+                  <td className={`border border-gray-300 px-4 py-2 ${row.pick === 'baseline' ? 'bg-green-50' : ''}`}>
+                    <AnswerCell side={row.baseline} />
+                  </td>
+                  <td className={`border border-gray-300 px-4 py-2 ${row.pick === 'variant' ? 'bg-green-50' : ''}`}>
+                    <AnswerCell side={row.variant} />
+                  </td>
+                  <td className="border border-gray-300 px-4 py-2">
+                    <div className="flex flex-col space-y-1">
+                      {(['baseline', 'tie', 'variant'] as const).map((pick) => (
+                        <Button
+                          key={pick}
+                          size="sm"
+                          variant={row.pick === pick ? 'default' : 'outline'}
+                          disabled={row.variant.status !== 'completed' || pickMutation.isPending}
+                          onClick={() => pickMutation.mutate({ rowIndex: row.rowIndex, pick: row.pick === pick ? null : pick })}
+                          data-testid={`button-pick-${pick}-${row.rowIndex}`}
+                        >
+                          {pick === 'baseline' ? 'Baseline' : pick === 'variant' ? 'Variant' : 'Tie'}
+                        </Button>
+                      ))}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+}
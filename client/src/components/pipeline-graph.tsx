@@ -0,0 +1,118 @@
+import { Badge } from "@/components/ui/badge";
+import { Filter } from "lucide-react";
+
+export interface PipelineGraphNode {
+  name: string;
+  typeLabel: string;
+  hasCondition: boolean;
+  dependsOn: number[]; // Indexes of the steps this one waits for
+}
+
+interface PipelineGraphProps {
+  nodes: PipelineGraphNode[];
+  selectedIndex: number | null;
+  onSelect: (index: number) => void;
+}
+
+const NODE_WIDTH = 200;
+const NODE_HEIGHT = 64;
+const COLUMN_GAP = 72;
+const ROW_GAP = 20;
+const PADDING = 16;
+
+// Column = length of the longest dependency chain leading to the step
+function computeColumns(nodes: PipelineGraphNode[]): number[] {
+  const columns: (number | undefined)[] = new Array(nodes.length);
+  const visiting = new Set<number>();
+
+  const columnOf = (index: number): number => {
+    const known = columns[index];
+    if (known !== undefined) return known;
+    // A cycle can only come from an unsaved edit; the server rejects it on save
+    if (visiting.has(index)) return 0;
+    visiting.add(index);
+    const column = nodes[index].dependsOn.reduce((max, dependency) => Math.max(max, columnOf(dependency) + 1), 0);
+    visiting.delete(index);
+    columns[index] = column;
+    return column;
+  };
+
+  return nodes.map((_, index) => columnOf(index));
+}
+
+export function PipelineGraph({ nodes, selectedIndex, onSelect }: PipelineGraphProps) {
+  const columns = computeColumns(nodes);
+  const rowsInColumn = new Map<number, number>();
+  const positions = nodes.map((_, index) => {
+    const column = columns[index];
+    const row = rowsInColumn.get(column) || 0;
+    rowsInColumn.set(column, row + 1);
+    return {
+      x: PADDING + column * (NODE_WIDTH + COLUMN_GAP),
+      y: PADDING + row * (NODE_HEIGHT + ROW_GAP)
+    };
+  });
+
+  const columnCount = Math.max(0, ...columns) + 1;
+  const rowCount = Math.max(1, ...Array.from(rowsInColumn.values()));
+  const width = PADDING * 2 + columnCount * NODE_WIDTH + (columnCount - 1) * COLUMN_GAP;
+  const height = PADDING * 2 + rowCount * NODE_HEIGHT + (rowCount - 1) * ROW_GAP;
+
+  return (
+    <div className="overflow-x-auto border rounded-lg bg-gray-50" data-testid="pipeline-graph">
+      <div className="relative" style={{ width, height }}>
+        <svg className="absolute inset-0 pointer-events-none" width={width} height={height}>
+          <defs>
+            <marker id="pipeline-graph-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+              <path d="M 0 0 L 10 5 L 0 10 z" fill="#9ca3af" />
+            </marker>
+          </defs>
+          {nodes.flatMap((node, index) =>
+            node.dependsOn.map(dependency => {
+              const from = positions[dependency];
+              const to = positions[index];
+              const startX = from.x + NODE_WIDTH;
+              const startY = from.y + NODE_HEIGHT / 2;
+              const endX = to.x;
+              const endY = to.y + NODE_HEIGHT / 2;
+              const bend = Math.max(24, (endX - startX) / 2);
+              return (
+                <path
+                  key={`${dependency}-${index}`}
+                  d={`M ${startX} ${startY} C ${startX + bend} ${startY}, ${endX - bend} ${endY}, ${endX} ${endY}`}
+                  fill="none"
+                  stroke="#9ca3af"
+                  strokeWidth={1.5}
+                  markerEnd="url(#pipeline-graph-arrow)"
+                />
+              );
+            })
+          )}
+        </svg>
+        {nodes.map((node, index) => (
+          <button
+            key={index}
+            type="button"
+            onClick={() => onSelect(index)}
+            className={`absolute text-left bg-white border rounded-md px-3 py-2 shadow-sm hover:border-purple-400 transition-colors ${
+              selectedIndex === index ? 'border-purple-600 ring-2 ring-purple-200' : 'border-gray-200'
+            }`}
+            style={{ left: positions[index].x, top: positions[index].y, width: NODE_WIDTH, height: NODE_HEIGHT }}
+            data-testid={`graph-node-${index}`}
+          >
+            <div className="text-sm font-medium text-gray-900 truncate">{node.name}</div>
+            <div className="flex items-center space-x-1 mt-1">
+              <Badge variant="outline" className="text-xs">{node.typeLabel}</Badge>
+              {node.hasCondition && (
+                <span className="flex items-center text-xs text-yellow-700" title="Runs only when its condition is met">
+                  <Filter className="h-3 w-3 mr-0.5" />
+                  Conditional
+                </span>
+              )}
+            </div>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,271 @@
+import { useState, useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ChevronDown, ChevronRight, FlaskConical, Loader2, Play, Square } from "lucide-react";
+import { authService } from "@/lib/auth";
+import { formatUsage, type TokenUsage } from "@/lib/usage";
+
+interface PlaygroundStep {
+  name: string;
+  [field: string]: any;
+}
+
+interface PlaygroundChunk {
+  source: string;
+  url: string;
+  similarity: number;
+  rerankScore?: number | null; // Set when the step reranks its chunks
+  text: string;
+}
+
+interface StepRun {
+  index: number;
+  name: string;
+  status: 'pending' | 'running' | 'completed' | 'skipped' | 'failed';
+  prompt?: string;
+  output?: string;
+  latency?: number;
+  chunks?: PlaygroundChunk[];
+  reason?: string;
+  error?: string;
+  usage?: TokenUsage;
+}
+
+interface PipelinePlaygroundProps {
+  steps: PlaygroundStep[]; // Current editor steps, including unsaved edits
+  pipelineId?: string;      // Usage of playground runs is attributed to this pipeline
+}
+
+const STATUS_STYLES: Record<StepRun['status'], string> = {
+  pending: 'bg-gray-100 text-gray-600',
+  running: 'bg-blue-100 text-blue-800',
+  completed: 'bg-green-100 text-green-800',
+  skipped: 'bg-yellow-100 text-yellow-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  const [open, setOpen] = useState(false);
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <CollapsibleTrigger className="flex items-center text-xs font-medium text-gray-600 hover:text-gray-900">
+        {open ? <ChevronDown className="h-3 w-3 mr-1" /> : <ChevronRight className="h-3 w-3 mr-1" />}
+        {title}
+      </CollapsibleTrigger>
+      <CollapsibleContent className="mt-1">{children}</CollapsibleContent>
+    </Collapsible>
+  );
+}
+
+export function PipelinePlayground({ steps, pipelineId }: PipelinePlaygroundProps) {
+  const user = authService.getCurrentUser();
+  const [question, setQuestion] = useState('');
+  const [rfpInstructions, setRfpInstructions] = useState('');
+  const [runs, setRuns] = useState<StepRun[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [result, setResult] = useState<{ status: string; latency?: number; usage?: TokenUsage; message?: string } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Closing the stream tells the server to stop scheduling steps
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const updateRun = (index: number, update: Partial<StepRun>) => {
+    setRuns(previous => previous.map(run => run.index === index ? { ...run, ...update } : run));
+  };
+
+  const handleEvent = (event: any) => {
+    switch (event.type) {
+      case 'started':
+        setRuns(event.steps.map((step: { index: number; name: string }) => ({ ...step, status: 'pending' })));
+        break;
+      case 'stepStarted':
+        updateRun(event.stepIndex, { status: 'running' });
+        break;
+      case 'stepSkipped':
+        updateRun(event.stepIndex, { status: 'skipped', reason: event.reason });
+        break;
+      case 'stepCompleted':
+        updateRun(event.stepIndex, {
+          status: 'completed',
+          prompt: event.prompt,
+          output: event.output,
+          latency: event.latency,
+          chunks: event.chunks,
+          usage: event.usage
+        });
+        break;
+      case 'stepFailed':
+        updateRun(event.stepIndex, { status: 'failed', prompt: event.prompt, error: event.error, latency: event.latency, usage: event.usage });
+        break;
+      case 'done':
+        setResult({ status: event.status, latency: event.latency, usage: event.usage });
+        break;
+      case 'error':
+        setResult({ status: 'failed', message: event.message });
+        break;
+    }
+  };
+
+  const handleRun = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    setRuns([]);
+    setResult(null);
+
+    try {
+      const response = await fetch('/api/pipelines/playground', {
+        method: 'POST',
+        credentials: 'include',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-user-id': user?.id || 'user-1'
+        },
+        body: JSON.stringify({ steps, question, rfpInstructions: rfpInstructions || undefined, pipelineId }),
+        signal: controller.signal
+      });
+
+      if (!response.ok || !response.body) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to start playground run');
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const messages = buffer.split('\n\n');
+        buffer = messages.pop() || '';
+        messages
+          .filter(message => message.startsWith('data: '))
+          .forEach(message => handleEvent(JSON.parse(message.slice(6))));
+      }
+    } catch (error) {
+      if (controller.signal.aborted) {
+        setResult({ status: 'cancelled' });
+      } else {
+        setResult({ status: 'failed', message: error instanceof Error ? error.message : 'Playground run failed' });
+      }
+    } finally {
+      abortRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <FlaskConical className="h-5 w-5" />
+          <span>Playground</span>
+        </CardTitle>
+        <CardDescription>
+          Run the current steps, including unsaved edits, on a single question. Nothing is saved as a job.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <Label htmlFor="playground-question">Question</Label>
+          <Textarea
+            id="playground-question"
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            placeholder="Does your platform support SMS delivery receipts?"
+            rows={3}
+            data-testid="input-playground-question"
+          />
+        </div>
+        <div>
+          <Label htmlFor="playground-instructions">RFP Instructions (optional)</Label>
+          <Textarea
+            id="playground-instructions"
+            value={rfpInstructions}
+            onChange={(e) => setRfpInstructions(e.target.value)}
+            placeholder="Answer in under 150 words and mention compliance certifications."
+            rows={2}
+            data-testid="input-playground-instructions"
+          />
+        </div>
+        <div className="flex items-center space-x-3">
+          {isRunning ? (
+            <Button variant="outline" onClick={() => abortRef.current?.abort()} data-testid="button-playground-stop">
+              <Square className="h-4 w-4 mr-2" />
+              Stop
+            </Button>
+          ) : (
+            <Button onClick={handleRun} disabled={!question.trim() || steps.length === 0} data-testid="button-playground-run">
+              <Play className="h-4 w-4 mr-2" />
+              Run
+            </Button>
+          )}
+          {isRunning && <Loader2 className="h-4 w-4 animate-spin text-gray-500" />}
+          {result && (
+            <span className={`text-sm ${result.status === 'completed' ? 'text-green-700' : result.status === 'failed' ? 'text-red-700' : 'text-gray-600'}`}>
+              {result.status === 'completed' && `Completed in ${((result.latency || 0) / 1000).toFixed(1)}s`}
+              {result.status === 'completed' && formatUsage(result.usage) && ` • ${formatUsage(result.usage)}`}
+              {result.status === 'cancelled' && 'Stopped'}
+              {result.status === 'failed' && (result.message || 'Run failed')}
+            </span>
+          )}
+        </div>
+
+        {runs.length > 0 && (
+          <div className="space-y-3">
+            {runs.map((run) => (
+              <div key={run.index} className="border rounded-md p-3 space-y-2" data-testid={`playground-step-${run.index}`}>
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium text-sm">{run.name}</span>
+                    <Badge className={`text-xs ${STATUS_STYLES[run.status]}`}>{run.status}</Badge>
+                  </div>
+                  {run.latency !== undefined && (
+                    <span className="text-xs text-gray-500">
+                      {run.latency}ms{formatUsage(run.usage) && ` • ${formatUsage(run.usage)}`}
+                    </span>
+                  )}
+                </div>
+                {run.reason && <p className="text-xs text-gray-600">{run.reason}</p>}
+                {run.error && <p className="text-xs text-red-700">{run.error}</p>}
+                {run.prompt && (
+                  <Section title="Prompt">
+                    <pre className="text-xs bg-gray-50 border rounded p-2 overflow-x-auto max-h-64 whitespace-pre-wrap">{run.prompt}</pre>
+                  </Section>
+                )}
+                {run.chunks && run.chunks.length > 0 && (
+                  <Section title={`Retrieved chunks (${run.chunks.length})`}>
+                    <div className="space-y-2 max-h-64 overflow-y-auto">
+                      {run.chunks.map((chunk, index) => (
+                        <div key={index} className="text-xs border rounded p-2 bg-gray-50">
+                          <div className="flex items-center justify-between">
+                            <a href={chunk.url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline truncate">
+                              {chunk.source || chunk.url}
+                            </a>
+                            <span className="text-gray-500 ml-2">
+                              {chunk.rerankScore !== undefined && chunk.rerankScore !== null && `rerank ${Math.round(chunk.rerankScore * 100)}% • `}
+                              {(chunk.similarity * 100).toFixed(1)}%
+                            </span>
+                          </div>
+                          <p className="mt-1 text-gray-700 line-clamp-3">{chunk.text}</p>
+                        </div>
+                      ))}
+                    </div>
+                  </Section>
+                )}
+                {run.output !== undefined && (
+                  <pre className="text-xs bg-white border rounded p-2 overflow-x-auto max-h-96 whitespace-pre-wrap">{run.output || '(empty output)'}</pre>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,266 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { History, Loader2, RotateCcw } from "lucide-react";
+import { authService } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import { diffLines, diffByKey, type ItemChange } from "@/lib/diff";
+
+interface VersionStep {
+  id?: string;
+  name: string;
+  [field: string]: any;
+}
+
+interface PipelineVersion {
+  id: string;
+  pipelineId: string;
+  version: number;
+  name: string;
+  description: string | null;
+  steps: VersionStep[];
+  changeNote: string | null;
+  createdAt: string;
+}
+
+interface PipelineVersionHistoryProps {
+  pipelineId: string;
+}
+
+// Long text fields get a line diff; everything else is shown as before → after
+const TEXT_FIELDS = new Set(['systemPrompt', 'userPrompt']);
+
+const formatValue = (value: unknown) => {
+  if (value === undefined || value === null || value === '') return '—';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+function StepChange({ change }: { change: ItemChange<VersionStep> }) {
+  const statusStyles = {
+    added: 'bg-green-50 border-green-200',
+    removed: 'bg-red-50 border-red-200',
+    changed: 'bg-white border-gray-200',
+    unchanged: 'bg-white border-gray-200',
+  };
+
+  return (
+    <div className={`border rounded-md p-3 ${statusStyles[change.status]}`}>
+      <div className="flex items-center space-x-2">
+        <span className="font-medium text-sm">{change.after?.name || change.before?.name}</span>
+        <Badge variant="outline" className="text-xs">{change.status}</Badge>
+      </div>
+      {change.changes.length > 0 && (
+        <div className="mt-2 space-y-3">
+          {change.changes.map(({ field, before, after }) => (
+            <div key={field}>
+              <div className="text-xs font-medium text-gray-500 mb-1">{field}</div>
+              {TEXT_FIELDS.has(field) ? (
+                <pre className="text-xs bg-gray-50 border rounded p-2 overflow-x-auto max-h-64 whitespace-pre-wrap">
+                  {diffLines(String(before ?? ''), String(after ?? '')).map((line, index) => (
+                    <div
+                      key={index}
+                      className={
+                        line.type === 'added' ? 'bg-green-100 text-green-800' :
+                        line.type === 'removed' ? 'bg-red-100 text-red-800' :
+                        'text-gray-500'
+                      }
+                    >
+                      {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text}
+                    </div>
+                  ))}
+                </pre>
+              ) : (
+                <div className="text-xs font-mono">
+                  <span className="text-red-700 line-through">{formatValue(before)}</span>
+                  <span className="mx-2 text-gray-400">→</span>
+                  <span className="text-green-700">{formatValue(after)}</span>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function PipelineVersionHistory({ pipelineId }: PipelineVersionHistoryProps) {
+  const user = authService.getCurrentUser();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [fromVersion, setFromVersion] = useState<number | null>(null);
+  const [toVersion, setToVersion] = useState<number | null>(null);
+
+  const { data, isLoading } = useQuery<{ currentVersion: number; versions: PipelineVersion[] }>({
+    queryKey: ['/api/pipelines', pipelineId, 'versions'],
+    queryFn: () => fetch(`/api/pipelines/${pipelineId}/versions`, {
+      credentials: 'include',
+      headers: { 'x-user-id': user?.id || 'user-1' }
+    }).then(res => res.json()),
+  });
+
+  const versions = data?.versions || [];
+  const currentVersion = data?.currentVersion;
+
+  // Default to comparing the current version with the one before it
+  useEffect(() => {
+    if (versions.length === 0) return;
+    if (toVersion === null || !versions.some(version => version.version === toVersion)) {
+      setToVersion(versions[0].version);
+      setFromVersion(versions[1]?.version ?? versions[0].version);
+    }
+  }, [versions, toVersion]);
+
+  const rollbackMutation = useMutation({
+    mutationFn: async (version: number) => {
+      const response = await fetch(`/api/pipelines/${pipelineId}/versions/${version}/rollback`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'x-user-id': user?.id || 'user-1' }
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to roll back pipeline');
+      }
+      return response.json();
+    },
+    onSuccess: (_, version) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/pipelines/default'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/pipelines', pipelineId, 'versions'] });
+      setToVersion(null);
+      toast({
+        title: 'Pipeline Rolled Back',
+        description: `Version ${version} is now the current definition`
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Rollback Failed',
+        description: error instanceof Error ? error.message : 'Failed to roll back pipeline',
+        variant: 'destructive'
+      });
+    }
+  });
+
+  const from = versions.find(version => version.version === fromVersion);
+  const to = versions.find(version => version.version === toVersion);
+  const stepChanges = from && to
+    ? diffByKey(from.steps || [], to.steps || [], step => step.id || step.name).filter(change => change.status !== 'unchanged')
+    : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <History className="h-5 w-5" />
+          <span>Version History</span>
+        </CardTitle>
+        <CardDescription>
+          Every save creates a new version. Jobs keep running with the version they started on.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex items-center text-sm text-gray-500">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Loading versions...
+          </div>
+        ) : (
+          <>
+            <div className="divide-y border rounded-md">
+              {versions.map((version) => (
+                <div key={version.id} className="flex items-center justify-between px-3 py-2" data-testid={`version-row-${version.version}`}>
+                  <div className="flex items-center space-x-3">
+                    <span className="font-medium text-sm">v{version.version}</span>
+                    {version.version === currentVersion && <Badge>Current</Badge>}
+                    <span className="text-xs text-gray-500">{new Date(version.createdAt).toLocaleString()}</span>
+                    {version.changeNote && <span className="text-xs text-gray-600">{version.changeNote}</span>}
+                  </div>
+                  {version.version !== currentVersion && (
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="outline" size="sm" disabled={rollbackMutation.isPending} data-testid={`button-rollback-${version.version}`}>
+                          <RotateCcw className="h-4 w-4 mr-2" />
+                          Roll back
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Roll back to version {version.version}?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            This saves a copy of version {version.version} as a new version and makes it current for new jobs. Existing jobs are not affected.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction onClick={() => rollbackMutation.mutate(version.version)}>Roll back</AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {versions.length > 1 && (
+              <div className="space-y-3">
+                <div className="flex items-end space-x-4">
+                  <div>
+                    <Label>Compare</Label>
+                    <Select value={fromVersion?.toString()} onValueChange={(value) => setFromVersion(parseInt(value, 10))}>
+                      <SelectTrigger className="w-32" data-testid="select-diff-from">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {versions.map((version) => (
+                          <SelectItem key={version.id} value={version.version.toString()}>v{version.version}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label>with</Label>
+                    <Select value={toVersion?.toString()} onValueChange={(value) => setToVersion(parseInt(value, 10))}>
+                      <SelectTrigger className="w-32" data-testid="select-diff-to">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {versions.map((version) => (
+                          <SelectItem key={version.id} value={version.version.toString()}>v{version.version}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                {from && to && from.name !== to.name && (
+                  <div className="text-sm">
+                    <span className="text-gray-500">Name: </span>
+                    <span className="text-red-700 line-through">{from.name}</span>
+                    <span className="mx-2 text-gray-400">→</span>
+                    <span className="text-green-700">{to.name}</span>
+                  </div>
+                )}
+                {stepChanges.length === 0 ? (
+                  <p className="text-sm text-gray-500">No step differences between these versions.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {stepChanges.map((change) => (
+                      <StepChange key={`${change.status}-${change.key}`} change={change} />
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,195 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { CheckCircle, ChevronLeft, ChevronRight, ExternalLink, MessageSquare } from "lucide-react";
+import { CitedAnswer, type Citation } from "@/components/cited-answer";
+import { VerifiedAnswer, type ClaimVerification } from "@/components/verified-answer";
+import { authService } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+
+export interface ConfidenceSignals {
+  retrievalSimilarity?: number;
+  sourceDiversity?: number;
+  groundingScore?: number;
+  selfAssessment?: number;
+}
+
+export interface AnswerConfidence {
+  score: number | null;
+  needsReview: boolean;
+  threshold: number;
+  signals: ConfidenceSignals;
+}
+
+export interface ReviewRow {
+  id: string;
+  rowIndex: number;
+  originalData: Record<string, any>;
+  enrichedData?: Record<string, any>;
+  feedback?: string;
+  confidenceScore?: number | null;
+  needsReview?: boolean;
+}
+
+interface ReviewQueueProps {
+  jobId: string;
+  rows: ReviewRow[];
+  columns: string[];
+  onInspect: (rowIndex: number) => void;
+  onFeedback: (row: ReviewRow) => void;
+}
+
+const SIGNAL_LABELS: Record<keyof ConfidenceSignals, string> = {
+  retrievalSimilarity: 'Retrieval similarity',
+  sourceDiversity: 'Source diversity',
+  groundingScore: 'Grounding',
+  selfAssessment: 'Self-assessment',
+};
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+function formatValue(value: any): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) return value.map(item => typeof item === 'object' ? JSON.stringify(item) : String(item)).join('\n');
+  if (typeof value === 'object') return value.content || value.fileName || JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * The rows flagged for review, weakest first, one at a time. Marking a row reviewed takes it off
+ * the queue and moves on to the next one.
+ */
+export function ReviewQueue({ jobId, rows, columns, onInspect, onFeedback }: ReviewQueueProps) {
+  const user = authService.getCurrentUser();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [position, setPosition] = useState(0);
+
+  const queue = rows
+    .filter(row => row.needsReview)
+    .sort((a, b) => (a.confidenceScore ?? 0) - (b.confidenceScore ?? 0));
+
+  // Reviewed rows drop out of the queue, so the same position is the next row
+  useEffect(() => {
+    if (position > 0 && position >= queue.length) {
+      setPosition(Math.max(0, queue.length - 1));
+    }
+  }, [queue.length, position]);
+
+  const reviewMutation = useMutation({
+    mutationFn: async (row: ReviewRow) => {
+      const response = await fetch(`/api/jobs/${jobId}/rows/${row.rowIndex}/review`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'x-user-id': user?.id || 'user-1' }
+      });
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        throw new Error(result.message || 'Failed to mark row as reviewed');
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/jobs', jobId, 'csv-data'] });
+    },
+    onError: (error) => {
+      toast({ title: 'Error', description: error instanceof Error ? error.message : 'Failed to mark row as reviewed', variant: 'destructive' });
+    }
+  });
+
+  if (queue.length === 0) {
+    return (
+      <div className="h-full flex items-center justify-center text-center" data-testid="review-queue-empty">
+        <div>
+          <CheckCircle className="h-8 w-8 text-green-600 mx-auto mb-2" />
+          <p className="text-sm font-medium text-gray-900">No rows need review</p>
+          <p className="text-sm text-gray-500">Every answer scored at or above the confidence threshold, or has been reviewed.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const row = queue[Math.min(position, queue.length - 1)];
+  const confidence: AnswerConfidence | undefined = row.enrichedData?.CONFIDENCE;
+  const verification: ClaimVerification | undefined = row.enrichedData?.VERIFICATION;
+
+  return (
+    <div className="h-full overflow-auto px-6 py-4 space-y-4" data-testid="review-queue">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <span className="text-sm text-gray-600">
+            Reviewing {Math.min(position, queue.length - 1) + 1} of {queue.length} • Row {row.rowIndex + 1}
+          </span>
+          {row.confidenceScore !== null && row.confidenceScore !== undefined && (
+            <Badge className="bg-yellow-100 text-yellow-800" data-testid="badge-review-confidence">
+              Confidence {formatPercent(row.confidenceScore)}
+              {confidence && ` (threshold ${formatPercent(confidence.threshold)})`}
+            </Badge>
+          )}
+        </div>
+        <div className="flex items-center space-x-2">
+          <Button variant="outline" size="sm" onClick={() => setPosition(position - 1)} disabled={position === 0} data-testid="button-review-previous">
+            <ChevronLeft className="h-4 w-4 mr-1" />
+            Previous
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setPosition(position + 1)} disabled={position >= queue.length - 1} data-testid="button-review-next">
+            Next
+            <ChevronRight className="h-4 w-4 ml-1" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => onFeedback(row)}>
+            <MessageSquare className="h-4 w-4 mr-1" />
+            Feedback
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => onInspect(row.rowIndex)}>
+            <ExternalLink className="h-4 w-4 mr-1" />
+            View AI Steps
+          </Button>
+          <Button
+            size="sm"
+            className="bg-success-600 hover:bg-success-700"
+            onClick={() => reviewMutation.mutate(row)}
+            disabled={reviewMutation.isPending}
+            data-testid="button-mark-reviewed"
+          >
+            <CheckCircle className="h-4 w-4 mr-1" />
+            Mark Reviewed
+          </Button>
+        </div>
+      </div>
+
+      {confidence && (
+        <div className="flex flex-wrap gap-2 text-xs text-gray-600">
+          {(Object.keys(SIGNAL_LABELS) as (keyof ConfidenceSignals)[]).map(signal => (
+            <span key={signal} className="px-2 py-1 rounded bg-gray-100">
+              {SIGNAL_LABELS[signal]}: {confidence.signals[signal] !== undefined ? formatPercent(confidence.signals[signal]!) : 'n/a'}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {row.feedback && (
+        <p className="text-sm text-gray-700"><span className="font-medium">Feedback:</span> {row.feedback}</p>
+      )}
+
+      <div className="space-y-4">
+        {columns.map(column => {
+          const text = formatValue(row.enrichedData?.[column] ?? row.originalData?.[column]);
+          if (!text) return null;
+          const citations: Citation[] | undefined = row.enrichedData?.CITATIONS?.[column];
+          return (
+            <div key={column} className="border border-gray-200 rounded-lg p-3">
+              <div className="text-xs font-medium text-gray-500 uppercase mb-1">{column}</div>
+              <div className="text-sm text-gray-900 whitespace-pre-wrap break-words">
+                {verification?.stepName === column
+                  ? <VerifiedAnswer text={text} claims={verification.claims} citations={citations} />
+                  : citations?.length ? <CitedAnswer text={text} citations={citations} /> : text}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
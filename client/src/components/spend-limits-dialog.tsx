@@ -0,0 +1,208 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { formatCost } from "@/lib/usage";
+
+type SpendLimitScope = 'user_monthly' | 'job';
+
+interface SpendLimit {
+  id: string;
+  scope: SpendLimitScope;
+  userId: string | null;
+  jobId: string | null;
+  amount: number;
+  updatedAt: string;
+}
+
+interface AdminUser {
+  id: string;
+  email: string;
+  name: string;
+}
+
+interface SpendLimitsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const SCOPE_LABELS: Record<SpendLimitScope, string> = {
+  user_monthly: 'Monthly, per user',
+  job: 'Per job',
+};
+
+const EVERYONE = 'everyone';
+
+export function SpendLimitsDialog({ open, onOpenChange }: SpendLimitsDialogProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [scope, setScope] = useState<SpendLimitScope>('user_monthly');
+  const [target, setTarget] = useState(EVERYONE);
+  const [amount, setAmount] = useState('');
+
+  const { data: limits = [] } = useQuery<SpendLimit[]>({
+    queryKey: ['/api/admin/spend-limits'],
+    enabled: open
+  });
+
+  const { data: users = [] } = useQuery<AdminUser[]>({
+    queryKey: ['/api/admin/users'],
+    enabled: open
+  });
+
+  const describeTarget = (limit: SpendLimit) => {
+    if (limit.jobId) return `Job ${limit.jobId.slice(0, 8)}`;
+    if (!limit.userId) return 'Everyone (default)';
+    const user = users.find(candidate => candidate.id === limit.userId);
+    return user ? `${user.name || user.email}` : limit.userId;
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch('/api/admin/spend-limits', {
+        method: 'PUT',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          scope,
+          userId: target === EVERYONE ? null : target,
+          amount: parseFloat(amount)
+        })
+      });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to save spend limit');
+      }
+      return result as SpendLimit;
+    },
+    onSuccess: () => {
+      setAmount('');
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/spend-limits'] });
+      toast({ title: "Spend limit saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/admin/spend-limits/${id}`, { method: 'DELETE', credentials: 'include' });
+      if (!response.ok) {
+        throw new Error('Failed to remove spend limit');
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/spend-limits'] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const parsedAmount = parseFloat(amount);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Spend Limits</DialogTitle>
+          <DialogDescription>
+            Jobs pause before their next step once a limit is reached. A user or job limit overrides the default for everyone.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {limits.length === 0 ? (
+            <p className="text-sm text-gray-500">No spend limits set.</p>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 uppercase">
+                  <th className="py-2">Limit</th>
+                  <th className="py-2">Applies to</th>
+                  <th className="py-2 text-right">Amount</th>
+                  <th className="py-2 w-10"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {limits.map((limit) => (
+                  <tr key={limit.id} className="border-t" data-testid={`row-spend-limit-${limit.id}`}>
+                    <td className="py-2">{SCOPE_LABELS[limit.scope]}</td>
+                    <td className="py-2">{describeTarget(limit)}</td>
+                    <td className="py-2 text-right font-medium">{formatCost(limit.amount)}</td>
+                    <td className="py-2 text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => deleteMutation.mutate(limit.id)}
+                        data-testid={`button-delete-spend-limit-${limit.id}`}
+                      >
+                        <Trash2 className="h-4 w-4 text-gray-500" />
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          <div className="border-t pt-4 grid grid-cols-4 gap-3 items-end">
+            <div>
+              <Label>Limit</Label>
+              <Select value={scope} onValueChange={(value) => setScope(value as SpendLimitScope)}>
+                <SelectTrigger data-testid="select-spend-limit-scope">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(SCOPE_LABELS) as SpendLimitScope[]).map((value) => (
+                    <SelectItem key={value} value={value}>{SCOPE_LABELS[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Applies to</Label>
+              <Select value={target} onValueChange={setTarget}>
+                <SelectTrigger data-testid="select-spend-limit-user">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={EVERYONE}>Everyone (default)</SelectItem>
+                  {users.map((user) => (
+                    <SelectItem key={user.id} value={user.id}>{user.name || user.email}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="spend-limit-amount">Amount (USD)</Label>
+              <Input
+                id="spend-limit-amount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="50.00"
+                data-testid="input-spend-limit-amount"
+              />
+            </div>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={!(parsedAmount > 0) || saveMutation.isPending}
+              data-testid="button-save-spend-limit"
+            >
+              Save Limit
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
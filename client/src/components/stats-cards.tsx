@@ -1,18 +1,21 @@
 import { Card, CardContent } from "@/components/ui/card";
-import { Activity, CheckCircle, FileText } from "lucide-react";
+import { Activity, CheckCircle, DollarSign, FileText } from "lucide-react";
+import { formatCost, formatTokens } from "@/lib/usage";
 
 interface StatsCardsProps {
   stats: {
     totalJobs: number;
     activeJobs: number;
     completedToday: number;
+    tokensThisMonth?: number;
+    costThisMonth?: number;
     avgProcessing?: number;
   };
 }
 
 export function StatsCards({ stats }: StatsCardsProps) {
   return (
-    <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
       <Card>
         <CardContent className="p-6">
           <div className="flex items-center justify-between">
@@ -54,6 +57,21 @@ export function StatsCards({ stats }: StatsCardsProps) {
           </div>
         </CardContent>
       </Card>
+
+      <Card>
+        <CardContent className="p-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600">Spend This Month</p>
+              <p className="text-2xl font-bold text-gray-900" data-testid="text-cost-this-month">{formatCost(stats.costThisMonth || 0)}</p>
+              <p className="text-xs text-gray-500">{formatTokens(stats.tokensThisMonth || 0)} tokens</p>
+            </div>
+            <div className="w-12 h-12 bg-primary-50 rounded-lg flex items-center justify-center">
+              <DollarSign className="text-primary-500 h-6 w-6" />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
     </div>
   );
 }
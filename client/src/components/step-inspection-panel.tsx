@@ -1,8 +1,46 @@
 import { useState, useEffect } from "react";
 import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet";
 import { Badge } from "@/components/ui/badge";
-import { Clock, X } from "lucide-react";
+import { Clock, RotateCcw, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { formatCost } from "@/lib/usage";
+
+interface StepAttempt {
+  attempt: number;
+  startedAt: string;
+  latency: number;
+  status: 'completed' | 'error';
+  errorClass?: string;
+  errorMessage?: string;
+  retryDelayMs?: number;
+}
+
+interface RerankTrace {
+  reranker: string;
+  candidates: number;
+  topK: number;
+  error?: string;
+  chunks: {
+    chunkId: string;
+    source: string;
+    retrievalRank: number;
+    similarity: number;
+    rerankScore: number | null;
+    reason?: string;
+    selected: boolean;
+  }[];
+}
+
+interface QueryCoverage {
+  subQueries: {
+    query: string;
+    hypotheticalAnswer?: string;
+    chunkCount: number;
+    topSimilarity: number;
+    covered: boolean;
+  }[];
+  error?: string;
+}
 
 interface JobStep {
   id: string;
@@ -15,6 +53,11 @@ interface JobStep {
   model: string;
   latency: number;
   errorMessage?: string;
+  attempts?: StepAttempt[] | null;
+  promptTokens?: number | null;
+  completionTokens?: number | null;
+  reasoningTokens?: number | null;
+  cost?: number | null;
 }
 
 interface StepInspectionPanelProps {
@@ -24,6 +67,71 @@ interface StepInspectionPanelProps {
   rowIndex: number | null;
 }
 
+// Every candidate the reranker saw, best first, so it's clear why each chunk made the cut
+function RerankDetails({ trace, stepIndex }: { trace: RerankTrace; stepIndex: number }) {
+  return (
+    <div>
+      <h5 className="text-xs font-medium text-gray-700 mb-1">
+        Reranking ({trace.reranker}): kept {Math.min(trace.topK, trace.candidates)} of {trace.candidates}
+      </h5>
+      {trace.error && (
+        <div className="text-xs text-error-600 mb-1">Failed, retrieval order kept: {trace.error}</div>
+      )}
+      <div className="space-y-1 max-h-48 overflow-y-auto" data-testid={`list-rerank-${stepIndex}`}>
+        {trace.chunks.map((chunk) => (
+          <div
+            key={chunk.chunkId}
+            className={`text-xs p-2 rounded ${chunk.selected ? 'bg-green-50' : 'bg-gray-50 text-gray-400'}`}
+            title={chunk.reason}
+          >
+            <div className="flex items-center justify-between space-x-2">
+              <span className="truncate">{chunk.source}</span>
+              <span className="flex-shrink-0 font-mono">
+                {chunk.rerankScore !== null ? `${Math.round(chunk.rerankScore * 100)}%` : '—'}
+              </span>
+            </div>
+            <div className="text-gray-500">
+              Retrieval #{chunk.retrievalRank} • similarity {(chunk.similarity * 100).toFixed(1)}%
+              {chunk.reason && ` • ${chunk.reason}`}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// Which parts of the question multi-query retrieval found sources for
+function QueryCoverageDetails({ coverage, stepIndex }: { coverage: QueryCoverage; stepIndex: number }) {
+  return (
+    <div>
+      <h5 className="text-xs font-medium text-gray-700 mb-1">
+        Sub-query coverage: {coverage.subQueries.filter(subQuery => subQuery.covered).length} of {coverage.subQueries.length} have sources
+      </h5>
+      {coverage.error && (
+        <div className="text-xs text-error-600 mb-1">Decomposition failed, searched the whole question: {coverage.error}</div>
+      )}
+      <div className="space-y-1" data-testid={`list-query-coverage-${stepIndex}`}>
+        {coverage.subQueries.map((subQuery, subQueryIndex) => (
+          <div
+            key={subQueryIndex}
+            className={`text-xs p-2 rounded ${subQuery.covered ? 'bg-green-50' : 'bg-red-50 text-error-600'}`}
+            title={subQuery.hypotheticalAnswer}
+          >
+            <div className="flex items-center justify-between space-x-2">
+              <span>{subQuery.query}</span>
+              <span className="flex-shrink-0 font-mono">{(subQuery.topSimilarity * 100).toFixed(1)}%</span>
+            </div>
+            <div className="text-gray-500">
+              {subQuery.chunkCount} chunks found{!subQuery.covered && ' • no close source'}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 export function StepInspectionPanel({ open, onOpenChange, jobId, rowIndex }: StepInspectionPanelProps) {
   const [steps, setSteps] = useState<JobStep[]>([]);
   const [loading, setLoading] = useState(false);
@@ -60,6 +168,7 @@ export function StepInspectionPanel({ open, onOpenChange, jobId, rowIndex }: Ste
       completed: { variant: "default" as const, className: "bg-success-100 text-success-800" },
       running: { variant: "default" as const, className: "bg-primary-100 text-primary-800" },
       error: { variant: "destructive" as const, className: "" },
+      skipped: { variant: "outline" as const, className: "text-gray-500" },
       pending: { variant: "secondary" as const, className: "" },
     };
 
@@ -99,6 +208,12 @@ export function StepInspectionPanel({ open, onOpenChange, jobId, rowIndex }: Ste
                       <h4 className="text-sm font-semibold text-gray-900">{step.stepName}</h4>
                     </div>
                     <div className="flex items-center space-x-2">
+                      {step.attempts && step.attempts.length > 1 && (
+                        <Badge variant="outline" className="text-xs">
+                          <RotateCcw className="h-3 w-3 mr-1" />
+                          {step.attempts.length} attempts
+                        </Badge>
+                      )}
                       {getStatusBadge(step.status)}
                     </div>
                   </div>
@@ -118,6 +233,16 @@ export function StepInspectionPanel({ open, onOpenChange, jobId, rowIndex }: Ste
                         {step.model} | temp: 0.0
                       </div>
                     </div>
+
+                    {(step.promptTokens != null || step.completionTokens != null) && (
+                      <div>
+                        <h5 className="text-xs font-medium text-gray-700 mb-1">Usage</h5>
+                        <div className="text-xs text-gray-600 font-mono bg-gray-50 p-2 rounded" data-testid={`text-step-usage-${step.stepIndex}`}>
+                          {(step.promptTokens || 0).toLocaleString()} prompt | {(step.completionTokens || 0).toLocaleString()} completion
+                          {!!step.reasoningTokens && ` (${step.reasoningTokens.toLocaleString()} reasoning)`} | {formatCost(step.cost || 0)}
+                        </div>
+                      </div>
+                    )}
                     
                     {step.prompt && (
                       <div>
@@ -128,6 +253,14 @@ export function StepInspectionPanel({ open, onOpenChange, jobId, rowIndex }: Ste
                       </div>
                     )}
                     
+                    {step.outputData?.queryCoverage && (
+                      <QueryCoverageDetails coverage={step.outputData.queryCoverage as QueryCoverage} stepIndex={step.stepIndex} />
+                    )}
+                    
+                    {step.outputData?.rerank && (
+                      <RerankDetails trace={step.outputData.rerank as RerankTrace} stepIndex={step.stepIndex} />
+                    )}
+                    
                     {step.outputData && (
                       <div>
                         <h5 className="text-xs font-medium text-gray-700 mb-1">Output</h5>
@@ -140,6 +273,26 @@ export function StepInspectionPanel({ open, onOpenChange, jobId, rowIndex }: Ste
                       </div>
                     )}
                     
+                    {step.attempts && step.attempts.length > 1 && (
+                      <div>
+                        <h5 className="text-xs font-medium text-gray-700 mb-1">Attempts</h5>
+                        <div className="space-y-1">
+                          {step.attempts.map((attempt) => (
+                            <div key={attempt.attempt} className="flex items-center justify-between text-xs bg-gray-50 p-2 rounded">
+                              <span className="font-mono text-gray-600">#{attempt.attempt}</span>
+                              <span className={attempt.errorClass ? "text-error-600" : "text-green-700"}>
+                                {attempt.errorClass ? attempt.errorClass.replace('_', ' ') : 'ok'}
+                              </span>
+                              <span className="text-gray-500">{attempt.latency}ms</span>
+                              {attempt.retryDelayMs !== undefined && (
+                                <span className="text-gray-400">retry in {Math.round(attempt.retryDelayMs / 1000)}s</span>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                    
                     {step.errorMessage && (
                       <div>
                         <h5 className="text-xs font-medium text-error-700 mb-1">Error</h5>
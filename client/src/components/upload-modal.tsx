@@ -1,4 +1,5 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
@@ -16,14 +17,68 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { CloudUpload, FolderOpen, FileText, Plus, X, FileIcon, BookOpen } from "lucide-react";
+import { CloudUpload, FolderOpen, FileText, Plus, X, FileIcon, BookOpen, Calculator, Loader2, Filter } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { formatCost, formatTokens } from "@/lib/usage";
 
+// Mirrors MAX_JOB_CONCURRENCY on the server
+const CONCURRENCY_OPTIONS = [1, 2, 4, 6, 8, 10];
 
+interface PipelineOption {
+  id: string;
+  name: string;
+  isDefault: boolean;
+}
+
+// Mirrors KnowledgeScope in shared/schema.ts; an unset field doesn't filter
+interface KnowledgeScope {
+  domains?: string[];
+  productTags?: string[];
+  documentIds?: string[];
+  maxCacheAgeDays?: number;
+  languages?: string[];
+}
+
+interface KnowledgeScopeOptions {
+  domains: string[];
+  productTags: { tag: string; label: string }[];
+  languages: string[];
+}
+
+interface ReferenceDocumentOption {
+  id: string;
+  fileName: string;
+  cachingStatus: string;
+}
+
+const MAX_CACHE_AGE_OPTIONS = [30, 90, 180, 365];
+
+interface JobEstimate {
+  totalRows: number;
+  perRow: { tokens: number; cost: number; latency: number };
+  totalTokens: number;
+  totalCost: number;
+  durationMs: number;
+  basis: 'history' | 'partial' | 'prompt_size';
+}
+
+const ESTIMATE_BASIS_LABELS: Record<JobEstimate['basis'], string> = {
+  history: 'Based on earlier runs of this pipeline',
+  partial: 'Some steps have no earlier runs; their share is estimated from prompt sizes',
+  prompt_size: 'No earlier runs of this pipeline yet; estimated from prompt sizes',
+};
+
+const formatDuration = (ms: number): string => {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 1) return `${Math.max(1, Math.round(ms / 1000))}s`;
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
 
 interface UploadModalProps {
   open: boolean;
@@ -35,6 +90,9 @@ export function UploadModal({ open, onOpenChange, onUploadComplete }: UploadModa
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [jobName, setJobName] = useState("");
   const [priority, setPriority] = useState("normal");
+  const [concurrency, setConcurrency] = useState("1");
+  const [pipelineId, setPipelineId] = useState("");
+  const [continueOnRowFailure, setContinueOnRowFailure] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const [dragActive, setDragActive] = useState(false);
   
@@ -42,9 +100,61 @@ export function UploadModal({ open, onOpenChange, onUploadComplete }: UploadModa
   const [additionalDocuments, setAdditionalDocuments] = useState<File[]>([]);
   const [rfpInstructions, setRfpInstructions] = useState(getDefaultRfpInstructions());
   const [additionalDocsDragActive, setAdditionalDocsDragActive] = useState(false);
+  const [knowledgeScope, setKnowledgeScope] = useState<KnowledgeScope>({});
   
   const { toast } = useToast();
 
+  const { data: pipelines = [] } = useQuery<PipelineOption[]>({
+    queryKey: ['/api/pipelines'],
+    enabled: open,
+  });
+
+  const { data: scopeOptions } = useQuery<KnowledgeScopeOptions>({
+    queryKey: ['/api/knowledge-scope/options'],
+    enabled: open,
+  });
+
+  const { data: referenceDocuments = [] } = useQuery<ReferenceDocumentOption[]>({
+    queryKey: ['/api/reference-documents'],
+    enabled: open,
+  });
+
+  // Unchecking the last value of a list clears that filter
+  const toggleScopeValue = (field: 'domains' | 'productTags' | 'documentIds' | 'languages', value: string, checked: boolean) => {
+    setKnowledgeScope(prev => {
+      const values = (prev[field] || []).filter(existing => existing !== value);
+      if (checked) values.push(value);
+      return { ...prev, [field]: values.length > 0 ? values : undefined };
+    });
+  };
+
+  const isScoped = Object.values(knowledgeScope).some(value => value !== undefined);
+
+  useEffect(() => {
+    if (!pipelineId && pipelines.length > 0) {
+      setPipelineId((pipelines.find(pipeline => pipeline.isDefault) || pipelines[0]).id);
+    }
+  }, [pipelines, pipelineId]);
+
+  // Re-estimated whenever the file, pipeline or concurrency changes
+  const { data: estimate, isFetching: isEstimating, error: estimateError } = useQuery<JobEstimate>({
+    queryKey: ['/api/jobs/estimate', selectedFile?.name, selectedFile?.size, selectedFile?.lastModified, pipelineId, concurrency],
+    queryFn: async () => {
+      const formData = new FormData();
+      formData.append('csvFile', selectedFile!);
+      formData.append('pipelineId', pipelineId);
+      formData.append('concurrency', concurrency);
+      const response = await fetch('/api/jobs/estimate', { method: 'POST', body: formData, credentials: 'include' });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to estimate job');
+      }
+      return result;
+    },
+    enabled: open && !!selectedFile && !!pipelineId,
+    retry: false,
+  });
+
   function getDefaultRfpInstructions(): string {
     return `# Default RFP Response Instructions
 
@@ -188,9 +298,16 @@ Please customize these instructions based on the specific RFP requirements and y
       const formData = new FormData();
       formData.append('csvFile', selectedFile);
       formData.append('name', jobName || selectedFile.name);
-      // Use default pipeline - backend will handle this
+      if (pipelineId) {
+        formData.append('pipelineId', pipelineId);
+      }
       formData.append('priority', priority);
+      formData.append('concurrency', concurrency);
+      formData.append('continueOnRowFailure', String(continueOnRowFailure));
       formData.append('rfpInstructions', rfpInstructions);
+      if (isScoped) {
+        formData.append('knowledgeScope', JSON.stringify(knowledgeScope));
+      }
       
       // Add additional documents
       additionalDocuments.forEach((file, index) => {
@@ -222,8 +339,12 @@ Please customize these instructions based on the specific RFP requirements and y
       setSelectedFile(null);
       setJobName("");
       setPriority("normal");
+      setConcurrency("1");
+      setPipelineId("");
+      setContinueOnRowFailure(false);
       setAdditionalDocuments([]);
       setRfpInstructions(getDefaultRfpInstructions());
+      setKnowledgeScope({});
       
       onUploadComplete();
       onOpenChange(false);
@@ -433,7 +554,112 @@ Please customize these instructions based on the specific RFP requirements and y
             </ScrollArea>
           </div>
 
+          <Separator />
 
+          {/* Knowledge Scope Section */}
+          <div className="space-y-4" data-testid="section-knowledge-scope">
+            <div>
+              <Label className="text-base font-semibold flex items-center gap-2">
+                <Filter className="w-4 h-4" />
+                Knowledge Scope (Optional)
+              </Label>
+              <p className="text-sm text-gray-500 mt-1">
+                Limit the sources retrieval may use, e.g. only Segment docs for a Segment RFP. Leave a group empty to search all of it.
+              </p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <p className="text-sm font-medium mb-2">Domains</p>
+                <div className="space-y-2">
+                  {scopeOptions?.domains.map((domain) => (
+                    <label key={domain} className="flex items-center space-x-2 text-sm">
+                      <Checkbox
+                        checked={knowledgeScope.domains?.includes(domain) ?? false}
+                        onCheckedChange={(checked) => toggleScopeValue('domains', domain, checked === true)}
+                        data-testid={`checkbox-scope-domain-${domain}`}
+                      />
+                      <span>{domain}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <p className="text-sm font-medium mb-2">Products</p>
+                <div className="space-y-2">
+                  {scopeOptions?.productTags.map(({ tag, label }) => (
+                    <label key={tag} className="flex items-center space-x-2 text-sm">
+                      <Checkbox
+                        checked={knowledgeScope.productTags?.includes(tag) ?? false}
+                        onCheckedChange={(checked) => toggleScopeValue('productTags', tag, checked === true)}
+                        data-testid={`checkbox-scope-product-${tag}`}
+                      />
+                      <span>{label}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <p className="text-sm font-medium mb-2">Reference Documents</p>
+                {referenceDocuments.length === 0 ? (
+                  <p className="text-xs text-gray-500">No reference documents uploaded</p>
+                ) : (
+                  <div className="space-y-2 max-h-32 overflow-y-auto">
+                    {referenceDocuments.map((document) => (
+                      <label key={document.id} className="flex items-center space-x-2 text-sm">
+                        <Checkbox
+                          checked={knowledgeScope.documentIds?.includes(document.id) ?? false}
+                          onCheckedChange={(checked) => toggleScopeValue('documentIds', document.id, checked === true)}
+                          data-testid={`checkbox-scope-document-${document.id}`}
+                        />
+                        <span className="truncate">{document.fileName}</span>
+                        {document.cachingStatus !== 'completed' && (
+                          <Badge variant="secondary" className="text-xs">{document.cachingStatus}</Badge>
+                        )}
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <div className="space-y-4">
+                <div>
+                  <Label htmlFor="scope-max-cache-age">Cache age</Label>
+                  <Select
+                    value={knowledgeScope.maxCacheAgeDays ? String(knowledgeScope.maxCacheAgeDays) : 'any'}
+                    onValueChange={(value) => setKnowledgeScope(prev => ({ ...prev, maxCacheAgeDays: value === 'any' ? undefined : parseInt(value, 10) }))}
+                  >
+                    <SelectTrigger id="scope-max-cache-age" data-testid="select-scope-max-cache-age">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="any">Any age</SelectItem>
+                      {MAX_CACHE_AGE_OPTIONS.map((days) => (
+                        <SelectItem key={days} value={String(days)}>Cached in the last {days} days</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {(scopeOptions?.languages.length ?? 0) > 1 && (
+                  <div>
+                    <p className="text-sm font-medium mb-2">Languages</p>
+                    <div className="flex flex-wrap gap-3">
+                      {scopeOptions?.languages.map((language) => (
+                        <label key={language} className="flex items-center space-x-2 text-sm">
+                          <Checkbox
+                            checked={knowledgeScope.languages?.includes(language) ?? false}
+                            onCheckedChange={(checked) => toggleScopeValue('languages', language, checked === true)}
+                            data-testid={`checkbox-scope-language-${language}`}
+                          />
+                          <span>{language}</span>
+                        </label>
+                      ))}
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">Documents and pages with no recorded language are always included</p>
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
 
           {/* Job Settings */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -447,6 +673,21 @@ Please customize these instructions based on the specific RFP requirements and y
                 onChange={(e) => setJobName(e.target.value)}
               />
             </div>
+            <div>
+              <Label htmlFor="pipeline">Pipeline</Label>
+              <Select value={pipelineId} onValueChange={setPipelineId}>
+                <SelectTrigger id="pipeline" data-testid="select-job-pipeline">
+                  <SelectValue placeholder="Default pipeline" />
+                </SelectTrigger>
+                <SelectContent>
+                  {pipelines.map((pipeline) => (
+                    <SelectItem key={pipeline.id} value={pipeline.id}>
+                      {pipeline.name}{pipeline.isDefault ? " (default)" : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
             <div>
               <Label htmlFor="priority">Priority</Label>
               <Select value={priority} onValueChange={setPriority}>
@@ -460,8 +701,75 @@ Please customize these instructions based on the specific RFP requirements and y
                 </SelectContent>
               </Select>
             </div>
+            <div>
+              <Label htmlFor="concurrency">Parallel Rows</Label>
+              <Select value={concurrency} onValueChange={setConcurrency}>
+                <SelectTrigger id="concurrency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CONCURRENCY_OPTIONS.map((value) => (
+                    <SelectItem key={value} value={String(value)}>
+                      {value === 1 ? "1 (sequential)" : `${value} rows at a time`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-gray-500 mt-1">
+                Rows that reference earlier questions still wait for those answers
+              </p>
+            </div>
+            <div className="flex items-start space-x-2">
+              <Checkbox
+                id="continueOnRowFailure"
+                checked={continueOnRowFailure}
+                onCheckedChange={(checked) => setContinueOnRowFailure(checked === true)}
+              />
+              <div>
+                <Label htmlFor="continueOnRowFailure">Continue on row failure</Label>
+                <p className="text-xs text-gray-500 mt-1">
+                  Mark failed rows and keep processing; retry them once the job finishes
+                </p>
+              </div>
+            </div>
           </div>
 
+          {/* Estimate */}
+          {selectedFile && (
+            <div className="rounded-lg border bg-gray-50 p-4" data-testid="panel-job-estimate">
+              <div className="flex items-center gap-2 text-sm font-semibold text-gray-900">
+                <Calculator className="w-4 h-4" />
+                Estimate
+                {isEstimating && <Loader2 className="w-4 h-4 animate-spin text-gray-400" />}
+              </div>
+              {estimateError ? (
+                <p className="text-sm text-red-600 mt-2">{(estimateError as Error).message}</p>
+              ) : estimate ? (
+                <div className="mt-2 space-y-2">
+                  <div className="grid grid-cols-3 gap-4">
+                    <div>
+                      <p className="text-xs text-gray-500">Tokens</p>
+                      <p className="text-lg font-medium" data-testid="text-estimate-tokens">{formatTokens(estimate.totalTokens)}</p>
+                    </div>
+                    <div>
+                      <p className="text-xs text-gray-500">Cost</p>
+                      <p className="text-lg font-medium" data-testid="text-estimate-cost">{formatCost(estimate.totalCost)}</p>
+                    </div>
+                    <div>
+                      <p className="text-xs text-gray-500">Time</p>
+                      <p className="text-lg font-medium" data-testid="text-estimate-duration">~{formatDuration(estimate.durationMs)}</p>
+                    </div>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    {estimate.totalRows} rows at {formatCost(estimate.perRow.cost)} and ~{formatDuration(estimate.perRow.latency)} each. {ESTIMATE_BASIS_LABELS[estimate.basis]}.
+                  </p>
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500 mt-2">Calculating...</p>
+              )}
+            </div>
+          )}
+
           {/* Action Buttons */}
           <div className="flex justify-end space-x-3">
             <Button 
@@ -0,0 +1,69 @@
+import { CitedAnswer, type Citation } from "@/components/cited-answer";
+
+export type ClaimVerdict = 'supported' | 'partial' | 'unsupported';
+
+export interface VerifiedClaim {
+  text: string;
+  start: number;
+  end: number;
+  verdict: ClaimVerdict;
+  similarity: number;
+  chunkId: string | null;
+  explanation: string;
+}
+
+export interface ClaimVerification {
+  stepName: string;
+  groundingScore: number;
+  claims: VerifiedClaim[];
+}
+
+interface VerifiedAnswerProps {
+  text: string;
+  claims: VerifiedClaim[];
+  citations?: Citation[];
+}
+
+const VERDICT_STYLES: Record<ClaimVerdict, string> = {
+  supported: '',
+  partial: 'bg-yellow-100 decoration-yellow-500',
+  unsupported: 'bg-red-100 underline decoration-red-500 decoration-wavy',
+};
+
+const VERDICT_LABELS: Record<ClaimVerdict, string> = {
+  supported: 'Supported',
+  partial: 'Partially supported',
+  unsupported: 'Unsupported',
+};
+
+/**
+ * An answer with its unsupported and partially supported claims highlighted for reviewers.
+ * The text may be a truncated prefix of the verified answer; claims past its end are dropped.
+ */
+export function VerifiedAnswer({ text, claims, citations = [] }: VerifiedAnswerProps) {
+  const renderText = (value: string) => citations.length > 0 ? <CitedAnswer text={value} citations={citations} /> : value;
+  const flagged = claims
+    .filter(claim => claim.verdict !== 'supported' && claim.start < text.length)
+    .sort((a, b) => a.start - b.start);
+
+  const parts: JSX.Element[] = [];
+  let lastIndex = 0;
+  flagged.forEach((claim, index) => {
+    const end = Math.min(claim.end, text.length);
+    parts.push(<span key={`text-${index}`}>{renderText(text.slice(lastIndex, claim.start))}</span>);
+    parts.push(
+      <span
+        key={`claim-${index}`}
+        className={VERDICT_STYLES[claim.verdict]}
+        title={`${VERDICT_LABELS[claim.verdict]}: ${claim.explanation}`}
+        data-testid={`claim-${claim.verdict}-${index}`}
+      >
+        {renderText(text.slice(claim.start, end))}
+      </span>
+    );
+    lastIndex = end;
+  });
+  parts.push(<span key="text-end">{renderText(text.slice(lastIndex))}</span>);
+
+  return <>{parts}</>;
+}
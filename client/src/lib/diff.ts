@@ -0,0 +1,102 @@
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Above this many cells the LCS table gets too large to build in the browser
+const MAX_LCS_CELLS = 2_000_000;
+
+/**
+ * Line-by-line diff using the longest common subsequence
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before ? before.split('\n') : [];
+  const b = after ? after.split('\n') : [];
+
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    return [
+      ...a.map(text => ({ type: 'removed' as const, text })),
+      ...b.map(text => ({ type: 'added' as const, text })),
+    ];
+  }
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      lines.push({ type: 'removed', text: a[i++] });
+    } else {
+      lines.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) lines.push({ type: 'added', text: b[j++] });
+
+  return lines;
+}
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface ItemChange<T> {
+  key: string;
+  status: 'added' | 'removed' | 'changed' | 'unchanged';
+  before?: T;
+  after?: T;
+  changes: FieldChange[];
+}
+
+const serialize = (value: unknown) => value === undefined ? '' : JSON.stringify(value);
+
+/**
+ * Match two lists of objects by key and report which fields differ
+ */
+export function diffByKey<T extends Record<string, any>>(
+  before: T[],
+  after: T[],
+  getKey: (item: T) => string
+): ItemChange<T>[] {
+  const beforeByKey = new Map(before.map(item => [getKey(item), item]));
+  const afterKeys = new Set(after.map(getKey));
+  const result: ItemChange<T>[] = [];
+
+  after.forEach(item => {
+    const key = getKey(item);
+    const previous = beforeByKey.get(key);
+    if (!previous) {
+      result.push({ key, status: 'added', after: item, changes: [] });
+      return;
+    }
+
+    const fields = Array.from(new Set([...Object.keys(previous), ...Object.keys(item)]));
+    const changes = fields
+      .filter(field => serialize(previous[field]) !== serialize(item[field]))
+      .map(field => ({ field, before: previous[field], after: item[field] }));
+    result.push({ key, status: changes.length > 0 ? 'changed' : 'unchanged', before: previous, after: item, changes });
+  });
+
+  before.forEach(item => {
+    const key = getKey(item);
+    if (!afterKeys.has(key)) {
+      result.push({ key, status: 'removed', before: item, changes: [] });
+    }
+  });
+
+  return result;
+}
@@ -0,0 +1,29 @@
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  reasoningTokens: number;
+  totalTokens: number;
+  cost: number;
+}
+
+export function formatTokens(tokens: number | null | undefined): string {
+  if (tokens === null || tokens === undefined) return '—';
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 10_000) return `${Math.round(tokens / 1000)}k`;
+  return tokens.toLocaleString();
+}
+
+/**
+ * Dollar amount with enough precision that single-step costs do not round to $0.00
+ */
+export function formatCost(cost: number | null | undefined): string {
+  if (cost === null || cost === undefined) return '—';
+  if (cost === 0) return '$0.00';
+  if (cost < 0.01) return `$${cost.toFixed(4)}`;
+  return `$${cost.toFixed(2)}`;
+}
+
+export function formatUsage(usage: TokenUsage | null | undefined): string {
+  if (!usage || usage.totalTokens === 0) return '';
+  return `${formatTokens(usage.totalTokens)} tokens • ${formatCost(usage.cost)}`;
+}
@@ -1,7 +1,7 @@
 import { useState, useEffect } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
-import { Bell, Settings, Upload, ChevronDown, User, Cog, LogOut } from "lucide-react";
+import { Bell, Settings, Upload, ChevronDown, User, Cog, LogOut, Wallet } from "lucide-react";
 import { useLocation } from "wouter";
 import {
   DropdownMenu,
@@ -13,6 +13,7 @@ import {
 import { StatsCards } from "@/components/stats-cards";
 import { JobTable } from "@/components/job-table";
 import { UploadModal } from "@/components/upload-modal";
+import { SpendLimitsDialog } from "@/components/spend-limits-dialog";
 import { useWebSocket } from "@/hooks/use-websocket";
 import { useAuth } from "@/hooks/useAuth";
 import { isUnauthorizedError } from "@/lib/authUtils";
@@ -28,6 +29,7 @@ interface ProcessingLog {
 
 export default function Dashboard() {
   const [uploadModalOpen, setUploadModalOpen] = useState(false);
+  const [spendLimitsOpen, setSpendLimitsOpen] = useState(false);
   const [processingLogs, setProcessingLogs] = useState<ProcessingLog[]>([]);
   const [activeJobs, setActiveJobs] = useState<Set<string>>(new Set());
   const [, setLocation] = useLocation();
@@ -109,6 +111,14 @@ export default function Dashboard() {
           queryClient.invalidateQueries({ queryKey: ['/api/jobs'] });
           queryClient.invalidateQueries({ queryKey: ['/api/user/stats'] });
           break;
+
+        case 'spendLimitReached':
+          toast({
+            title: "Spend Limit Reached",
+            description: data?.message,
+            variant: "destructive",
+          });
+          break;
           
         case 'processing_log':
           // Handle detailed processing logs
@@ -247,6 +257,12 @@ export default function Dashboard() {
               <p className="text-gray-600 mt-1">Manage your RFP processing jobs and AI pipelines</p>
             </div>
             <div className="mt-4 sm:mt-0 flex space-x-3">
+              {(user as any)?.isAdmin && (
+                <Button variant="outline" onClick={() => setSpendLimitsOpen(true)} data-testid="button-spend-limits">
+                  <Wallet className="mr-2 h-4 w-4" />
+                  Spend Limits
+                </Button>
+              )}
               <Button variant="outline" onClick={() => setLocation('/pipeline')}>
                 <Cog className="mr-2 h-4 w-4" />
                 Edit AI Pipeline
@@ -260,8 +276,8 @@ export default function Dashboard() {
 
           {/* Quick Stats */}
           {statsLoading ? (
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
-              {[...Array(3)].map((_, i) => (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+              {[...Array(4)].map((_, i) => (
                 <div key={i} className="bg-white rounded-xl p-6 shadow-sm border border-gray-100 animate-pulse">
                   <div className="h-4 bg-gray-200 rounded w-1/2 mb-2"></div>
                   <div className="h-8 bg-gray-200 rounded w-1/3"></div>
@@ -333,6 +349,8 @@ export default function Dashboard() {
         onOpenChange={setUploadModalOpen}
         onUploadComplete={handleUploadComplete}
       />
+
+      <SpendLimitsDialog open={spendLimitsOpen} onOpenChange={setSpendLimitsOpen} />
     </div>
   );
 }
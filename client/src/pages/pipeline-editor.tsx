@@ -9,26 +9,137 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
-import { ArrowLeft, ArrowRight, Save, Settings, Zap, Brain, Target, Trash2, Upload, FileText, CheckCircle, Loader2, AlertCircle, Link, Plus, ExternalLink, ChevronDown, ChevronRight, FolderOpen, Folder, File, Globe, X } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ArrowLeft, ArrowRight, Download, Save, Pencil, Settings, Zap, Brain, Target, Trash2, Upload, FileText, CheckCircle, Loader2, AlertCircle, Link, Plus, ExternalLink, ChevronDown, ChevronRight, FolderOpen, Folder, File, Globe, X } from "lucide-react";
 import { authService } from "@/lib/auth";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { ProcessingStatusIcon, formatPayloadSize } from "@/components/ProcessingStatusIcon";
+import { PipelineGraph } from "@/components/pipeline-graph";
+import { PipelineVersionHistory } from "@/components/pipeline-version-history";
+import { PipelinePlayground } from "@/components/pipeline-playground";
+
+type ConditionOperator = 'equals' | 'not_equals' | 'contains' | 'not_contains' | 'exists' | 'not_exists' | 'greater_than' | 'less_than';
+
+interface StepCondition {
+  mode: 'run_if' | 'skip_if';
+  variable: string;
+  operator: ConditionOperator;
+  value?: string;
+}
 
 interface PipelineStep {
+  id?: string;
   name: string;
+  type?: string;
   model: string;
   tools: string[];
   maxTokens: number;
   temperature: number;
   systemPrompt: string;
   userPrompt: string;
+  inputs?: string[];
+  condition?: StepCondition;
+  outputSchema?: Record<string, any>;
+  rerank?: { reranker?: 'llm' | 'cross-encoder' | 'mock'; candidates?: number; topK?: number; model?: string };
+  queryExpansion?: { maxSubQueries?: number; hyde?: boolean; model?: string };
+}
+
+interface StepTypeInfo {
+  type: string;
+  label: string;
+  description: string;
+  variables: string[];
+  requires: string[];
+  structuredOutput: boolean;
+}
+
+interface StepTemplateValidation {
+  stepIndex: number;
+  stepName: string;
+  field: 'systemPrompt' | 'userPrompt';
+  errors: { message: string; line: number }[];
+  unknownVariables: string[];
 }
 
+// Mirrors the legacy name fallback in server/services/stepExecutors.ts
+const LEGACY_STEP_TYPES: Record<string, string> = {
+  'Reference Research': 'retrieval',
+  'Generic Draft Generation': 'draft',
+  'Response Generation': 'draft',
+  'Tailored RFP Response': 'tailor',
+};
+
+const getStepType = (step: PipelineStep) => step.type || LEGACY_STEP_TYPES[step.name] || 'llm';
+
+const CONDITION_OPERATORS: { value: ConditionOperator; label: string }[] = [
+  { value: 'equals', label: 'equals' },
+  { value: 'not_equals', label: 'does not equal' },
+  { value: 'contains', label: 'contains' },
+  { value: 'not_contains', label: 'does not contain' },
+  { value: 'exists', label: 'has a value' },
+  { value: 'not_exists', label: 'is empty' },
+  { value: 'greater_than', label: 'is greater than' },
+  { value: 'less_than', label: 'is less than' },
+];
+
+const stepMatches = (step: PipelineStep, reference: string) => (step.id || step.name) === reference || step.name === reference;
+
+// Mirrors the dependency rules in server/services/pipelineGraph.ts
+const getStepDependencies = (steps: PipelineStep[], index: number, stepTypes: StepTypeInfo[]): number[] => {
+  const step = steps[index];
+  const dependencies = new Set<number>();
+
+  if (!Array.isArray(step.inputs)) {
+    steps.slice(0, index).forEach((_, previous) => dependencies.add(previous));
+  } else {
+    step.inputs.forEach(input => {
+      const inputIndex = steps.findIndex(candidate => stepMatches(candidate, input));
+      if (inputIndex !== -1) dependencies.add(inputIndex);
+    });
+    const requires = stepTypes.find(stepType => stepType.type === getStepType(step))?.requires || [];
+    requires.forEach(type => {
+      const requiredIndex = steps.findIndex(candidate => getStepType(candidate) === type);
+      if (requiredIndex !== -1) dependencies.add(requiredIndex);
+    });
+  }
+
+  if (step.condition?.variable) {
+    const variable = step.condition.variable.trim();
+    let conditionIndex = steps.findIndex(candidate => stepMatches(candidate, variable));
+    if (conditionIndex === -1) {
+      conditionIndex = steps.findIndex(candidate => stepMatches(candidate, variable.split('.')[0].trim()));
+    }
+    if (conditionIndex !== -1) dependencies.add(conditionIndex);
+  }
+
+  dependencies.delete(index);
+  return Array.from(dependencies).sort((a, b) => a - b);
+};
+
+const OUTPUT_SCHEMA_PLACEHOLDER = JSON.stringify({
+  type: 'object',
+  properties: {
+    answer: { type: 'string' },
+    confidence: { type: 'number', minimum: 0, maximum: 1 },
+    citations: { type: 'array', items: { type: 'string' } },
+    compliance: { type: 'string', enum: ['yes', 'no', 'partial'] }
+  },
+  required: ['answer', 'compliance']
+}, null, 2);
+
+const describeCondition = (condition: StepCondition) => {
+  const operator = CONDITION_OPERATORS.find(option => option.value === condition.operator)?.label || condition.operator;
+  const value = condition.operator === 'exists' || condition.operator === 'not_exists' ? '' : ` "${condition.value || ''}"`;
+  return `${condition.mode === 'skip_if' ? 'Skip if' : 'Run only if'} ${condition.variable} ${operator}${value}`;
+};
+
 interface Pipeline {
   id: string;
   name: string;
   steps: PipelineStep[];
+  currentVersion: number;
 }
 
 interface ReferenceDocument {
@@ -54,6 +165,11 @@ export default function PipelineEditor() {
   const [, setLocation] = useLocation();
   const [editingStep, setEditingStep] = useState<number | null>(null);
   const [editedStep, setEditedStep] = useState<PipelineStep | null>(null);
+  const [columnInputs, setColumnInputs] = useState('');
+  const [outputSchemaText, setOutputSchemaText] = useState('');
+  const [templateIssues, setTemplateIssues] = useState<StepTemplateValidation[] | null>(null);
+  const [graphIssues, setGraphIssues] = useState<string[]>([]);
+  const [isValidating, setIsValidating] = useState(false);
   const [uploadingFile, setUploadingFile] = useState(false);
   const [uploadingCount, setUploadingCount] = useState(0);
   const [totalUploads, setTotalUploads] = useState(0);
@@ -65,6 +181,8 @@ export default function PipelineEditor() {
   const [referencesOpen, setReferencesOpen] = useState(true);
   const [pipelineStepsOpen, setPipelineStepsOpen] = useState(true);
   const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const bundleInputRef = useRef<HTMLInputElement | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
   const user = authService.getCurrentUser();
   const queryClient = useQueryClient();
   const { toast } = useToast();
@@ -285,6 +403,296 @@ export default function PipelineEditor() {
     }).then(res => res.json()),
   });
 
+  const { data: stepTypes = [] } = useQuery<StepTypeInfo[]>({
+    queryKey: ['/api/pipelines/step-types'],
+    queryFn: () => fetch('/api/pipelines/step-types', {
+      credentials: 'include',
+      headers: { 'x-user-id': user?.id || 'user-1' }
+    }).then(res => res.json()),
+  });
+
+  // Only step types that send the schema to the model can declare one
+  const editedStepSupportsSchema = !!editedStep && !!stepTypes.find(stepType => stepType.type === editedStep.type)?.structuredOutput;
+
+  const saveStepsMutation = useMutation({
+    mutationFn: async (steps: PipelineStep[]) => {
+      const response = await fetch(`/api/pipelines/${pipeline.id}`, {
+        method: 'PUT',
+        credentials: 'include',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-user-id': user?.id || 'user-1'
+        },
+        body: JSON.stringify({ name: pipeline.name, steps })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || errorData.message || 'Failed to save pipeline');
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/pipelines/default'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/pipelines', pipeline.id, 'versions'] });
+      setEditingStep(null);
+      setEditedStep(null);
+      setTemplateIssues(null);
+      setGraphIssues([]);
+      toast({
+        title: 'Pipeline Saved',
+        description: 'Step configuration has been updated'
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Save Failed',
+        description: error instanceof Error ? error.message : 'Failed to save pipeline',
+        variant: 'destructive'
+      });
+    }
+  });
+
+  const handleExportPipeline = async (format: 'json' | 'yaml') => {
+    try {
+      const response = await fetch(`/api/pipelines/${pipeline.id}/export?format=${format}`, {
+        credentials: 'include',
+        headers: { 'x-user-id': user?.id || 'user-1' }
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to export pipeline');
+      }
+
+      const fileName = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] || `pipeline.${format}`;
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({
+        title: 'Export Failed',
+        description: error instanceof Error ? error.message : 'Failed to export pipeline',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  // Imported bundles become a new version of this pipeline, so they can be rolled back
+  const handleImportPipeline = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setIsImporting(true);
+    try {
+      const response = await fetch('/api/pipelines/import', {
+        method: 'POST',
+        credentials: 'include',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-user-id': user?.id || 'user-1'
+        },
+        body: JSON.stringify({ content: await file.text(), pipelineId: pipeline.id })
+      });
+
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        const issues: string[] = result.issues || [];
+        throw new Error([result.error || 'Failed to import pipeline', ...issues.slice(0, 3)].join(' — '));
+      }
+
+      queryClient.invalidateQueries({ queryKey: ['/api/pipelines/default'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/pipelines', pipeline.id, 'versions'] });
+      toast({
+        title: 'Pipeline Imported',
+        description: `${file.name} was saved as version ${result.currentVersion}`
+      });
+    } catch (error) {
+      toast({
+        title: 'Import Failed',
+        description: error instanceof Error ? error.message : 'Failed to import pipeline',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleEditStep = (index: number) => {
+    const step = pipeline.steps[index];
+    const inputs: string[] | undefined = step.inputs;
+    setEditingStep(index);
+    setEditedStep({
+      ...step,
+      type: getStepType(step),
+      inputs: inputs?.filter(input => pipeline.steps.some((candidate: PipelineStep) => stepMatches(candidate, input)))
+    });
+    setColumnInputs((inputs || []).filter(input => !pipeline.steps.some((candidate: PipelineStep) => stepMatches(candidate, input))).join(', '));
+    setOutputSchemaText(step.outputSchema ? JSON.stringify(step.outputSchema, null, 2) : '');
+    setTemplateIssues(null);
+    setGraphIssues([]);
+  };
+
+  const handleAddStep = () => {
+    setEditingStep(pipeline.steps.length);
+    setEditedStep({
+      name: `Step ${pipeline.steps.length + 1}`,
+      type: 'llm',
+      model: 'gpt-4o',
+      tools: [],
+      maxTokens: 1000,
+      temperature: 0.7,
+      systemPrompt: '',
+      userPrompt: '{{FULL_CONTEXTUAL_QUESTION}}',
+      inputs: []
+    });
+    setColumnInputs('');
+    setOutputSchemaText('');
+    setTemplateIssues(null);
+    setGraphIssues([]);
+  };
+
+  const handleCancelEdit = () => {
+    setEditingStep(null);
+    setEditedStep(null);
+    setTemplateIssues(null);
+    setGraphIssues([]);
+  };
+
+  // Empty text removes the schema; text that isn't JSON is reported on save
+  const parseOutputSchemaText = (): { schema?: Record<string, any>; error?: string } => {
+    if (!outputSchemaText.trim()) return {};
+    try {
+      return { schema: JSON.parse(outputSchemaText) };
+    } catch {
+      return { error: 'Output schema is not valid JSON' };
+    }
+  };
+
+  // Step inputs with the column inputs merged back in; undefined keeps "after all earlier steps"
+  const buildEditedStep = (): PipelineStep | null => {
+    if (!editedStep || editingStep === null) return null;
+    const columns = columnInputs.split(',').map(column => column.trim()).filter(Boolean);
+    const outputSchema = editedStepSupportsSchema ? parseOutputSchemaText().schema : undefined;
+    // Only draft steps retrieve chunks to expand queries for and rerank
+    const rerank = editedStep.type === 'draft' ? editedStep.rerank : undefined;
+    const queryExpansion = editedStep.type === 'draft' ? editedStep.queryExpansion : undefined;
+    if (!editedStep.inputs && columns.length === 0) {
+      return { ...editedStep, inputs: undefined, outputSchema, rerank, queryExpansion };
+    }
+    const stepInputs: string[] = editedStep.inputs ?? pipeline.steps.slice(0, editingStep).map((step: PipelineStep) => step.id || step.name);
+    return { ...editedStep, inputs: [...stepInputs, ...columns], outputSchema, rerank, queryExpansion };
+  };
+
+  const getStepsWithEdit = (): PipelineStep[] => {
+    const edited = buildEditedStep();
+    if (!edited || editingStep === null) return pipeline.steps;
+
+    const original: PipelineStep | undefined = pipeline.steps[editingStep];
+    const renamed = original && !original.id && original.name !== edited.name ? original.name : null;
+    const steps = pipeline.steps.map((step: PipelineStep, index: number) => {
+      if (index === editingStep) return edited;
+      if (!renamed) return step;
+      // Other steps refer to this one by name, so follow the rename
+      return {
+        ...step,
+        inputs: step.inputs?.map(input => input === renamed ? edited.name : input),
+        condition: step.condition && (step.condition.variable === renamed || step.condition.variable.startsWith(`${renamed}.`))
+          ? { ...step.condition, variable: edited.name + step.condition.variable.slice(renamed.length) }
+          : step.condition
+      };
+    });
+    return editingStep === pipeline.steps.length ? [...steps, edited] : steps;
+  };
+
+  const handleDeleteStep = () => {
+    if (editingStep === null || editingStep >= pipeline.steps.length) return;
+    const removed: PipelineStep = pipeline.steps[editingStep];
+    const steps = pipeline.steps
+      .filter((_: PipelineStep, index: number) => index !== editingStep)
+      .map((step: PipelineStep) => ({
+        ...step,
+        inputs: step.inputs?.filter(input => !stepMatches(removed, input))
+      }));
+    saveStepsMutation.mutate(steps);
+  };
+
+  const toggleStepInput = (reference: string, checked: boolean) => {
+    if (!editedStep || editingStep === null) return;
+    const current: string[] = editedStep.inputs ?? pipeline.steps.slice(0, editingStep).map((step: PipelineStep) => step.id || step.name);
+    const inputs = checked ? [...current, reference] : current.filter(input => input !== reference);
+    setEditedStep({ ...editedStep, inputs });
+  };
+
+  // Returns the issues for the step being edited, or null if validation could not run
+  const validateEditedStep = async (): Promise<{ issues: StepTemplateValidation[]; graphIssues: string[]; schemaIssues: string[] } | null> => {
+    setIsValidating(true);
+    try {
+      const response = await fetch('/api/pipelines/validate-templates', {
+        method: 'POST',
+        credentials: 'include',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-user-id': user?.id || 'user-1'
+        },
+        body: JSON.stringify({ steps: getStepsWithEdit() })
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to validate templates');
+      }
+
+      const result = await response.json();
+      const issues = (result.issues as StepTemplateValidation[]).filter(issue => issue.stepIndex === editingStep);
+      setTemplateIssues(issues);
+      setGraphIssues([...(result.graphIssues || []), ...(result.schemaIssues || [])]);
+      return { issues, graphIssues: result.graphIssues || [], schemaIssues: result.schemaIssues || [] };
+    } catch (error) {
+      toast({
+        title: 'Validation Failed',
+        description: error instanceof Error ? error.message : 'Failed to validate templates',
+        variant: 'destructive'
+      });
+      return null;
+    } finally {
+      setIsValidating(false);
+    }
+  };
+
+  const handleSaveStep = async () => {
+    if (editingStep === null || !editedStep) return;
+
+    const schemaError = editedStepSupportsSchema ? parseOutputSchemaText().error : undefined;
+    if (schemaError) {
+      toast({ title: 'Invalid Output Schema', description: schemaError, variant: 'destructive' });
+      return;
+    }
+
+    // Syntax errors, cycles and bad schemas would fail every row, so they block the save; unknown variables are only warnings
+    const validation = await validateEditedStep();
+    if (validation && (validation.graphIssues.length > 0 || validation.schemaIssues.length > 0 || validation.issues.some(issue => issue.errors.length > 0))) {
+      toast({
+        title: validation.graphIssues.length > 0 ? 'Invalid Pipeline Graph' : validation.schemaIssues.length > 0 ? 'Invalid Output Schema' : 'Template Errors',
+        description: validation.graphIssues[0] || validation.schemaIssues[0] || 'Fix the template syntax errors before saving',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    saveStepsMutation.mutate(getStepsWithEdit());
+  };
+
+  const getFieldLabel = (field: StepTemplateValidation['field']) =>
+    field === 'systemPrompt' ? 'System prompt' : 'User prompt';
+
+  const getStepTypeLabel = (type: string) =>
+    stepTypes.find(stepType => stepType.type === type)?.label || type;
+
   const { data: referenceDocuments = [], isLoading: documentsLoading } = useQuery({
     queryKey: ['/api/reference-documents'],
     queryFn: () => fetch('/api/reference-documents', {
@@ -310,6 +718,385 @@ export default function PipelineEditor() {
     refetchInterval: 2000,
   });
 
+  // The graph previews unsaved input and condition changes while a step is being edited
+  const graphSteps: PipelineStep[] = pipeline ? getStepsWithEdit() : [];
+
+  const renderStepEditor = (index: number) => editedStep && (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor={`step-name-${index}`}>Name</Label>
+          <Input
+            id={`step-name-${index}`}
+            value={editedStep.name}
+            onChange={(e) => setEditedStep({ ...editedStep, name: e.target.value })}
+          />
+        </div>
+        <div>
+          <Label htmlFor={`step-type-${index}`}>Step Type</Label>
+          <Select
+            value={editedStep.type}
+            onValueChange={(type) => setEditedStep({ ...editedStep, type })}
+          >
+            <SelectTrigger id={`step-type-${index}`} data-testid={`select-step-type-${index}`}>
+              <SelectValue placeholder="Select step type" />
+            </SelectTrigger>
+            <SelectContent>
+              {stepTypes.map((stepType) => (
+                <SelectItem key={stepType.type} value={stepType.type}>
+                  {stepType.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-gray-500 mt-1">
+            {stepTypes.find(stepType => stepType.type === editedStep.type)?.description}
+          </p>
+        </div>
+        <div>
+          <Label htmlFor={`step-model-${index}`}>Model</Label>
+          <Input
+            id={`step-model-${index}`}
+            value={editedStep.model}
+            onChange={(e) => setEditedStep({ ...editedStep, model: e.target.value })}
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor={`step-temperature-${index}`}>Temperature</Label>
+            <Input
+              id={`step-temperature-${index}`}
+              type="number"
+              step="0.1"
+              min="0"
+              max="2"
+              value={editedStep.temperature}
+              onChange={(e) => setEditedStep({ ...editedStep, temperature: parseFloat(e.target.value) || 0 })}
+            />
+          </div>
+          <div>
+            <Label htmlFor={`step-max-tokens-${index}`}>Max Tokens</Label>
+            <Input
+              id={`step-max-tokens-${index}`}
+              type="number"
+              min="1"
+              value={editedStep.maxTokens}
+              onChange={(e) => setEditedStep({ ...editedStep, maxTokens: parseInt(e.target.value, 10) || 0 })}
+            />
+          </div>
+        </div>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <Label>Inputs</Label>
+          <p className="text-xs text-gray-500 mb-2">
+            {editedStep.inputs
+              ? 'Starts as soon as the checked steps finish, in parallel with independent steps.'
+              : 'Runs after all earlier steps. Check specific steps to let it run in parallel.'}
+          </p>
+          <div className="space-y-2">
+            {pipeline.steps.map((other: PipelineStep, otherIndex: number) => {
+              if (otherIndex === index) return null;
+              const reference = other.id || other.name;
+              const checked = editedStep.inputs
+                ? editedStep.inputs.some(input => stepMatches(other, input))
+                : otherIndex < index;
+              return (
+                <label key={reference} className="flex items-center space-x-2 text-sm">
+                  <Checkbox
+                    checked={checked}
+                    onCheckedChange={(value) => toggleStepInput(reference, value === true)}
+                    data-testid={`checkbox-input-${index}-${otherIndex}`}
+                  />
+                  <span>{other.name}</span>
+                </label>
+              );
+            })}
+          </div>
+          <Input
+            className="mt-2"
+            placeholder="CSV columns, comma separated (optional)"
+            value={columnInputs}
+            onChange={(e) => setColumnInputs(e.target.value)}
+          />
+        </div>
+        <div>
+          <Label htmlFor={`step-condition-mode-${index}`}>Condition</Label>
+          <Select
+            value={editedStep.condition?.mode || 'always'}
+            onValueChange={(mode) => setEditedStep({
+              ...editedStep,
+              condition: mode === 'always'
+                ? undefined
+                : { variable: '', operator: 'equals', value: '', ...editedStep.condition, mode: mode as StepCondition['mode'] }
+            })}
+          >
+            <SelectTrigger id={`step-condition-mode-${index}`} data-testid={`select-condition-mode-${index}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="always">Always run</SelectItem>
+              <SelectItem value="run_if">Run only if</SelectItem>
+              <SelectItem value="skip_if">Skip if</SelectItem>
+            </SelectContent>
+          </Select>
+          {editedStep.condition && (
+            <div className="space-y-2 mt-2">
+              <Input
+                placeholder="Column or step output, e.g. Category or Draft.confidence"
+                value={editedStep.condition.variable}
+                onChange={(e) => setEditedStep({ ...editedStep, condition: { ...editedStep.condition!, variable: e.target.value } })}
+              />
+              <div className="grid grid-cols-2 gap-2">
+                <Select
+                  value={editedStep.condition.operator}
+                  onValueChange={(operator) => setEditedStep({ ...editedStep, condition: { ...editedStep.condition!, operator: operator as ConditionOperator } })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CONDITION_OPERATORS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {editedStep.condition.operator !== 'exists' && editedStep.condition.operator !== 'not_exists' && (
+                  <Input
+                    placeholder="Value"
+                    value={editedStep.condition.value || ''}
+                    onChange={(e) => setEditedStep({ ...editedStep, condition: { ...editedStep.condition!, value: e.target.value } })}
+                  />
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+      <div>
+        <Label htmlFor={`step-system-${index}`}>System Prompt</Label>
+        <Textarea
+          id={`step-system-${index}`}
+          value={editedStep.systemPrompt}
+          onChange={(e) => setEditedStep({ ...editedStep, systemPrompt: e.target.value })}
+          rows={4}
+        />
+      </div>
+      <div>
+        <Label htmlFor={`step-user-${index}`}>User Prompt</Label>
+        <Textarea
+          id={`step-user-${index}`}
+          value={editedStep.userPrompt}
+          onChange={(e) => setEditedStep({ ...editedStep, userPrompt: e.target.value })}
+          rows={10}
+          className="font-mono text-xs"
+        />
+      </div>
+      {editedStepSupportsSchema && (
+        <div>
+          <Label htmlFor={`step-output-schema-${index}`}>Output Schema (optional)</Label>
+          <Textarea
+            id={`step-output-schema-${index}`}
+            value={outputSchemaText}
+            onChange={(e) => setOutputSchemaText(e.target.value)}
+            rows={6}
+            className="font-mono text-xs"
+            placeholder={OUTPUT_SCHEMA_PLACEHOLDER}
+            data-testid={`textarea-output-schema-${index}`}
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            A JSON schema the answer must match. Answers that don't match are retried, and each property gets its own column, e.g. {editedStep.name}.answer.
+          </p>
+        </div>
+      )}
+      {editedStep.type === 'draft' && (
+        <div className="grid grid-cols-3 gap-4 items-end">
+          <label className="flex items-center space-x-2 text-sm">
+            <Checkbox
+              checked={!!editedStep.queryExpansion}
+              onCheckedChange={(value) => setEditedStep({ ...editedStep, queryExpansion: value === true ? {} : undefined })}
+              data-testid={`checkbox-query-expansion-${index}`}
+            />
+            <span>Multi-query retrieval</span>
+          </label>
+          {editedStep.queryExpansion && (
+            <>
+              <label className="flex items-center space-x-2 text-sm">
+                <Checkbox
+                  checked={editedStep.queryExpansion.hyde !== false}
+                  onCheckedChange={(value) => setEditedStep({ ...editedStep, queryExpansion: { ...editedStep.queryExpansion, hyde: value === true ? undefined : false } })}
+                  data-testid={`checkbox-hyde-${index}`}
+                />
+                <span>Search hypothetical answers (HyDE)</span>
+              </label>
+              <div>
+                <Label htmlFor={`step-max-sub-queries-${index}`}>Max Sub-queries</Label>
+                <Input
+                  id={`step-max-sub-queries-${index}`}
+                  type="number"
+                  min={1}
+                  max={8}
+                  placeholder="4"
+                  value={editedStep.queryExpansion.maxSubQueries ?? ''}
+                  onChange={(e) => setEditedStep({ ...editedStep, queryExpansion: { ...editedStep.queryExpansion, maxSubQueries: e.target.value ? parseInt(e.target.value, 10) : undefined } })}
+                />
+              </div>
+            </>
+          )}
+        </div>
+      )}
+      {editedStep.type === 'draft' && (
+        <div className="grid grid-cols-3 gap-4">
+          <div>
+            <Label htmlFor={`step-reranker-${index}`}>Rerank Chunks</Label>
+            <Select
+              value={editedStep.rerank?.reranker || (editedStep.rerank ? 'default' : 'off')}
+              onValueChange={(value) => setEditedStep({
+                ...editedStep,
+                rerank: value === 'off'
+                  ? undefined
+                  : { ...editedStep.rerank, reranker: value === 'default' ? undefined : value as 'llm' | 'cross-encoder' }
+              })}
+            >
+              <SelectTrigger id={`step-reranker-${index}`} data-testid={`select-reranker-${index}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="off">Off</SelectItem>
+                <SelectItem value="default">Server default</SelectItem>
+                <SelectItem value="llm">LLM relevance</SelectItem>
+                <SelectItem value="cross-encoder">Cross-encoder</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {editedStep.rerank && (
+            <>
+              <div>
+                <Label htmlFor={`step-rerank-candidates-${index}`}>Candidates</Label>
+                <Input
+                  id={`step-rerank-candidates-${index}`}
+                  type="number"
+                  min={1}
+                  max={200}
+                  placeholder="50"
+                  value={editedStep.rerank.candidates ?? ''}
+                  onChange={(e) => setEditedStep({ ...editedStep, rerank: { ...editedStep.rerank, candidates: e.target.value ? parseInt(e.target.value, 10) : undefined } })}
+                />
+              </div>
+              <div>
+                <Label htmlFor={`step-rerank-top-k-${index}`}>Keep</Label>
+                <Input
+                  id={`step-rerank-top-k-${index}`}
+                  type="number"
+                  min={1}
+                  max={50}
+                  placeholder="15"
+                  value={editedStep.rerank.topK ?? ''}
+                  onChange={(e) => setEditedStep({ ...editedStep, rerank: { ...editedStep.rerank, topK: e.target.value ? parseInt(e.target.value, 10) : undefined } })}
+                />
+              </div>
+            </>
+          )}
+        </div>
+      )}
+      <p className="text-xs text-gray-500">
+        Prompts support {'{{VARIABLE}}'}, {'{{#if X}}...{{else}}...{{/if}}'}, {'{{#each X}}...{{/each}}'} and defaults like {'{{X || "fallback"}}'}.
+        {(stepTypes.find(stepType => stepType.type === editedStep.type)?.variables.length ?? 0) > 0 && (
+          <> This step type also provides: {stepTypes.find(stepType => stepType.type === editedStep.type)?.variables.join(', ')}.</>
+        )}
+      </p>
+      {graphIssues.length > 0 && (
+        <div className="text-sm rounded border p-3 bg-red-50 border-red-200 text-red-800">
+          {graphIssues.map((issue) => (
+            <p key={issue}>{issue}</p>
+          ))}
+        </div>
+      )}
+      {templateIssues && (
+        templateIssues.length === 0 ? (
+          <div className="flex items-center space-x-2 text-sm text-green-700 bg-green-50 border border-green-200 rounded p-3">
+            <CheckCircle className="h-4 w-4" />
+            <span>Templates are valid</span>
+          </div>
+        ) : (
+          <div className="space-y-2" data-testid={`template-issues-${index}`}>
+            {templateIssues.map((issue) => (
+              <div
+                key={issue.field}
+                className={`text-sm rounded border p-3 ${issue.errors.length > 0 ? 'bg-red-50 border-red-200 text-red-800' : 'bg-yellow-50 border-yellow-200 text-yellow-800'}`}
+              >
+                <div className="flex items-center space-x-2 font-medium">
+                  <AlertCircle className="h-4 w-4" />
+                  <span>{getFieldLabel(issue.field)}</span>
+                </div>
+                {issue.errors.map((error, errorIndex) => (
+                  <p key={errorIndex} className="mt-1">Line {error.line}: {error.message}</p>
+                ))}
+                {issue.unknownVariables.length > 0 && (
+                  <p className="mt-1">
+                    Unknown variables (fine only if they are CSV columns): {issue.unknownVariables.join(', ')}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        )
+      )}
+      <div className="flex justify-end space-x-2">
+        {index < pipeline.steps.length && pipeline.steps.length > 1 && (
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="outline" className="mr-auto text-red-600 hover:text-red-700" disabled={saveStepsMutation.isPending}>
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete Step
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Delete "{pipeline.steps[index].name}"?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  The step is removed from the pipeline and from other steps' inputs. Existing job results are not affected.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={handleDeleteStep}>Delete</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        )}
+        <Button
+          variant="outline"
+          onClick={validateEditedStep}
+          disabled={isValidating || saveStepsMutation.isPending}
+          data-testid={`button-validate-step-${index}`}
+        >
+          {isValidating ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <CheckCircle className="h-4 w-4 mr-2" />
+          )}
+          Validate Templates
+        </Button>
+        <Button
+          variant="outline"
+          onClick={handleCancelEdit}
+          disabled={saveStepsMutation.isPending}
+        >
+          Cancel
+        </Button>
+        <Button onClick={handleSaveStep} disabled={isValidating || saveStepsMutation.isPending || !editedStep.name.trim()}>
+          {saveStepsMutation.isPending ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Save className="h-4 w-4 mr-2" />
+          )}
+          Save Step
+        </Button>
+      </div>
+    </div>
+  );
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-white flex items-center justify-center">
@@ -359,10 +1146,42 @@ export default function PipelineEditor() {
               <CardTitle className="flex items-center space-x-2">
                 <Settings className="h-5 w-5" />
                 <span>{pipeline.name}</span>
+                <Badge variant="outline" data-testid="badge-pipeline-version">v{pipeline.currentVersion}</Badge>
               </CardTitle>
               <CardDescription>
                 This pipeline processes RFP questions through {pipeline.steps.length} AI-powered steps
               </CardDescription>
+              <div className="flex items-center space-x-2 pt-2">
+                <Button variant="outline" size="sm" onClick={() => handleExportPipeline('json')} data-testid="button-export-json">
+                  <Download className="h-4 w-4 mr-2" />
+                  Export JSON
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => handleExportPipeline('yaml')} data-testid="button-export-yaml">
+                  <Download className="h-4 w-4 mr-2" />
+                  Export YAML
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => bundleInputRef.current?.click()}
+                  disabled={isImporting || editingStep !== null}
+                  data-testid="button-import-pipeline"
+                >
+                  {isImporting ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Upload className="h-4 w-4 mr-2" />
+                  )}
+                  Import
+                </Button>
+                <input
+                  ref={bundleInputRef}
+                  type="file"
+                  accept=".json,.yaml,.yml"
+                  className="hidden"
+                  onChange={handleImportPipeline}
+                />
+              </div>
             </CardHeader>
           </Card>
         </div>
@@ -680,25 +1499,125 @@ export default function PipelineEditor() {
               </Card>
             </CollapsibleTrigger>
             <CollapsibleContent className="space-y-6 mt-4">
+              <Card>
+                <CardHeader>
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <CardTitle>Pipeline Graph</CardTitle>
+                      <CardDescription>
+                        Steps start once their inputs finish, so independent branches run in parallel. Click a step to edit it.
+                      </CardDescription>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={handleAddStep}
+                      disabled={editingStep !== null}
+                      data-testid="button-add-step"
+                    >
+                      <Plus className="h-4 w-4 mr-2" />
+                      Add Step
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <PipelineGraph
+                    nodes={graphSteps.map((step, index) => ({
+                      name: step.name,
+                      typeLabel: getStepTypeLabel(getStepType(step)),
+                      hasCondition: !!step.condition,
+                      dependsOn: getStepDependencies(graphSteps, index, stepTypes)
+                    }))}
+                    selectedIndex={editingStep}
+                    onSelect={(index) => {
+                      if (editingStep === null && index < pipeline.steps.length) handleEditStep(index);
+                    }}
+                  />
+                </CardContent>
+              </Card>
               {pipeline.steps.map((step: PipelineStep, index: number) => (
                 <Card key={index}>
                   <CardHeader>
-                    <CardTitle>Step {index + 1}: {step.name}</CardTitle>
-                    <CardDescription>
-                      Model: {step.model} • Max Tokens: {step.maxTokens}
-                    </CardDescription>
+                    <div className="flex items-start justify-between">
+                      <div>
+                        <CardTitle className="flex items-center space-x-2">
+                          <span>Step {index + 1}: {step.name}</span>
+                          <Badge variant="outline">{getStepTypeLabel(getStepType(step))}</Badge>
+                        </CardTitle>
+                        <CardDescription>
+                          Model: {step.model} • Max Tokens: {step.maxTokens}
+                          {' • '}
+                          {step.inputs
+                            ? `Inputs: ${step.inputs.length > 0 ? step.inputs.join(', ') : 'original columns only'}`
+                            : 'Runs after all earlier steps'}
+                        </CardDescription>
+                        {step.condition && (
+                          <p className="text-xs text-yellow-700 mt-1">{describeCondition(step.condition)}</p>
+                        )}
+                        {step.outputSchema?.properties && (
+                          <p className="text-xs text-blue-700 mt-1">Structured output: {Object.keys(step.outputSchema.properties).join(', ')}</p>
+                        )}
+                        {step.queryExpansion && (
+                          <p className="text-xs text-green-700 mt-1">
+                            Searches up to {step.queryExpansion.maxSubQueries || 4} sub-queries{step.queryExpansion.hyde !== false ? ' and their hypothetical answers' : ''}
+                          </p>
+                        )}
+                        {step.rerank && (
+                          <p className="text-xs text-green-700 mt-1">
+                            Reranks {step.rerank.candidates || 50} chunks{step.rerank.reranker ? ` with ${step.rerank.reranker}` : ''}, keeps {step.rerank.topK || 15}
+                          </p>
+                        )}
+                      </div>
+                      {editingStep !== index && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleEditStep(index)}
+                          disabled={editingStep !== null}
+                          data-testid={`button-edit-step-${index}`}
+                        >
+                          <Pencil className="h-4 w-4 mr-2" />
+                          Edit
+                        </Button>
+                      )}
+                    </div>
                   </CardHeader>
                   <CardContent>
-                    <div className="text-sm text-gray-600">
-                      <p><strong>System:</strong> {step.systemPrompt.substring(0, 100)}...</p>
-                      <p className="mt-2"><strong>User:</strong> {step.userPrompt.substring(0, 100)}...</p>
-                    </div>
+                    {editingStep === index && editedStep ? (
+                      renderStepEditor(index)
+                    ) : (
+                      <div className="text-sm text-gray-600">
+                        <p><strong>System:</strong> {step.systemPrompt.substring(0, 100)}...</p>
+                        <p className="mt-2"><strong>User:</strong> {step.userPrompt.substring(0, 100)}...</p>
+                      </div>
+                    )}
                   </CardContent>
                 </Card>
               ))}
+              {editingStep === pipeline.steps.length && editedStep && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>New Step</CardTitle>
+                    <CardDescription>Added to the pipeline when saved</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    {renderStepEditor(pipeline.steps.length)}
+                  </CardContent>
+                </Card>
+              )}
             </CollapsibleContent>
           </Collapsible>
         </div>
+
+        {/* Playground Section */}
+        <div className="mb-8">
+          <PipelinePlayground steps={graphSteps} pipelineId={pipeline.id} />
+        </div>
+
+        {/* Version History Section */}
+        <div className="mb-8">
+          <PipelineVersionHistory pipelineId={pipeline.id} />
+        </div>
       </div>
     </div>
   );
@@ -3,24 +3,35 @@ import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useParams, useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { ArrowLeft, Filter, Search, Download, Edit, ExternalLink, Play, Pause, RotateCcw, RefreshCw, MessageSquare, Repeat } from "lucide-react";
+import { ArrowLeft, Filter, Search, Download, Edit, ExternalLink, Play, Pause, RotateCcw, RefreshCw, MessageSquare, Repeat, AlertTriangle, GitCompare, Table, Flag } from "lucide-react";
 import { StepInspectionPanel } from "@/components/step-inspection-panel";
+import { PipelineComparisonView } from "@/components/pipeline-comparison-view";
+import { CitedAnswer, type Citation } from "@/components/cited-answer";
+import { VerifiedAnswer, type ClaimVerification } from "@/components/verified-answer";
+import { ReviewQueue } from "@/components/review-queue";
 import { authService } from "@/lib/auth";
+import { formatCost, formatUsage, type TokenUsage } from "@/lib/usage";
 import { useWebSocket } from "@/hooks/use-websocket";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 
 interface CsvRow {
   id: string;
   rowIndex: number;
   originalData: Record<string, any>;
   enrichedData?: Record<string, any>;
+  status?: 'pending' | 'processing' | 'completed' | 'failed';
+  errorMessage?: string | null;
   fullContextualQuestion?: string;
   feedback?: string;
   needsReprocessing?: boolean;
   reprocessedAt?: string;
+  groundingScore?: number | null;
+  confidenceScore?: number | null;
+  needsReview?: boolean;
 }
 
 interface Job {
@@ -30,6 +41,10 @@ interface Job {
   status: string;
   totalRows: number;
   processedRows: number;
+  failedRows?: number;
+  concurrency?: number;
+  continueOnRowFailure?: boolean;
+  pipelineVersionId?: string | null;
 }
 
 interface ProcessingLog {
@@ -51,6 +66,11 @@ export default function Spreadsheet() {
   const [feedbackText, setFeedbackText] = useState('');
   const [bulkFeedbackDialogOpen, setBulkFeedbackDialogOpen] = useState(false);
   const [bulkFeedbackText, setBulkFeedbackText] = useState('');
+  const [rowStatusFilter, setRowStatusFilter] = useState('all');
+  const [viewMode, setViewMode] = useState<'rows' | 'compare' | 'review'>('rows');
+  // Output streamed by steps of rows that haven't been saved yet, by row and step name.
+  // A failed step keeps what it had written, marked as interrupted.
+  const [liveOutputs, setLiveOutputs] = useState<Record<number, Record<string, { output: string; interrupted?: boolean }>>>({});
   const user = authService.getCurrentUser();
   const jobId = params.id;
   const queryClient = useQueryClient();
@@ -71,6 +91,59 @@ export default function Spreadsheet() {
     enabled: !!jobId
   });
 
+  // The pipeline snapshot this job runs with, so results can be traced back to the prompts used
+  const { data: pipelineVersion } = useQuery<{ version: number; name: string }>({
+    queryKey: ['/api/jobs', jobId, 'pipeline-version', job?.pipelineVersionId],
+    queryFn: async () => {
+      const res = await fetch(`/api/jobs/${jobId}/pipeline-version`, {
+        credentials: 'include',
+        headers: { 'x-user-id': user?.id || 'user-1' }
+      });
+      if (!res.ok) {
+        throw new Error('Pipeline version not found');
+      }
+      return res.json();
+    },
+    enabled: !!jobId && !!job?.pipelineVersionId
+  });
+
+  // Token and cost totals; refreshed with the job as rows finish
+  const { data: jobUsage } = useQuery<{ totals: TokenUsage & { calls: number } }>({
+    queryKey: ['/api/jobs', jobId, 'usage'],
+    queryFn: async () => {
+      const res = await fetch(`/api/jobs/${jobId}/usage`, {
+        credentials: 'include',
+        headers: { 'x-user-id': user?.id || 'user-1' }
+      });
+      if (!res.ok) {
+        throw new Error('Failed to fetch job usage');
+      }
+      return res.json();
+    },
+    enabled: !!jobId
+  });
+
+  // Spend limits and the cost of the remaining rows, shown while a job is paused
+  const { data: budget } = useQuery<{
+    monthly: { limit: number | null; spent: number };
+    job: { limit: number | null; spent: number };
+    exceeded: { scope: 'user_monthly' | 'job'; limit: number; spent: number } | null;
+    estimate: { remainingRows: number; completedRows: number; estimatedCost: number | null };
+  }>({
+    queryKey: ['/api/jobs', jobId, 'budget'],
+    queryFn: async () => {
+      const res = await fetch(`/api/jobs/${jobId}/budget`, {
+        credentials: 'include',
+        headers: { 'x-user-id': user?.id || 'user-1' }
+      });
+      if (!res.ok) {
+        throw new Error('Failed to fetch job budget');
+      }
+      return res.json();
+    },
+    enabled: !!jobId && job?.status === 'paused'
+  });
+
   const { data: csvData = [], isLoading: dataLoading, error: dataError } = useQuery({
     queryKey: ['/api/jobs', jobId, 'csv-data'],
     queryFn: async () => {
@@ -116,7 +189,13 @@ export default function Spreadsheet() {
           // Refetch both job and CSV data for progress updates
           console.log('🔄 [Spreadsheet] Invalidating CSV data queries');
           queryClient.invalidateQueries({ queryKey: ['/api/jobs', jobId] });
-          queryClient.invalidateQueries({ queryKey: ['/api/jobs', jobId, 'csv-data'] });
+          // Swap the streamed text for the saved row once it has loaded
+          queryClient.invalidateQueries({ queryKey: ['/api/jobs', jobId, 'csv-data'] }).then(() => {
+            setLiveOutputs(prev => {
+              const { [data.rowIndex]: _finished, ...rest } = prev;
+              return rest;
+            });
+          });
           
           toast({
             title: "Processing Update",
@@ -127,6 +206,47 @@ export default function Spreadsheet() {
           setProcessingLogs([]);
           setCurrentProcessingRow(null);
           break;
+        case 'rowFailed':
+          queryClient.invalidateQueries({ queryKey: ['/api/jobs', jobId] });
+          queryClient.invalidateQueries({ queryKey: ['/api/jobs', jobId, 'csv-data'] });
+          
+          toast({
+            title: "Row Failed",
+            description: `Row ${data.rowIndex + 1} failed and was skipped: ${data.error}`,
+            variant: "destructive",
+          });
+          
+          setProcessingLogs([]);
+          setCurrentProcessingRow(null);
+          break;
+        case 'stepToken':
+          setLiveOutputs(prev => ({
+            ...prev,
+            [data.rowIndex]: { ...prev[data.rowIndex], [data.stepName]: { output: data.output } }
+          }));
+          break;
+        case 'stepFailed':
+          if (data.partialOutput) {
+            setLiveOutputs(prev => ({
+              ...prev,
+              [data.rowIndex]: { ...prev[data.rowIndex], [data.stepName]: { output: data.partialOutput, interrupted: true } }
+            }));
+          }
+          break;
+        case 'spendLimitReached':
+          queryClient.invalidateQueries({ queryKey: ['/api/jobs', jobId] });
+          toast({
+            title: "Spend Limit Reached",
+            description: data.message,
+            variant: "destructive",
+          });
+          break;
+        case 'comparisonStarted':
+        case 'comparisonProgress':
+        case 'comparisonCompleted':
+          queryClient.invalidateQueries({ queryKey: ['/api/jobs', jobId, 'comparisons'] });
+          queryClient.invalidateQueries({ queryKey: ['/api/comparisons', data.comparisonId] });
+          break;
         case 'processing_log':
           // Handle detailed processing logs
           if (data.step && data.log) {
@@ -145,6 +265,7 @@ export default function Spreadsheet() {
   const getStatusBadge = (status: string) => {
     const statusConfig = {
       completed: { variant: "default" as const, className: "bg-success-100 text-success-800", label: "Completed" },
+      completed_with_errors: { variant: "default" as const, className: "bg-warning-100 text-warning-800", label: "Completed with Errors" },
       in_progress: { variant: "default" as const, className: "bg-primary-100 text-primary-800", label: "In Progress" },
       paused: { variant: "default" as const, className: "bg-warning-100 text-warning-800", label: "Paused" },
       not_started: { variant: "secondary" as const, className: "", label: "Not Started" },
@@ -194,7 +315,9 @@ export default function Spreadsheet() {
       });
 
       if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+        // Starting or resuming is refused with a 409 while the job is over a spend limit
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || `Failed to ${action} job`);
       }
       
       // Handle different action past tense forms correctly
@@ -216,7 +339,7 @@ export default function Spreadsheet() {
     } catch (error) {
       toast({
         title: "Error",
-        description: `Failed to ${action} job`,
+        description: error instanceof Error ? error.message : `Failed to ${action} job`,
         variant: "destructive",
       });
     }
@@ -326,6 +449,40 @@ export default function Spreadsheet() {
     }
   };
 
+  const handleRetryFailed = async () => {
+    if (!jobId) return;
+
+    try {
+      const response = await fetch(`/api/jobs/${jobId}/retry-failed`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-user-id': user?.id || 'user-1'
+        },
+        credentials: 'include'
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || `HTTP error! status: ${response.status}`);
+      }
+
+      toast({
+        title: "Success",
+        description: `Retrying ${result.rowsToRetry} failed row${result.rowsToRetry === 1 ? '' : 's'}`,
+      });
+
+      queryClient.invalidateQueries({ queryKey: ['/api/jobs', jobId] });
+      queryClient.invalidateQueries({ queryKey: ['/api/jobs', jobId, 'csv-data'] });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to retry failed rows",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleBulkFeedbackSave = async () => {
     if (!jobId || !bulkFeedbackText.trim()) return;
 
@@ -376,12 +533,14 @@ export default function Spreadsheet() {
     if (!firstRow || !firstRow.originalData) return [];
     
     // Columns to exclude from the display (keep FULL_CONTEXTUAL_QUESTION visible)
-    const excludedColumns = ["RFP_INSTRUCTIONS", "ADDITIONAL_DOCUMENTS", "jobId"];
+    const excludedColumns = ["RFP_INSTRUCTIONS", "ADDITIONAL_DOCUMENTS", "KNOWLEDGE_SCOPE", "PREVIOUS_CONTEXT", "jobId", "CITATIONS", "VERIFICATION", "RETRIEVAL", "CONFIDENCE"];
     
     const originalColumns = Object.keys(firstRow.originalData || {}).filter(
       key => !excludedColumns.includes(key)
     );
-    const enrichedColumns = Object.keys(firstRow.enrichedData || {}).filter(
+    // Steps that are streaming get their column before any row has finished
+    const liveColumns = Object.values(liveOutputs).flatMap(outputs => Object.keys(outputs));
+    const enrichedColumns = Array.from(new Set([...Object.keys(firstRow.enrichedData || {}), ...liveColumns])).filter(
       key => !originalColumns.includes(key) && !excludedColumns.includes(key)
     );
     
@@ -392,8 +551,10 @@ export default function Spreadsheet() {
     
     // Ensure pipeline steps appear in correct order
     const pipelineOrder = ["Reference Research", "Generic Draft Generation", "Tailored RFP Response"];
-    const orderedEnrichedColumns = pipelineOrder.filter(col => enrichedColumns.includes(col));
-    const otherEnrichedColumns = enrichedColumns.filter(col => !pipelineOrder.includes(col));
+    // A step's structured output fields ("<Step>.<field>") follow the step's own column
+    const withFieldColumns = (col: string) => [col, ...enrichedColumns.filter(field => field.startsWith(`${col}.`))];
+    const orderedEnrichedColumns = pipelineOrder.filter(col => enrichedColumns.includes(col)).flatMap(withFieldColumns);
+    const otherEnrichedColumns = enrichedColumns.filter(col => !orderedEnrichedColumns.includes(col));
     
     // Build final column order: Question → Full Contextual Question → Other Original → Pipeline Steps → Other Enriched
     const result = [];
@@ -409,6 +570,13 @@ export default function Spreadsheet() {
 
   const columns = getAllColumns();
 
+  const getRowStatus = (row: CsvRow) => row.status || (row.enrichedData ? 'completed' : 'pending');
+  const failedRowCount = csvData.filter((row: CsvRow) => getRowStatus(row) === 'failed').length;
+  const reviewRowCount = csvData.filter((row: CsvRow) => row.needsReview).length;
+  const displayedRows = rowStatusFilter === 'all'
+    ? csvData
+    : csvData.filter((row: CsvRow) => getRowStatus(row) === rowStatusFilter);
+
   if (jobLoading || dataLoading) {
     return (
       <div className="min-h-screen bg-white flex items-center justify-center">
@@ -471,9 +639,30 @@ export default function Spreadsheet() {
                   <span className="text-sm text-gray-500">
                     {job.processedRows} of {job.totalRows} rows processed
                   </span>
+                  {pipelineVersion && (
+                    <span className="text-sm text-gray-500" title={pipelineVersion.name} data-testid="text-pipeline-version">
+                      Pipeline v{pipelineVersion.version}
+                    </span>
+                  )}
+                  {formatUsage(jobUsage?.totals) && (
+                    <span
+                      className="text-sm text-gray-500"
+                      title={`${jobUsage!.totals.promptTokens.toLocaleString()} prompt, ${jobUsage!.totals.completionTokens.toLocaleString()} completion (${jobUsage!.totals.reasoningTokens.toLocaleString()} reasoning) tokens`}
+                      data-testid="text-job-usage"
+                    >
+                      {formatUsage(jobUsage?.totals)}
+                    </span>
+                  )}
+                  {job.failedRows > 0 && (
+                    <span className="text-sm text-error-600">
+                      {job.failedRows} failed
+                    </span>
+                  )}
                   {job.status === 'in_progress' && (
                     <span className="text-xs text-blue-600 bg-blue-50 px-2 py-1 rounded">
-                      Processing row {job.processedRows + 1}...
+                      {job.concurrency && job.concurrency > 1
+                        ? `Processing up to ${job.concurrency} rows in parallel...`
+                        : `Processing row ${job.processedRows + 1}...`}
                     </span>
                   )}
                 </div>
@@ -552,7 +741,40 @@ export default function Spreadsheet() {
                 </>
               )}
               
-              {job.status === 'completed' && (
+              {failedRowCount > 0 && job.status !== 'in_progress' && (
+                <Button
+                  onClick={handleRetryFailed}
+                  variant="outline"
+                  className="text-red-600 border-red-600 hover:bg-red-50"
+                  data-testid="button-retry-failed"
+                >
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Retry Failed ({failedRowCount} rows)
+                </Button>
+              )}
+              
+              {(reviewRowCount > 0 || viewMode === 'review') && (
+                <Button
+                  onClick={() => setViewMode(viewMode === 'review' ? 'rows' : 'review')}
+                  variant="outline"
+                  className="text-yellow-700 border-yellow-600 hover:bg-yellow-50"
+                  data-testid="button-toggle-review-queue"
+                >
+                  {viewMode === 'review' ? (
+                    <>
+                      <Table className="h-4 w-4 mr-2" />
+                      Back to Rows
+                    </>
+                  ) : (
+                    <>
+                      <Flag className="h-4 w-4 mr-2" />
+                      Review Queue ({reviewRowCount} rows)
+                    </>
+                  )}
+                </Button>
+              )}
+              
+              {(job.status === 'completed' || job.status === 'completed_with_errors') && (
                 <>
                   {csvData.some((row: CsvRow) => row.feedback) ? (
                     <Button
@@ -581,6 +803,24 @@ export default function Spreadsheet() {
                     <MessageSquare className="h-4 w-4 mr-2" />
                     Add Feedback to All
                   </Button>
+                  <Button
+                    onClick={() => setViewMode(viewMode === 'compare' ? 'rows' : 'compare')}
+                    variant="outline"
+                    className="text-gray-600 border-gray-300"
+                    data-testid="button-toggle-comparison"
+                  >
+                    {viewMode !== 'compare' ? (
+                      <>
+                        <GitCompare className="h-4 w-4 mr-2" />
+                        Compare Pipelines
+                      </>
+                    ) : (
+                      <>
+                        <Table className="h-4 w-4 mr-2" />
+                        Back to Rows
+                      </>
+                    )}
+                  </Button>
                 </>
               )}
               
@@ -596,6 +836,25 @@ export default function Spreadsheet() {
           </div>
         </div>
 
+        {/* Spend limit notice for paused jobs */}
+        {job.status === 'paused' && (job.errorMessage || budget?.exceeded) && (
+          <div className="bg-yellow-50 border-b border-yellow-200 px-6 py-3 flex items-start space-x-3" data-testid="banner-spend-limit">
+            <AlertTriangle className="h-5 w-5 text-yellow-600 flex-shrink-0 mt-0.5" />
+            <div className="text-sm text-yellow-800 space-y-1">
+              {job.errorMessage && <p className="font-medium">{job.errorMessage}</p>}
+              {budget && (
+                <p>
+                  {budget.estimate.estimatedCost !== null
+                    ? `The remaining ${budget.estimate.remainingRows} rows should cost about ${formatCost(budget.estimate.estimatedCost)}, based on ${budget.estimate.completedRows} completed rows.`
+                    : `${budget.estimate.remainingRows} rows remain; no completed rows yet to estimate their cost from.`}
+                  {budget.job.limit !== null && ` Job: ${formatCost(budget.job.spent)} of ${formatCost(budget.job.limit)}.`}
+                  {budget.monthly.limit !== null && ` This month: ${formatCost(budget.monthly.spent)} of ${formatCost(budget.monthly.limit)}.`}
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Progress Bar for In-Progress Jobs */}
         {job.status === 'in_progress' && (
           <div className="bg-gray-50 border-b border-gray-200 px-6 py-3">
@@ -642,76 +901,148 @@ export default function Spreadsheet() {
           </div>
         )}
 
-        {/* Table Controls */}
-        <div className="bg-white border-b border-gray-200 px-6 py-3">
-          <div className="flex items-center justify-between">
-            <div className="flex items-center space-x-4">
-              <div className="relative">
-                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
-                <input
-                  type="text"
-                  placeholder="Search rows..."
-                  className="pl-10 pr-4 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
-                />
+        {viewMode === 'compare' ? (
+          <div className="flex-1 overflow-hidden">
+            <PipelineComparisonView
+              jobId={jobId!}
+              baselineLabel={pipelineVersion ? `Pipeline v${pipelineVersion.version}` : 'this job'}
+            />
+          </div>
+        ) : viewMode === 'review' ? (
+          <div className="flex-1 overflow-hidden">
+            <ReviewQueue
+              jobId={jobId!}
+              rows={csvData}
+              columns={columns.filter(column => column !== 'Feedback')}
+              onInspect={handleStepInspection}
+              onFeedback={handleFeedbackOpen}
+            />
+          </div>
+        ) : (
+          <>
+          {/* Table Controls */}
+          <div className="bg-white border-b border-gray-200 px-6 py-3">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-4">
+                <div className="relative">
+                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                  <input
+                    type="text"
+                    placeholder="Search rows..."
+                    className="pl-10 pr-4 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                  />
+                </div>
+                <Select value={rowStatusFilter} onValueChange={setRowStatusFilter}>
+                  <SelectTrigger className="w-40 h-9" data-testid="select-row-status">
+                    <Filter className="h-4 w-4 mr-2" />
+                    <SelectValue placeholder="All rows" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All rows</SelectItem>
+                    <SelectItem value="completed">Completed</SelectItem>
+                    <SelectItem value="failed">Failed{failedRowCount > 0 ? ` (${failedRowCount})` : ''}</SelectItem>
+                    <SelectItem value="processing">Processing</SelectItem>
+                    <SelectItem value="pending">Pending</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="text-sm text-gray-500">
+                {displayedRows.length !== csvData.length ? `${displayedRows.length} of ${csvData.length}` : csvData.length} rows • {columns.length} columns
               </div>
-              <Button variant="outline" size="sm">
-                <Filter className="h-4 w-4 mr-2" />
-                Filter
-              </Button>
-            </div>
-            <div className="text-sm text-gray-500">
-              {csvData.length} rows • {columns.length} columns
             </div>
           </div>
-        </div>
 
-        {/* Spreadsheet Grid */}
-        <div className="flex-1 overflow-hidden">
-          <div className="h-full bg-white overflow-auto">
-            <table className="min-w-full border-collapse">
-              <thead className="bg-gray-50 sticky top-0">
-                <tr>
-                  <th className="border border-gray-300 px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase w-12">
-                    #
-                  </th>
-                  {columns.map((column) => (
-                    <th 
-                      key={column}
-                      className={`border border-gray-300 px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase ${
-                        column === 'Reference Research' ? 'w-80' : 
-                        column === 'Feedback' ? 'w-64' : 'min-w-48'
-                      }`}
-                    >
-                      {column}
+          {/* Spreadsheet Grid */}
+          <div className="flex-1 overflow-hidden">
+            <div className="h-full bg-white overflow-auto">
+              <table className="min-w-full border-collapse">
+                <thead className="bg-gray-50 sticky top-0">
+                  <tr>
+                    <th className="border border-gray-300 px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase w-12">
+                      #
                     </th>
-                  ))}
-                </tr>
-              </thead>
-              <tbody className="bg-white">
-                {csvData.map((row: CsvRow, index: number) => (
-                  <tr key={row.id} className="hover:bg-gray-50">
-                    <td className="border border-gray-300 px-4 py-2 text-sm text-gray-900">
-                      {row.rowIndex + 1}
-                    </td>
-                    {columns.map((column) => {
-                      const rawValue = (row.enrichedData?.[column] || row.originalData?.[column]) || '';
-                      const isAiGenerated = row.enrichedData && row.enrichedData[column];
+                    {columns.map((column) => (
+                      <th 
+                        key={column}
+                        className={`border border-gray-300 px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase ${
+                          column === 'Reference Research' ? 'w-80' : 
+                          column === 'Feedback' ? 'w-64' : 'min-w-48'
+                        }`}
+                      >
+                        {column}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="bg-white">
+                  {displayedRows.map((row: CsvRow, index: number) => (
+                    <tr key={row.id} className={getRowStatus(row) === 'failed' ? "bg-red-50 hover:bg-red-100" : "hover:bg-gray-50"}>
+                      <td className="border border-gray-300 px-4 py-2 text-sm text-gray-900">
+                        {row.rowIndex + 1}
+                        {getRowStatus(row) === 'failed' && (
+                          <button
+                            type="button"
+                            className="block mt-1 text-error-600"
+                            title={row.errorMessage || 'Row failed'}
+                            onClick={() => handleStepInspection(row.rowIndex)}
+                          >
+                            <AlertTriangle className="h-4 w-4" />
+                          </button>
+                        )}
+                        {row.groundingScore !== null && row.groundingScore !== undefined && (
+                          <span
+                            className={`block mt-1 text-xs font-medium ${row.groundingScore >= 0.8 ? 'text-green-700' : row.groundingScore >= 0.5 ? 'text-yellow-700' : 'text-error-600'}`}
+                            title="Grounding score: share of the answer's claims the references support"
+                            data-testid={`text-grounding-score-${row.rowIndex}`}
+                          >
+                            {Math.round(row.groundingScore * 100)}%
+                          </span>
+                        )}
+                        {row.needsReview && (
+                          <span
+                            className="block mt-1 text-yellow-600"
+                            title={`Needs review: confidence ${Math.round((row.confidenceScore ?? 0) * 100)}%`}
+                            data-testid={`icon-needs-review-${row.rowIndex}`}
+                          >
+                            <Flag className="h-4 w-4" />
+                          </span>
+                        )}
+                      </td>
+                      {columns.map((column) => {
+                        const rawValue = (row.enrichedData?.[column] || row.originalData?.[column]) || '';
+                        const isAiGenerated = row.enrichedData && row.enrichedData[column];
+                        // Steps that cite references get hoverable footnotes for their [N] markers
+                        const citations: Citation[] | undefined = row.enrichedData?.CITATIONS?.[column];
+                        // A verify step's flagged claims are highlighted in the answer it checked
+                        const verification: ClaimVerification | undefined = row.enrichedData?.VERIFICATION?.stepName === column ? row.enrichedData.VERIFICATION : undefined;
+                        const renderText = (text: string) => verification
+                          ? <VerifiedAnswer text={text} claims={verification.claims} citations={citations} />
+                          : citations?.length ? <CitedAnswer text={text} citations={citations} /> : text;
                       
-                      // Handle different value types - some might be objects with content/fileName
-                      const getDisplayValue = (val: any, columnName: string): string | JSX.Element => {
-                        // Special handling for Reference Research column
-                        if (columnName === 'Reference Research' && val) {
-                          let urls: string[] = [];
+                        // Handle different value types - some might be objects with content/fileName
+                        const getDisplayValue = (val: any, columnName: string): string | JSX.Element => {
+                          // Special handling for Reference Research column
+                          if (columnName === 'Reference Research' && val) {
+                            let urls: string[] = [];
                           
-                          // Handle different data formats
-                          if (typeof val === 'string') {
-                            try {
-                              // Try to parse as JSON first
-                              const parsed = JSON.parse(val);
-                              if (Array.isArray(parsed)) {
-                                urls = parsed;
-                              } else {
-                                // If it's a string that looks like an array, try to extract URLs
+                            // Handle different data formats
+                            if (typeof val === 'string') {
+                              try {
+                                // Try to parse as JSON first
+                                const parsed = JSON.parse(val);
+                                if (Array.isArray(parsed)) {
+                                  urls = parsed;
+                                } else {
+                                  // If it's a string that looks like an array, try to extract URLs
+                                  const urlMatches = val.match(/https?:\/\/[^\s",\]]+/g);
+                                  if (urlMatches) {
+                                    urls = urlMatches;
+                                  } else {
+                                    return val; // Return as-is if no URLs found
+                                  }
+                                }
+                              } catch {
+                                // If parsing fails, try to extract URLs from the string
                                 const urlMatches = val.match(/https?:\/\/[^\s",\]]+/g);
                                 if (urlMatches) {
                                   urls = urlMatches;
@@ -719,134 +1050,139 @@ export default function Spreadsheet() {
                                   return val; // Return as-is if no URLs found
                                 }
                               }
-                            } catch {
-                              // If parsing fails, try to extract URLs from the string
-                              const urlMatches = val.match(/https?:\/\/[^\s",\]]+/g);
-                              if (urlMatches) {
-                                urls = urlMatches;
-                              } else {
-                                return val; // Return as-is if no URLs found
-                              }
+                            } else if (Array.isArray(val)) {
+                              urls = val;
+                            } else if (typeof val === 'object' && val !== null) {
+                              if (val.content) return val.content;
+                              if (val.fileName) return val.fileName;
+                              return JSON.stringify(val);
                             }
-                          } else if (Array.isArray(val)) {
-                            urls = val;
-                          } else if (typeof val === 'object' && val !== null) {
-                            if (val.content) return val.content;
-                            if (val.fileName) return val.fileName;
-                            return JSON.stringify(val);
-                          }
                           
-                          // Display URLs on separate lines if we found any
-                          if (urls.length > 0) {
-                            return (
-                              <div className="space-y-1">
-                                {urls.map((url: string, index: number) => (
-                                  <div key={index} className="break-all text-xs text-blue-600">
-                                    <a href={url.trim()} target="_blank" rel="noopener noreferrer" className="hover:underline">
-                                      {url.trim()}
-                                    </a>
-                                  </div>
-                                ))}
-                              </div>
-                            );
+                            // Display URLs on separate lines if we found any
+                            if (urls.length > 0) {
+                              return (
+                                <div className="space-y-1">
+                                  {urls.map((url: string, index: number) => (
+                                    <div key={index} className="break-all text-xs text-blue-600">
+                                      <a href={url.trim()} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                                        {url.trim()}
+                                      </a>
+                                    </div>
+                                  ))}
+                                </div>
+                              );
+                            }
                           }
-                        }
-                        
-                        // Special handling for Feedback column
-                        if (columnName === 'Feedback') {
-                          return (
-                            <div className="flex items-center space-x-2">
-                              <div className="flex-1 min-w-0">
-                                {row.feedback ? (
-                                  <div className="text-sm text-gray-700 truncate">{row.feedback}</div>
-                                ) : (
-                                  <div className="text-sm text-gray-400 italic">No feedback</div>
-                                )}
-                              </div>
-                              <Button
-                                size="sm"
-                                variant="outline"
-                                onClick={() => handleFeedbackOpen(row)}
-                                className="flex-shrink-0"
-                              >
-                                <MessageSquare className="h-3 w-3" />
-                              </Button>
-                            </div>
-                          );
-                        }
                         
-                        // Default handling for other columns
-                        if (typeof val === 'string') return val;
-                        if (typeof val === 'object' && val !== null) {
-                          if (val.content) return val.content;
-                          if (val.fileName) return val.fileName;
-                          return JSON.stringify(val);
-                        }
-                        return String(val || '');
-                      };
-                      
-                      const value = getDisplayValue(rawValue, column);
-                      
-                      return (
-                        <td key={column} className={`border border-gray-300 px-4 py-2 text-sm text-gray-900 ${column === 'Reference Research' ? 'max-w-xs' : ''} ${column === 'Feedback' ? 'w-64' : ''}`}>
-                          <div className={`${column === 'Reference Research' ? 'max-w-xs' : 'max-w-md'} break-words`}>
-                            {/* Handle JSX elements (like formatted URLs) */}
-                            {typeof value === 'object' && value !== null && React.isValidElement(value) ? (
-                              value
-                            ) : typeof value === 'string' && value.length > 200 ? (
-                              <div>
-                                {isCellExpanded(row.id, column) ? (
-                                  <>
-                                    <div className="whitespace-pre-wrap break-words">{value}</div>
-                                    <Button
-                                      variant="link"
-                                      size="sm"
-                                      className="text-xs p-0 h-auto ml-2"
-                                      onClick={() => toggleCellExpansion(row.id, column)}
-                                    >
-                                      Show less
-                                    </Button>
-                                  </>
-                                ) : (
-                                  <>
-                                    <div className="whitespace-pre-wrap break-words">{value.substring(0, 200)}...</div>
-                                    <Button
-                                      variant="link"
-                                      size="sm"
-                                      className="text-xs p-0 h-auto ml-2"
-                                      onClick={() => toggleCellExpansion(row.id, column)}
-                                    >
-                                      Show more
-                                    </Button>
-                                  </>
-                                )}
-                              </div>
-                            ) : (
-                              <div className="whitespace-pre-wrap break-words">{value}</div>
-                            )}
-                            {isAiGenerated && (
-                              <div className="mt-2">
+                          // Special handling for Feedback column
+                          if (columnName === 'Feedback') {
+                            return (
+                              <div className="flex items-center space-x-2">
+                                <div className="flex-1 min-w-0">
+                                  {row.feedback ? (
+                                    <div className="text-sm text-gray-700 truncate">{row.feedback}</div>
+                                  ) : (
+                                    <div className="text-sm text-gray-400 italic">No feedback</div>
+                                  )}
+                                </div>
                                 <Button
-                                  variant="link"
                                   size="sm"
-                                  className="text-xs text-primary-600 p-0 h-auto"
-                                  onClick={() => handleStepInspection(row.rowIndex)}
+                                  variant="outline"
+                                  onClick={() => handleFeedbackOpen(row)}
+                                  className="flex-shrink-0"
                                 >
-                                  <ExternalLink className="mr-1 h-3 w-3" />
-                                  View AI Steps
+                                  <MessageSquare className="h-3 w-3" />
                                 </Button>
                               </div>
-                            )}
-                          </div>
-                        </td>
-                      );
-                    })}
-                  </tr>
-                ))}
-              </tbody>
-            </table>
+                            );
+                          }
+                        
+                          // Default handling for other columns
+                          if (typeof val === 'string') return val;
+                          // List fields of a structured step output, one item per line
+                          if (Array.isArray(val)) return val.map((item: any) => typeof item === 'object' ? JSON.stringify(item) : String(item)).join('\n');
+                          if (typeof val === 'object' && val !== null) {
+                            if (val.content) return val.content;
+                            if (val.fileName) return val.fileName;
+                            return JSON.stringify(val);
+                          }
+                          return String(val ?? '');
+                        };
+                      
+                        const value = getDisplayValue(rawValue, column);
+                        const liveValue = liveOutputs[row.rowIndex]?.[column];
+                      
+                        return (
+                          <td key={column} className={`border border-gray-300 px-4 py-2 text-sm text-gray-900 ${column === 'Reference Research' ? 'max-w-xs' : ''} ${column === 'Feedback' ? 'w-64' : ''}`}>
+                            <div className={`${column === 'Reference Research' ? 'max-w-xs' : 'max-w-md'} break-words`}>
+                              {/* Streaming output shows its latest text */}
+                              {liveValue !== undefined ? (
+                                <div className="whitespace-pre-wrap break-words" data-testid={`text-live-output-${row.rowIndex}`}>
+                                  {liveValue.output.length > 200 ? `…${liveValue.output.slice(-200)}` : liveValue.output}
+                                  {liveValue.interrupted ? (
+                                    <span className="block mt-1 text-xs text-error-600">Interrupted - partial output</span>
+                                  ) : getRowStatus(row) === 'processing' && (
+                                    <span className="inline-block w-1.5 h-3 ml-0.5 bg-primary-500 animate-pulse align-middle" />
+                                  )}
+                                </div>
+                              ) : typeof value === 'object' && value !== null && React.isValidElement(value) ? (
+                                value
+                              ) : typeof value === 'string' && value.length > 200 ? (
+                                <div>
+                                  {isCellExpanded(row.id, column) ? (
+                                    <>
+                                      <div className="whitespace-pre-wrap break-words">{renderText(value)}</div>
+                                      <Button
+                                        variant="link"
+                                        size="sm"
+                                        className="text-xs p-0 h-auto ml-2"
+                                        onClick={() => toggleCellExpansion(row.id, column)}
+                                      >
+                                        Show less
+                                      </Button>
+                                    </>
+                                  ) : (
+                                    <>
+                                      <div className="whitespace-pre-wrap break-words">{renderText(value.substring(0, 200))}...</div>
+                                      <Button
+                                        variant="link"
+                                        size="sm"
+                                        className="text-xs p-0 h-auto ml-2"
+                                        onClick={() => toggleCellExpansion(row.id, column)}
+                                      >
+                                        Show more
+                                      </Button>
+                                    </>
+                                  )}
+                                </div>
+                              ) : (
+                                <div className="whitespace-pre-wrap break-words">{typeof value === 'string' ? renderText(value) : value}</div>
+                              )}
+                              {isAiGenerated && (
+                                <div className="mt-2">
+                                  <Button
+                                    variant="link"
+                                    size="sm"
+                                    className="text-xs text-primary-600 p-0 h-auto"
+                                    onClick={() => handleStepInspection(row.rowIndex)}
+                                  >
+                                    <ExternalLink className="mr-1 h-3 w-3" />
+                                    View AI Steps
+                                  </Button>
+                                </div>
+                              )}
+                            </div>
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
           </div>
-        </div>
+          </>
+        )}
       </div>
 
       {/* Step Inspection Panel */}
@@ -2,6 +2,8 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { seedDatabase } from "./seed";
+import { migrateDatabase } from "./migrate";
+import { jobProcessor } from "./services/jobProcessor";
 
 const app = express();
 app.use(express.json());
@@ -38,7 +40,8 @@ app.use((req, res, next) => {
 });
 
 (async () => {
-  // Initialize database with default data
+  // Bring existing data up to the current schema, then initialize database with default data
+  await migrateDatabase();
   await seedDatabase();
   
   const server = await registerRoutes(app);
@@ -71,5 +74,8 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+
+    // Resume jobs left in_progress by a previous deploy or crash
+    jobProcessor.startRecovery();
   });
 })();
@@ -0,0 +1,108 @@
+import { db } from "./db";
+import { sql } from "drizzle-orm";
+import { EMBEDDING_DIMENSIONS, NEEDS_EMBEDDING_KEY } from "@shared/schema";
+import { createVectorIndex, setVectorIndex } from "./services/vectorIndex";
+import { enhancedEmbeddingsService } from "./services/enhancedEmbeddings";
+
+// Data migrations db:push can't do on its own. Each one checks whether it's still needed, so
+// they run on every startup, before the seed data is written. db:push is only ever run by hand,
+// and against an existing database it has to come after a first start: drizzle-kit can't change
+// the old text embeddings column to vector itself.
+
+async function columnType(table: string, column: string): Promise<string | null> {
+  const result = await db.execute(sql`
+    SELECT data_type FROM information_schema.columns
+    WHERE table_name = ${table} AND column_name = ${column}
+  `);
+  return (result.rows[0] as { data_type?: string } | undefined)?.data_type || null;
+}
+
+async function enableVectorExtension(): Promise<boolean> {
+  try {
+    await db.execute(sql`CREATE EXTENSION IF NOT EXISTS vector`);
+    return true;
+  } catch (error) {
+    console.warn('⚠️ The vector extension is not available:', error instanceof Error ? error.message : error);
+    return false;
+  }
+}
+
+/**
+ * reference_cache.chunk_embedding used to hold JSON text. Convert it to a pgvector column with an
+ * HNSW index; placeholder rows ('[]') and embeddings of the wrong size become null, and the latter
+ * are flagged NEEDS_EMBEDDING_KEY for reembedFlaggedChunks to regenerate. Without the
+ * vector extension the column stays JSON text and search falls back to the in-memory index,
+ * unless VECTOR_INDEX asks for pgvector.
+ */
+async function migrateReferenceEmbeddingsToVector() {
+  if (!await enableVectorExtension()) {
+    if (!process.env.VECTOR_INDEX) {
+      console.log('🧭 Falling back to the in-memory vector index');
+      setVectorIndex(createVectorIndex('memory'));
+    }
+    return;
+  }
+
+  if (await columnType('reference_cache', 'chunk_embedding') !== 'text') {
+    return;
+  }
+
+  console.log('🧭 Converting reference_cache.chunk_embedding to vector...');
+  await db.execute(sql`ALTER TABLE reference_cache ALTER COLUMN chunk_embedding DROP NOT NULL`);
+  const wrongSize = await db.execute(sql`
+    UPDATE reference_cache
+    SET metadata = COALESCE(metadata, '{}'::jsonb) || jsonb_build_object(${NEEDS_EMBEDDING_KEY}::text, true)
+    WHERE json_array_length(chunk_embedding::json) NOT IN (0, ${EMBEDDING_DIMENSIONS})
+  `);
+  if (wrongSize.rowCount) {
+    console.log(`⚠️ ${wrongSize.rowCount} chunks have embeddings of the wrong size; they will be re-embedded`);
+  }
+  await db.execute(sql`
+    UPDATE reference_cache SET chunk_embedding = NULL
+    WHERE json_array_length(chunk_embedding::json) <> ${EMBEDDING_DIMENSIONS}
+  `);
+  await db.execute(sql.raw(
+    `ALTER TABLE reference_cache ALTER COLUMN chunk_embedding TYPE vector(${EMBEDDING_DIMENSIONS}) USING chunk_embedding::vector(${EMBEDDING_DIMENSIONS})`
+  ));
+  await db.execute(sql`
+    CREATE INDEX IF NOT EXISTS idx_reference_cache_embedding
+    ON reference_cache USING hnsw (chunk_embedding vector_cosine_ops)
+  `);
+  console.log('✅ reference_cache.chunk_embedding is now a vector column');
+}
+
+/**
+ * csv_data.status arrived after rows were already being enriched, so those rows got the 'pending'
+ * default. A row only gets enriched_data when it completes, so mark those rows completed.
+ */
+async function backfillCompletedRowStatus() {
+  if (!await columnType('csv_data', 'status')) {
+    return;
+  }
+
+  const result = await db.execute(sql`
+    UPDATE csv_data SET status = 'completed'
+    WHERE status = 'pending' AND enriched_data IS NOT NULL
+  `);
+  if (result.rowCount) {
+    console.log(`✅ Marked ${result.rowCount} previously enriched rows as completed`);
+  }
+}
+
+/**
+ * Regenerate flagged embeddings in the background; it takes an embedding call per chunk, so the
+ * server doesn't wait for it. Chunks still flagged after a restart are picked up again.
+ */
+function reembedFlaggedChunks() {
+  enhancedEmbeddingsService.reembedFlaggedChunks().catch(error => {
+    console.error('❌ Re-embedding flagged chunks failed:', error);
+  });
+}
+
+async function migrateDatabase() {
+  await migrateReferenceEmbeddingsToVector();
+  await backfillCompletedRowStatus();
+  reembedFlaggedChunks();
+}
+
+export { migrateDatabase };
@@ -72,7 +72,8 @@ export function setupAuth(app: Express) {
               existingUser = await storage.createUser({
                 email: 'admin@twilio.com',
                 name: 'Admin User (Preview)',
-                googleId: 'preview-admin'
+                googleId: 'preview-admin',
+                isAdmin: true
               });
               console.log('✓ Created admin user in database');
             } else {
@@ -316,4 +317,24 @@ export const isAuthenticated: RequestHandler = (req, res, next) => {
     return next();
   }
   return res.status(401).json({ message: "Unauthorized" });
-};
\ No newline at end of file
+};
+
+// Admins manage spend limits and model prices. ADMIN_EMAILS (comma separated) grants admin without a database edit.
+export function isAdminUser(user: any): boolean {
+  if (!user) return false;
+  const adminEmails = (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean);
+  return !!user.isAdmin || (!!user.email && adminEmails.includes(user.email.toLowerCase()));
+}
+
+export const isAdmin: RequestHandler = (req, res, next) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+  if (!isAdminUser(req.user)) {
+    return res.status(403).json({ message: "Admin access required" });
+  }
+  return next();
+};
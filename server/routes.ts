@@ -4,14 +4,27 @@ import { WebSocketServer, WebSocket } from "ws";
 import { storage } from "./storage";
 import { fileUploadService } from "./services/fileUpload";
 import { jobProcessor } from "./services/jobProcessor";
-import { openaiService } from "./services/openai";
+import { openaiService, type AgentConfig } from "./services/openai";
+import { stepExecutorRegistry } from "./services/stepExecutors";
+import { validatePipelineGraph, validatePipelineTemplates, validatePipelineDefinition, validateOutputSchemas } from "./services/pipelineGraph";
+import { buildPipelineBundle, serializePipelineBundle, parsePipelineBundle, getBundleFileName, PipelineBundleError } from "./services/pipelineBundle";
+import { runPipelinePlayground } from "./services/pipelinePlayground";
+import { estimateJob } from "./services/costEstimator";
+import { saveUsage } from "./services/usageTracking";
+import { modelPricingService } from "./services/modelPricing";
+import { spendLimitService, formatSpendLimitMessage } from "./services/spendLimits";
+import { pipelineComparisonService, ComparisonError } from "./services/pipelineComparison";
 import { documentProcessor } from "./services/documentProcessor";
 import { urlNormalizer } from "./services/urlNormalizer";
 import { enhancedEmbeddingsService } from "./services/enhancedEmbeddings";
 import { backgroundProcessor } from "./services/backgroundProcessor";
+import { CITATIONS_KEY, collectCitations, formatSources } from "./services/citations";
+import { VERIFICATION_KEY } from "./services/claimVerification";
+import { RETRIEVAL_KEY, CONFIDENCE_KEY } from "./services/answerConfidence";
+import { KNOWLEDGE_SCOPE_KEY, describeKnowledgeScope } from "./services/knowledgeScope";
 import multer from "multer";
-import { insertJobSchema, insertPipelineSchema, csvData } from "@shared/schema";
-import { setupAuth, isAuthenticated } from "./replitAuth";
+import { insertJobSchema, insertPipelineSchema, insertModelPriceSchema, insertSpendLimitSchema, csvData, MAX_JOB_CONCURRENCY, knowledgeScopeSchema, KNOWLEDGE_DOMAINS, PRODUCT_TAGS, type KnowledgeScope } from "@shared/schema";
+import { setupAuth, isAuthenticated, isAdmin, isAdminUser } from "./replitAuth";
 import { z } from "zod";
 import { db } from "./db";
 import { and, eq, isNotNull } from "drizzle-orm";
@@ -87,6 +100,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  jobProcessor.on('rowFailed', async ({ jobId, rowIndex, error, progress, totalRows }) => {
+    const job = await storage.getJob(jobId);
+    if (job) {
+      broadcastToUser(job.userId, 'rowFailed', {
+        jobId,
+        rowIndex,
+        error,
+        progress,
+        totalRows,
+        failedRows: job.failedRows
+      });
+    }
+  });
+
   jobProcessor.on('jobCompleted', async ({ jobId }) => {
     const job = await storage.getJob(jobId);
     if (job) {
@@ -108,6 +135,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // These carry the owner's id so a streaming step doesn't look up its job on every batch of tokens
+  for (const event of ['stepToken', 'stepFailed']) {
+    jobProcessor.on(event, ({ userId, ...data }: { userId?: string | null; jobId: string }) => {
+      if (userId) {
+        broadcastToUser(userId, event, data);
+      }
+    });
+  }
+
+  jobProcessor.on('spendLimitReached', async (data: { jobId: string }) => {
+    const job = await storage.getJob(data.jobId);
+    if (job) {
+      broadcastToUser(job.userId, 'spendLimitReached', data);
+    }
+  });
+
+  // Pipeline comparison events go to the owner of the compared job
+  (['comparisonStarted', 'comparisonProgress', 'comparisonCompleted'] as const).forEach(event => {
+    pipelineComparisonService.on(event, async (data: { jobId: string }) => {
+      const job = await storage.getJob(data.jobId);
+      if (job) {
+        broadcastToUser(job.userId, event, data);
+      }
+    });
+  });
+
 
 
   // Health check route for deployment monitoring
@@ -122,7 +175,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Auth routes
   app.get('/api/auth/user', isAuthenticated, async (req: any, res) => {
     try {
-      res.json(req.user);
+      res.json({ ...req.user, isAdmin: isAdminUser(req.user) });
     } catch (error) {
       console.error("Error fetching user:", error);
       res.status(500).json({ message: "Failed to fetch user" });
@@ -164,6 +217,59 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Estimate a job's tokens, cost and duration from the pipeline's history before it is created
+  app.post('/api/jobs/estimate', isAuthenticated, fileUploadService.getMulterConfig().single('csvFile'), async (req: any, res) => {
+    const csvFile = req.file as Express.Multer.File | undefined;
+    try {
+      if (!csvFile) {
+        return res.status(400).json({ message: 'No CSV file uploaded' });
+      }
+
+      const validation = await fileUploadService.validateCSV(csvFile.path);
+      if (!validation.isValid) {
+        return res.status(400).json({ message: 'Invalid CSV', errors: validation.errors });
+      }
+
+      let pipelineId = req.body.pipelineId;
+      if (!pipelineId) {
+        const defaultPipelines = await storage.getDefaultPipelines();
+        if (defaultPipelines.length === 0) {
+          return res.status(400).json({ message: 'No default pipeline available' });
+        }
+        pipelineId = defaultPipelines[0].id;
+      }
+
+      const pipelineVersion = await storage.getCurrentPipelineVersion(pipelineId);
+      if (!pipelineVersion) {
+        return res.status(400).json({ message: 'Pipeline not found' });
+      }
+
+      const concurrency = req.body.concurrency ? parseInt(req.body.concurrency, 10) : 1;
+      if (isNaN(concurrency) || concurrency < 1 || concurrency > MAX_JOB_CONCURRENCY) {
+        return res.status(400).json({ message: `Concurrency must be between 1 and ${MAX_JOB_CONCURRENCY}` });
+      }
+
+      const csvRows = await fileUploadService.parseCSVToArray(csvFile.path);
+      const rowChars = csvRows.reduce((sum, row) => sum + Object.values(row).join(' ').length, 0);
+
+      const estimate = await estimateJob({
+        pipelineId,
+        steps: pipelineVersion.steps as AgentConfig[],
+        totalRows: validation.rowCount,
+        avgRowChars: csvRows.length > 0 ? rowChars / csvRows.length : 0,
+        concurrency
+      });
+      res.json({ pipelineId, ...estimate });
+    } catch (error) {
+      console.error('Job estimate failed:', error);
+      res.status(500).json({ message: 'Failed to estimate job' });
+    } finally {
+      if (csvFile) {
+        await fileUploadService.deleteFile(csvFile.path);
+      }
+    }
+  });
+
   app.post('/api/jobs', isAuthenticated, fileUploadService.getMulterConfig().fields([
     { name: 'csvFile', maxCount: 1 },
     { name: 'additionalDoc_0', maxCount: 1 },
@@ -213,6 +319,49 @@ export async function registerRoutes(app: Express): Promise<Server> {
         pipelineId = defaultPipelines[0].id;
       }
 
+      // Pin the job to the definition as it is now, so later edits don't change what it runs
+      const pipelineVersion = await storage.getCurrentPipelineVersion(pipelineId);
+      if (!pipelineVersion) {
+        await fileUploadService.deleteFile(csvFile.path);
+        return res.status(400).json({ message: 'Pipeline not found' });
+      }
+
+      const continueOnRowFailure = req.body.continueOnRowFailure === 'true';
+      const concurrency = req.body.concurrency ? parseInt(req.body.concurrency, 10) : 1;
+      if (isNaN(concurrency) || concurrency < 1 || concurrency > MAX_JOB_CONCURRENCY) {
+        await fileUploadService.deleteFile(csvFile.path);
+        return res.status(400).json({ message: `Concurrency must be between 1 and ${MAX_JOB_CONCURRENCY}` });
+      }
+
+      // Multipart fields are strings, so the scope arrives as JSON
+      let knowledgeScope: KnowledgeScope | null = null;
+      if (req.body.knowledgeScope) {
+        let parsedScope;
+        try {
+          parsedScope = knowledgeScopeSchema.safeParse(JSON.parse(req.body.knowledgeScope));
+        } catch {
+          parsedScope = null;
+        }
+        if (!parsedScope?.success) {
+          await fileUploadService.deleteFile(csvFile.path);
+          return res.status(400).json({ message: 'Invalid knowledge scope', errors: parsedScope?.error.errors });
+        }
+        knowledgeScope = Object.keys(parsedScope.data).length > 0 ? parsedScope.data : null;
+      }
+      if (knowledgeScope?.documentIds) {
+        const documents = await Promise.all(knowledgeScope.documentIds.map(id => storage.getReferenceDocument(id)));
+        const missing = knowledgeScope.documentIds.filter((_, index) => !documents[index]);
+        if (missing.length > 0) {
+          await fileUploadService.deleteFile(csvFile.path);
+          return res.status(400).json({ message: `Unknown reference documents: ${missing.join(', ')}` });
+        }
+        const notOwned = knowledgeScope.documentIds.filter((_, index) => documents[index]!.userId !== userId);
+        if (notOwned.length > 0) {
+          await fileUploadService.deleteFile(csvFile.path);
+          return res.status(403).json({ message: `Reference documents belong to another user: ${notOwned.join(', ')}` });
+        }
+      }
+
       const jobData = insertJobSchema.parse({
         userId: userId,
         name: req.body.name || csvFile.originalname,
@@ -221,10 +370,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         filePath: csvFile.path,
         totalRows: validation.rowCount,
         pipelineId: pipelineId,
+        pipelineVersionId: pipelineVersion.id,
         status: 'not_started',
+        concurrency,
+        continueOnRowFailure,
         // New RFP-specific fields
         rfpInstructions: req.body.rfpInstructions || null,
-        additionalDocuments: additionalDocuments.length > 0 ? additionalDocuments : null
+        additionalDocuments: additionalDocuments.length > 0 ? additionalDocuments : null,
+        knowledgeScope
       });
 
       const job = await storage.createJob(jobData);
@@ -239,7 +392,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      console.log(`📄 Job created with ${additionalDocuments.length} additional documents and ${req.body.rfpInstructions ? 'custom' : 'no'} RFP instructions`);
+      console.log(`📄 Job created with ${additionalDocuments.length} additional documents and ${req.body.rfpInstructions ? 'custom' : 'no'} RFP instructions, searching ${describeKnowledgeScope(knowledgeScope)}`);
 
       res.json({ job, validation, additionalDocuments: additionalDocuments.length });
     } catch (error) {
@@ -279,6 +432,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const message = updatedJob.status === 'completed' 
         ? 'Job completed successfully' 
+        : updatedJob.status === 'completed_with_errors'
+        ? `Job completed with ${updatedJob.failedRows} failed row(s)`
         : updatedJob.status === 'error'
         ? 'Job failed'
         : updatedJob.status === 'paused'
@@ -307,6 +462,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
 
 
+  app.post('/api/jobs/:id/retry-failed', isAuthenticated, async (req: any, res) => {
+    try {
+      const job = await storage.getJob(req.params.id);
+      if (!job || job.userId !== req.user.id) {
+        return res.status(404).json({ message: 'Job not found' });
+      }
+
+      const rowsToRetry = await jobProcessor.retryFailedRows(job.id);
+      if (rowsToRetry === 0) {
+        return res.status(400).json({ message: 'No failed rows to retry' });
+      }
+
+      res.json({ message: `Retrying ${rowsToRetry} failed row(s)`, rowsToRetry });
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Failed to retry failed rows' });
+    }
+  });
+
   app.post('/api/jobs/:id/reprocess', isAuthenticated, async (req: any, res) => {
     try {
       const job = await storage.getJob(req.params.id);
@@ -395,6 +568,219 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Token usage and cost of a job, broken down by step, model, row and source (steps, context resolution, feedback, comparisons)
+  app.get('/api/jobs/:id/usage', isAuthenticated, async (req: any, res) => {
+    try {
+      const job = await storage.getJob(req.params.id);
+      if (!job || job.userId !== req.user.id) {
+        return res.status(404).json({ message: 'Job not found' });
+      }
+
+      const filter = { jobId: job.id };
+      const [[totals], byStep, byModel, byRow, bySource] = await Promise.all([
+        storage.getUsageTotals(filter),
+        storage.getUsageTotals(filter, 'step'),
+        storage.getUsageTotals(filter, 'model'),
+        storage.getUsageTotals(filter, 'row'),
+        storage.getUsageTotals(filter, 'source')
+      ]);
+      res.json({ totals, byStep, byModel, byRow, bySource });
+    } catch (error) {
+      console.error('Failed to get job usage:', error);
+      res.status(500).json({ message: 'Failed to get job usage' });
+    }
+  });
+
+  // Spend limits that apply to the job, what has been spent against them, and what the unprocessed rows should cost
+  app.get('/api/jobs/:id/budget', isAuthenticated, async (req: any, res) => {
+    try {
+      const job = await storage.getJob(req.params.id);
+      if (!job || job.userId !== req.user.id) {
+        return res.status(404).json({ message: 'Job not found' });
+      }
+
+      const [budget, estimate] = await Promise.all([
+        spendLimitService.getJobBudget(job),
+        spendLimitService.estimateRemainingCost(job)
+      ]);
+      res.json({ ...budget, estimate });
+    } catch (error) {
+      console.error('Failed to get job budget:', error);
+      res.status(500).json({ message: 'Failed to get job budget' });
+    }
+  });
+
+  // The exact pipeline definition (prompts, models, graph) the job runs with
+  app.get('/api/jobs/:id/pipeline-version', isAuthenticated, async (req: any, res) => {
+    try {
+      const job = await storage.getJob(req.params.id);
+      if (!job || job.userId !== req.user.id) {
+        return res.status(404).json({ message: 'Job not found' });
+      }
+      if (!job.pipelineVersionId) {
+        return res.status(404).json({ message: 'Job has not been pinned to a pipeline version yet' });
+      }
+
+      const version = await storage.getPipelineVersion(job.pipelineVersionId);
+      if (!version) {
+        return res.status(404).json({ message: 'Pipeline version not found' });
+      }
+      res.json(version);
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to get pipeline version' });
+    }
+  });
+
+  // A/B comparisons: re-run some of a job's rows against another pipeline version
+  app.get('/api/jobs/:id/comparisons', isAuthenticated, async (req: any, res) => {
+    try {
+      const job = await storage.getJob(req.params.id);
+      if (!job || job.userId !== req.user.id) {
+        return res.status(404).json({ message: 'Job not found' });
+      }
+
+      const comparisons = await storage.getJobComparisons(job.id);
+      const withVersions = await Promise.all(comparisons.map(async comparison => {
+        const variant = await storage.getPipelineVersion(comparison.variantVersionId);
+        return {
+          ...comparison,
+          variant: variant ? { pipelineId: variant.pipelineId, version: variant.version, name: variant.name } : null,
+          isRunning: pipelineComparisonService.isRunning(comparison.id)
+        };
+      }));
+      res.json(withVersions);
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to get comparisons' });
+    }
+  });
+
+  app.post('/api/jobs/:id/comparisons', isAuthenticated, async (req: any, res) => {
+    try {
+      const job = await storage.getJob(req.params.id);
+      if (!job || job.userId !== req.user.id) {
+        return res.status(404).json({ message: 'Job not found' });
+      }
+
+      const { pipelineId, version, sampleSize, rowIndexes } = req.body;
+      if (!pipelineId) {
+        return res.status(400).json({ message: 'pipelineId is required' });
+      }
+      const variantVersion = version
+        ? await storage.getPipelineVersionByNumber(pipelineId, parseInt(version, 10))
+        : await storage.getCurrentPipelineVersion(pipelineId);
+      if (!variantVersion) {
+        return res.status(404).json({ message: 'Pipeline version not found' });
+      }
+      if (variantVersion.id === job.pipelineVersionId) {
+        return res.status(400).json({ message: 'The job already ran with this pipeline version' });
+      }
+
+      const comparison = await pipelineComparisonService.createComparison({
+        job,
+        variantVersionId: variantVersion.id,
+        sampleSize: sampleSize ? parseInt(sampleSize, 10) : undefined,
+        rowIndexes: Array.isArray(rowIndexes) ? rowIndexes.map((rowIndex: any) => parseInt(rowIndex, 10)) : undefined,
+        createdBy: req.user.id
+      });
+      res.json(comparison);
+    } catch (error) {
+      if (error instanceof ComparisonError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Failed to create comparison:', error);
+      res.status(500).json({ message: 'Failed to create comparison' });
+    }
+  });
+
+  // Comparisons are reached through their job, so ownership is checked on the job
+  const getOwnedComparison = async (comparisonId: string, userId: string) => {
+    const comparison = await storage.getPipelineComparison(comparisonId);
+    if (!comparison) return undefined;
+    const job = await storage.getJob(comparison.jobId);
+    return job && job.userId === userId ? comparison : undefined;
+  };
+
+  app.get('/api/comparisons/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const comparison = await getOwnedComparison(req.params.id, req.user.id);
+      if (!comparison) {
+        return res.status(404).json({ message: 'Comparison not found' });
+      }
+
+      const variant = await storage.getPipelineVersion(comparison.variantVersionId);
+      const details = await pipelineComparisonService.getComparisonDetails(comparison);
+      res.json({
+        comparison: {
+          ...comparison,
+          variant: variant ? { pipelineId: variant.pipelineId, version: variant.version, name: variant.name } : null,
+          isRunning: pipelineComparisonService.isRunning(comparison.id)
+        },
+        ...details
+      });
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to get comparison' });
+    }
+  });
+
+  app.patch('/api/comparisons/:id/rows/:rowIndex/pick', isAuthenticated, async (req: any, res) => {
+    try {
+      const comparison = await getOwnedComparison(req.params.id, req.user.id);
+      if (!comparison) {
+        return res.status(404).json({ message: 'Comparison not found' });
+      }
+
+      const { pick } = req.body;
+      if (pick !== null && !['baseline', 'variant', 'tie'].includes(pick)) {
+        return res.status(400).json({ message: 'pick must be baseline, variant, tie or null' });
+      }
+
+      const result = await pipelineComparisonService.setPick(comparison.id, parseInt(req.params.rowIndex, 10), pick, req.user.id);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof ComparisonError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: 'Failed to save pick' });
+    }
+  });
+
+  app.post('/api/comparisons/:id/cancel', isAuthenticated, async (req: any, res) => {
+    try {
+      const comparison = await getOwnedComparison(req.params.id, req.user.id);
+      if (!comparison) {
+        return res.status(404).json({ message: 'Comparison not found' });
+      }
+      pipelineComparisonService.cancelComparison(comparison.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to cancel comparison' });
+    }
+  });
+
+  // Re-run the rows that did not complete (after a cancel, failure or server restart)
+  app.post('/api/comparisons/:id/resume', isAuthenticated, async (req: any, res) => {
+    try {
+      const comparison = await getOwnedComparison(req.params.id, req.user.id);
+      if (!comparison) {
+        return res.status(404).json({ message: 'Comparison not found' });
+      }
+      if (pipelineComparisonService.isRunning(comparison.id)) {
+        return res.status(400).json({ message: 'Comparison is still running or stopping' });
+      }
+      await pipelineComparisonService.assertWithinSpendLimit(comparison.createdBy || req.user.id);
+
+      pipelineComparisonService.runComparison(comparison.id).catch(error => {
+        console.error(`❌ Comparison ${comparison.id} failed:`, error);
+      });
+      res.json({ success: true });
+    } catch (error) {
+      if (error instanceof ComparisonError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: 'Failed to resume comparison' });
+    }
+  });
+
   // Save feedback for a CSV row
   app.patch('/api/jobs/:jobId/rows/:rowIndex/feedback', isAuthenticated, async (req: any, res) => {
     try {
@@ -411,6 +797,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Clear a low-confidence row from the review queue
+  app.post('/api/jobs/:jobId/rows/:rowIndex/review', isAuthenticated, async (req: any, res) => {
+    try {
+      const { jobId, rowIndex } = req.params;
+      const job = await storage.getJob(jobId);
+      if (!job || job.userId !== req.user.id) {
+        return res.status(404).json({ message: 'Job not found' });
+      }
+
+      const row = await storage.markCsvRowReviewed(jobId, parseInt(rowIndex));
+      if (!row) {
+        return res.status(404).json({ message: 'Row not found' });
+      }
+      res.json(row);
+    } catch (error) {
+      console.error('Mark row reviewed error:', error);
+      res.status(500).json({ message: 'Failed to mark row as reviewed' });
+    }
+  });
+
   // Apply bulk feedback to all rows
   app.post('/api/jobs/:jobId/bulk-feedback', isAuthenticated, async (req: any, res) => {
     try {
@@ -515,14 +921,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
       
       // Filter columns to match grid view (keep FULL_CONTEXTUAL_QUESTION visible)
-      const excludedColumns = ["RFP_INSTRUCTIONS", "ADDITIONAL_DOCUMENTS", "jobId"];
+      const excludedColumns = ["RFP_INSTRUCTIONS", "ADDITIONAL_DOCUMENTS", KNOWLEDGE_SCOPE_KEY, "PREVIOUS_CONTEXT", "jobId", CITATIONS_KEY, VERIFICATION_KEY, RETRIEVAL_KEY, CONFIDENCE_KEY];
       
       const exportData = csvData.map(row => {
+        const enrichedData = (row.enrichedData || {}) as Record<string, any>;
+        const citations = collectCitations(enrichedData[CITATIONS_KEY]);
         const combinedData = {
           ...(row.originalData || {}),
           // Add the full contextual question from the database
           ...(row.fullContextualQuestion ? { FULL_CONTEXTUAL_QUESTION: row.fullContextualQuestion } : {}),
-          ...(row.enrichedData || {})
+          ...enrichedData,
+          // Resolved URLs and document names of everything the row's answers cite
+          Sources: formatSources(citations)
         };
         
         // Filter out excluded columns
@@ -559,8 +969,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         
         // Pipeline order
         const pipelineOrder = ["Reference Research", "Generic Draft Generation", "Tailored RFP Response"];
-        const orderedEnrichedColumns = pipelineOrder.filter(col => enrichedColumns.includes(col));
-        const otherEnrichedColumns = enrichedColumns.filter(col => !pipelineOrder.includes(col) && col !== 'FULL_CONTEXTUAL_QUESTION');
+        // A step's structured output fields ("<Step>.<field>") follow the step's own column
+        const withFieldColumns = (col: string) => [col, ...enrichedColumns.filter(field => field.startsWith(`${col}.`))];
+        const orderedEnrichedColumns = pipelineOrder.filter(col => enrichedColumns.includes(col)).flatMap(withFieldColumns);
+        const otherEnrichedColumns = enrichedColumns.filter(col => !orderedEnrichedColumns.includes(col) && col !== 'FULL_CONTEXTUAL_QUESTION');
         
         // Build final column order: Question → Full Contextual Question → Other Original → Pipeline Steps → Other Enriched
         const allColumns: string[] = [];
@@ -574,6 +986,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
         
         allColumns.push(...otherOriginalColumns, ...orderedEnrichedColumns, ...otherEnrichedColumns);
+        // Sources goes last, and is left out when no row cites anything
+        if (exportData.some(row => row.Sources)) allColumns.push('Sources');
         
         console.log('Final column order:', allColumns);
         
@@ -601,8 +1015,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Job action routes (start/pause/resume)
+  // Starting or resuming a job that is already over a spend limit would pause it again straight away
+  const getSpendLimitBlock = async (jobId: string) => {
+    const job = await storage.getJob(jobId);
+    const exceeded = job ? await spendLimitService.checkLimits(job.userId, job.id) : null;
+    return job && exceeded ? { message: formatSpendLimitMessage(exceeded), ...exceeded } : null;
+  };
+
   app.post('/api/jobs/:id/start', isAuthenticated, async (req: any, res) => {
     try {
+      const spendLimitBlock = await getSpendLimitBlock(req.params.id);
+      if (spendLimitBlock) {
+        return res.status(409).json(spendLimitBlock);
+      }
       await jobProcessor.startJob(req.params.id);
       res.json({ message: 'Job started successfully' });
     } catch (error) {
@@ -621,6 +1046,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post('/api/jobs/:id/resume', isAuthenticated, async (req: any, res) => {
     try {
+      const spendLimitBlock = await getSpendLimitBlock(req.params.id);
+      if (spendLimitBlock) {
+        return res.status(409).json(spendLimitBlock);
+      }
       await jobProcessor.resumeJob(req.params.id);
       res.json({ message: 'Job resumed successfully' });
     } catch (error) {
@@ -645,8 +1074,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: 'Job not found' });
       }
 
-      // Check if job is actually running and sync status
-      const isActuallyRunning = (jobProcessor as any).activeJobs.has(job.id);
+      // Check if any worker holds a live lease on the job and sync status
+      const isActuallyRunning = await jobProcessor.isJobRunning(job.id);
       
       if (isActuallyRunning && job.status !== 'in_progress') {
         console.log(`🔄 Syncing job ${job.id} status: DB shows '${job.status}' but job is running`);
@@ -655,9 +1084,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         broadcastToUser(job.userId, 'jobStarted', { jobId: job.id, job: updatedJob });
         res.json({ message: 'Job status synced - now showing as in_progress', synced: true });
       } else if (!isActuallyRunning && job.status === 'in_progress') {
-        await storage.updateJob(job.id, { status: 'paused' });
-        broadcastToUser(job.userId, 'jobPaused', { jobId: job.id });
-        res.json({ message: 'Job status synced - now showing as paused', synced: true });
+        // Orphaned by a restart or crashed worker - resume from the last completed row and step
+        console.log(`♻️  Syncing job ${job.id}: no live lease, resuming`);
+        jobProcessor.recoverJob(job.id);
+        res.json({ message: 'Job status synced - resuming from last completed step', synced: true });
       } else {
         res.json({ message: 'Job status already in sync', synced: false });
       }
@@ -693,24 +1123,265 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Step types available to pipeline steps
+  app.get('/api/pipelines/step-types', async (req, res) => {
+    res.json(stepExecutorRegistry.list());
+  });
+
+  // Check step prompt templates for syntax errors and unknown variables before a job runs
+  app.post('/api/pipelines/validate-templates', async (req, res) => {
+    try {
+      const { steps, columns } = req.body;
+      if (!Array.isArray(steps)) {
+        return res.status(400).json({ message: 'steps must be an array' });
+      }
+
+      const graphIssues = validatePipelineGraph(steps);
+      const schemaIssues = validateOutputSchemas(steps);
+      const issues = validatePipelineTemplates(steps, Array.isArray(columns) ? columns : []);
+      res.json({ valid: issues.length === 0 && graphIssues.length === 0 && schemaIssues.length === 0, issues, graphIssues, schemaIssues });
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Failed to validate templates' });
+    }
+  });
+
+  // Dry-run unsaved pipeline steps on one question, streaming each step as server-sent events
+  app.post('/api/pipelines/playground', isAuthenticated, async (req: any, res) => {
+    const { steps, question, rfpInstructions, pipelineId } = req.body;
+
+    if (!Array.isArray(steps) || steps.length === 0) {
+      return res.status(400).json({ error: 'steps must be a non-empty array' });
+    }
+    if (steps.some(step => !step || typeof step !== 'object' || typeof step.name !== 'string')) {
+      return res.status(400).json({ error: 'Every step must be an object with a name' });
+    }
+    if (!question || typeof question !== 'string' || !question.trim()) {
+      return res.status(400).json({ error: 'Please provide a question' });
+    }
+
+    // Validation runs on user input before the stream opens, so a throw must become a 400 here
+    try {
+      const definitionErrors = validatePipelineDefinition(steps);
+      if (definitionErrors.length > 0) {
+        return res.status(400).json({ error: definitionErrors.join('; ') });
+      }
+    } catch (error) {
+      return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid pipeline steps' });
+    }
+
+    // Playground runs count toward the monthly cap, so one that is reached blocks them too
+    try {
+      const exceeded = await spendLimitService.checkLimits(req.user.id);
+      if (exceeded) {
+        return res.status(402).json({ error: formatSpendLimitMessage(exceeded) });
+      }
+    } catch (error) {
+      console.error('Failed to check spend limits:', error);
+      return res.status(500).json({ error: 'Failed to check spend limits' });
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no' // Disable nginx buffering
+    });
+
+    // Stop scheduling steps once the editor closes the stream
+    let disconnected = false;
+    res.on('close', () => {
+      disconnected = true;
+    });
+
+    console.log(`🧪 Playground run of ${steps.length} steps for: ${question.substring(0, 100)}...`);
+    try {
+      const result = await runPipelinePlayground(
+        steps,
+        { question: question.trim(), rfpInstructions: typeof rfpInstructions === 'string' ? rfpInstructions : undefined },
+        event => {
+          if (!disconnected) {
+            res.write(`data: ${JSON.stringify(event)}\n\n`);
+          }
+        },
+        () => disconnected
+      );
+      await saveUsage({ source: 'playground', userId: req.user.id, pipelineId: typeof pipelineId === 'string' ? pipelineId : null }, result.usage);
+    } catch (error) {
+      console.error('Playground run failed:', error);
+      if (!disconnected) {
+        res.write(`data: ${JSON.stringify({ type: 'error', message: error instanceof Error ? error.message : 'Playground run failed' })}\n\n`);
+      }
+    }
+    res.end();
+  });
+
   // Update pipeline
   app.put('/api/pipelines/:id', isAuthenticated, async (req: any, res) => {
     try {
       const { id } = req.params;
-      const { name, steps } = req.body;
-      
-      const updatedPipeline = await storage.updatePipeline(id, {
-        name,
-        steps
-      });
+      const { name, description, changeNote } = req.body;
+
+      const pipeline = await storage.getPipeline(id);
+      if (!pipeline) {
+        return res.status(404).json({ error: 'Pipeline not found' });
+      }
+      // Omitted fields keep their current value, so a rename alone needs no steps
+      const steps = req.body.steps === undefined ? pipeline.steps : req.body.steps;
+      if (!Array.isArray(steps)) {
+        return res.status(400).json({ error: 'steps must be an array' });
+      }
+      if (description !== undefined && description !== null && typeof description !== 'string') {
+        return res.status(400).json({ error: 'description must be a string' });
+      }
+
+      const definitionErrors = validatePipelineDefinition(steps);
+      if (definitionErrors.length > 0) {
+        return res.status(400).json({ error: definitionErrors.join('; ') });
+      }
+
+      // Saving an identical definition would only add noise to the history
+      const nextName = name || pipeline.name;
+      const nextDescription: string | null = description === undefined ? pipeline.description : (description || null);
+      if (nextName === pipeline.name && nextDescription === pipeline.description && JSON.stringify(steps) === JSON.stringify(pipeline.steps)) {
+        return res.json(pipeline);
+      }
+
+      // Edits never overwrite a definition: they append a version that becomes current
+      const version = await storage.createPipelineVersion(id, { name: nextName, description: nextDescription, steps }, req.user.id, changeNote || null);
+      console.log(`📝 Pipeline ${id} saved as version ${version.version}`);
       
-      res.json(updatedPipeline);
+      res.json(await storage.getPipeline(id));
     } catch (error) {
       console.error('Failed to update pipeline:', error);
       res.status(500).json({ error: 'Failed to update pipeline' });
     }
   });
 
+  app.get('/api/pipelines/:id/versions', isAuthenticated, async (req: any, res) => {
+    try {
+      const pipeline = await storage.getPipeline(req.params.id);
+      if (!pipeline) {
+        return res.status(404).json({ error: 'Pipeline not found' });
+      }
+
+      // Make sure pipelines created before versioning show their current definition
+      await storage.getCurrentPipelineVersion(pipeline.id);
+      const versions = await storage.getPipelineVersions(pipeline.id);
+      res.json({ currentVersion: pipeline.currentVersion, versions });
+    } catch (error) {
+      console.error('Failed to fetch pipeline versions:', error);
+      res.status(500).json({ error: 'Failed to fetch pipeline versions' });
+    }
+  });
+
+  app.get('/api/pipelines/:id/versions/:version', isAuthenticated, async (req: any, res) => {
+    try {
+      const version = await storage.getPipelineVersionByNumber(req.params.id, parseInt(req.params.version, 10));
+      if (!version) {
+        return res.status(404).json({ error: 'Pipeline version not found' });
+      }
+      res.json(version);
+    } catch (error) {
+      console.error('Failed to fetch pipeline version:', error);
+      res.status(500).json({ error: 'Failed to fetch pipeline version' });
+    }
+  });
+
+  // Rolling back appends a copy of the old snapshot, so the history itself is never rewritten
+  app.post('/api/pipelines/:id/versions/:version/rollback', isAuthenticated, async (req: any, res) => {
+    try {
+      const target = await storage.getPipelineVersionByNumber(req.params.id, parseInt(req.params.version, 10));
+      if (!target) {
+        return res.status(404).json({ error: 'Pipeline version not found' });
+      }
+
+      const pipeline = await storage.getPipeline(req.params.id);
+      if (pipeline?.currentVersion === target.version) {
+        return res.status(400).json({ error: `Version ${target.version} is already the current version` });
+      }
+
+      const version = await storage.createPipelineVersion(
+        target.pipelineId,
+        { name: target.name, description: target.description, steps: target.steps },
+        req.user.id,
+        `Rolled back to version ${target.version}`
+      );
+      console.log(`⏪ Pipeline ${target.pipelineId} rolled back to version ${target.version} (now version ${version.version})`);
+
+      res.json(await storage.getPipeline(target.pipelineId));
+    } catch (error) {
+      console.error('Failed to roll back pipeline:', error);
+      res.status(500).json({ error: 'Failed to roll back pipeline' });
+    }
+  });
+
+  // Download a pipeline (or one of its versions) as a portable bundle
+  app.get('/api/pipelines/:id/export', isAuthenticated, async (req: any, res) => {
+    try {
+      const pipeline = await storage.getPipeline(req.params.id);
+      if (!pipeline) {
+        return res.status(404).json({ error: 'Pipeline not found' });
+      }
+
+      const format = req.query.format === 'yaml' ? 'yaml' : 'json';
+      let version;
+      if (req.query.version) {
+        version = await storage.getPipelineVersionByNumber(pipeline.id, parseInt(req.query.version as string, 10));
+        if (!version) {
+          return res.status(404).json({ error: 'Pipeline version not found' });
+        }
+      }
+
+      const bundle = buildPipelineBundle(pipeline, version);
+      res.setHeader('Content-Type', format === 'yaml' ? 'application/yaml; charset=utf-8' : 'application/json; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${getBundleFileName(bundle.pipeline.name, format)}"`);
+      res.send(serializePipelineBundle(bundle, format));
+    } catch (error) {
+      console.error('Failed to export pipeline:', error);
+      res.status(500).json({ error: 'Failed to export pipeline' });
+    }
+  });
+
+  // Import a bundle as a new pipeline, or as a new version of an existing one when pipelineId is given
+  app.post('/api/pipelines/import', isAuthenticated, async (req: any, res) => {
+    try {
+      const { content, bundle: bundleObject, pipelineId } = req.body;
+      const bundle = parsePipelineBundle(content ?? bundleObject);
+      const { name, description, steps } = bundle.pipeline;
+
+      if (pipelineId) {
+        const existing = await storage.getPipeline(pipelineId);
+        if (!existing) {
+          return res.status(404).json({ error: 'Pipeline not found' });
+        }
+
+        const version = await storage.createPipelineVersion(
+          pipelineId,
+          { name, description, steps },
+          req.user.id,
+          `Imported from bundle "${name}"`
+        );
+        console.log(`📥 Imported bundle "${name}" into pipeline ${pipelineId} as version ${version.version}`);
+        return res.json(await storage.getPipeline(pipelineId));
+      }
+
+      const pipeline = await storage.createPipeline(insertPipelineSchema.parse({
+        name,
+        description: description ?? null,
+        steps,
+        isDefault: false
+      }));
+      console.log(`📥 Imported bundle "${name}" as new pipeline ${pipeline.id}`);
+      res.json(pipeline);
+    } catch (error) {
+      if (error instanceof PipelineBundleError) {
+        return res.status(400).json({ error: error.message, issues: error.issues });
+      }
+      console.error('Failed to import pipeline:', error);
+      res.status(500).json({ error: 'Failed to import pipeline' });
+    }
+  });
+
   app.post('/api/pipelines', isAuthenticated, async (req: any, res) => {
     try {
       const pipelineData = insertPipelineSchema.parse(req.body);
@@ -724,6 +1395,141 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Usage report: token and cost totals for a date range (this month by default), grouped by pipeline and model.
+  // Admins see every user's usage, also grouped by user; everyone else sees only their own
+  app.get('/api/usage', isAuthenticated, async (req: any, res) => {
+    try {
+      const now = new Date();
+      const from = req.query.from ? new Date(req.query.from as string) : new Date(now.getFullYear(), now.getMonth(), 1);
+      const to = req.query.to ? new Date(req.query.to as string) : undefined;
+      if (isNaN(from.getTime()) || (to && isNaN(to.getTime()))) {
+        return res.status(400).json({ message: 'from and to must be valid dates' });
+      }
+
+      const admin = isAdminUser(req.user);
+      const filter = admin ? { from, to } : { from, to, userId: req.user.id };
+      const [[totals], byUser, byPipeline, byModel] = await Promise.all([
+        storage.getUsageTotals(filter),
+        admin ? storage.getUsageTotals(filter, 'user') : Promise.resolve([]),
+        storage.getUsageTotals(filter, 'pipeline'),
+        storage.getUsageTotals(filter, 'model')
+      ]);
+
+      const users = await Promise.all(byUser.map(entry => entry.key ? storage.getUser(entry.key) : undefined));
+      const pipelines = await Promise.all(byPipeline.map(entry => entry.key ? storage.getPipeline(entry.key) : undefined));
+
+      res.json({
+        from,
+        to: to || now,
+        totals,
+        ...(admin ? { byUser: byUser.map((entry, index) => ({ ...entry, name: users[index]?.name || null, email: users[index]?.email || null })) } : {}),
+        byPipeline: byPipeline.map((entry, index) => ({ ...entry, name: pipelines[index]?.name || null })),
+        byModel
+      });
+    } catch (error) {
+      console.error('Failed to get usage report:', error);
+      res.status(500).json({ message: 'Failed to get usage report' });
+    }
+  });
+
+  // Model price table used to cost token usage; overrides are stored per model
+  app.get('/api/usage/prices', isAuthenticated, async (req: any, res) => {
+    try {
+      res.json(await modelPricingService.getPrices());
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to get model prices' });
+    }
+  });
+
+  app.put('/api/usage/prices/:model', isAdmin, async (req: any, res) => {
+    try {
+      const price = insertModelPriceSchema.parse({ ...req.body, model: req.params.model });
+      if (price.inputPerMillion < 0 || price.outputPerMillion < 0) {
+        return res.status(400).json({ message: 'Prices cannot be negative' });
+      }
+
+      const saved = await storage.upsertModelPrice(price);
+      modelPricingService.invalidate();
+      console.log(`💲 Price for ${saved.model} set to $${saved.inputPerMillion}/$${saved.outputPerMillion} per million tokens`);
+      res.json(saved);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid price', errors: error.errors });
+      }
+      console.error('Failed to save model price:', error);
+      res.status(500).json({ message: 'Failed to save model price' });
+    }
+  });
+
+  // Removing an override falls back to the built-in default price, if there is one
+  app.delete('/api/usage/prices/:model', isAdmin, async (req: any, res) => {
+    try {
+      await storage.deleteModelPrice(req.params.model);
+      modelPricingService.invalidate();
+      res.json({ message: 'Model price removed' });
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to remove model price' });
+    }
+  });
+
+  // Admin routes
+  app.get('/api/admin/users', isAdmin, async (req: any, res) => {
+    try {
+      const users = await storage.getAllUsers();
+      res.json(users.map(({ id, email, name }) => ({ id, email, name })));
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to get users' });
+    }
+  });
+
+  app.get('/api/admin/spend-limits', isAdmin, async (req: any, res) => {
+    try {
+      res.json(await storage.getSpendLimits());
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to get spend limits' });
+    }
+  });
+
+  // Set a cap for everyone (no userId/jobId), one user, or one job; setting the same target again replaces it
+  app.put('/api/admin/spend-limits', isAdmin, async (req: any, res) => {
+    try {
+      const limit = insertSpendLimitSchema.parse({ ...req.body, createdBy: req.user.id });
+      if (!(limit.amount > 0)) {
+        return res.status(400).json({ message: 'Amount must be greater than zero' });
+      }
+      if (limit.jobId && limit.scope !== 'job') {
+        return res.status(400).json({ message: 'Only job limits can target a single job' });
+      }
+      if (limit.userId && !(await storage.getUser(limit.userId))) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      if (limit.jobId && !(await storage.getJob(limit.jobId))) {
+        return res.status(404).json({ message: 'Job not found' });
+      }
+
+      const saved = await storage.upsertSpendLimit(limit);
+      spendLimitService.invalidate();
+      console.log(`💸 ${saved.scope} spend limit set to $${saved.amount} for ${saved.jobId ? `job ${saved.jobId}` : saved.userId ? `user ${saved.userId}` : 'everyone'}`);
+      res.json(saved);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid spend limit', errors: error.errors });
+      }
+      console.error('Failed to save spend limit:', error);
+      res.status(500).json({ message: 'Failed to save spend limit' });
+    }
+  });
+
+  app.delete('/api/admin/spend-limits/:id', isAdmin, async (req: any, res) => {
+    try {
+      await storage.deleteSpendLimit(req.params.id);
+      spendLimitService.invalidate();
+      res.json({ message: 'Spend limit removed' });
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to remove spend limit' });
+    }
+  });
+
   // OpenAI routes
   app.get('/api/openai/models', async (req, res) => {
     try {
@@ -776,7 +1582,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Upload reference document
   app.post('/api/reference-documents', isAuthenticated, documentUpload.single('file'), async (req: any, res) => {
     try {
-      const userId = req.user?.claims?.sub || 'admin-user';
+      const userId = req.user.id;
       
       if (!req.file) {
         return res.status(400).json({ message: 'No file provided' });
@@ -800,10 +1606,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // What a job's knowledge scope can pick from
+  app.get('/api/knowledge-scope/options', isAuthenticated, async (req: any, res) => {
+    try {
+      res.json({
+        domains: KNOWLEDGE_DOMAINS,
+        productTags: Object.entries(PRODUCT_TAGS).map(([tag, { label }]) => ({ tag, label })),
+        languages: await storage.getReferenceLanguages()
+      });
+    } catch (error) {
+      console.error('Failed to get knowledge scope options:', error);
+      res.status(500).json({ message: 'Failed to get knowledge scope options' });
+    }
+  });
+
   // Get all reference documents for user
   app.get('/api/reference-documents', isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user?.claims?.sub || 'admin-user';
+      const userId = req.user.id;
       const documents = await storage.getUserReferenceDocuments(userId);
       res.json(documents);
     } catch (error) {
@@ -815,7 +1635,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Delete reference document
   app.delete('/api/reference-documents/:id', isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user?.claims?.sub || 'admin-user';
+      const userId = req.user.id;
       const { id } = req.params;
       
       // Verify document belongs to user
@@ -1111,29 +1931,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Send initial connection message
       res.write(`data: ${JSON.stringify({ type: 'connected' })}\n\n`);
 
-      // Generate response using OpenAI with streaming
+      // Stop generating (and paying for) tokens once the client goes away
+      const abortController = new AbortController();
+      res.on('close', () => abortController.abort());
+
+      // Each token is forwarded as soon as the model writes it
       const result = await openaiService.callOpenAIDirect({
         model: 'gpt-5-nano',
         systemPrompt: 'You are a helpful AI assistant. Provide clear, accurate, and concise answers to questions.',
         userPrompt: question,
         maxTokens: 2000,
-        temperature: 0.7
+        temperature: 0.7,
+        onToken: (token) => res.write(`data: ${JSON.stringify({ type: 'chunk', content: token })}\n\n`),
+        signal: abortController.signal
       });
 
-      // Stream the response in chunks
-      const responseText = result.output;
-      const chunkSize = 50; // Characters per chunk
-      
-      for (let i = 0; i < responseText.length; i += chunkSize) {
-        const chunk = responseText.slice(i, i + chunkSize);
-        res.write(`data: ${JSON.stringify({ type: 'chunk', content: chunk })}\n\n`);
-        
-        // Small delay to simulate streaming
-        await new Promise(resolve => setTimeout(resolve, 20));
+      if (abortController.signal.aborted) {
+        return;
       }
 
-      // Send completion message
-      res.write(`data: ${JSON.stringify({ type: 'done', fullResponse: responseText })}\n\n`);
+      // A broken stream keeps the text that was already sent
+      if (result.error) {
+        res.write(`data: ${JSON.stringify({ type: 'error', message: result.error, partialResponse: result.output })}\n\n`);
+      } else {
+        res.write(`data: ${JSON.stringify({ type: 'done', fullResponse: result.output })}\n\n`);
+      }
       res.end();
       
     } catch (error) {
@@ -1205,7 +2027,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             const chunksWithScores = csvChunks.map((chunk: any) => {
               try {
                 // The storage function now maps chunkEmbedding to embedding
-                const chunkEmbedding = chunk.embedding ? JSON.parse(chunk.embedding) : null;
+                const chunkEmbedding: number[] | null = chunk.embedding;
                 const similarity = chunkEmbedding ? 
                   embeddingsService.cosineSimilarity(questionEmbedding.embedding!, chunkEmbedding) : 0;
                 return { ...chunk, similarity };
@@ -1280,7 +2102,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             // Calculate similarity scores for URL chunks
             const urlChunksWithScores = urlChunks.map((chunk: any) => {
               try {
-                const chunkEmbedding = chunk.embedding ? JSON.parse(chunk.embedding) : null;
+                const chunkEmbedding: number[] | null = chunk.chunkEmbedding;
                 const similarity = chunkEmbedding ? 
                   embeddingsService.cosineSimilarity(questionEmbedding.embedding!, chunkEmbedding) : 0;
                 return { ...chunk, similarity };
@@ -1,4 +1,5 @@
 import { db } from "./db";
+import { storage } from "./storage";
 import { pipelines } from "@shared/schema";
 import { eq } from "drizzle-orm";
 
@@ -12,6 +13,7 @@ async function seedDatabase() {
     steps: [
       {
         name: "Reference Research",
+        type: "retrieval",
         model: "gpt-5",
         temperature: 0.1,
         maxTokens: 4000,
@@ -21,6 +23,7 @@ async function seedDatabase() {
       },
       {
         name: "Generic Draft Generation",
+        type: "draft",
         model: "gpt-5",
         temperature: 0.3,
         maxTokens: 4000,
@@ -30,6 +33,7 @@ async function seedDatabase() {
       },
       {
         name: "Tailored RFP Response",
+        type: "tailor",
         model: "gpt-5",
         temperature: 0.4,
         maxTokens: 5000,
@@ -46,18 +50,26 @@ async function seedDatabase() {
     const existing = await db.select().from(pipelines).where(eq(pipelines.isDefault, true));
     
     if (existing.length === 0) {
-      await db.insert(pipelines).values(defaultPipeline);
+      await storage.createPipeline(defaultPipeline);
       console.log('✓ Default pipeline created');
     } else {
-      // Update existing pipeline with new structure
-      await db.update(pipelines)
-        .set({
-          name: defaultPipeline.name,
-          description: defaultPipeline.description,
-          steps: defaultPipeline.steps
-        })
-        .where(eq(pipelines.isDefault, true));
-      console.log('✓ Default pipeline updated with new workflow');
+      const current = existing[0];
+      const unchanged = current.name === defaultPipeline.name &&
+        current.description === defaultPipeline.description &&
+        JSON.stringify(current.steps) === JSON.stringify(defaultPipeline.steps);
+
+      // Only a changed definition gets a new version; jobs keep the version they were pinned to
+      if (unchanged) {
+        console.log(`✓ Default pipeline is up to date (version ${current.currentVersion})`);
+      } else {
+        const version = await storage.createPipelineVersion(
+          current.id,
+          { name: defaultPipeline.name, description: defaultPipeline.description, steps: defaultPipeline.steps },
+          null,
+          'Updated by seed'
+        );
+        console.log(`✓ Default pipeline updated with new workflow (version ${version.version})`);
+      }
     }
   } catch (error) {
     console.error('Error seeding database:', error);
@@ -0,0 +1,124 @@
+/**
+ * Answer Confidence
+ * Combines what the pipeline already knows about a row into one 0-1 score so reviewers can
+ * start with the weakest answers: how close the retrieved references were to the question, how
+ * many distinct sources the answer draws on, the claim verification's grounding score and the
+ * model's own confidence. Signals a row doesn't have (no verify step, no `confidence` field) are
+ * left out and the remaining weights scaled up. Rows scoring below the review threshold are
+ * flagged `needs_review` in csv_data.
+ */
+
+import type { AgentConfig } from './openai';
+import { collectCitations, CITATIONS_KEY } from './citations';
+import { VERIFICATION_KEY, type ClaimVerification } from './claimVerification';
+
+export interface RetrievalStats {
+  chunkCount: number;
+  topSimilarity: number;
+  avgSimilarity: number; // Over the closest RETRIEVAL_TOP_K chunks
+  sources: string[];     // Distinct URLs or document names among those chunks
+  chunkIds?: string[];   // Every chunk the draft was written from; absent on rows drafted before it was recorded
+}
+
+export interface ConfidenceSignals {
+  retrievalSimilarity?: number; // Each signal normalised to 0-1
+  sourceDiversity?: number;
+  groundingScore?: number;
+  selfAssessment?: number;
+}
+
+export interface AnswerConfidence {
+  score: number | null; // Null when the row has no signals at all
+  needsReview: boolean;
+  threshold: number;
+  signals: ConfidenceSignals;
+}
+
+// Row data keys for the draft's retrieval stats and the row's confidence breakdown; hidden from the grid and the export
+export const RETRIEVAL_KEY = 'RETRIEVAL';
+export const CONFIDENCE_KEY = 'CONFIDENCE';
+
+// Structured output field a step can declare to report its own confidence (0-1 or 0-100)
+export const SELF_ASSESSMENT_FIELD = 'confidence';
+
+export const DEFAULT_REVIEW_THRESHOLD = 0.6;
+
+const RETRIEVAL_TOP_K = 5;
+const SIMILARITY_FLOOR = 0.4;   // semanticSearch drops anything below this
+const SIMILARITY_CEILING = 0.65; // Close matches for text-embedding-3 models rarely go higher
+const FULL_SOURCE_COUNT = 3;
+
+const SIGNAL_WEIGHTS: Record<keyof ConfidenceSignals, number> = {
+  retrievalSimilarity: 0.3,
+  sourceDiversity: 0.15,
+  groundingScore: 0.35,
+  selfAssessment: 0.2
+};
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+export function getReviewThreshold(): number {
+  const configured = parseFloat(process.env.REVIEW_CONFIDENCE_THRESHOLD || '');
+  return Number.isFinite(configured) ? clamp(configured) : DEFAULT_REVIEW_THRESHOLD;
+}
+
+export function summarizeRetrieval(chunks: { id: string; similarity: number; url?: string | null; documentName?: string | null }[]): RetrievalStats {
+  const closest = [...chunks].sort((a, b) => b.similarity - a.similarity).slice(0, RETRIEVAL_TOP_K);
+  return {
+    chunkCount: chunks.length,
+    topSimilarity: closest[0]?.similarity || 0,
+    avgSimilarity: closest.length > 0 ? closest.reduce((sum, chunk) => sum + chunk.similarity, 0) / closest.length : 0,
+    sources: Array.from(new Set(closest.map(chunk => chunk.url || chunk.documentName).filter((source): source is string => !!source))),
+    chunkIds: chunks.map(chunk => chunk.id)
+  };
+}
+
+/**
+ * The row's signals, read from the hidden fields earlier steps left in its data
+ */
+export function collectConfidenceSignals(rowData: Record<string, any>, steps: AgentConfig[]): ConfidenceSignals {
+  const signals: ConfidenceSignals = {};
+
+  const retrieval = rowData[RETRIEVAL_KEY] as RetrievalStats | undefined;
+  if (retrieval) {
+    signals.retrievalSimilarity = retrieval.chunkCount > 0
+      ? clamp((retrieval.avgSimilarity - SIMILARITY_FLOOR) / (SIMILARITY_CEILING - SIMILARITY_FLOOR))
+      : 0;
+  }
+
+  // Sources the answer cites; the retrieved ones when it cites none
+  const cited = new Set(collectCitations(rowData[CITATIONS_KEY]).map(citation => citation.url || citation.documentName || citation.chunkId));
+  const sourceCount = cited.size > 0 ? cited.size : retrieval?.sources.length;
+  if (sourceCount !== undefined) {
+    signals.sourceDiversity = clamp(sourceCount / FULL_SOURCE_COUNT);
+  }
+
+  const verification = rowData[VERIFICATION_KEY] as ClaimVerification | undefined;
+  if (verification) {
+    signals.groundingScore = verification.groundingScore;
+  }
+
+  // The last step that rated itself
+  const selfRated = [...steps].reverse()
+    .map(step => rowData[`${step.name}.${SELF_ASSESSMENT_FIELD}`])
+    .find(value => typeof value === 'number');
+  if (typeof selfRated === 'number') {
+    signals.selfAssessment = clamp(selfRated > 1 ? selfRated / 100 : selfRated);
+  }
+
+  return signals;
+}
+
+export function scoreConfidence(signals: ConfidenceSignals, threshold: number = getReviewThreshold()): AnswerConfidence {
+  const present = (Object.keys(SIGNAL_WEIGHTS) as (keyof ConfidenceSignals)[])
+    .filter(signal => signals[signal] !== undefined);
+  if (present.length === 0) {
+    return { score: null, needsReview: false, threshold, signals };
+  }
+
+  const totalWeight = present.reduce((sum, signal) => sum + SIGNAL_WEIGHTS[signal], 0);
+  const score = present.reduce((sum, signal) => sum + SIGNAL_WEIGHTS[signal] * signals[signal]!, 0) / totalWeight;
+  return { score, needsReview: score < threshold, threshold, signals };
+}
@@ -228,8 +228,8 @@ export class BackgroundProcessor {
         contentHash: `${url}-${i}`,
         chunkIndex: i,
         chunkText: chunk.text,
-        chunkEmbedding: JSON.stringify(embedding),
-        metadata: { tokenCount: chunk.tokenCount }
+        chunkEmbedding: embedding,
+        metadata: { tokenCount: chunk.tokenCount, ...(content.metadata.language ? { language: content.metadata.language } : {}) }
       });
       
       processedChunks++;
@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { extractCitations, carryCitations, collectCitations, formatSources, splitSentences, type CitableChunk } from './citations';
+
+const references = new Map<number, CitableChunk>([
+  [1, { id: 'chunk-1', text: 'Twilio supports SAML 2.0 single sign-on. Pricing is usage based.', url: 'https://www.twilio.com/sso', documentId: null, documentName: null }],
+  [2, { id: 'chunk-2', text: 'Data is encrypted at rest with AES-256.', url: null, documentId: 'doc-1', documentName: 'Security Whitepaper.pdf' }]
+]);
+
+test('sentences split on full stops followed by whitespace only', () => {
+  assert.deepEqual(splitSentences('We use SAML 2.0 via twilio.com. Keys rotate yearly!').map(sentence => sentence.text), [
+    'We use SAML 2.0 via twilio.com.',
+    'Keys rotate yearly!'
+  ]);
+});
+
+test('resolves markers to chunks with the best supporting sentence', () => {
+  const answer = 'We offer SAML single sign-on [1]. Data at rest is encrypted [2][1].';
+  const citations = extractCitations(answer, references);
+
+  assert.deepEqual(citations.map(citation => citation.marker), [1, 2]);
+  assert.equal(citations[0].chunkId, 'chunk-1');
+  assert.equal(citations[0].quote, 'Twilio supports SAML 2.0 single sign-on.');
+  assert.equal(citations[0].offsets.length, 2);
+  assert.equal(answer.slice(citations[1].offsets[0].start, citations[1].offsets[0].end), '[2]');
+  assert.equal(citations[1].documentName, 'Security Whitepaper.pdf');
+});
+
+test('understands grouped markers and drops numbers outside the context', () => {
+  const citations = extractCitations('Both apply [1, 2]. Unknown source [7]. [Reference 2]', references);
+  assert.deepEqual(citations.map(citation => [citation.marker, citation.offsets.length]), [[1, 1], [2, 2]]);
+});
+
+test('a rewritten answer keeps the draft citations whose markers survived', () => {
+  const draft = extractCitations('SSO [1]. Encryption [2].', references);
+  const carried = carryCitations('Encryption is covered [2].', draft);
+  assert.deepEqual(carried.map(citation => citation.chunkId), ['chunk-2']);
+  assert.deepEqual(carried[0].offsets, [{ start: 22, end: 25 }]);
+});
+
+test('collects unique citations across steps and formats them as sources', () => {
+  const draft = extractCitations('SSO [1]. Encryption [2].', references);
+  const tailored = carryCitations('SSO [1].', draft);
+  const citations = collectCitations({ Draft: draft, Tailor: tailored });
+  assert.equal(citations.length, 2);
+  assert.equal(formatSources(citations), '[1] https://www.twilio.com/sso\n[2] Security Whitepaper.pdf');
+});
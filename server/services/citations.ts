@@ -0,0 +1,163 @@
+/**
+ * Citations
+ * The draft step numbers its context chunks [1], [2], ... and asks the model to cite them inline.
+ * Once the answer is written, each marker is resolved to the reference_cache chunk it points at,
+ * together with the sentence of that chunk that best supports the cited statement, so a reader
+ * can check every claim against its source. The tailor step keeps the draft's markers, which
+ * resolve against the draft's citations.
+ */
+
+export interface CitableChunk {
+  id: string; // reference_cache id
+  text: string;
+  url: string | null;
+  documentId: string | null;
+  documentName: string | null;
+}
+
+export interface Citation {
+  marker: number;                 // N in [N]
+  chunkId: string;
+  url: string | null;
+  documentId: string | null;
+  documentName: string | null;
+  quote: string;                  // Sentence of the chunk that best supports the cited statement
+  quoteStart: number;             // Offsets of the quote within the chunk text
+  quoteEnd: number;
+  offsets: { start: number; end: number }[]; // Where the marker appears in the answer
+}
+
+// Row data key holding each step's citations by step name; hidden from the grid and the export
+export const CITATIONS_KEY = 'CITATIONS';
+
+export const CITATION_INSTRUCTIONS = 'Cite the references you rely on inline by number in square brackets, e.g. [1] or [2][5], right after the statement they support. Only cite reference numbers that appear in the context.';
+
+export const KEEP_CITATIONS_INSTRUCTIONS = 'The draft cites its references as [N]. Keep those markers next to the statements they support and do not add reference numbers of your own.';
+
+// [3], [Reference 3] and [1, 4]
+const MARKER_PATTERN = /\[(?:Reference\s+)?(\d+(?:\s*,\s*\d+)*)\]/gi;
+const MIN_WORD_LENGTH = 4;
+
+interface MarkerMatch {
+  marker: number;
+  start: number;
+  end: number;
+}
+
+function findMarkers(answer: string): MarkerMatch[] {
+  return Array.from(answer.matchAll(MARKER_PATTERN)).flatMap(match =>
+    match[1].split(',').map(marker => ({
+      marker: parseInt(marker.trim(), 10),
+      start: match.index!,
+      end: match.index! + match[0].length
+    }))
+  );
+}
+
+export function splitSentences(text: string): { text: string; start: number; end: number }[] {
+  // A full stop only ends a sentence before whitespace, so "SAML 2.0" and "twilio.com" stay whole
+  return Array.from(text.matchAll(/[^.!?\n]+(?:[.!?]+(?!\s|$)[^.!?\n]*)*[.!?]*/g))
+    .map(match => ({ text: match[0].trim(), start: match.index!, end: match.index! + match[0].length }))
+    .filter(sentence => sentence.text.length > 0);
+}
+
+function significantWords(text: string): Set<string> {
+  return new Set((text.toLowerCase().match(/[a-z0-9]+/g) || []).filter(word => word.length >= MIN_WORD_LENGTH));
+}
+
+/**
+ * The statement a marker supports: the answer text from the previous sentence end up to the marker
+ */
+function statementBefore(answer: string, markerStart: number): string {
+  const before = answer.slice(0, markerStart).replace(/(\s*\[[^\]]*\])+\s*$/, '');
+  const boundary = Math.max(before.lastIndexOf('. '), before.lastIndexOf('\n'), before.lastIndexOf('! '), before.lastIndexOf('? '));
+  return before.slice(boundary + 1);
+}
+
+/**
+ * Sentence of the chunk sharing the most words with the statement; the first sentence if none do
+ */
+function bestQuote(chunkText: string, statement: string): { quote: string; start: number; end: number } {
+  const sentences = splitSentences(chunkText);
+  if (sentences.length === 0) {
+    return { quote: chunkText, start: 0, end: chunkText.length };
+  }
+
+  const statementWords = significantWords(statement);
+  const best = sentences.reduce((current, sentence) => {
+    const overlap = Array.from(significantWords(sentence.text)).filter(word => statementWords.has(word)).length;
+    return overlap > current.overlap ? { sentence, overlap } : current;
+  }, { sentence: sentences[0], overlap: 0 });
+
+  return { quote: best.sentence.text, start: best.sentence.start, end: best.sentence.end };
+}
+
+/**
+ * Resolve the answer's markers against the numbered chunks it was given. Markers pointing at
+ * numbers that weren't in the context are dropped.
+ */
+export function extractCitations(answer: string, references: Map<number, CitableChunk>): Citation[] {
+  const citations = new Map<number, Citation>();
+
+  findMarkers(answer).forEach(({ marker, start, end }) => {
+    const existing = citations.get(marker);
+    if (existing) {
+      existing.offsets.push({ start, end });
+      return;
+    }
+    const chunk = references.get(marker);
+    if (!chunk) return;
+
+    const { quote, start: quoteStart, end: quoteEnd } = bestQuote(chunk.text, statementBefore(answer, start));
+    citations.set(marker, {
+      marker,
+      chunkId: chunk.id,
+      url: chunk.url,
+      documentId: chunk.documentId,
+      documentName: chunk.documentName,
+      quote,
+      quoteStart,
+      quoteEnd,
+      offsets: [{ start, end }]
+    });
+  });
+
+  return Array.from(citations.values()).sort((a, b) => a.marker - b.marker);
+}
+
+/**
+ * Citations of an answer rewritten from a cited draft: the draft's markers that survived,
+ * at their new offsets
+ */
+export function carryCitations(answer: string, sourceCitations: Citation[]): Citation[] {
+  const byMarker = new Map(sourceCitations.map(citation => [citation.marker, citation]));
+  const offsets = new Map<number, { start: number; end: number }[]>();
+
+  findMarkers(answer)
+    .filter(({ marker }) => byMarker.has(marker))
+    .forEach(({ marker, start, end }) => offsets.set(marker, [...(offsets.get(marker) || []), { start, end }]));
+
+  return Array.from(offsets.entries())
+    .map(([marker, markerOffsets]) => ({ ...byMarker.get(marker)!, offsets: markerOffsets }))
+    .sort((a, b) => a.marker - b.marker);
+}
+
+/**
+ * Every step's citations in a row, one per marker and chunk
+ */
+export function collectCitations(citationsByStep: Record<string, Citation[]> | undefined): Citation[] {
+  const unique = new Map<string, Citation>();
+  Object.values(citationsByStep || {}).flat().forEach(citation => {
+    unique.set(`${citation.marker}:${citation.chunkId}`, citation);
+  });
+  return Array.from(unique.values()).sort((a, b) => a.marker - b.marker);
+}
+
+/**
+ * One line per cited source for the export, e.g. "[2] Security Whitepaper.pdf"
+ */
+export function formatSources(citations: Citation[]): string {
+  return citations
+    .map(citation => `[${citation.marker}] ${citation.url || citation.documentName || citation.chunkId}`)
+    .join('\n');
+}
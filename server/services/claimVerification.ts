@@ -0,0 +1,179 @@
+/**
+ * Claim Verification
+ * Checks an answer against the reference chunks it was written from, so security and compliance
+ * answers don't state facts the references don't back. The answer is split into claims (one per
+ * sentence); each claim is matched to its closest chunks by embedding similarity, and an LLM
+ * judges whether those chunks entail it. A claim with no chunk close enough is unsupported
+ * whatever the LLM says. The grounding score is the share of claims supported, with partial
+ * support counting half.
+ */
+
+import type { StepOutputSchema } from '@shared/schema';
+import { enhancedEmbeddingsService } from './enhancedEmbeddings';
+import { chatCompletion } from './llmProvider';
+import { parseStructuredOutput } from './structuredOutput';
+import { splitSentences } from './citations';
+
+export type ClaimVerdict = 'supported' | 'partial' | 'unsupported';
+
+export interface EvidenceChunk {
+  id: string;
+  text: string;
+  embedding: number[];
+}
+
+export interface VerifiedClaim {
+  text: string;
+  start: number;          // Offsets of the claim in the answer
+  end: number;
+  verdict: ClaimVerdict;
+  similarity: number;     // Cosine similarity of the closest chunk
+  chunkId: string | null; // The closest chunk
+  explanation: string;
+}
+
+export interface ClaimVerification {
+  stepName: string;       // Step whose answer was checked
+  groundingScore: number; // 0-1
+  claims: VerifiedClaim[];
+}
+
+// Row data key holding the row's verification; hidden from the grid and the export
+export const VERIFICATION_KEY = 'VERIFICATION';
+
+export const DEFAULT_VERIFICATION_PROMPT = 'You are a strict fact checker for RFP answers. For each claim, decide from the numbered evidence passages alone whether it is supported (the passages state it), partial (the passages back part of it, or only something weaker) or unsupported (the passages do not state it). General knowledge does not count as evidence.';
+
+const MIN_CLAIM_WORDS = 4;
+const EVIDENCE_PER_CLAIM = 3;
+const MIN_EVIDENCE_SIMILARITY = 0.3; // Below this no chunk is about the claim, so it can't be supported
+const MAX_EVIDENCE_CHARS = 1500;
+
+const VERDICT_SCORES: Record<ClaimVerdict, number> = { supported: 1, partial: 0.5, unsupported: 0 };
+
+const VERDICTS_SCHEMA: StepOutputSchema = {
+  type: 'object',
+  properties: {
+    verdicts: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          claim: { type: 'integer', description: 'Number of the claim' },
+          verdict: { type: 'string', enum: ['supported', 'partial', 'unsupported'] },
+          explanation: { type: 'string', description: 'One sentence on what the evidence does or does not say' }
+        },
+        required: ['claim', 'verdict', 'explanation']
+      }
+    }
+  },
+  required: ['verdicts']
+};
+
+/**
+ * The fact-check model answered in the wrong shape; retried like an invalid step output
+ */
+export class VerificationOutputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VerificationOutputError';
+  }
+}
+
+/**
+ * Sentences worth checking, with citation markers, headings and short fragments left out
+ */
+export function splitClaims(answer: string): { text: string; start: number; end: number }[] {
+  return splitSentences(answer)
+    .map(sentence => ({ ...sentence, text: sentence.text.replace(/\s*\[(?:Reference\s+)?\d+(?:\s*,\s*\d+)*\]/gi, '').trim() }))
+    .filter(sentence => !sentence.text.startsWith('#') && sentence.text.split(/\s+/).length >= MIN_CLAIM_WORDS);
+}
+
+export function calculateGroundingScore(claims: Pick<VerifiedClaim, 'verdict'>[]): number {
+  if (claims.length === 0) return 1;
+  return claims.reduce((sum, claim) => sum + VERDICT_SCORES[claim.verdict], 0) / claims.length;
+}
+
+export async function verifyClaims(options: {
+  stepName: string;
+  answer: string;
+  evidence: EvidenceChunk[];
+  model: string;
+  instructions?: string;
+  maxTokens?: number;
+}): Promise<ClaimVerification> {
+  const claims = splitClaims(options.answer);
+  if (claims.length === 0) {
+    return { stepName: options.stepName, groundingScore: 1, claims: [] };
+  }
+
+  // Closest chunks per claim
+  const matches = await Promise.all(claims.map(async claim => {
+    const embedding = await enhancedEmbeddingsService.generateEmbedding(claim.text);
+    return options.evidence
+      .map(chunk => ({ chunk, similarity: enhancedEmbeddingsService.cosineSimilarity(embedding, chunk.embedding) }))
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, EVIDENCE_PER_CLAIM);
+  }));
+
+  const userPrompt = claims.map((claim, index) => {
+    const passages = matches[index]
+      .map((match, passageIndex) => `  Evidence ${passageIndex + 1}: ${match.chunk.text.slice(0, MAX_EVIDENCE_CHARS)}`)
+      .join('\n');
+    return `Claim ${index + 1}: ${claim.text}\n${passages || '  (no evidence retrieved)'}`;
+  }).join('\n\n');
+
+  const response = await chatCompletion({
+    model: options.model,
+    messages: [
+      { role: 'system', content: options.instructions || DEFAULT_VERIFICATION_PROMPT },
+      { role: 'user', content: userPrompt }
+    ],
+    maxTokens: options.maxTokens || 2000,
+    temperature: 0,
+    outputSchema: VERDICTS_SCHEMA
+  });
+
+  const parsed = parseStructuredOutput(VERDICTS_SCHEMA, response.content);
+  if (!parsed.data) {
+    throw new VerificationOutputError(parsed.error);
+  }
+  const verdicts = new Map((parsed.data.verdicts as { claim: number; verdict: ClaimVerdict; explanation: string }[])
+    .map(verdict => [verdict.claim, verdict]));
+
+  const verifiedClaims: VerifiedClaim[] = claims.map((claim, index) => {
+    const best = matches[index][0];
+    const similarity = best?.similarity || 0;
+    const judged = verdicts.get(index + 1);
+    const hasEvidence = similarity >= MIN_EVIDENCE_SIMILARITY;
+    return {
+      ...claim,
+      verdict: hasEvidence ? (judged?.verdict || 'partial') : 'unsupported',
+      similarity,
+      chunkId: best?.chunk.id || null,
+      explanation: hasEvidence
+        ? (judged?.explanation || 'The fact check returned no verdict for this claim')
+        : 'No retrieved reference is close to this claim'
+    };
+  });
+
+  return {
+    stepName: options.stepName,
+    groundingScore: calculateGroundingScore(verifiedClaims),
+    claims: verifiedClaims
+  };
+}
+
+/**
+ * "Grounding score 83%: 5 supported, 1 partially supported, 0 unsupported", followed by the
+ * claims that need a reviewer's attention
+ */
+export function summarizeVerification(verification: ClaimVerification): string {
+  const counts = { supported: 0, partial: 0, unsupported: 0 };
+  verification.claims.forEach(claim => counts[claim.verdict]++);
+
+  const summary = `Grounding score ${Math.round(verification.groundingScore * 100)}%: ${counts.supported} supported, ${counts.partial} partially supported, ${counts.unsupported} unsupported`;
+  const flagged = verification.claims
+    .filter(claim => claim.verdict !== 'supported')
+    .map(claim => `- [${claim.verdict}] ${claim.text}`);
+  return flagged.length > 0 ? `${summary}\n${flagged.join('\n')}` : summary;
+}
@@ -1,7 +1,4 @@
-import OpenAI from 'openai';
-
-// the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+import { chatCompletion } from './llmProvider';
 
 export interface ContextResolutionResult {
   fullContextualQuestion: string;
@@ -90,18 +87,19 @@ GUIDELINES FOR FULL CONTEXTUAL QUESTIONS:
 Return JSON with your analysis.`;
 
     try {
-      const response = await openai.chat.completions.create({
+      // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+      const response = await chatCompletion({
         model: "gpt-4o",
         messages: [
           { role: "system", content: systemPrompt },
           { role: "user", content: userPrompt }
         ],
-        response_format: { type: "json_object" },
+        responseFormat: "json_object",
         temperature: 0.1,
-        max_tokens: 1000
+        maxTokens: 1000
       });
 
-      const result = JSON.parse(response.choices[0].message.content || '{}');
+      const result = JSON.parse(response.content || '{}');
       
       // Validate the response structure
       if (!result.fullContextualQuestion || typeof result.hasReferences !== 'boolean') {
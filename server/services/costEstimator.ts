@@ -0,0 +1,134 @@
+/**
+ * Cost Estimator
+ * Predicts the tokens, cost and wall-clock time of running a pipeline over a CSV before the job
+ * is created. A step uses the averages of its completed runs in earlier jobs of the same
+ * pipeline; a step without that history uses the latency of its model across all pipelines and
+ * token counts estimated from its prompt sizes, so a new pipeline still gets a rougher number.
+ */
+
+import { storage, type StepHistory } from '../storage';
+import { modelPricingService } from './modelPricing';
+import { buildPipelineGraph } from './pipelineGraph';
+import type { AgentConfig } from './openai';
+
+export type EstimateBasis = 'history' | 'model' | 'prompt_size';
+
+export interface StepEstimate {
+  stepName: string;
+  model: string;
+  basis: EstimateBasis; // Where the latency came from: this step's runs, its model's runs, or the default
+  samples: number;
+  latency: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+}
+
+export interface JobEstimate {
+  totalRows: number;
+  concurrency: number;
+  steps: StepEstimate[];                  // Per row
+  contextResolution: { tokens: number; cost: number } | null; // Per row, when earlier jobs recorded it
+  perRow: { tokens: number; cost: number; latency: number };
+  totalTokens: number;
+  totalCost: number;
+  durationMs: number;
+  basis: 'history' | 'partial' | 'prompt_size'; // Whether all, some or none of the steps had history
+}
+
+const CHARS_PER_TOKEN = 4;
+const DEFAULT_STEP_LATENCY_MS = 8000;
+const DEFAULT_MAX_TOKENS = 2000;
+const ASSUMED_COMPLETION_SHARE = 0.4; // Share of maxTokens a step without history is assumed to use
+
+/**
+ * Sample-weighted latency per model, over every pipeline
+ */
+function averageLatencyByModel(history: StepHistory[]): Map<string, { latency: number; samples: number }> {
+  const totals = new Map<string, { weighted: number; samples: number }>();
+  history
+    .filter(entry => entry.model && entry.avgLatency !== null)
+    .forEach(entry => {
+      const current = totals.get(entry.model!) || { weighted: 0, samples: 0 };
+      totals.set(entry.model!, {
+        weighted: current.weighted + entry.avgLatency! * entry.samples,
+        samples: current.samples + entry.samples
+      });
+    });
+
+  return new Map(Array.from(totals.entries()).map(([model, { weighted, samples }]) => [model, { latency: weighted / samples, samples }]));
+}
+
+export async function estimateJob(options: {
+  pipelineId: string;
+  steps: AgentConfig[];
+  totalRows: number;
+  avgRowChars: number;
+  concurrency: number;
+}): Promise<JobEstimate> {
+  const { pipelineId, steps, totalRows, avgRowChars } = options;
+  const concurrency = Math.max(1, options.concurrency);
+  const graph = buildPipelineGraph(steps);
+
+  const [pipelineHistory, allHistory, [contextUsage]] = await Promise.all([
+    storage.getStepHistory(pipelineId),
+    storage.getStepHistory(),
+    storage.getUsageTotals({ pipelineId, sources: ['context'] })
+  ]);
+  const modelLatency = averageLatencyByModel(allHistory);
+
+  const estimates = new Map<string, StepEstimate>();
+  for (const node of graph) {
+    const { step } = node;
+    const history = pipelineHistory.find(entry => entry.stepName === step.name && entry.model === step.model && entry.avgLatency !== null);
+    const modelFallback = modelLatency.get(step.model);
+
+    // Templates usually read the outputs of the steps they depend on, so those count toward the prompt
+    const dependencyTokens = node.dependsOn.reduce((sum, id) => sum + (estimates.get(id)?.completionTokens || 0), 0);
+    const promptTokens = history?.avgPromptTokens ?? Math.ceil(
+      (step.systemPrompt.length + step.userPrompt.length + avgRowChars) / CHARS_PER_TOKEN
+    ) + dependencyTokens;
+    const completionTokens = history?.avgCompletionTokens ?? Math.round((step.maxTokens || DEFAULT_MAX_TOKENS) * ASSUMED_COMPLETION_SHARE);
+    const cost = history?.avgCost ?? await modelPricingService.calculateCost(step.model, promptTokens, completionTokens);
+
+    estimates.set(node.id, {
+      stepName: step.name,
+      model: step.model,
+      basis: history ? 'history' : (modelFallback ? 'model' : 'prompt_size'),
+      samples: history?.samples || modelFallback?.samples || 0,
+      latency: Math.round(history?.avgLatency ?? modelFallback?.latency ?? DEFAULT_STEP_LATENCY_MS),
+      promptTokens: Math.round(promptTokens),
+      completionTokens: Math.round(completionTokens),
+      cost
+    });
+  }
+
+  // Independent branches run in parallel, so a row takes as long as its slowest dependency chain
+  const finishedAt = new Map<string, number>();
+  graph.forEach(node => {
+    const start = Math.max(0, ...node.dependsOn.map(id => finishedAt.get(id) || 0));
+    finishedAt.set(node.id, start + estimates.get(node.id)!.latency);
+  });
+  const rowLatency = Math.max(0, ...Array.from(finishedAt.values()));
+
+  const contextResolution = contextUsage && contextUsage.calls > 0
+    ? { tokens: Math.round(contextUsage.totalTokens / contextUsage.calls), cost: contextUsage.cost / contextUsage.calls }
+    : null;
+
+  const stepEstimates = graph.map(node => estimates.get(node.id)!);
+  const rowTokens = stepEstimates.reduce((sum, step) => sum + step.promptTokens + step.completionTokens, 0) + (contextResolution?.tokens || 0);
+  const rowCost = stepEstimates.reduce((sum, step) => sum + step.cost, 0) + (contextResolution?.cost || 0);
+  const historySteps = stepEstimates.filter(step => step.basis === 'history').length;
+
+  return {
+    totalRows,
+    concurrency,
+    steps: stepEstimates,
+    contextResolution,
+    perRow: { tokens: rowTokens, cost: rowCost, latency: rowLatency },
+    totalTokens: rowTokens * totalRows,
+    totalCost: rowCost * totalRows,
+    durationMs: Math.ceil(totalRows / concurrency) * rowLatency,
+    basis: historySteps === stepEstimates.length ? 'history' : (historySteps > 0 ? 'partial' : 'prompt_size')
+  };
+}
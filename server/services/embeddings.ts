@@ -3,9 +3,7 @@
  * Handles text embeddings and cosine similarity calculations for reference caching
  */
 
-import OpenAI from "openai";
-
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+import { createEmbedding } from "./llmProvider";
 
 interface EmbeddingResult {
   embedding: number[];
@@ -22,19 +20,16 @@ export class EmbeddingsService {
     try {
       console.log(`🧠 Generating embedding for text: ${text.substring(0, 100)}...`);
       
-      const response = await openai.embeddings.create({
-        model: "text-embedding-3-small", // Newer, faster model
-        input: text.trim(),
-      });
+      const response = await createEmbedding("text-embedding-3-small", text.trim()); // Newer, faster model
 
-      const embedding = response.data[0].embedding;
+      const embedding = response.embedding;
       
       console.log(`✅ Generated embedding with ${embedding.length} dimensions`);
       
       return {
         embedding,
         text,
-        usage: response.usage
+        usage: response.usage || undefined
       };
       
     } catch (error) {
@@ -1,14 +1,14 @@
-import OpenAI from 'openai';
 import { storage } from '../storage';
 import { webScraperService } from './webScraper';
 import { contentChunkerService } from './contentChunker';
 import { urlNormalizer } from './urlNormalizer';
-import type { InsertReferenceCache } from '@shared/schema';
-
-// the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+import type { InsertReferenceCache, KnowledgeScope } from '@shared/schema';
+import { chatCompletion, createEmbedding } from './llmProvider';
+import { getVectorIndex, cosineSimilarity } from './vectorIndex';
 
 export interface SemanticSearchResult {
+  chunkId: string;
+  documentId: string | null;
   chunkText: string;
   url: string;
   similarity: number;
@@ -34,13 +34,8 @@ export class EnhancedEmbeddingsService {
         console.log(`⚠️ Truncated text from ${estimatedTokens} to ~8000 tokens for embedding`);
       }
       
-      const response = await openai.embeddings.create({
-        model: this.embeddingModel,
-        input: processedText,
-        encoding_format: 'float'
-      });
-
-      return response.data[0].embedding;
+      const response = await createEmbedding(this.embeddingModel, processedText);
+      return response.embedding;
     } catch (error) {
       console.error('Failed to generate embedding:', error);
       throw error;
@@ -69,17 +64,18 @@ Search across all three domains for specific, relevant URLs:
 Return ONLY the URLs, one per line. No additional text or formatting.`;
 
     try {
-      const response = await openai.chat.completions.create({
+      // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+      const response = await chatCompletion({
         model: "gpt-4o",
         messages: [
           { role: "system", content: systemPrompt },
           { role: "user", content: userPrompt }
         ],
         temperature: 0.1,
-        max_tokens: 1000
+        maxTokens: 1000
       });
 
-      const content = response.choices[0].message.content || '';
+      const content = response.content;
       const urls = content
         .split('\n')
         .map(line => line.trim())
@@ -240,7 +236,7 @@ Return ONLY the URLs, one per line. No additional text or formatting.`;
               contentHash: scrapedContent.contentHash,
               chunkIndex: chunk.index,
               chunkText: chunk.text,
-              chunkEmbedding: JSON.stringify(embedding),
+              chunkEmbedding: embedding,
               metadata: {
                 ...scrapedContent.metadata,
                 chunkSummary: contentChunkerService.createChunkSummary(chunk, url),
@@ -292,60 +288,38 @@ Return ONLY the URLs, one per line. No additional text or formatting.`;
   /**
    * Perform semantic search for relevant chunks
    */
-  async semanticSearch(query: string, maxResults: number = 20): Promise<SemanticSearchResult[]> {
+  async semanticSearch(query: string, maxResults: number = 20, scope?: KnowledgeScope | null): Promise<SemanticSearchResult[]> {
     try {
       console.log(`🔍 Performing semantic search for: ${query.substring(0, 100)}...`);
       
       // Generate embedding for the query
       const queryEmbedding = await this.generateEmbedding(query);
       
-      // Get all cached chunks (in production, you'd want to optimize this with vector search)
-      const allChunks = await storage.getAllReferenceChunks();
-      console.log(`📊 Searching through ${allChunks.length} cached chunks`);
-      
-      // Calculate similarities and track score distribution
-      const results: SemanticSearchResult[] = [];
-      const allSimilarities: number[] = [];
-      
-      for (const chunk of allChunks) {
-        try {
-          const chunkEmbedding = JSON.parse(chunk.chunkEmbedding);
-          const similarity = this.cosineSimilarity(queryEmbedding, chunkEmbedding);
-          allSimilarities.push(similarity);
-          
-          if (similarity >= this.similarityThreshold) {
-            results.push({
-              chunkText: chunk.chunkText,
-              url: chunk.url || '',
-              similarity,
-              metadata: chunk.metadata
-            });
-          }
-        } catch (error) {
-          console.error(`Error processing chunk ${chunk.id}:`, error);
-        }
-      }
+      // Nearest chunks from the vector index, then the ones close enough to count
+      const matches = await getVectorIndex().search(queryEmbedding, maxResults, scope);
+      const results: SemanticSearchResult[] = matches
+        .filter(match => match.similarity >= this.similarityThreshold)
+        .map(({ chunk, similarity }) => ({
+          chunkId: chunk.id,
+          documentId: chunk.documentId,
+          chunkText: chunk.chunkText,
+          url: chunk.url || '',
+          similarity,
+          metadata: chunk.metadata
+        }));
       
-      // Log similarity score distribution for debugging
-      if (allSimilarities.length > 0) {
-        const maxSim = Math.max(...allSimilarities);
-        const avgSim = allSimilarities.reduce((a, b) => a + b) / allSimilarities.length;
-        const aboveThreshold = allSimilarities.filter(s => s >= this.similarityThreshold).length;
-        console.log(`📊 Similarity scores: max=${maxSim.toFixed(3)}, avg=${avgSim.toFixed(3)}, above threshold=${aboveThreshold}/${allSimilarities.length}`);
+      if (matches.length > 0) {
+        console.log(`📊 Similarity scores of the ${matches.length} nearest chunks: max=${matches[0].similarity.toFixed(3)}, above threshold=${results.length}/${matches.length}`);
       }
       
-      // Sort by similarity (highest first) and limit results
-      results.sort((a, b) => b.similarity - a.similarity);
-      const topResults = results.slice(0, maxResults);
-      
-      if (topResults.length > 0) {
-        const avgSimilarity = topResults.reduce((sum, r) => sum + r.similarity, 0) / topResults.length;
-        console.log(`🎯 Found ${topResults.length} semantically similar chunks (threshold: ${this.similarityThreshold}, avg similarity: ${avgSimilarity.toFixed(3)})`);
+      if (results.length > 0) {
+        const avgSimilarity = results.reduce((sum, r) => sum + r.similarity, 0) / results.length;
+        console.log(`🎯 Found ${results.length} semantically similar chunks (threshold: ${this.similarityThreshold}, avg similarity: ${avgSimilarity.toFixed(3)})`);
       } else {
         console.log(`🎯 Found 0 semantically similar chunks (threshold: ${this.similarityThreshold})`);
       }
       
-      return topResults;
+      return results;
       
     } catch (error) {
       console.error('Semantic search failed:', error);
@@ -357,25 +331,24 @@ Return ONLY the URLs, one per line. No additional text or formatting.`;
    * Calculate cosine similarity between two vectors
    */
   cosineSimilarity(a: number[], b: number[]): number {
-    if (a.length !== b.length) {
-      throw new Error('Vectors must have the same length');
-    }
-
-    let dotProduct = 0;
-    let normA = 0;
-    let normB = 0;
-
-    for (let i = 0; i < a.length; i++) {
-      dotProduct += a[i] * b[i];
-      normA += a[i] * a[i];
-      normB += b[i] * b[i];
-    }
+    return cosineSimilarity(a, b);
+  }
 
-    if (normA === 0 || normB === 0) {
-      return 0;
+  /**
+   * Regenerate the embeddings of chunks flagged NEEDS_EMBEDDING_KEY, one at a time. Each chunk's
+   * flag is cleared as it is saved, so an interrupted run picks up where it stopped.
+   */
+  async reembedFlaggedChunks(): Promise<number> {
+    const chunks = await storage.getReferenceChunksNeedingEmbedding();
+    if (chunks.length === 0) return 0;
+
+    console.log(`🔁 Re-embedding ${chunks.length} reference chunks`);
+    for (const chunk of chunks) {
+      const embedding = await this.generateEmbedding(chunk.chunkText);
+      await storage.updateReferenceChunkEmbedding(chunk.id, embedding);
     }
-
-    return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+    console.log(`✅ Re-embedded ${chunks.length} reference chunks`);
+    return chunks.length;
   }
 
   /**
@@ -402,7 +375,7 @@ Return ONLY the URLs, one per line. No additional text or formatting.`;
         contentHash,
         chunkIndex,
         chunkText,
-        chunkEmbedding: JSON.stringify(embedding),
+        chunkEmbedding: embedding,
         metadata: metadata || {}
       });
       
@@ -1,5 +1,9 @@
 import { enhancedEmbeddingsService } from './enhancedEmbeddings';
+import { storage } from '../storage';
+import { hybridSearch, getHybridWeights } from './hybridRetrieval';
 import { urlNormalizer } from './urlNormalizer';
+import { urlMatchesKnowledgeScope, describeKnowledgeScope } from './knowledgeScope';
+import type { KnowledgeScope } from '@shared/schema';
 
 export interface EnhancedReferenceResult {
   processedUrls: string[];
@@ -16,7 +20,8 @@ export interface EnhancedReferenceResult {
  */
 export async function performEnhancedReferenceResearch(
   contextualQuestion: string,
-  jobId?: string
+  jobId?: string,
+  scope?: KnowledgeScope | null
 ): Promise<{ urls: string[] }> {
   console.log(`🚀 Starting enhanced reference research for: ${contextualQuestion.substring(0, 100)}...`);
   
@@ -65,8 +70,23 @@ export async function performEnhancedReferenceResearch(
     
     console.log(`📋 Found ${urls.length} URLs, normalized to ${normalizedUrls.length} unique URLs for processing`);
     
+    // URLs outside the job's knowledge scope are neither scraped nor cited
+    const scopedUrls = normalizedUrls.filter(url => urlMatchesKnowledgeScope(url, scope));
+    if (scopedUrls.length < normalizedUrls.length) {
+      console.log(`🎯 Skipped ${normalizedUrls.length - scopedUrls.length} URLs outside the knowledge scope (${describeKnowledgeScope(scope)})`);
+      if (jobId && broadcastJobUpdate) {
+        broadcastJobUpdate(jobId, {
+          event: 'processing_log',
+          data: {
+            step: 'Reference Research',
+            log: `🎯 Skipped ${normalizedUrls.length - scopedUrls.length} URLs outside the knowledge scope (${describeKnowledgeScope(scope)})`
+          }
+        });
+      }
+    }
+    
     // Step 2: Process URLs (scrape, chunk, embed, store)
-    const processedUrls = await enhancedEmbeddingsService.processUrls(normalizedUrls, jobId);
+    const processedUrls = await enhancedEmbeddingsService.processUrls(scopedUrls, jobId);
     
     const result = { processedUrls, relevantChunks: [] };
     
@@ -113,25 +133,40 @@ export async function performEnhancedReferenceResearch(
  */
 export async function getRelevantContentChunks(
   contextualQuestion: string,
-  maxResults: number = 15
+  maxResults: number = 15,
+  scope?: KnowledgeScope | null
 ): Promise<Array<{
+  id: string;
   text: string;
   url: string;
+  documentId: string | null;
+  documentName: string | null;
   similarity: number;
   source: string;
 }>> {
   try {
-    const results = await enhancedEmbeddingsService.semanticSearch(contextualQuestion, maxResults);
+    const results = await hybridSearch(contextualQuestion, maxResults, getHybridWeights(), scope);
+
+    // Document chunks have no URL, so citations name the document instead
+    const documentIds = Array.from(new Set(results.map(result => result.documentId).filter((id): id is string => !!id)));
+    const documents = await Promise.all(documentIds.map(id => storage.getReferenceDocument(id)));
+    const documentNames = new Map(documents.filter(doc => !!doc).map(doc => [doc!.id, doc!.fileName]));
     
-    return results.map(result => ({
-      text: result.chunkText,
-      url: result.url,
-      similarity: result.similarity,
-      source: result.metadata?.title || (result.url ? new URL(result.url).hostname : 'Unknown')
-    }));
+    return results.map(result => {
+      const documentName = result.documentId ? documentNames.get(result.documentId) || null : null;
+      return {
+        id: result.chunkId,
+        text: result.chunkText,
+        url: result.url,
+        documentId: result.documentId,
+        documentName,
+        similarity: result.similarity,
+        source: result.metadata?.title || documentName || (result.url ? new URL(result.url).hostname : 'Unknown')
+      };
+    });
     
   } catch (error) {
     console.error('Failed to get relevant content chunks:', error);
     return [];
   }
-}
\ No newline at end of file
+}
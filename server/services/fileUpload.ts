@@ -217,13 +217,14 @@ export class FileUploadService {
     
     for (const row of data) {
       const values = headers.map(header => {
-        let value = row[header] || '';
+        // ?? keeps 0 and false from structured output fields
+        let value = row[header] ?? '';
         
         // Convert objects and arrays to string representation
         if (typeof value === 'object' && value !== null) {
           if (Array.isArray(value)) {
             // For arrays, fix encoding on each element and join with newlines
-            value = value.map(item => this.fixEncodingIssues(String(item))).join('\n');
+            value = value.map(item => this.fixEncodingIssues(typeof item === 'object' ? JSON.stringify(item) : String(item))).join('\n');
           } else {
             // For objects, stringify them and fix encoding
             value = this.fixEncodingIssues(JSON.stringify(value));
@@ -0,0 +1,32 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { reciprocalRankFusion, RRF_K } from './hybridRetrieval';
+
+test('ids ranked well in several lists come first', () => {
+  const fused = reciprocalRankFusion([
+    { ids: ['a', 'b', 'c'], weight: 1 },
+    { ids: ['c', 'b', 'd'], weight: 1 }
+  ]);
+  assert.deepEqual(fused.map(result => result.id), ['c', 'b', 'a', 'd']);
+  assert.equal(fused[0].score, 1 / (RRF_K + 3) + 1 / (RRF_K + 1));
+});
+
+test('weights scale each list and a zero weight ignores it', () => {
+  const keywordOnly = reciprocalRankFusion([
+    { ids: ['vector-hit'], weight: 0 },
+    { ids: ['keyword-hit'], weight: 1 }
+  ]);
+  assert.equal(keywordOnly[0].id, 'keyword-hit');
+  assert.equal(keywordOnly[1].score, 0);
+
+  const weighted = reciprocalRankFusion([
+    { ids: ['a', 'b'], weight: 1 },
+    { ids: ['b', 'a'], weight: 3 }
+  ]);
+  assert.equal(weighted[0].id, 'b');
+});
+
+test('k controls how quickly lower ranks lose weight', () => {
+  assert.equal(reciprocalRankFusion([{ ids: ['a', 'b'], weight: 1 }], 0)[1].score, 1 / 2);
+  assert.deepEqual(reciprocalRankFusion([]), []);
+});
@@ -0,0 +1,109 @@
+/**
+ * Hybrid Retrieval
+ * Security questionnaires lean on exact terms ("SOC 2 Type II", "TLS 1.2", "A2P 10DLC") that
+ * embedding similarity alone often ranks low. Each query runs two searches over the reference
+ * chunks, a vector search and a keyword search, and their rankings are merged with weighted
+ * reciprocal rank fusion: a chunk scores weight / (RRF_K + rank) for each list it appears in.
+ * A chunk only the keyword side found still reports its cosine similarity to the question.
+ */
+
+import { enhancedEmbeddingsService, type SemanticSearchResult } from './enhancedEmbeddings';
+import { getVectorIndex, cosineSimilarity } from './vectorIndex';
+import type { KnowledgeScope, ReferenceCache } from '@shared/schema';
+
+export interface HybridWeights {
+  vector: number;
+  keyword: number;
+}
+
+export interface HybridSearchResult extends SemanticSearchResult {
+  score: number;              // Fused RRF score
+  vectorRank: number | null;  // 1-based rank in each list, null if the chunk wasn't in it
+  keywordRank: number | null;
+}
+
+// Damps the advantage of the very top ranks; 60 is the value from the original RRF paper
+export const RRF_K = 60;
+
+// Each side fetches this many times the requested results before fusing
+const CANDIDATE_MULTIPLIER = 3;
+// Vector hits below this are noise; keyword hits need no floor since they share a term
+const MIN_VECTOR_SIMILARITY = 0.25;
+
+function envWeight(name: string, fallback: number): number {
+  const value = parseFloat(process.env[name] || '');
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+export function getHybridWeights(): HybridWeights {
+  return {
+    vector: envWeight('HYBRID_VECTOR_WEIGHT', 1),
+    keyword: envWeight('HYBRID_KEYWORD_WEIGHT', 1)
+  };
+}
+
+/**
+ * Weighted reciprocal rank fusion of ranked id lists, best first
+ */
+export function reciprocalRankFusion(lists: { ids: string[]; weight: number }[], k: number = RRF_K): { id: string; score: number }[] {
+  const scores = new Map<string, number>();
+  lists.forEach(({ ids, weight }) => {
+    ids.forEach((id, index) => scores.set(id, (scores.get(id) || 0) + weight / (k + index + 1)));
+  });
+  return Array.from(scores.entries())
+    .map(([id, score]) => ({ id, score }))
+    .sort((a, b) => b.score - a.score);
+}
+
+export async function hybridSearch(
+  query: string,
+  maxResults: number = 20,
+  weights: HybridWeights = getHybridWeights(),
+  scope?: KnowledgeScope | null
+): Promise<HybridSearchResult[]> {
+  try {
+    console.log(`🔀 Performing hybrid search for: ${query.substring(0, 100)}...`);
+    const index = getVectorIndex();
+    const candidates = maxResults * CANDIDATE_MULTIPLIER;
+
+    const queryEmbedding = await enhancedEmbeddingsService.generateEmbedding(query);
+    const [vectorMatches, keywordMatches] = await Promise.all([
+      weights.vector > 0 ? index.search(queryEmbedding, candidates, scope) : Promise.resolve([]),
+      weights.keyword > 0 ? index.searchText(query, candidates, scope) : Promise.resolve([])
+    ]);
+
+    const vectorHits = vectorMatches.filter(match => match.similarity >= MIN_VECTOR_SIMILARITY);
+    const chunks = new Map<string, ReferenceCache>();
+    [...vectorHits, ...keywordMatches].forEach(match => chunks.set(match.chunk.id, match.chunk));
+    const similarities = new Map(vectorHits.map(match => [match.chunk.id, match.similarity]));
+    const vectorRanks = new Map(vectorHits.map((match, rank) => [match.chunk.id, rank + 1]));
+    const keywordRanks = new Map(keywordMatches.map((match, rank) => [match.chunk.id, rank + 1]));
+
+    const fused = reciprocalRankFusion([
+      { ids: vectorHits.map(match => match.chunk.id), weight: weights.vector },
+      { ids: keywordMatches.map(match => match.chunk.id), weight: weights.keyword }
+    ]).slice(0, maxResults);
+
+    const results = fused.map(({ id, score }) => {
+      const chunk = chunks.get(id)!;
+      return {
+        chunkId: chunk.id,
+        documentId: chunk.documentId,
+        chunkText: chunk.chunkText,
+        url: chunk.url || '',
+        similarity: similarities.get(id) ?? (chunk.chunkEmbedding ? cosineSimilarity(queryEmbedding, chunk.chunkEmbedding) : 0),
+        metadata: chunk.metadata,
+        score,
+        vectorRank: vectorRanks.get(id) ?? null,
+        keywordRank: keywordRanks.get(id) ?? null
+      };
+    });
+
+    const keywordOnly = results.filter(result => result.vectorRank === null).length;
+    console.log(`🎯 Hybrid search fused ${vectorHits.length} vector and ${keywordMatches.length} keyword hits into ${results.length} chunks (${keywordOnly} found by keywords alone)`);
+    return results;
+  } catch (error) {
+    console.error('Hybrid search failed:', error);
+    return [];
+  }
+}
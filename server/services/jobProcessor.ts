@@ -1,7 +1,21 @@
 import { EventEmitter } from 'events';
+import { hostname } from 'os';
+import crypto from 'crypto';
 import { storage } from '../storage';
-import { openaiService, type AgentConfig } from './openai';
-import { type Job, type JobStatus, type Pipeline } from '@shared/schema';
+import { openaiService, type AgentConfig, type ProcessingResult } from './openai';
+import { findStepByType, getStepOutputByType } from './stepExecutors';
+import { buildPipelineGraph, evaluateCondition, describeCondition, type PipelineNode } from './pipelineGraph';
+import { resolveRetryPolicy, classifyError, shouldRetry, getBackoffDelay, sleep, type ErrorClass, type StepAttempt } from './retryPolicy';
+import type { ContextResolutionResult } from './contextResolution';
+import { spendLimitService, formatSpendLimitMessage, type ExceededSpendLimit } from './spendLimits';
+import { trackUsage, mergeUsage, sumUsage, saveUsage, type ModelUsage, type UsageContext } from './usageTracking';
+import { chatCompletion } from './llmProvider';
+import { structuredOutputColumns } from './structuredOutput';
+import { CITATIONS_KEY, type Citation } from './citations';
+import { VERIFICATION_KEY, type ClaimVerification } from './claimVerification';
+import { collectConfidenceSignals, scoreConfidence, CONFIDENCE_KEY, RETRIEVAL_KEY, type RetrievalStats } from './answerConfidence';
+import { KNOWLEDGE_SCOPE_KEY, withOwnerDocuments } from './knowledgeScope';
+import { type Job, type JobStatus, type JobStep, type Pipeline, type KnowledgeScope, MAX_JOB_CONCURRENCY } from '@shared/schema';
 
 export interface JobProcessor extends EventEmitter {
   startJob(jobId: string): Promise<void>;
@@ -10,9 +24,19 @@ export interface JobProcessor extends EventEmitter {
   cancelJob(jobId: string): Promise<void>;
 }
 
+// A job lease must be renewed within this window or another worker may take the job over
+const JOB_LEASE_TTL_MS = 60000;
+const JOB_HEARTBEAT_INTERVAL_MS = 15000;
+const ORPHAN_SWEEP_INTERVAL_MS = 60000;
+const STEP_TOKEN_FLUSH_MS = 100; // Streamed tokens are batched into one stepToken event per interval
+
 class JobProcessorService extends EventEmitter implements JobProcessor {
+  // Local view of the jobs this worker holds a lease for; the job_queue table is the source of truth
   private activeJobs = new Map<string, boolean>();
   private pausedJobs = new Set<string>();
+  private heartbeats = new Map<string, NodeJS.Timeout>();
+  private recoveryInterval: NodeJS.Timeout | null = null;
+  readonly workerId = `${hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`;
 
   async startJob(jobId: string): Promise<void> {
     if (this.activeJobs.has(jobId)) {
@@ -25,17 +49,17 @@ class JobProcessorService extends EventEmitter implements JobProcessor {
       throw new Error('Job not found');
     }
 
-    if (!job.pipelineId) {
-      throw new Error('Job has no associated pipeline');
-    }
+    const pipeline = await this.loadJobPipeline(job);
 
-    const pipeline = await storage.getPipeline(job.pipelineId);
-    if (!pipeline) {
-      throw new Error('Pipeline not found');
+    const lease = await storage.acquireJobLease(jobId, this.workerId, JOB_LEASE_TTL_MS);
+    if (!lease) {
+      console.log(`⚠️  Job ${jobId} is leased by another worker, skipping start`);
+      throw new Error('Job is already running on another worker');
     }
 
-    console.log(`🚀 Starting job ${jobId} with status: ${job.status}`);
+    console.log(`🚀 Starting job ${jobId} with status: ${job.status} (worker ${this.workerId}, attempt ${lease.attempts})`);
     this.activeJobs.set(jobId, true);
+    this.startHeartbeat(jobId);
     await storage.updateJob(jobId, { status: 'in_progress' });
     
     const updatedJob = await storage.getJob(jobId);
@@ -51,7 +75,133 @@ class JobProcessorService extends EventEmitter implements JobProcessor {
       });
       this.emit('jobError', { jobId, error });
     } finally {
+      this.stopHeartbeat(jobId);
       this.activeJobs.delete(jobId);
+      await storage.releaseJobLease(jobId, this.workerId).catch(error => {
+        console.error(`❌ Failed to release lease for job ${jobId}:`, error);
+      });
+    }
+  }
+
+  /**
+   * The pipeline with the steps of the version the job is pinned to. Jobs created before
+   * versioning are pinned to the pipeline's current version the first time they run.
+   */
+  private async loadJobPipeline(job: Job): Promise<Pipeline> {
+    if (!job.pipelineId) {
+      throw new Error('Job has no associated pipeline');
+    }
+
+    const pipeline = await storage.getPipeline(job.pipelineId);
+    if (!pipeline) {
+      throw new Error('Pipeline not found');
+    }
+
+    let version = job.pipelineVersionId ? await storage.getPipelineVersion(job.pipelineVersionId) : undefined;
+    if (!version) {
+      version = await storage.getCurrentPipelineVersion(pipeline.id);
+      if (!version) {
+        throw new Error('Pipeline version not found');
+      }
+      await storage.updateJob(job.id, { pipelineVersionId: version.id });
+      console.log(`📌 Pinned job ${job.id} to pipeline version ${version.version}`);
+    }
+
+    return { ...pipeline, name: version.name, steps: version.steps };
+  }
+
+  /**
+   * Whether any worker (this one or another instance) currently holds a live lease on the job
+   */
+  async isJobRunning(jobId: string): Promise<boolean> {
+    if (this.activeJobs.has(jobId)) {
+      return true;
+    }
+
+    return storage.hasLiveJobLease(jobId);
+  }
+
+  /**
+   * Resume an in_progress job that lost its worker. Completed rows and steps are kept,
+   * so processing picks up from the last completed step of the first unfinished row.
+   */
+  async recoverJob(jobId: string): Promise<void> {
+    console.log(`♻️  Recovering orphaned job ${jobId}`);
+    this.pausedJobs.delete(jobId);
+    try {
+      await this.startJob(jobId);
+    } catch (error) {
+      console.error(`❌ Failed to recover job ${jobId}:`, error);
+    }
+  }
+
+  /**
+   * Find in_progress jobs with no live lease and resume them in the background
+   */
+  async recoverOrphanedJobs(): Promise<string[]> {
+    const orphanedJobs = await storage.getOrphanedJobs();
+    const recovered: string[] = [];
+
+    for (const job of orphanedJobs) {
+      if (this.activeJobs.has(job.id)) continue;
+      recovered.push(job.id);
+      // Not awaited: startJob resolves only when the whole job finishes
+      this.recoverJob(job.id);
+    }
+
+    if (recovered.length > 0) {
+      console.log(`♻️  Recovered ${recovered.length} orphaned job(s): ${recovered.join(', ')}`);
+    }
+    return recovered;
+  }
+
+  /**
+   * Recover orphaned jobs now and keep sweeping for jobs whose worker died
+   */
+  startRecovery(): void {
+    if (this.recoveryInterval) return;
+
+    console.log(`🛟 Job recovery started for worker ${this.workerId}`);
+    const sweep = () => this.recoverOrphanedJobs().catch(error => {
+      console.error('❌ Orphaned job sweep failed:', error);
+    });
+    sweep();
+    this.recoveryInterval = setInterval(sweep, ORPHAN_SWEEP_INTERVAL_MS);
+  }
+
+  /**
+   * Periodically extend the job lease and pick up pause/cancel requests made through other workers
+   */
+  private startHeartbeat(jobId: string): void {
+    this.stopHeartbeat(jobId);
+    const heartbeat = setInterval(async () => {
+      try {
+        const lease = await storage.renewJobLease(jobId, this.workerId, JOB_LEASE_TTL_MS);
+        if (!lease) {
+          console.warn(`⚠️  Lost lease on job ${jobId}, stopping local processing`);
+          this.activeJobs.delete(jobId);
+          this.stopHeartbeat(jobId);
+          return;
+        }
+
+        const job = await storage.getJob(jobId);
+        if (!job || job.status === 'cancelled') {
+          this.activeJobs.delete(jobId);
+        } else if (job.status === 'paused') {
+          this.pausedJobs.add(jobId);
+        }
+      } catch (error) {
+        console.error(`❌ Heartbeat failed for job ${jobId}:`, error);
+      }
+    }, JOB_HEARTBEAT_INTERVAL_MS);
+    this.heartbeats.set(jobId, heartbeat);
+  }
+
+  private stopHeartbeat(jobId: string): void {
+    const heartbeat = this.heartbeats.get(jobId);
+    if (heartbeat) {
+      clearInterval(heartbeat);
+      this.heartbeats.delete(jobId);
     }
   }
 
@@ -61,12 +211,34 @@ class JobProcessorService extends EventEmitter implements JobProcessor {
     this.emit('jobPaused', { jobId });
   }
 
+  /**
+   * Pause a job that reached a spend limit, once even if several of its steps hit the limit together
+   */
+  private async pauseForSpendLimit(jobId: string, exceeded: ExceededSpendLimit): Promise<void> {
+    if (this.pausedJobs.has(jobId)) return;
+    this.pausedJobs.add(jobId);
+
+    const message = formatSpendLimitMessage(exceeded);
+    console.log(`💸 Job ${jobId} reached its ${exceeded.scope} spend limit ($${exceeded.spent.toFixed(2)} of $${exceeded.limit.toFixed(2)}), pausing`);
+    await storage.updateJob(jobId, { status: 'paused', errorMessage: message });
+
+    const job = await storage.getJob(jobId);
+    const estimate = job ? await spendLimitService.estimateRemainingCost(job) : null;
+    this.emit('spendLimitReached', { jobId, ...exceeded, message, estimate });
+    this.emit('jobPaused', { jobId });
+  }
+
   async resumeJob(jobId: string): Promise<void> {
     const job = await storage.getJob(jobId);
     if (!job) {
       throw new Error('Job not found');
     }
 
+    // A spend limit pause leaves its reason on the job until the job runs again
+    if (job.status === 'paused' && job.errorMessage) {
+      await storage.updateJob(jobId, { errorMessage: null });
+    }
+
     // If job is already running, just emit jobStarted to sync UI
     if (this.activeJobs.has(jobId)) {
       console.log(`🔄 Job ${jobId} is already running, syncing UI state`);
@@ -90,6 +262,53 @@ class JobProcessorService extends EventEmitter implements JobProcessor {
     this.emit('jobCancelled', { jobId });
   }
 
+  /**
+   * Reset only the failed rows of a finished job and run the job again so just those rows are processed
+   */
+  async retryFailedRows(jobId: string): Promise<number> {
+    const job = await storage.getJob(jobId);
+    if (!job) {
+      throw new Error('Job not found');
+    }
+
+    if (await this.isJobRunning(jobId)) {
+      throw new Error('Job is already running');
+    }
+
+    const failedRows = (await storage.getJobCsvData(jobId)).filter(row => row.status === 'failed');
+    if (failedRows.length === 0) {
+      return 0;
+    }
+
+    for (const row of failedRows) {
+      await storage.updateCsvData(row.id, {
+        enrichedData: null,
+        groundingScore: null,
+        confidenceScore: null,
+        needsReview: false,
+        reviewedAt: null,
+        status: 'pending',
+        errorMessage: null
+      });
+      await storage.clearIncompleteJobSteps(jobId, row.rowIndex);
+    }
+
+    await storage.updateJob(jobId, {
+      processedRows: Math.max(0, job.processedRows - failedRows.length),
+      failedRows: 0,
+      errorMessage: null
+    });
+
+    console.log(`🔁 Retrying ${failedRows.length} failed row(s) for job ${jobId}`);
+    this.pausedJobs.delete(jobId);
+    // Not awaited: startJob resolves only when the whole job finishes
+    this.startJob(jobId).catch(error => {
+      console.error(`❌ Failed to retry failed rows for job ${jobId}:`, error);
+    });
+
+    return failedRows.length;
+  }
+
   async reprocessJob(jobId: string): Promise<void> {
     // Stop job if it's currently running
     this.activeJobs.delete(jobId);
@@ -99,6 +318,7 @@ class JobProcessorService extends EventEmitter implements JobProcessor {
     await storage.updateJob(jobId, {
       status: 'not_started',
       processedRows: 0,
+      failedRows: 0,
       progress: 0,
       errorMessage: null,
       updatedAt: new Date()
@@ -108,7 +328,13 @@ class JobProcessorService extends EventEmitter implements JobProcessor {
     const csvData = await storage.getCsvData(jobId);
     for (const row of csvData) {
       await storage.updateCsvData(row.id, {
-        enrichedData: null
+        enrichedData: null,
+        groundingScore: null,
+        confidenceScore: null,
+        needsReview: false,
+        reviewedAt: null,
+        status: 'pending',
+        errorMessage: null
       });
     }
 
@@ -132,6 +358,7 @@ class JobProcessorService extends EventEmitter implements JobProcessor {
     await storage.updateJob(jobId, {
       status: 'not_started',
       processedRows: 0,
+      failedRows: 0,
       progress: 0,
       errorMessage: null,
       updatedAt: new Date()
@@ -141,7 +368,13 @@ class JobProcessorService extends EventEmitter implements JobProcessor {
     const csvData = await storage.getCsvData(jobId);
     for (const row of csvData) {
       await storage.updateCsvData(row.id, {
-        enrichedData: null
+        enrichedData: null,
+        groundingScore: null,
+        confidenceScore: null,
+        needsReview: false,
+        reviewedAt: null,
+        status: 'pending',
+        errorMessage: null
       });
     }
 
@@ -155,68 +388,146 @@ class JobProcessorService extends EventEmitter implements JobProcessor {
   private async processJob(job: Job, pipeline: Pipeline): Promise<void> {
     const csvData = await storage.getJobCsvData(job.id);
     const steps = pipeline.steps as AgentConfig[];
-    
-    for (let rowIndex = job.processedRows; rowIndex < csvData.length; rowIndex++) {
-      // Check if job is paused
-      if (this.pausedJobs.has(job.id)) {
-        await storage.updateJob(job.id, { 
-          status: 'paused',
-          processedRows: rowIndex,
-          progress: Math.round((rowIndex / csvData.length) * 100)
+    const graph = buildPipelineGraph(steps);
+    const concurrency = Math.max(1, Math.min(job.concurrency || 1, MAX_JOB_CONCURRENCY));
+
+    // Rows finished by a previous run are done; in continue-on-failure mode failed rows stay failed
+    // until retried explicitly. Everything else is queued in row order.
+    const pendingRows = csvData.filter(row =>
+      row.status !== 'completed' && !row.enrichedData &&
+      !(row.status === 'failed' && job.continueOnRowFailure)
+    );
+    const rowCompletions = new Map<number, Promise<boolean>>();
+    let processedRows = csvData.length - pendingRows.length;
+    let failedRows = csvData.filter(row => row.status === 'failed' && !pendingRows.includes(row)).length;
+    let nextPendingRow = 0;
+    let firstError: unknown = null;
+
+    console.log(`🧵 Job ${job.id}: ${pendingRows.length} rows pending, running ${concurrency} worker(s)`);
+
+    const worker = async () => {
+      while (nextPendingRow < pendingRows.length && !firstError) {
+        // Stop picking up new rows once the job is paused or cancelled; in-flight rows finish
+        if (this.pausedJobs.has(job.id) || !this.activeJobs.has(job.id)) {
+          return;
+        }
+
+        const rowData = pendingRows[nextPendingRow++];
+        const completion = this.processRow(job.id, rowData.rowIndex, rowData, steps, graph, rowCompletions);
+        rowCompletions.set(rowData.rowIndex, completion);
+
+        let rowError: string | null = null;
+        try {
+          const completed = await completion;
+          if (!completed) {
+            continue;
+          }
+        } catch (error) {
+          rowError = error instanceof Error ? error.message : 'Unknown error';
+          await storage.updateCsvData(rowData.id, { status: 'failed', errorMessage: rowError });
+
+          if (!job.continueOnRowFailure) {
+            firstError = firstError || error;
+            return;
+          }
+
+          failedRows++;
+          console.error(`⚠️  Row ${rowData.rowIndex} failed, continuing with remaining rows: ${rowError}`);
+        }
+
+        processedRows++;
+        const progress = Math.round((processedRows / csvData.length) * 100);
+        await storage.updateJob(job.id, {
+          processedRows,
+          failedRows,
+          progress,
+          updatedAt: new Date()
         });
-        return;
-      }
 
-      // Check if job is cancelled
-      if (!this.activeJobs.has(job.id)) {
-        return;
+        if (rowError) {
+          this.emit('rowFailed', {
+            jobId: job.id,
+            rowIndex: rowData.rowIndex,
+            error: rowError,
+            progress,
+            totalRows: csvData.length
+          });
+          continue;
+        }
+
+        console.log(`📊 Job ${job.id} progress: ${progress}% (${processedRows}/${csvData.length} rows)`);
+
+        this.emit('rowProcessed', {
+          jobId: job.id,
+          rowIndex: rowData.rowIndex,
+          progress,
+          totalRows: csvData.length
+        });
       }
+    };
 
-      const rowData = csvData[rowIndex];
-      await this.processRow(job.id, rowIndex, rowData, steps);
-      
-      // Update progress
-      const progress = Math.round(((rowIndex + 1) / csvData.length) * 100);
-      await storage.updateJob(job.id, { 
-        processedRows: rowIndex + 1,
-        progress,
-        updatedAt: new Date()
-      });
+    await Promise.all(
+      Array.from({ length: Math.min(concurrency, pendingRows.length) }, () => worker())
+    );
 
-      console.log(`📊 Job ${job.id} progress: ${progress}% (${rowIndex + 1}/${csvData.length} rows)`);
+    if (firstError) {
+      throw firstError;
+    }
 
-      this.emit('rowProcessed', { 
-        jobId: job.id, 
-        rowIndex, 
-        progress,
-        totalRows: csvData.length
+    // Check if job is cancelled
+    if (!this.activeJobs.has(job.id)) {
+      return;
+    }
+
+    // Check if job is paused
+    if (this.pausedJobs.has(job.id)) {
+      await storage.updateJob(job.id, {
+        status: 'paused',
+        processedRows,
+        failedRows,
+        progress: Math.round((processedRows / csvData.length) * 100)
       });
+      return;
     }
 
-    // Job completed
+    // Job completed - possibly with rows that failed in continue-on-failure mode
     await storage.updateJob(job.id, { 
-      status: 'completed',
+      status: failedRows > 0 ? 'completed_with_errors' : 'completed',
       progress: 100,
-      processedRows: csvData.length
+      processedRows: csvData.length,
+      failedRows,
+      errorMessage: failedRows > 0 ? `${failedRows} row(s) failed` : null
     });
     
-    this.emit('jobCompleted', { jobId: job.id });
+    this.emit('jobCompleted', { jobId: job.id, failedRows });
   }
 
+  /**
+   * Process every pipeline step for a single row, following the pipeline graph: a step starts
+   * as soon as everything it depends on has finished or been skipped, so independent steps run
+   * concurrently. Resolves to false if the job was cancelled before the row finished.
+   */
   private async processRow(
     jobId: string, 
     rowIndex: number, 
     rowData: any, 
-    steps: AgentConfig[]
-  ): Promise<void> {
+    steps: AgentConfig[],
+    graph: PipelineNode[],
+    rowCompletions: Map<number, Promise<boolean>> = new Map()
+  ): Promise<boolean> {
     console.log(`🚀 Starting row ${rowIndex} processing with ${steps.length} steps`);
     
+    await storage.updateCsvData(rowData.id, { status: 'processing', errorMessage: null });
+
     // Get job info for RFP-specific data
     const job = await storage.getJob(jobId);
-    let currentData = { ...rowData.originalData };
+    let currentData: Record<string, any> = { ...rowData.originalData };
+    const usageContext: UsageContext = { source: 'step', userId: job?.userId, jobId, pipelineId: job?.pipelineId, rowIndex };
     
     // Resolve question context using LLM to create full contextual question
-    const fullContextualQuestion = await this.resolveQuestionContext(jobId, rowIndex, currentData);
+    const { result: context, usage: contextUsage } = await trackUsage(() => this.resolveQuestionContext(jobId, rowIndex, currentData));
+    await saveUsage({ ...usageContext, source: 'context' }, contextUsage);
+    const fullContextualQuestion = context.fullContextualQuestion;
     
     // Store the full contextual question in the database
     await storage.updateCsvData(rowData.id, {
@@ -226,6 +537,14 @@ class JobProcessorService extends EventEmitter implements JobProcessor {
     // Add it to the processing data - this will be used instead of the original question
     currentData['FULL_CONTEXTUAL_QUESTION'] = fullContextualQuestion;
     console.log(`🧠 Full contextual question: ${fullContextualQuestion.substring(0, 100)}...`);
+
+    // Rows that build on earlier answers wait for those rows before running any step
+    if (context.hasReferences && context.referencedQuestions.length > 0) {
+      const previousContext = await this.buildPreviousContext(jobId, rowIndex, context, steps, rowCompletions);
+      if (previousContext) {
+        currentData['PREVIOUS_CONTEXT'] = previousContext;
+      }
+    }
     
     // Add jobId for detailed logging
     currentData['jobId'] = jobId;
@@ -238,102 +557,405 @@ class JobProcessorService extends EventEmitter implements JobProcessor {
     if (job?.additionalDocuments && Array.isArray(job.additionalDocuments)) {
       currentData['ADDITIONAL_DOCUMENTS'] = await this.loadAdditionalDocuments(job.additionalDocuments);
     }
+
+    // Retrieval steps only search the knowledge the job was scoped to, and only the owner's uploads
+    if (job) {
+      currentData[KNOWLEDGE_SCOPE_KEY] = await this.retrievalScope(job);
+    }
+
+    // A previous worker may have died mid-row: keep its completed steps and drop the interrupted ones
+    await storage.clearIncompleteJobSteps(jobId, rowIndex);
+    const completedSteps = new Map(
+      (await storage.getJobStepsByRow(jobId, rowIndex)).map(jobStep => [jobStep.stepIndex, jobStep])
+    );
     
-    for (let stepIndex = 0; stepIndex < steps.length; stepIndex++) {
-      const step = steps[stepIndex];
-      
+    const settled = new Set<string>(); // Steps that completed or were skipped
+    const running = new Map<string, Promise<void>>();
+    const outcome: { error: unknown; cancelled: boolean } = { error: null, cancelled: false };
+
+    while (settled.size < graph.length && !outcome.error && !outcome.cancelled) {
       // Check if job was cancelled during processing
       if (!this.activeJobs.has(jobId)) {
         console.log(`🛑 Job ${jobId} was cancelled during row ${rowIndex} processing`);
-        return;
+        outcome.cancelled = true;
+        break;
       }
-      
-      // Create job step record
-      const jobStep = await storage.createJobStep({
+
+      const ready = graph.filter(node =>
+        !settled.has(node.id) && !running.has(node.id) && node.dependsOn.every(id => settled.has(id))
+      );
+      ready.forEach(node => {
+        const run = this.processStep(jobId, rowIndex, node, currentData, steps, completedSteps, usageContext)
+          .then(completed => {
+            if (completed) {
+              settled.add(node.id);
+            } else {
+              outcome.cancelled = true;
+            }
+          }, error => {
+            outcome.error = outcome.error || error;
+          })
+          .finally(() => running.delete(node.id));
+        running.set(node.id, run);
+      });
+
+      if (running.size === 0) {
+        break;
+      }
+      await Promise.race(running.values());
+    }
+
+    // Let steps that are already running finish before the row is marked done or failed
+    await Promise.all(running.values());
+
+    if (outcome.error) {
+      throw outcome.error;
+    }
+    if (outcome.cancelled || settled.size < graph.length) {
+      return false;
+    }
+
+    // Rows the pipeline is unsure about go to the review queue
+    const confidence = scoreConfidence(collectConfidenceSignals(currentData, steps));
+    currentData[CONFIDENCE_KEY] = confidence;
+
+    // Update CSV data with enriched results
+    await storage.updateCsvData(rowData.id, {
+      enrichedData: currentData,
+      status: 'completed',
+      groundingScore: (currentData[VERIFICATION_KEY] as ClaimVerification | undefined)?.groundingScore ?? null,
+      confidenceScore: confidence.score,
+      needsReview: confidence.needsReview,
+      reviewedAt: null
+    });
+    if (confidence.needsReview) {
+      console.log(`🚩 Row ${rowIndex} flagged for review - confidence ${confidence.score!.toFixed(2)} below ${confidence.threshold}`);
+    }
+    
+    console.log(`🎯 Completed row ${rowIndex} processing - All ${steps.length} steps finished`);
+    return true;
+  }
+
+  /**
+   * Run (or skip, if its condition is false) one step of the graph and write its output into
+   * the shared row data. Resolves to false if the job was cancelled while retrying
+   * or paused because it reached a spend limit.
+   */
+  private async processStep(
+    jobId: string,
+    rowIndex: number,
+    node: PipelineNode,
+    currentData: Record<string, any>,
+    steps: AgentConfig[],
+    completedSteps: Map<number, JobStep>,
+    usageContext: UsageContext
+  ): Promise<boolean> {
+    const { step, index: stepIndex } = node;
+
+    const completedStep = completedSteps.get(stepIndex);
+    if (completedStep && completedStep.stepName === step.name) {
+      console.log(`⏭️  Reusing completed step "${step.name}" for row ${rowIndex}`);
+      const previous = completedStep.outputData as { result?: any; structured?: Record<string, unknown>; citations?: Citation[]; verification?: ClaimVerification; retrieval?: RetrievalStats } | null;
+      currentData[step.name] = previous?.result;
+      if (step.outputSchema && previous?.structured) {
+        Object.assign(currentData, structuredOutputColumns(step.name, step.outputSchema, previous.structured));
+      }
+      if (previous?.citations) {
+        currentData[CITATIONS_KEY] = { ...currentData[CITATIONS_KEY], [step.name]: previous.citations };
+      }
+      if (previous?.verification) {
+        currentData[VERIFICATION_KEY] = previous.verification;
+      }
+      if (previous?.retrieval) {
+        currentData[RETRIEVAL_KEY] = previous.retrieval;
+      }
+      return true;
+    }
+
+    if (!evaluateCondition(step.condition, currentData)) {
+      const reason = `Condition not met: ${describeCondition(step.condition!)}`;
+      console.log(`⏭️  Skipping step "${step.name}" for row ${rowIndex} - ${reason}`);
+      await storage.createJobStep({
         jobId,
         rowIndex,
         stepIndex,
         stepName: step.name,
-        status: 'running',
-        inputData: currentData,
-        model: step.model,
-        prompt: `${step.systemPrompt}\n\n${step.userPrompt}`
+        status: 'skipped',
+        inputData: { ...currentData },
+        outputData: { skipped: true, reason },
+        model: step.model
       });
+      this.emit('stepSkipped', { jobId, rowIndex, stepIndex, stepName: step.name, reason });
+      return true;
+    }
+    
+    if (usageContext.userId) {
+      const exceeded = await spendLimitService.checkLimits(usageContext.userId, jobId);
+      if (exceeded) {
+        await this.pauseForSpendLimit(jobId, exceeded);
+        return false;
+      }
+    }
+    
+    // Create job step record
+    const jobStep = await storage.createJobStep({
+      jobId,
+      rowIndex,
+      stepIndex,
+      stepName: step.name,
+      status: 'running',
+      inputData: { ...currentData },
+      model: step.model,
+      prompt: `${step.systemPrompt}\n\n${step.userPrompt}`
+    });
 
-      try {
-        console.log(`🔄 Processing step "${step.name}" for row ${rowIndex} - Starting...`);
-        const startTime = Date.now();
-        
-        console.log(`\n📊📊📊 BEFORE CALLING OPENAI SERVICE - Step: ${step.name} 📊📊📊`);
-        console.log(`Current data keys: ${Object.keys(currentData).join(', ')}`);
-        // Log previous step outputs
-        if (currentData['Reference Research']) {
-          console.log(`Reference Research output length: ${currentData['Reference Research']?.length || 0}`);
-        }
-        if (currentData['Generic Draft Generation']) {
-          console.log(`Generic Draft Generation output length: ${currentData['Generic Draft Generation']?.length || 0}`);
-        }
-        
-        const result = await openaiService.processWithAgent(step, currentData);
-        
-        console.log(`\n📈📈📈 AFTER CALLING OPENAI SERVICE - Step: ${step.name} 📈📈📈`);
-        console.log(`Result output length: ${result.output?.length || 0}`);
-        console.log(`Result has content: ${!!result.output}`);
-        if (!result.output) {
-          console.log(`⚠️⚠️⚠️ WARNING: No output returned for step ${step.name}!`);
-        }
-        
-        const duration = Date.now() - startTime;
-        console.log(`✅ Completed step "${step.name}" for row ${rowIndex} in ${duration}ms - Result: ${result.output?.length || 0} chars`);
-        
-        if (result.error) {
-          console.error(`❌ Step "${step.name}" failed for row ${rowIndex}:`, result.error);
-          await storage.updateJobStep(jobStep.id, {
-            status: 'error',
-            errorMessage: result.error,
-            latency: result.latency
-          });
-          throw new Error(`Step ${step.name} failed: ${result.error}`);
-        }
-
-        // Create a new column for this step's output
-        console.log(`\n🔑🔑🔑 STORING OUTPUT IN CURRENT DATA 🔑🔑🔑`);
-        console.log(`Setting currentData['${step.name}'] = output of length ${result.output?.length || 0}`);
-        currentData[step.name] = result.output;
-        console.log(`Verification: currentData['${step.name}'] length = ${currentData[step.name]?.length || 0}`);
-        console.log(`All keys in currentData: ${Object.keys(currentData).join(', ')}`);
-        
+    try {
+      console.log(`🔄 Processing step "${step.name}" for row ${rowIndex} - Starting...`);
+      const startTime = Date.now();
+      
+      console.log(`\n📊📊📊 BEFORE CALLING OPENAI SERVICE - Step: ${step.name} 📊📊📊`);
+      console.log(`Current data keys: ${Object.keys(currentData).join(', ')}`);
+      // Log previous step outputs
+      if (currentData['Reference Research']) {
+        console.log(`Reference Research output length: ${currentData['Reference Research']?.length || 0}`);
+      }
+      if (currentData['Generic Draft Generation']) {
+        console.log(`Generic Draft Generation output length: ${currentData['Generic Draft Generation']?.length || 0}`);
+      }
+      
+      const result = await this.runStepWithRetry(jobId, rowIndex, jobStep.id, step, currentData, steps, { ...usageContext, jobStepId: jobStep.id, stepName: step.name });
+      if (!result) {
+        console.log(`🛑 Job ${jobId} was cancelled while retrying step "${step.name}" for row ${rowIndex}`);
+        return false;
+      }
+      
+      const duration = Date.now() - startTime;
+      console.log(`✅ Completed step "${step.name}" for row ${rowIndex} in ${duration}ms - Result: ${result.output?.length || 0} chars`);
+      
+      if (result.error) {
+        console.error(`❌ Step "${step.name}" failed for row ${rowIndex}:`, result.error);
         await storage.updateJobStep(jobStep.id, {
-          status: 'completed',
-          outputData: { result: result.output },
+          status: 'error',
+          errorMessage: result.error,
           latency: result.latency,
-          completedAt: new Date()
+          // What a broken stream had written before it failed
+          ...(result.output ? { outputData: { partialResult: result.output } } : {})
         });
-
-        this.emit('stepCompleted', {
+        this.emit('stepFailed', {
           jobId,
           rowIndex,
           stepIndex,
           stepName: step.name,
-          result: result.output,
-          latency: result.latency
+          userId: usageContext.userId,
+          error: result.error,
+          partialOutput: result.output || null
         });
+        throw new Error(`Step ${step.name} failed: ${result.error}`);
+      }
 
-      } catch (error) {
-        await storage.updateJobStep(jobStep.id, {
-          status: 'error',
-          errorMessage: error instanceof Error ? error.message : 'Unknown error'
-        });
-        throw error;
+      // Create a new column for this step's output
+      console.log(`\n🔑🔑🔑 STORING OUTPUT IN CURRENT DATA 🔑🔑🔑`);
+      console.log(`Setting currentData['${step.name}'] = output of length ${result.output?.length || 0}`);
+      currentData[step.name] = result.output;
+      // Each field of a structured answer also gets its own column
+      if (step.outputSchema && result.structuredOutput) {
+        Object.assign(currentData, structuredOutputColumns(step.name, step.outputSchema, result.structuredOutput));
+      }
+      if (result.citations) {
+        currentData[CITATIONS_KEY] = { ...currentData[CITATIONS_KEY], [step.name]: result.citations };
+      }
+      if (result.verification) {
+        currentData[VERIFICATION_KEY] = result.verification;
+      }
+      if (result.retrieval) {
+        currentData[RETRIEVAL_KEY] = result.retrieval;
       }
+      console.log(`All keys in currentData: ${Object.keys(currentData).join(', ')}`);
+      
+      await storage.updateJobStep(jobStep.id, {
+        status: 'completed',
+        outputData: {
+          result: result.output,
+          ...(result.structuredOutput ? { structured: result.structuredOutput } : {}),
+          ...(result.citations ? { citations: result.citations } : {}),
+          ...(result.verification ? { verification: result.verification } : {}),
+          ...(result.retrieval ? { retrieval: result.retrieval } : {}),
+          ...(result.metadata?.rerank ? { rerank: result.metadata.rerank } : {}),
+          ...(result.metadata?.queryCoverage ? { queryCoverage: result.metadata.queryCoverage } : {})
+        },
+        latency: result.latency,
+        completedAt: new Date()
+      });
+
+      this.emit('stepCompleted', {
+        jobId,
+        rowIndex,
+        stepIndex,
+        stepName: step.name,
+        result: result.output,
+        latency: result.latency
+      });
+
+      return true;
+    } catch (error) {
+      await storage.updateJobStep(jobStep.id, {
+        status: 'error',
+        errorMessage: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
     }
+  }
 
-    // Update CSV data with enriched results
-    await storage.updateCsvData(rowData.id, {
-      enrichedData: currentData
-    });
-    
-    console.log(`🎯 Completed row ${rowIndex} processing - All ${steps.length} steps finished`);
+  /**
+   * Call the step's agent, retrying transient failures according to its retry policy.
+   * Every attempt and its token usage is recorded on the job_steps row and in the usage
+   * ledger. Resolves to null if the job is cancelled while waiting to retry.
+   */
+  private async runStepWithRetry(
+    jobId: string,
+    rowIndex: number,
+    jobStepId: string,
+    step: AgentConfig,
+    currentData: Record<string, any>,
+    steps: AgentConfig[],
+    usageContext: UsageContext
+  ): Promise<ProcessingResult | null> {
+    const policy = resolveRetryPolicy(step.retryPolicy);
+    const attempts: StepAttempt[] = [];
+    let usage: ModelUsage[] = [];
+
+    for (let attempt = 1; ; attempt++) {
+      const startedAt = new Date();
+      const tokenStream = this.createTokenStream({ jobId, rowIndex, stepName: step.name, userId: usageContext.userId, attempt });
+      const result = await openaiService.processWithAgent(step, currentData, { steps, onToken: tokenStream.onToken });
+      tokenStream.flush();
+
+      console.log(`\n📈📈📈 AFTER CALLING OPENAI SERVICE - Step: ${step.name} (attempt ${attempt}/${policy.maxAttempts}) 📈📈📈`);
+      console.log(`Result output length: ${result.output?.length || 0}`);
+      console.log(`Result has content: ${!!result.output}`);
+      if (!result.output) {
+        console.log(`⚠️⚠️⚠️ WARNING: No output returned for step ${step.name}!`);
+      }
+
+      const errorClass: ErrorClass | undefined = result.error
+        ? (result.errorClass || classifyError(result.error))
+        : (!result.output ? 'empty_output' : undefined);
+      const retry = !!errorClass && shouldRetry(policy, errorClass, attempt);
+      const retryDelayMs = retry ? getBackoffDelay(policy, attempt, errorClass) : undefined;
+
+      attempts.push({
+        attempt,
+        startedAt: startedAt.toISOString(),
+        latency: result.latency,
+        status: result.error ? 'error' : 'completed',
+        errorClass,
+        errorMessage: result.error || (errorClass === 'empty_output' ? 'Empty output' : undefined),
+        retryDelayMs
+      });
+
+      usage = mergeUsage(usage, result.usage || []);
+      await saveUsage(usageContext, result.usage || []);
+      const totals = sumUsage(usage);
+      await storage.updateJobStep(jobStepId, {
+        attempts,
+        promptTokens: totals.promptTokens,
+        completionTokens: totals.completionTokens,
+        reasoningTokens: totals.reasoningTokens,
+        cost: totals.cost
+      });
+
+      if (!retry) {
+        if (errorClass === 'empty_output') {
+          console.log(`⚠️  Step "${step.name}" returned empty output for row ${rowIndex} after ${attempt} attempt(s), keeping it`);
+        }
+        return { ...result, usage };
+      }
+
+      console.log(`🔁 Step "${step.name}" row ${rowIndex} hit ${errorClass} on attempt ${attempt}/${policy.maxAttempts}, retrying in ${retryDelayMs}ms`);
+      await sleep(retryDelayMs!);
+
+      if (!this.activeJobs.has(jobId)) {
+        return null;
+      }
+    }
+  }
+
+  /**
+   * Collect a step's streamed tokens and emit them as stepToken events, at most one per
+   * STEP_TOKEN_FLUSH_MS. Each event carries the new tokens and the whole output so far, so a
+   * client that misses one still shows the full text.
+   */
+  private createTokenStream(target: { jobId: string; rowIndex: number; stepName: string; userId?: string | null; attempt: number }) {
+    let output = '';
+    let pending = '';
+    let timer: NodeJS.Timeout | null = null;
+
+    const flush = () => {
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      if (pending) {
+        this.emit('stepToken', { ...target, token: pending, output });
+        pending = '';
+      }
+    };
+
+    return {
+      onToken: (token: string) => {
+        output += token;
+        pending += token;
+        if (!timer) {
+          timer = setTimeout(flush, STEP_TOKEN_FLUSH_MS);
+        }
+      },
+      flush
+    };
+  }
+
+  /**
+   * Wait for the rows a question depends on and collect their answers as PREVIOUS_CONTEXT
+   */
+  private async buildPreviousContext(
+    jobId: string,
+    rowIndex: number,
+    context: ContextResolutionResult,
+    steps: AgentConfig[],
+    rowCompletions: Map<number, Promise<boolean>>
+  ): Promise<Record<string, any> | null> {
+    // Only earlier rows can be dependencies; they are always dispatched before this one
+    const referencedRows = Array.from(new Set(context.referencedQuestions))
+      .map(questionNumber => questionNumber - 1)
+      .filter(index => index >= 0 && index < rowIndex);
+
+    if (referencedRows.length === 0) {
+      return null;
+    }
+
+    console.log(`⏳ Row ${rowIndex} waiting for referenced rows: ${referencedRows.join(', ')}`);
+    // A failed dependency still unblocks this row; it just contributes no answer
+    await Promise.all(referencedRows.map(index => rowCompletions.get(index)?.catch(() => false)));
+
+    const finalStepName = steps[steps.length - 1]?.name;
+    const referencedQuestions = [];
+    for (const index of referencedRows) {
+      const referencedRow = await storage.getCsvDataByRow(jobId, index);
+      if (!referencedRow) continue;
+
+      const enriched = (referencedRow.enrichedData || {}) as Record<string, any>;
+      referencedQuestions.push({
+        questionNumber: index + 1,
+        question: this.extractQuestionText(referencedRow.originalData),
+        referenceResearch: getStepOutputByType(enriched, steps, 'retrieval') || '',
+        tailoredResponse: (finalStepName && enriched[finalStepName]) || '',
+        referencedAs: `Question ${index + 1}`
+      });
+    }
+
+    return {
+      contextNote: context.reasoning,
+      referencedQuestions
+    };
   }
 
   isJobActive(jobId: string): boolean {
@@ -344,7 +966,7 @@ class JobProcessorService extends EventEmitter implements JobProcessor {
     return this.pausedJobs.has(jobId);
   }
 
-  private async resolveQuestionContext(jobId: string, currentRowIndex: number, currentData: any): Promise<string> {
+  private async resolveQuestionContext(jobId: string, currentRowIndex: number, currentData: any): Promise<ContextResolutionResult> {
     // Import the context resolution service
     const { contextResolutionService } = await import('./contextResolution');
     
@@ -385,12 +1007,17 @@ class JobProcessorService extends EventEmitter implements JobProcessor {
       
       console.log(`📋 RFP Context: Instructions=${job?.rfpInstructions ? 'Included' : 'None'}, Docs=${additionalDocuments?.length || 0}`);
       
-      return result.fullContextualQuestion;
+      return result;
       
     } catch (error) {
       console.error(`❌ Context resolution failed for question ${currentQuestionNumber}:`, error);
       // Fallback to original question
-      return this.extractQuestionText(currentData);
+      return {
+        fullContextualQuestion: this.extractQuestionText(currentData),
+        hasReferences: false,
+        referencedQuestions: [],
+        reasoning: `Context resolution failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
     }
   }
 
@@ -414,6 +1041,12 @@ class JobProcessorService extends EventEmitter implements JobProcessor {
 
 
 
+  // The job's knowledge scope with uploaded documents limited to the owner's
+  private async retrievalScope(job: Job): Promise<KnowledgeScope> {
+    const documents = await storage.getUserReferenceDocuments(job.userId);
+    return withOwnerDocuments(job.knowledgeScope as KnowledgeScope | null, documents.map(document => document.id));
+  }
+
   private async loadAdditionalDocuments(additionalDocuments: any[]): Promise<Array<{fileName: string, content: string}>> {
     const fs = await import('fs/promises');
     const loadedDocs = [];
@@ -452,17 +1085,16 @@ class JobProcessorService extends EventEmitter implements JobProcessor {
       throw new Error('Job not found');
     }
 
-    if (!job.pipelineId) {
-      throw new Error('Job has no associated pipeline');
-    }
+    const pipeline = await this.loadJobPipeline(job);
 
-    const pipeline = await storage.getPipeline(job.pipelineId);
-    if (!pipeline) {
-      throw new Error('Pipeline not found');
+    const lease = await storage.acquireJobLease(jobId, this.workerId, JOB_LEASE_TTL_MS);
+    if (!lease) {
+      throw new Error('Job is already running on another worker');
     }
 
     console.log(`🔄 Starting feedback reprocessing for job ${jobId} with ${rowsToReprocess.length} rows`);
     this.activeJobs.set(jobId, true);
+    this.startHeartbeat(jobId);
     await storage.updateJob(jobId, { status: 'in_progress' });
     
     const updatedJob = await storage.getJob(jobId);
@@ -478,7 +1110,11 @@ class JobProcessorService extends EventEmitter implements JobProcessor {
       });
       this.emit('jobError', { jobId, error });
     } finally {
+      this.stopHeartbeat(jobId);
       this.activeJobs.delete(jobId);
+      await storage.releaseJobLease(jobId, this.workerId).catch(error => {
+        console.error(`❌ Failed to release lease for job ${jobId}:`, error);
+      });
     }
   }
 
@@ -497,7 +1133,14 @@ class JobProcessorService extends EventEmitter implements JobProcessor {
       }
 
       try {
-        await this.processFeedbackRow(job, pipeline, rowData);
+        const { usage } = await trackUsage(() => this.processFeedbackRow(job, pipeline, rowData));
+        await saveUsage({
+          source: 'feedback',
+          userId: job.userId,
+          jobId: job.id,
+          pipelineId: job.pipelineId,
+          rowIndex: rowData.rowIndex
+        }, usage);
         
         // Mark row as no longer needing reprocessing
         await storage.updateCsvData(rowData.id, {
@@ -532,27 +1175,30 @@ class JobProcessorService extends EventEmitter implements JobProcessor {
     try {
       // Step 1: Find additional references based on feedback
       console.log(`🔍 Searching for additional references based on feedback: "${rowData.feedback}"`);
-      const feedbackReferences = await this.findAdditionalReferences(contextualQuestion, rowData.feedback);
+      const feedbackReferences = await this.findAdditionalReferences(contextualQuestion, rowData.feedback, await this.retrievalScope(job));
       
       // Step 2: Combine existing references with new ones
-      const existingReferences = rowData.enrichedData?.['Reference Research'] || '';
+      const steps = pipeline.steps as AgentConfig[];
+      const enrichedData = rowData.enrichedData || {};
+      const researchStep = findStepByType(steps, 'retrieval');
+      const existingReferences = getStepOutputByType(enrichedData, steps, 'retrieval') || '';
       const combinedReferences = this.combineReferences(existingReferences, feedbackReferences);
       
       // Step 3: Reprocess only the final response with o3 model
-      const finalResponseStep = pipeline.steps.find((s: any) => s.name === 'Tailored RFP Response');
+      const finalResponseStep = findStepByType(steps, 'tailor');
       if (!finalResponseStep) {
         console.warn(`⚠️ Final response step not found in pipeline`);
         return;
       }
 
-      const existingResponse = rowData.enrichedData?.['Tailored RFP Response'] || '';
-      const genericDraft = rowData.enrichedData?.['Generic Draft Generation'] || '';
+      const existingResponse = enrichedData[finalResponseStep.name] || '';
+      const genericDraft = getStepOutputByType(enrichedData, steps, 'draft') || '';
       
       // Use Generic Draft as fallback if final response is missing
       const baseResponse = existingResponse || genericDraft;
       
       // Enhanced prompt for o3 model with feedback context
-      const enhancedPrompt = `${finalResponseStep.prompt}
+      const enhancedPrompt = `${finalResponseStep.systemPrompt}
 
 CONTEXT FOR IMPROVEMENT:
 - Original Question: ${contextualQuestion}
@@ -577,8 +1223,8 @@ Please improve the response based on the user feedback. Use the Generic Draft as
         const currentEnrichedData = rowData.enrichedData || {};
         const updatedEnrichedData = {
           ...currentEnrichedData,
-          'Reference Research': combinedReferences,
-          'Tailored RFP Response': improvedResponse
+          ...(researchStep ? { [researchStep.name]: combinedReferences } : {}),
+          [finalResponseStep.name]: improvedResponse
         };
         
         console.log(`📝 Feedback processing result for row ${rowData.rowIndex}:`);
@@ -612,16 +1258,16 @@ Please improve the response based on the user feedback. Use the Generic Draft as
     }
   }
 
-  private async findAdditionalReferences(question: string, feedback: string): Promise<string> {
+  private async findAdditionalReferences(question: string, feedback: string, scope: KnowledgeScope): Promise<string> {
     console.log(`🔍 Finding additional references for feedback: "${feedback}"`);
     
     try {
-      // Use enhanced embeddings service to find relevant content based on feedback
-      const { enhancedEmbeddingsService } = await import('./enhancedEmbeddings');
+      // Use hybrid retrieval to find relevant content based on feedback
+      const { hybridSearch, getHybridWeights } = await import('./hybridRetrieval');
       
       // Create a search query combining the original question with feedback
       const searchQuery = `${question} ${feedback}`;
-      const relevantChunks = await enhancedEmbeddingsService.semanticSearch(searchQuery, 5);
+      const relevantChunks = await hybridSearch(searchQuery, 5, getHybridWeights(), scope);
       
       if (relevantChunks.length === 0) {
         console.log(`📝 No additional references found for feedback`);
@@ -680,17 +1326,13 @@ Please improve the response based on the user feedback. Use the Generic Draft as
   }
 
   /**
-   * Process a single feedback step using OpenAI directly (simpler than full pipeline)
+   * Process a single feedback step with one chat call (simpler than full pipeline)
    */
   private async processFeedbackStep(step: any, contextualQuestion: string): Promise<string> {
     try {
       console.log(`🤖 Processing feedback step: ${step.name} with ${step.model}`);
       
-      const openai = new (await import('openai')).default({ 
-        apiKey: process.env.OPENAI_API_KEY 
-      });
-
-      const params: any = {
+      const response = await chatCompletion({
         model: step.model,
         messages: [
           {
@@ -701,20 +1343,12 @@ Please improve the response based on the user feedback. Use the Generic Draft as
             role: "user", 
             content: contextualQuestion
           }
-        ]
-      };
-
-      // o3 and gpt-5 models use max_completion_tokens instead of max_tokens and don't support temperature
-      if (step.model.includes('o3') || step.model.includes('gpt-5')) {
-        params.max_completion_tokens = step.maxTokens || 2000;
-      } else {
-        params.max_tokens = step.maxTokens || 2000;
-        params.temperature = step.temperature || 0.7;
-      }
-
-      const response = await openai.chat.completions.create(params);
+        ],
+        maxTokens: step.maxTokens || 2000,
+        temperature: step.temperature || 0.7
+      });
 
-      const result = response.choices[0]?.message?.content || '';
+      const result = response.content;
       console.log(`✅ Feedback step completed: ${result.length} characters generated`);
       return result;
       
@@ -0,0 +1,39 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { matchesKnowledgeScope, withOwnerDocuments, urlMatchesKnowledgeScope } from './knowledgeScope';
+import type { ReferenceCache } from '@shared/schema';
+
+const now = new Date('2026-06-01T00:00:00Z');
+
+function chunk(fields: Partial<ReferenceCache>): ReferenceCache {
+  return { id: 'chunk', url: null, documentId: null, metadata: null, createdAt: now, ...fields } as ReferenceCache;
+}
+
+const scraped = chunk({ url: 'https://www.twilio.com/docs/verify/api' });
+const ownUpload = chunk({ documentId: 'own-doc' });
+const otherUpload = chunk({ documentId: 'other-doc' });
+
+test('uploaded documents are left out unless the scope lists them', () => {
+  assert.equal(matchesKnowledgeScope(scraped, null, now), true);
+  assert.equal(matchesKnowledgeScope(ownUpload, null, now), false);
+  assert.equal(matchesKnowledgeScope(ownUpload, { domains: ['twilio.com'] }, now), false);
+  assert.equal(matchesKnowledgeScope(ownUpload, { documentIds: ['own-doc'] }, now), true);
+});
+
+test('jobs search their owner\'s documents unless they pinned a subset', () => {
+  const unpinned = withOwnerDocuments(null, ['own-doc']);
+  assert.equal(matchesKnowledgeScope(ownUpload, unpinned, now), true);
+  assert.equal(matchesKnowledgeScope(otherUpload, unpinned, now), false);
+  assert.equal(matchesKnowledgeScope(scraped, unpinned, now), true);
+
+  assert.deepEqual(withOwnerDocuments({ documentIds: ['own-doc'], languages: ['en'] }, ['own-doc', 'second-doc']), { documentIds: ['own-doc'], languages: ['en'] });
+  assert.equal(matchesKnowledgeScope(ownUpload, withOwnerDocuments(null, []), now), false);
+});
+
+test('domains, cache age and languages narrow scraped chunks', () => {
+  assert.equal(urlMatchesKnowledgeScope('https://docs.sendgrid.com/api', { domains: ['sendgrid.com'] }), true);
+  assert.equal(matchesKnowledgeScope(scraped, { domains: ['sendgrid.com'] }, now), false);
+  assert.equal(matchesKnowledgeScope(chunk({ url: scraped.url, createdAt: new Date('2026-01-01T00:00:00Z') }), { maxCacheAgeDays: 90 }, now), false);
+  assert.equal(matchesKnowledgeScope(chunk({ url: scraped.url, metadata: { language: 'de' } }), { languages: ['en'] }, now), false);
+  assert.equal(matchesKnowledgeScope(scraped, { languages: ['en'] }, now), true);
+});
@@ -0,0 +1,74 @@
+/**
+ * Knowledge Scope
+ * A job can pin what its retrieval draws on, so a Segment RFP doesn't cite Programmable Voice
+ * docs or unrelated uploads. Document ids must be the job owner's own uploads. The scope is stored on the job, put on every row as
+ * KNOWLEDGE_SCOPE, and passed down to the vector index: the pgvector index turns it into a WHERE
+ * clause (see DatabaseStorage), the in-memory index and URL discovery use matchesKnowledgeScope.
+ * Uploaded documents are only searched when the scope lists them, so the job processor fills in
+ * the owner's documents when the job didn't pin any (withOwnerDocuments).
+ */
+
+import { PRODUCT_TAGS, type KnowledgeScope, type ReferenceCache } from '@shared/schema';
+
+export const KNOWLEDGE_SCOPE_KEY = 'KNOWLEDGE_SCOPE';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function urlHost(url: string): string | null {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a scraped URL is inside the scope's domains and product tags
+ */
+export function urlMatchesKnowledgeScope(url: string, scope?: KnowledgeScope | null): boolean {
+  if (!scope) return true;
+  if (scope.domains) {
+    const host = urlHost(url);
+    if (!host || !scope.domains.some(domain => host === domain || host.endsWith(`.${domain}`))) return false;
+  }
+  if (scope.productTags) {
+    return scope.productTags.some(tag => new RegExp(PRODUCT_TAGS[tag].urlPattern, 'i').test(url));
+  }
+  return true;
+}
+
+/**
+ * The scope a job's rows search: the job's own scope, with uploaded documents limited to the
+ * owner's unless the job pinned a subset of them
+ */
+export function withOwnerDocuments(scope: KnowledgeScope | null | undefined, ownerDocumentIds: string[]): KnowledgeScope {
+  return { ...scope, documentIds: scope?.documentIds ?? ownerDocumentIds };
+}
+
+/**
+ * The same filter DatabaseStorage applies in SQL, for chunks already in memory
+ */
+export function matchesKnowledgeScope(chunk: ReferenceCache, scope?: KnowledgeScope | null, now: Date = new Date()): boolean {
+  if (chunk.documentId && !scope?.documentIds?.includes(chunk.documentId)) return false;
+  if (!scope) return true;
+  if (chunk.url && !urlMatchesKnowledgeScope(chunk.url, scope)) return false;
+  if (scope.maxCacheAgeDays && now.getTime() - new Date(chunk.createdAt).getTime() > scope.maxCacheAgeDays * DAY_MS) return false;
+  const language = (chunk.metadata as { language?: string } | null)?.language;
+  if (scope.languages && language && !scope.languages.includes(language)) return false;
+  return true;
+}
+
+/**
+ * "domains twilio.com; products messaging, verify; 2 documents; cached in the last 90 days" for logs
+ */
+export function describeKnowledgeScope(scope?: KnowledgeScope | null): string {
+  if (!scope) return 'all knowledge';
+  const parts = [
+    scope.domains && `domains ${scope.domains.join(', ')}`,
+    scope.productTags && `products ${scope.productTags.join(', ')}`,
+    scope.documentIds && `${scope.documentIds.length} document${scope.documentIds.length === 1 ? '' : 's'}`,
+    scope.maxCacheAgeDays && `cached in the last ${scope.maxCacheAgeDays} days`,
+    scope.languages && `languages ${scope.languages.join(', ')}`
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join('; ') : 'all knowledge';
+}
@@ -0,0 +1,302 @@
+/**
+ * LLM Provider
+ * One interface for chat completions and embeddings, so services don't construct their own
+ * OpenAI clients. LLM_PROVIDER picks the implementation:
+ *   openai (default) - api.openai.com, OPENAI_API_KEY
+ *   azure            - Azure OpenAI, AZURE_OPENAI_ENDPOINT / AZURE_OPENAI_API_KEY / OPENAI_API_VERSION;
+ *                      AZURE_OPENAI_DEPLOYMENTS maps models to deployments ("gpt-4o=prod-4o,...")
+ *   local            - any OpenAI-compatible server (Ollama, vLLM, LM Studio) at LOCAL_LLM_BASE_URL;
+ *                      LOCAL_LLM_CHAT_MODEL / LOCAL_LLM_EMBEDDING_MODEL replace the pipeline's models
+ *   mock             - deterministic offline responses, for running pipelines without network access
+ * Callers go through chatCompletion and createEmbedding, which also report token usage. Passing
+ * stream options to chatCompletion streams the answer token by token; if the stream breaks off,
+ * the LLMStreamError it throws carries the text received so far. A request with an outputSchema
+ * is held to it with structured outputs where the model supports them.
+ */
+
+import OpenAI, { AzureOpenAI } from 'openai';
+import { getModelCapabilities, type ReasoningEffort } from './modelCapabilities';
+import { reportModelUsage } from './usageTracking';
+import { MockLLMProvider } from './mockLlmProvider';
+import { toProviderJsonSchema, withSchemaInstructions } from './structuredOutput';
+import type { StepOutputSchema } from '@shared/schema';
+
+export type LLMProviderName = 'openai' | 'azure' | 'local' | 'mock';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatRequest {
+  model: string;
+  messages: ChatMessage[];
+  maxTokens?: number;
+  temperature?: number;             // Dropped for models that don't support it
+  responseFormat?: 'text' | 'json_object';
+  reasoningEffort?: ReasoningEffort; // Overrides the model's default; ignored by non-reasoning models
+  outputSchema?: StepOutputSchema;    // The answer must be a JSON object of this shape
+  reasoningOverhead?: boolean;        // Add the model's reasoningOverheadTokens on top of maxTokens
+}
+
+// OpenAI's usage block; every provider reports in this shape
+export interface ProviderUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  completion_tokens_details?: { reasoning_tokens?: number };
+}
+
+export interface ChatResult {
+  content: string;
+  model: string; // Model the usage is priced as; differs from the request when a local server substitutes its own
+  usage: ProviderUsage | null;
+}
+
+export interface EmbeddingResult {
+  embedding: number[];
+  model: string;
+  usage: ProviderUsage | null;
+}
+
+export interface ChatStreamOptions {
+  onToken: (token: string) => void;
+  signal?: AbortSignal; // Aborting ends the stream with an LLMStreamError
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  chat(request: ChatRequest, stream?: ChatStreamOptions): Promise<ChatResult>;
+  embed(model: string, input: string): Promise<EmbeddingResult>;
+  listModels(): Promise<string[]>;
+}
+
+const DEFAULT_MAX_TOKENS = 1000;
+
+/**
+ * A streamed completion that failed or was aborted part-way. The status and code of the
+ * underlying error are kept so retry classification still works.
+ */
+export class LLMStreamError extends Error {
+  status?: number;
+  code?: string;
+
+  constructor(message: string, public partialContent: string, cause?: unknown) {
+    super(message);
+    this.name = 'LLMStreamError';
+    if (cause && typeof cause === 'object') {
+      this.status = (cause as { status?: number }).status;
+      this.code = (cause as { code?: string }).code;
+    }
+  }
+}
+
+/**
+ * Content of the first choice. Some GPT-5 responses have put the text outside message.content,
+ * so the other places it has appeared are checked too.
+ */
+function extractContent(response: any): string {
+  const choice = response.choices?.[0];
+  const candidates = [
+    choice?.message?.content,
+    choice?.message?.output,
+    choice?.message?.answer,
+    choice?.message?.response,
+    choice?.message?.text,
+    choice?.text,
+    choice?.output,
+    response.output,
+    response.text
+  ];
+  return candidates.find(candidate => typeof candidate === 'string' && candidate.length > 0) || '';
+}
+
+/**
+ * Any server that speaks the OpenAI API. Subclasses choose the client and how a pipeline's
+ * model id maps to the model (or deployment) the server knows.
+ */
+class OpenAICompatibleProvider implements LLMProvider {
+  constructor(
+    readonly name: LLMProviderName,
+    protected client: OpenAI
+  ) {}
+
+  protected resolveModel(model: string, _kind: 'chat' | 'embedding'): string {
+    return model;
+  }
+
+  protected pricedModel(requested: string, resolved: string): string {
+    return resolved;
+  }
+
+  async chat(request: ChatRequest, stream?: ChatStreamOptions): Promise<ChatResult> {
+    const model = this.resolveModel(request.model, 'chat');
+    // Quirks follow the requested model, e.g. an Azure deployment of gpt-5 still needs max_completion_tokens
+    const capabilities = getModelCapabilities(request.model);
+
+    // Models that can't be held to a schema are told about it and asked for JSON instead
+    const structured = !!request.outputSchema && capabilities.supportsStructuredOutputs;
+    const messages = request.outputSchema && !structured
+      ? withSchemaInstructions(request.messages, request.outputSchema)
+      : request.messages;
+
+    const params: any = {
+      model,
+      messages,
+      [capabilities.tokenLimitParam]: (request.maxTokens || DEFAULT_MAX_TOKENS) + (request.reasoningOverhead ? capabilities.reasoningOverheadTokens : 0)
+    };
+    if (capabilities.supportsTemperature && request.temperature !== undefined) {
+      params.temperature = request.temperature;
+    }
+    if (capabilities.reasoning && (request.reasoningEffort || capabilities.defaultReasoningEffort)) {
+      params.reasoning_effort = request.reasoningEffort || capabilities.defaultReasoningEffort;
+    }
+    if (structured) {
+      params.response_format = {
+        type: 'json_schema',
+        json_schema: { name: 'step_output', schema: toProviderJsonSchema(request.outputSchema!), strict: true }
+      };
+    } else if (request.outputSchema && capabilities.supportsJsonMode) {
+      params.response_format = { type: 'json_object' };
+    } else if (request.responseFormat && capabilities.supportsJsonMode) {
+      params.response_format = { type: request.responseFormat };
+    }
+
+    if (!stream) {
+      const response = await this.client.chat.completions.create(params);
+      return { content: extractContent(response), model: this.pricedModel(request.model, model), usage: (response as any).usage || null };
+    }
+
+    const chunks = await this.client.chat.completions.create(
+      { ...params, stream: true, stream_options: { include_usage: true } } as OpenAI.Chat.Completions.ChatCompletionCreateParamsStreaming,
+      { signal: stream.signal }
+    );
+    let content = '';
+    let usage: ProviderUsage | null = null;
+    try {
+      for await (const chunk of chunks) {
+        const token = chunk.choices?.[0]?.delta?.content;
+        if (token) {
+          content += token;
+          stream.onToken(token);
+        }
+        // Sent on a final chunk with no choices
+        if (chunk.usage) {
+          usage = chunk.usage as ProviderUsage;
+        }
+      }
+    } catch (error) {
+      throw new LLMStreamError(error instanceof Error ? error.message : 'Stream interrupted', content, error);
+    }
+    return { content, model: this.pricedModel(request.model, model), usage };
+  }
+
+  async embed(model: string, input: string): Promise<EmbeddingResult> {
+    const resolved = this.resolveModel(model, 'embedding');
+    const response = await this.client.embeddings.create({ model: resolved, input, encoding_format: 'float' });
+    return { embedding: response.data[0].embedding, model: this.pricedModel(model, resolved), usage: (response.usage as ProviderUsage) || null };
+  }
+
+  async listModels(): Promise<string[]> {
+    const models = await this.client.models.list();
+    return models.data.map(model => model.id);
+  }
+}
+
+class OpenAIProvider extends OpenAICompatibleProvider {
+  constructor() {
+    super('openai', new OpenAI({
+      apiKey: process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY_ENV_VAR || 'default_key'
+    }));
+  }
+}
+
+class AzureOpenAIProvider extends OpenAICompatibleProvider {
+  private deployments: Map<string, string>;
+
+  constructor() {
+    super('azure', new AzureOpenAI({
+      endpoint: process.env.AZURE_OPENAI_ENDPOINT,
+      apiKey: process.env.AZURE_OPENAI_API_KEY,
+      apiVersion: process.env.OPENAI_API_VERSION || '2024-10-21'
+    }));
+    this.deployments = new Map(
+      (process.env.AZURE_OPENAI_DEPLOYMENTS || '')
+        .split(',')
+        .map(entry => entry.split('=').map(part => part.trim()))
+        .filter(([model, deployment]) => model && deployment) as [string, string][]
+    );
+  }
+
+  // Deployments are usually named after their model, so unmapped models are sent as-is
+  protected resolveModel(model: string): string {
+    return this.deployments.get(model) || model;
+  }
+
+  // A deployment runs the model it was created from and is billed as that model
+  protected pricedModel(requested: string): string {
+    return requested;
+  }
+
+  async listModels(): Promise<string[]> {
+    return this.deployments.size > 0 ? Array.from(this.deployments.keys()) : super.listModels();
+  }
+}
+
+class LocalProvider extends OpenAICompatibleProvider {
+  constructor() {
+    super('local', new OpenAI({
+      baseURL: process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1',
+      apiKey: process.env.LOCAL_LLM_API_KEY || 'local'
+    }));
+  }
+
+  protected resolveModel(model: string, kind: 'chat' | 'embedding'): string {
+    const override = kind === 'chat' ? process.env.LOCAL_LLM_CHAT_MODEL : process.env.LOCAL_LLM_EMBEDDING_MODEL;
+    return override || model;
+  }
+}
+
+export function createLLMProvider(name: string = process.env.LLM_PROVIDER || 'openai'): LLMProvider {
+  switch (name) {
+    case 'openai':
+      return new OpenAIProvider();
+    case 'azure':
+      return new AzureOpenAIProvider();
+    case 'local':
+      return new LocalProvider();
+    case 'mock':
+      return new MockLLMProvider();
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${name}" (expected openai, azure, local or mock)`);
+  }
+}
+
+let activeProvider: LLMProvider | null = null;
+
+export function getLLMProvider(): LLMProvider {
+  if (!activeProvider) {
+    activeProvider = createLLMProvider();
+    console.log(`🤖 LLM provider: ${activeProvider.name}`);
+  }
+  return activeProvider;
+}
+
+/**
+ * Replace the active provider, e.g. with a configured MockLLMProvider in a test
+ */
+export function setLLMProvider(provider: LLMProvider): void {
+  activeProvider = provider;
+}
+
+export async function chatCompletion(request: ChatRequest, stream?: ChatStreamOptions): Promise<ChatResult> {
+  const result = await getLLMProvider().chat(request, stream);
+  reportModelUsage(result.model, result.usage);
+  return result;
+}
+
+export async function createEmbedding(model: string, input: string): Promise<EmbeddingResult> {
+  const result = await getLLMProvider().embed(model, input);
+  reportModelUsage(result.model, result.usage);
+  return result;
+}
@@ -0,0 +1,142 @@
+/**
+ * Mock LLM Provider
+ * Deterministic, offline stand-in for a real provider (LLM_PROVIDER=mock). The same request
+ * always gets the same answer, embedding and token counts, so whole pipelines can run in tests
+ * and demos without network access or an API key. Pass a `respond` function to script answers
+ * and `interruptAfterTokens` to exercise a stream that breaks off.
+ */
+
+import { getModelCapabilities, MODEL_CAPABILITIES } from './modelCapabilities';
+import type { OutputSchemaNode } from '@shared/schema';
+import { LLMStreamError, type ChatRequest, type ChatResult, type ChatStreamOptions, type EmbeddingResult, type LLMProvider, type ProviderUsage } from './llmProvider';
+
+export interface MockLLMProviderOptions {
+  respond?: (request: ChatRequest) => string | undefined; // Scripted answer; undefined falls back to the default
+  latencyMs?: number;                                        // Simulated delay per call
+  tokenDelayMs?: number;                                     // Simulated delay per streamed token
+  interruptAfterTokens?: number;                             // Streams fail after this many tokens
+}
+
+const CHARS_PER_TOKEN = 4;
+const DEFAULT_EMBEDDING_DIMENSIONS = 1536;
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+// FNV-1a: small, stable across runs and platforms
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * A value of the schema's shape: strings echo the question, numbers sit inside their bounds and
+ * enums take their first option, so a mock answer always passes validation
+ */
+function sampleValue(node: OutputSchemaNode, question: string): unknown {
+  switch (node.type) {
+    case 'string':
+      return node.enum ? node.enum[0] : question.slice(0, 200);
+    case 'number':
+    case 'integer': {
+      const value = node.minimum !== undefined && node.maximum !== undefined
+        ? (node.minimum + node.maximum) / 2
+        : (node.minimum ?? node.maximum ?? 1);
+      return node.type === 'integer' ? Math.floor(value) : value;
+    }
+    case 'boolean':
+      return true;
+    case 'array':
+      return [sampleValue(node.items, question)];
+    case 'object':
+      return Object.fromEntries(Object.entries(node.properties).map(([name, property]) => [name, sampleValue(property, question)]));
+  }
+}
+
+function usageFor(promptTokens: number, completionTokens: number): ProviderUsage {
+  return { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens };
+}
+
+export class MockLLMProvider implements LLMProvider {
+  readonly name = 'mock' as const;
+
+  constructor(private options: MockLLMProviderOptions = {}) {}
+
+  private async delay(): Promise<void> {
+    if (this.options.latencyMs) {
+      await new Promise(resolve => setTimeout(resolve, this.options.latencyMs));
+    }
+  }
+
+  async chat(request: ChatRequest, stream?: ChatStreamOptions): Promise<ChatResult> {
+    await this.delay();
+
+    const prompt = request.messages.map(message => message.content).join('\n');
+    const question = [...request.messages].reverse().find(message => message.role === 'user')?.content || '';
+    const content = this.options.respond?.(request) ?? (request.outputSchema
+      ? JSON.stringify(sampleValue(request.outputSchema, question))
+      : request.responseFormat === 'json_object'
+        ? JSON.stringify({ mock: true, model: request.model, input: question.slice(0, 200) })
+        : `[mock ${request.model} #${hashString(prompt).toString(16)}] ${question.slice(0, 200)}`);
+
+    if (stream) {
+      await this.streamTokens(content, stream);
+    }
+
+    return {
+      content,
+      model: request.model,
+      usage: usageFor(estimateTokens(prompt), estimateTokens(content))
+    };
+  }
+
+  // Words with their trailing whitespace stand in for tokens
+  private async streamTokens(content: string, stream: ChatStreamOptions): Promise<void> {
+    const tokens = content.match(/\S+\s*|\s+/g) || [];
+    let sent = '';
+    for (let i = 0; i < tokens.length; i++) {
+      if (stream.signal?.aborted) {
+        throw new LLMStreamError('Request was aborted.', sent);
+      }
+      if (this.options.interruptAfterTokens !== undefined && i >= this.options.interruptAfterTokens) {
+        throw new LLMStreamError('Mock stream interrupted', sent, { status: 503 });
+      }
+      if (this.options.tokenDelayMs) {
+        await new Promise(resolve => setTimeout(resolve, this.options.tokenDelayMs));
+      }
+      sent += tokens[i];
+      stream.onToken(tokens[i]);
+    }
+  }
+
+  /**
+   * Hashed bag-of-words vector: texts that share words get similar embeddings, so retrieval
+   * still ranks related content above unrelated content
+   */
+  async embed(model: string, input: string): Promise<EmbeddingResult> {
+    await this.delay();
+
+    const dimensions = getModelCapabilities(model).embeddingDimensions || DEFAULT_EMBEDDING_DIMENSIONS;
+    const vector = new Array<number>(dimensions).fill(0);
+    (input.toLowerCase().match(/[a-z0-9]+/g) || []).forEach(word => {
+      const hash = hashString(word);
+      vector[hash % dimensions] += (hash & 1) ? 1 : -1;
+    });
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+    return {
+      embedding: vector.map(value => value / norm),
+      model,
+      usage: usageFor(estimateTokens(input), 0)
+    };
+  }
+
+  async listModels(): Promise<string[]> {
+    return Object.keys(MODEL_CAPABILITIES).filter(model => !MODEL_CAPABILITIES[model].embeddingDimensions);
+  }
+}
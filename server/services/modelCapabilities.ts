@@ -0,0 +1,65 @@
+/**
+ * Model Capabilities
+ * The request-parameter quirks of each model family in one table, so call sites describe what
+ * they want (max tokens, temperature, JSON output, an output schema) and the provider translates it. An entry
+ * applies to its exact model id and to any model it prefixes, longest prefix first, e.g.
+ * "gpt-5" also covers "gpt-5-mini" and "gpt-5-2025-08-07".
+ */
+
+export type ReasoningEffort = 'minimal' | 'low' | 'medium' | 'high';
+
+export interface ModelCapabilities {
+  tokenLimitParam: 'max_tokens' | 'max_completion_tokens';
+  supportsTemperature: boolean;
+  supportsJsonMode: boolean;
+  supportsStructuredOutputs: boolean;      // Accepts a JSON schema response_format and keeps to it
+  reasoning: boolean;                      // Spends hidden reasoning tokens out of the completion budget
+  defaultReasoningEffort?: ReasoningEffort; // Sent as reasoning_effort unless the request sets one
+  reasoningOverheadTokens: number;         // Added to maxTokens, for requests that ask, so reasoning doesn't starve the answer
+  embeddingDimensions?: number;            // Set for embedding models only
+}
+
+const CHAT_DEFAULTS: ModelCapabilities = {
+  tokenLimitParam: 'max_tokens',
+  supportsTemperature: true,
+  supportsJsonMode: true,
+  supportsStructuredOutputs: true,
+  reasoning: false,
+  reasoningOverheadTokens: 0
+};
+
+const REASONING_DEFAULTS: ModelCapabilities = {
+  tokenLimitParam: 'max_completion_tokens',
+  supportsTemperature: false,
+  supportsJsonMode: true,
+  supportsStructuredOutputs: true,
+  reasoning: true,
+  reasoningOverheadTokens: 0
+};
+
+export const MODEL_CAPABILITIES: Record<string, ModelCapabilities> = {
+  'gpt-4o': CHAT_DEFAULTS,
+  'gpt-4o-search-preview': { ...CHAT_DEFAULTS, supportsTemperature: false, supportsStructuredOutputs: false },
+  'gpt-4o-mini-search-preview': { ...CHAT_DEFAULTS, supportsTemperature: false, supportsStructuredOutputs: false },
+  'gpt-4.1': CHAT_DEFAULTS,
+  'gpt-3.5-turbo': { ...CHAT_DEFAULTS, supportsStructuredOutputs: false },
+  // GPT-5 spends roughly 2000-4000 tokens reasoning before it writes any content
+  'gpt-5': { ...REASONING_DEFAULTS, defaultReasoningEffort: 'low', reasoningOverheadTokens: 6000 },
+  'o1': REASONING_DEFAULTS,
+  'o3': REASONING_DEFAULTS,
+  'o4': REASONING_DEFAULTS,
+  'text-embedding-3-small': { ...CHAT_DEFAULTS, embeddingDimensions: 1536 },
+  'text-embedding-3-large': { ...CHAT_DEFAULTS, embeddingDimensions: 3072 },
+  'text-embedding-ada-002': { ...CHAT_DEFAULTS, embeddingDimensions: 1536 },
+};
+
+/**
+ * Capabilities of the longest table entry that prefixes the model; unknown models are treated
+ * as classic chat models, which is what OpenAI-compatible local servers expect
+ */
+export function getModelCapabilities(model: string): ModelCapabilities {
+  const match = Object.keys(MODEL_CAPABILITIES)
+    .filter(prefix => model === prefix || model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? MODEL_CAPABILITIES[match] : CHAT_DEFAULTS;
+}
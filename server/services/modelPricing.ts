@@ -0,0 +1,94 @@
+/**
+ * Model Pricing
+ * USD prices per million tokens, used to turn token usage into cost. Built-in defaults cover
+ * the models the pipelines use; rows in model_prices override them (or add new models) without
+ * a deploy. A price applies to its exact model id and to any dated variant it prefixes,
+ * e.g. "gpt-4o-mini" also prices "gpt-4o-mini-2024-07-18".
+ */
+
+import { storage } from '../storage';
+
+export interface ModelPriceInfo {
+  model: string;
+  inputPerMillion: number;
+  outputPerMillion: number;
+  source: 'default' | 'custom';
+}
+
+// Reasoning tokens are billed as output and are already counted in completion tokens
+export const DEFAULT_MODEL_PRICES: Record<string, { inputPerMillion: number; outputPerMillion: number }> = {
+  'gpt-5': { inputPerMillion: 1.25, outputPerMillion: 10 },
+  'gpt-5-mini': { inputPerMillion: 0.25, outputPerMillion: 2 },
+  'gpt-5-nano': { inputPerMillion: 0.05, outputPerMillion: 0.4 },
+  'gpt-4.1': { inputPerMillion: 2, outputPerMillion: 8 },
+  'gpt-4.1-mini': { inputPerMillion: 0.4, outputPerMillion: 1.6 },
+  'gpt-4.1-nano': { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10 },
+  'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  'o3': { inputPerMillion: 2, outputPerMillion: 8 },
+  'o3-mini': { inputPerMillion: 1.1, outputPerMillion: 4.4 },
+  'o4-mini': { inputPerMillion: 1.1, outputPerMillion: 4.4 },
+  'text-embedding-3-small': { inputPerMillion: 0.02, outputPerMillion: 0 },
+  'text-embedding-3-large': { inputPerMillion: 0.13, outputPerMillion: 0 },
+};
+
+const PRICE_CACHE_TTL_MS = 60000;
+
+class ModelPricingService {
+  private cache: { prices: ModelPriceInfo[]; loadedAt: number } | null = null;
+  private warnedModels = new Set<string>();
+
+  /**
+   * Defaults merged with the configured overrides
+   */
+  async getPrices(): Promise<ModelPriceInfo[]> {
+    if (this.cache && Date.now() - this.cache.loadedAt < PRICE_CACHE_TTL_MS) {
+      return this.cache.prices;
+    }
+
+    const prices = new Map<string, ModelPriceInfo>(
+      Object.entries(DEFAULT_MODEL_PRICES).map(([model, price]) => [model, { model, ...price, source: 'default' }])
+    );
+    try {
+      (await storage.getModelPrices()).forEach(({ model, inputPerMillion, outputPerMillion }) => {
+        prices.set(model, { model, inputPerMillion, outputPerMillion, source: 'custom' });
+      });
+    } catch (error) {
+      console.error('⚠️  Failed to load model prices, using defaults:', error);
+    }
+
+    const sorted = Array.from(prices.values()).sort((a, b) => a.model.localeCompare(b.model));
+    this.cache = { prices: sorted, loadedAt: Date.now() };
+    return sorted;
+  }
+
+  invalidate(): void {
+    this.cache = null;
+  }
+
+  /**
+   * Exact match first, then the longest configured model id the given id starts with
+   */
+  async getPrice(model: string): Promise<ModelPriceInfo | undefined> {
+    const prices = await this.getPrices();
+    const exact = prices.find(price => price.model === model);
+    if (exact) return exact;
+
+    const prefixed = prices
+      .filter(price => model.startsWith(`${price.model}-`))
+      .sort((a, b) => b.model.length - a.model.length)[0];
+    if (!prefixed && !this.warnedModels.has(model)) {
+      this.warnedModels.add(model);
+      console.warn(`⚠️  No price configured for model "${model}", its usage is recorded at $0`);
+    }
+    return prefixed;
+  }
+
+  async calculateCost(model: string, promptTokens: number, completionTokens: number): Promise<number> {
+    const price = await this.getPrice(model);
+    if (!price) return 0;
+    return (promptTokens * price.inputPerMillion + completionTokens * price.outputPerMillion) / 1_000_000;
+  }
+}
+
+export const modelPricingService = new ModelPricingService();
@@ -1,19 +1,37 @@
-import OpenAI from "openai";
 import { performEnhancedReferenceResearch, getRelevantContentChunks } from './enhancedReferenceResearch';
-
-// the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-const openai = new OpenAI({ 
-  apiKey: process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY_ENV_VAR || "default_key"
-});
+import { classifyError, type ErrorClass, type RetryPolicy } from './retryPolicy';
+import { renderTemplate } from './templateEngine';
+import { stepExecutorRegistry, resolveStepType, getStepOutputByType, findStepByType, type StepExecutionContext, type StepType } from './stepExecutors';
+import type { StepCondition } from './pipelineGraph';
+import { trackUsage, type ModelUsage } from './usageTracking';
+import { chatCompletion, getLLMProvider, LLMStreamError, type ChatMessage } from './llmProvider';
+import type { ReasoningEffort } from './modelCapabilities';
+import { parseStructuredOutput } from './structuredOutput';
+import { extractCitations, carryCitations, CITATIONS_KEY, CITATION_INSTRUCTIONS, type Citation } from './citations';
+import { verifyClaims, summarizeVerification, VerificationOutputError, DEFAULT_VERIFICATION_PROMPT, type ClaimVerification } from './claimVerification';
+import { summarizeRetrieval, RETRIEVAL_KEY, type RetrievalStats } from './answerConfidence';
+import { rerankChunks, DEFAULT_RERANK_CANDIDATES, type RerankTrace } from './reranker';
+import { retrieveWithQueryExpansion, summarizeCoverage, type ContentChunk, type QueryExpansionReport } from './queryExpansion';
+import { KNOWLEDGE_SCOPE_KEY, describeKnowledgeScope } from './knowledgeScope';
+import { storage } from '../storage';
+import type { KnowledgeScope, StepOutputSchema, StepRerankConfig, StepQueryExpansionConfig } from '@shared/schema';
 
 export interface AgentConfig {
   name: string;
+  type?: StepType | string; // Step executor to run; inferred from legacy step names when missing
   model: string;
   temperature: number;
   maxTokens?: number;
   tools?: string[];
   systemPrompt: string;
   userPrompt: string;
+  retryPolicy?: Partial<RetryPolicy>; // Falls back to DEFAULT_RETRY_POLICY
+  id?: string;                        // Stable graph id; defaults to the step name
+  inputs?: string[];                  // Step ids/names or CSV columns this step reads; omitted = all earlier steps
+  condition?: StepCondition;          // Evaluated before the step runs; a false result skips it
+  outputSchema?: StepOutputSchema;    // JSON object the answer must match; its fields become columns
+  rerank?: StepRerankConfig;          // Draft steps: rerank over-fetched chunks before drafting
+  queryExpansion?: StepQueryExpansionConfig; // Draft steps: search sub-queries of the question in parallel
 }
 
 export interface ProcessingResult {
@@ -22,15 +40,67 @@ export interface ProcessingResult {
   inputPrompt: string;
   metadata?: any;
   error?: string;
+  errorClass?: ErrorClass;
+  usage?: ModelUsage[]; // Token usage and cost of every model call the step made, per model
+  structuredOutput?: Record<string, unknown>; // The validated answer, for steps with an output schema
+  citations?: Citation[];                      // Reference chunks the answer cites, by marker
+  verification?: ClaimVerification;            // Set by verify steps
+  retrieval?: RetrievalStats;                  // How close the chunks a draft was written from were
 }
 
 export class OpenAIService {
+  constructor() {
+    this.registerBuiltInExecutors();
+  }
+
+  private registerBuiltInExecutors() {
+    stepExecutorRegistry.register({
+      type: 'retrieval',
+      label: 'Retrieval',
+      description: 'Finds and caches relevant reference URLs for the question using semantic search',
+      execute: (agent, rowData) => this.processReferenceResearch(agent, rowData)
+    });
+    stepExecutorRegistry.register({
+      type: 'draft',
+      label: 'Generic Draft',
+      description: 'Writes a draft answer from the most relevant cached content chunks',
+      variables: ['SEMANTIC_CONTEXT', 'RELEVANT_CHUNKS_COUNT', 'REFERENCE_URLS'],
+      requires: ['retrieval'],
+      structuredOutput: true,
+      execute: (agent, rowData, context) => this.processGenericDraftGeneration(agent, rowData, context)
+    });
+    stepExecutorRegistry.register({
+      type: 'tailor',
+      label: 'Tailored Response',
+      description: 'Turns the draft into a final answer using RFP instructions and additional documents',
+      variables: ['Generic Draft Generation', 'Reference Research'],
+      requires: ['draft', 'retrieval'],
+      structuredOutput: true,
+      execute: (agent, rowData, context) => this.processTailoredResponse(agent, rowData, context)
+    });
+    stepExecutorRegistry.register({
+      type: 'verify',
+      label: 'Claim Verification',
+      description: 'Checks each claim of the tailored (or draft) answer against the retrieved reference chunks and scores how well the answer is grounded',
+      requires: ['tailor', 'draft'],
+      execute: (agent, rowData, context) => this.processClaimVerification(agent, rowData, context)
+    });
+    stepExecutorRegistry.register({
+      type: 'llm',
+      label: 'Plain LLM',
+      description: 'Sends the system and user prompts to the model as a single chat call',
+      structuredOutput: true,
+      execute: (agent, rowData, context) => this.processPlainLLM(agent, rowData, context)
+    });
+  }
+
   async getAvailableModels(): Promise<string[]> {
     try {
-      const models = await openai.models.list();
-      return models.data
-        .filter(model => model.id.includes('gpt') || model.id.includes('o1') || model.id.includes('o3'))
-        .map(model => model.id)
+      const provider = getLLMProvider();
+      const models = await provider.listModels();
+      // Local servers name their models freely; OpenAI's list also holds embedding, audio and image models
+      return (provider.name === 'local' ? models : models
+        .filter(model => model.includes('gpt') || model.includes('o1') || model.includes('o3')))
         .sort();
     } catch (error) {
       console.error('Failed to fetch OpenAI models:', error);
@@ -38,24 +108,6 @@ export class OpenAIService {
     }
   }
 
-  // Helper function to determine correct token parameter based on model
-  private getTokensParam(model: string, maxTokens: number) {
-    // o3 and gpt-5 models require max_completion_tokens instead of max_tokens
-    if (model.startsWith('o3') || model.startsWith('gpt-5')) {
-      // GPT-5 needs extra tokens for reasoning overhead
-      // The model uses significant tokens for internal reasoning before generating content
-      if (model.startsWith('gpt-5')) {
-        // GPT-5 uses approximately 2000-4000 tokens for reasoning
-        // We need to add extra tokens on top of requested content tokens
-        const gpt5TotalTokens = maxTokens + 6000; // Add 6000 tokens for reasoning overhead
-        console.log(`🎯 GPT-5 Token Allocation: Requested ${maxTokens} content tokens, allocating ${gpt5TotalTokens} total (includes reasoning overhead)`);
-        return { max_completion_tokens: gpt5TotalTokens };
-      }
-      return { max_completion_tokens: maxTokens };
-    }
-    return { max_tokens: maxTokens };
-  }
-
   // Direct OpenAI call to avoid circular dependencies
   async callOpenAIDirect(config: {
     model: string;
@@ -64,118 +116,30 @@ export class OpenAIService {
     temperature?: number;
     maxTokens?: number;
     responseFormat?: { type: 'json_object' | 'text' };
+    reasoningEffort?: ReasoningEffort;
+    outputSchema?: StepOutputSchema;
+    onToken?: (token: string) => void; // Streams the answer; a broken stream still returns what arrived
+    signal?: AbortSignal;
   }): Promise<ProcessingResult> {
     const startTime = Date.now();
     
     try {
-      const tokensParam = this.getTokensParam(config.model, config.maxTokens || 1000);
-      
-      // Prepare request parameters - o3 models don't support temperature parameter
-      const requestParams: any = {
+      const response = await chatCompletion({
         model: config.model,
         messages: [
           { role: "system", content: config.systemPrompt },
           { role: "user", content: config.userPrompt }
         ],
-        ...tokensParam
-      };
-
-      // Only add temperature for non-o3 and non-gpt-5 models
-      if (!config.model.startsWith('o3') && !config.model.startsWith('gpt-5')) {
-        requestParams.temperature = config.temperature || 0.7;
-      }
-
-      // GPT-5 specific parameters
-      if (config.model.startsWith('gpt-5')) {
-        requestParams.reasoning_effort = 'low'; // Use 'low' to reduce reasoning token usage
-        console.log(`🔧 GPT-5 Config: reasoning_effort=low, max_completion_tokens=${tokensParam.max_completion_tokens}`);
-      }
-
-      // Add response format if specified
-      if (config.responseFormat) {
-        requestParams.response_format = config.responseFormat;
-      }
-
-      const response = await openai.chat.completions.create(requestParams);
+        maxTokens: config.maxTokens || 1000,
+        temperature: config.temperature || 0.7,
+        responseFormat: config.responseFormat?.type,
+        reasoningEffort: config.reasoningEffort,
+        outputSchema: config.outputSchema,
+        reasoningOverhead: true
+      }, config.onToken ? { onToken: config.onToken, signal: config.signal } : undefined);
 
       const latency = Date.now() - startTime;
-      
-      // EXTENSIVE DEBUG LOGGING FOR GPT-5
-      if (config.model.startsWith('gpt-5')) {
-        console.log(`\n🔴🔴🔴 GPT-5 FULL RESPONSE DEBUG 🔴🔴🔴`);
-        console.log(`Model: ${config.model}`);
-        console.log(`\n1️⃣ FULL RESPONSE OBJECT:`);
-        console.log(JSON.stringify(response, null, 2));
-        
-        console.log(`\n2️⃣ RESPONSE TOP-LEVEL KEYS:`);
-        console.log(Object.keys(response));
-        
-        if (response.choices && response.choices[0]) {
-          console.log(`\n3️⃣ FIRST CHOICE OBJECT:`);
-          console.log(JSON.stringify(response.choices[0], null, 2));
-          
-          console.log(`\n4️⃣ FIRST CHOICE KEYS:`);
-          console.log(Object.keys(response.choices[0]));
-          
-          if (response.choices[0].message) {
-            console.log(`\n5️⃣ MESSAGE OBJECT:`);
-            console.log(JSON.stringify(response.choices[0].message, null, 2));
-            
-            console.log(`\n6️⃣ MESSAGE KEYS:`);
-            console.log(Object.keys(response.choices[0].message));
-          }
-        }
-        
-        // Check all possible locations for content
-        console.log(`\n7️⃣ CONTENT EXTRACTION ATTEMPTS:`);
-        console.log(`  - response.choices[0].message.content: ${response.choices?.[0]?.message?.content || 'EMPTY/NULL'}`);
-        console.log(`  - response.choices[0].message.output: ${(response.choices?.[0]?.message as any)?.output || 'EMPTY/NULL'}`);
-        console.log(`  - response.choices[0].message.reasoning: ${(response.choices?.[0]?.message as any)?.reasoning || 'EMPTY/NULL'}`);
-        console.log(`  - response.choices[0].message.answer: ${(response.choices?.[0]?.message as any)?.answer || 'EMPTY/NULL'}`);
-        console.log(`  - response.choices[0].text: ${(response.choices?.[0] as any)?.text || 'EMPTY/NULL'}`);
-        console.log(`  - response.choices[0].output: ${(response.choices?.[0] as any)?.output || 'EMPTY/NULL'}`);
-        console.log(`  - response.output: ${(response as any)?.output || 'EMPTY/NULL'}`);
-        console.log(`  - response.text: ${(response as any)?.text || 'EMPTY/NULL'}`);
-        console.log(`🔴🔴🔴 END GPT-5 DEBUG 🔴🔴🔴\n`);
-      }
-      
-      // Extract content - GPT-5 might use different field names
-      let output = '';
-      if (config.model.startsWith('gpt-5')) {
-        console.log(`\n🟡 ATTEMPTING TO EXTRACT GPT-5 CONTENT...`);
-        
-        // Try ALL possible fields for GPT-5
-        const choice = response.choices?.[0] as any;
-        const possibleContents = [
-          choice?.message?.content,
-          choice?.message?.output,
-          choice?.message?.reasoning,
-          choice?.message?.answer,
-          choice?.message?.response,
-          choice?.message?.text,
-          choice?.text,
-          choice?.output,
-          choice?.content,
-          (response as any)?.output,
-          (response as any)?.text,
-          (response as any)?.content
-        ];
-        
-        for (let i = 0; i < possibleContents.length; i++) {
-          if (possibleContents[i]) {
-            output = possibleContents[i];
-            console.log(`✅ FOUND CONTENT at index ${i}: ${output.substring(0, 100)}...`);
-            break;
-          }
-        }
-        
-        if (!output) {
-          console.log(`❌ NO CONTENT FOUND IN ANY EXPECTED LOCATION!`);
-          console.log(`Full response for debugging:`, JSON.stringify(response));
-        }
-      } else {
-        output = response.choices[0]?.message?.content || '';
-      }
+      const output = response.content;
       
       console.log(`\n📊 FINAL OUTPUT LENGTH: ${output.length} characters`);
       
@@ -198,76 +162,61 @@ export class OpenAIService {
       console.error(`OpenAI direct call error:`, error);
       
       return {
-        output: '',
+        output: error instanceof LLMStreamError ? error.partialContent : '',
         latency,
         inputPrompt: `System: ${config.systemPrompt}\nUser: ${config.userPrompt}`,
-        error: error instanceof Error ? error.message : 'Unknown error'
+        error: error instanceof Error ? error.message : 'Unknown error',
+        errorClass: classifyError(error)
       };
     }
   }
 
   async processWithAgent(
     agent: AgentConfig,
-    rowData: Record<string, any>
+    rowData: Record<string, any>,
+    context: StepExecutionContext = { steps: [agent] }
   ): Promise<ProcessingResult> {
-    const startTime = Date.now();
-    
-    // Process templates with enhanced context handling
-    const processedSystemPrompt = this.processTemplate(agent.systemPrompt, rowData);
-    const processedUserPrompt = this.processTemplate(agent.userPrompt, rowData);
-    
-    try {
-      // Special handling for Reference Research step
-      if (agent.name === "Reference Research") {
-        return await this.processReferenceResearch(agent, rowData);
-      }
+    const stepType = resolveStepType(agent);
+    const executor = stepExecutorRegistry.get(stepType);
 
-      // Special handling for Generic Draft Generation step with semantic chunks
-      if (agent.name === "Generic Draft Generation") {
-        return await this.processGenericDraftGeneration(agent, rowData);
-      }
+    if (!executor) {
+      return {
+        output: '',
+        latency: 0,
+        inputPrompt: `System: ${agent.systemPrompt}\nUser: ${agent.userPrompt}`,
+        error: `Unknown step type "${stepType}" for step ${agent.name}`,
+        errorClass: 'client_error'
+      };
+    }
 
-      // Special handling for legacy Response Generation step
-      if (agent.name === "Response Generation") {
-        // Legacy support - use generic draft generation
-        return await this.processGenericDraftGeneration(agent, rowData);
-      }
+    const { result, usage } = await trackUsage(() => executor.execute(agent, rowData, context));
+    if (!agent.outputSchema || result.error) {
+      return { ...result, usage };
+    }
 
-      // Special handling for Tailored RFP Response step (no caching, uses o3)
-      if (agent.name === "Tailored RFP Response") {
-        return await this.processTailoredResponse(agent, rowData);
-      }
+    const parsed = parseStructuredOutput(agent.outputSchema, result.output);
+    return parsed.error
+      ? { ...result, usage, error: parsed.error, errorClass: 'invalid_output' }
+      : { ...result, usage, structuredOutput: parsed.data };
+  }
 
+  private async processPlainLLM(
+    agent: AgentConfig,
+    rowData: Record<string, any>,
+    context: StepExecutionContext
+  ): Promise<ProcessingResult> {
+    const startTime = Date.now();
+    
+    try {
       // Replace placeholders in prompts with actual data
-      const processedSystemPrompt = this.replacePlaceholders(agent.systemPrompt, rowData);
-      const processedUserPrompt = this.replacePlaceholders(agent.userPrompt, rowData);
+      const processedSystemPrompt = this.processTemplate(agent.systemPrompt, rowData);
+      const processedUserPrompt = this.processTemplate(agent.userPrompt, rowData);
       
-      const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
+      const messages: ChatMessage[] = [
         { role: "system", content: processedSystemPrompt },
         { role: "user", content: processedUserPrompt }
       ];
 
-      // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-      let modelToUse = agent.model;
-      
-      // Handle special models that don't support certain parameters
-      const tokensParam = this.getTokensParam(modelToUse, agent.maxTokens || 2000);
-      const completionOptions: OpenAI.Chat.Completions.ChatCompletionCreateParams = {
-        model: modelToUse,
-        messages,
-        ...tokensParam,
-      };
-
-      // Some models like gpt-4o-search-preview, o3 models, and gpt-5 don't support temperature parameter
-      if (!agent.model.includes('search-preview') && !agent.model.startsWith('o3') && !agent.model.startsWith('gpt-5')) {
-        completionOptions.temperature = agent.temperature;
-      }
-
-      // Add JSON response format for structured output
-      if (agent.tools?.includes('json_output')) {
-        completionOptions.response_format = { type: "json_object" };
-      }
-
       // Add web search tool if requested (Note: OpenAI doesn't have built-in web search yet, but we prepare for it)
       if (agent.tools?.includes('web_search')) {
         // For now, we'll add a note in the system prompt to encourage research-style responses
@@ -275,10 +224,19 @@ export class OpenAIService {
         messages[0].content += "\n\nNote: Focus on providing specific, verifiable information with source references. When possible, mention authoritative sources and recent data.";
       }
 
-      const response = await openai.chat.completions.create(completionOptions);
+      const response = await chatCompletion({
+        model: agent.model,
+        messages,
+        maxTokens: agent.maxTokens || 2000,
+        temperature: agent.temperature,
+        // Add JSON response format for structured output
+        responseFormat: agent.tools?.includes('json_output') ? 'json_object' : undefined,
+        outputSchema: agent.outputSchema,
+        reasoningOverhead: true
+      }, context.onToken ? { onToken: context.onToken } : undefined);
       
       const latency = Date.now() - startTime;
-      const output = response.choices[0]?.message?.content || '';
+      const output = response.content;
 
       return {
         output,
@@ -295,10 +253,11 @@ export class OpenAIService {
       console.error(`OpenAI processing error for agent ${agent.name}:`, error);
       
       return {
-        output: '',
+        output: error instanceof LLMStreamError ? error.partialContent : '',
         latency,
         inputPrompt: `System: ${agent.systemPrompt}\nUser: ${agent.userPrompt}`,
-        error: error instanceof Error ? error.message : 'Unknown error'
+        error: error instanceof Error ? error.message : 'Unknown error',
+        errorClass: classifyError(error)
       };
     }
   }
@@ -326,7 +285,7 @@ export class OpenAIService {
       const jobId = (rowData as any).jobId;
       
       // Use the enhanced reference research system
-      const result = await performEnhancedReferenceResearch(contextualQuestion, jobId);
+      const result = await performEnhancedReferenceResearch(contextualQuestion, jobId, rowData[KNOWLEDGE_SCOPE_KEY] as KnowledgeScope | undefined);
       
       const latency = Date.now() - startTime;
       
@@ -354,14 +313,16 @@ export class OpenAIService {
         output: JSON.stringify([]),
         latency,
         inputPrompt: `Enhanced Reference Research failed`,
-        error: error instanceof Error ? error.message : 'Unknown error'
+        error: error instanceof Error ? error.message : 'Unknown error',
+        errorClass: classifyError(error)
       };
     }
   }
 
   private async processGenericDraftGeneration(
     agent: AgentConfig,
-    rowData: Record<string, any>
+    rowData: Record<string, any>,
+    context: StepExecutionContext
   ): Promise<ProcessingResult> {
     const startTime = Date.now();
     
@@ -370,6 +331,7 @@ export class OpenAIService {
       
       const contextualQuestion = rowData.FULL_CONTEXTUAL_QUESTION || rowData[Object.keys(rowData)[0]] || '';
       const jobId = (rowData as any).jobId;
+      const knowledgeScope = rowData[KNOWLEDGE_SCOPE_KEY] as KnowledgeScope | undefined;
       
       // Use global broadcast function
       const broadcastJobUpdate = (global as any).broadcastJobUpdate;
@@ -379,7 +341,7 @@ export class OpenAIService {
           event: 'processing_log',
           data: {
             step: 'Generic Draft Generation',
-            log: `📝 Starting semantic search for relevant content chunks...`
+            log: `📝 Starting semantic search for relevant content chunks${knowledgeScope ? ` in ${describeKnowledgeScope(knowledgeScope)}` : ''}...`
           }
         });
       }
@@ -388,8 +350,42 @@ export class OpenAIService {
         throw new Error('No contextual question found in input data');
       }
 
-      // Get relevant content chunks using semantic search
-      const relevantChunks = await getRelevantContentChunks(contextualQuestion, 15);
+      // Get relevant content chunks using semantic search; a rerank stage over-fetches candidates
+      const chunkBudget = agent.rerank ? (agent.rerank.candidates || DEFAULT_RERANK_CANDIDATES) : 15;
+      let retrievedChunks: ContentChunk[];
+      let queryCoverage: QueryExpansionReport | undefined;
+      if (!agent.queryExpansion) {
+        retrievedChunks = await getRelevantContentChunks(contextualQuestion, chunkBudget, knowledgeScope);
+      } else {
+        const expanded = await retrieveWithQueryExpansion(contextualQuestion, chunkBudget, agent.queryExpansion, knowledgeScope);
+        retrievedChunks = expanded.chunks;
+        queryCoverage = expanded.report;
+        if (jobId && broadcastJobUpdate) {
+          broadcastJobUpdate(jobId, {
+            event: 'processing_log',
+            data: {
+              step: 'Generic Draft Generation',
+              log: `🧩 Searched ${queryCoverage.subQueries.length} sub-queries: ${summarizeCoverage(queryCoverage)}`
+            }
+          });
+        }
+      }
+      let relevantChunks: (typeof retrievedChunks[number] & { rerankScore?: number | null })[] = retrievedChunks;
+      let rerankTrace: RerankTrace | undefined;
+      if (agent.rerank) {
+        const reranked = await rerankChunks(contextualQuestion, retrievedChunks, agent.rerank);
+        relevantChunks = reranked.chunks;
+        rerankTrace = reranked.trace;
+        if (jobId && broadcastJobUpdate) {
+          broadcastJobUpdate(jobId, {
+            event: 'processing_log',
+            data: {
+              step: 'Generic Draft Generation',
+              log: `🏅 Reranked ${retrievedChunks.length} candidates with the ${rerankTrace.reranker} reranker, keeping ${relevantChunks.length}${rerankTrace.error ? ' (failed, kept retrieval order)' : ''}`
+            }
+          });
+        }
+      }
       
       if (jobId && broadcastJobUpdate) {
         broadcastJobUpdate(jobId, {
@@ -406,18 +402,22 @@ export class OpenAIService {
       // Create enhanced context with semantic chunks
       const enhancedContext = relevantChunks.map((chunk, index) => 
         `[Reference ${index + 1}] ${chunk.source}
-URL: ${chunk.url}
+${chunk.url ? `URL: ${chunk.url}` : `Document: ${chunk.documentName || 'Unknown'}`}
 Content: ${chunk.text}
 Relevance Score: ${(chunk.similarity * 100).toFixed(1)}%`
       ).join('\n\n---\n\n');
       
-      // Process the template with enhanced data
-      const processedPrompt = this.processTemplate(agent.userPrompt, {
+      // Process the templates with enhanced data
+      const templateData = {
         ...rowData,
         SEMANTIC_CONTEXT: enhancedContext,
         RELEVANT_CHUNKS_COUNT: relevantChunks.length.toString(),
         REFERENCE_URLS: relevantChunks.map(chunk => chunk.url).join('\n')
-      });
+      };
+      // The model cites chunks by their reference number, which is resolved to the chunk afterwards
+      const processedSystemPrompt = this.processTemplate(agent.systemPrompt, templateData)
+        + (relevantChunks.length > 0 ? `\n\n${CITATION_INSTRUCTIONS}` : '');
+      const processedPrompt = this.processTemplate(agent.userPrompt, templateData);
       
       if (jobId && broadcastJobUpdate) {
         broadcastJobUpdate(jobId, {
@@ -431,10 +431,12 @@ Relevance Score: ${(chunk.similarity * 100).toFixed(1)}%`
       
       const result = await this.callOpenAIDirect({
         model: agent.model,
-        systemPrompt: agent.systemPrompt,
+        systemPrompt: processedSystemPrompt,
         userPrompt: processedPrompt,
         temperature: agent.temperature,
-        maxTokens: agent.maxTokens
+        maxTokens: agent.maxTokens,
+        outputSchema: agent.outputSchema,
+        onToken: context.onToken
       });
       
       const latency = Date.now() - startTime;
@@ -457,16 +459,31 @@ Relevance Score: ${(chunk.similarity * 100).toFixed(1)}%`
       console.log(`  - result.output type: ${typeof result.output}`);
       console.log(`  - result.output preview: ${result.output?.substring(0, 200) || 'EMPTY'}`);
       
+      const references = new Map(relevantChunks.map((chunk, index) => [index + 1, {
+        id: chunk.id,
+        text: chunk.text,
+        url: chunk.url || null,
+        documentId: chunk.documentId,
+        documentName: chunk.documentName
+      }]));
+      
       const returnValue = {
         output: result.output,
         latency,
         inputPrompt: processedPrompt,
+        error: result.error,
+        errorClass: result.errorClass,
+        citations: result.error ? undefined : extractCitations(result.output, references),
+        retrieval: summarizeRetrieval(relevantChunks),
         metadata: { 
           ...result.metadata,
           semanticChunks: relevantChunks.length,
           avgSimilarity: relevantChunks.length > 0 ? 
             (relevantChunks.reduce((sum: number, chunk: any) => sum + chunk.similarity, 0) / relevantChunks.length).toFixed(3) : 'N/A',
-          uniqueUrls: Array.from(new Set(relevantChunks.map((chunk: any) => chunk.url))).length
+          uniqueUrls: Array.from(new Set(relevantChunks.map((chunk: any) => chunk.url))).length,
+          retrievedChunks: relevantChunks,
+          ...(rerankTrace ? { rerank: rerankTrace } : {}),
+          ...(queryCoverage ? { queryCoverage } : {})
         }
       };
       
@@ -483,14 +500,16 @@ Relevance Score: ${(chunk.similarity * 100).toFixed(1)}%`
         output: '',
         latency,
         inputPrompt: `Generic Draft Generation failed`,
-        error: error instanceof Error ? error.message : 'Unknown error'
+        error: error instanceof Error ? error.message : 'Unknown error',
+        errorClass: classifyError(error)
       };
     }
   }
 
   private async processTailoredResponse(
     agent: AgentConfig,
-    rowData: Record<string, any>
+    rowData: Record<string, any>,
+    context: StepExecutionContext
   ): Promise<ProcessingResult> {
     const startTime = Date.now();
     
@@ -517,15 +536,18 @@ Relevance Score: ${(chunk.similarity * 100).toFixed(1)}%`
       console.log(`  - rowData["Generic Draft Generation"] type: ${typeof rowData["Generic Draft Generation"]}`);
       console.log(`  - rowData["Generic Draft Generation"] length: ${rowData["Generic Draft Generation"]?.length || 0}`);
       
-      const genericDraft = String(rowData["Generic Draft Generation"] || '');
+      // Earlier outputs are looked up by step type so renamed steps keep working
+      const genericDraft = String(getStepOutputByType(rowData, context.steps, 'draft') || rowData["Generic Draft Generation"] || '');
       console.log(`  - After String conversion, genericDraft length: ${genericDraft.length}`);
       console.log(`  - genericDraft preview: ${genericDraft.substring(0, 200)}`);
       
-      const references = String(rowData["Reference Research"] || '');
+      const references = String(getStepOutputByType(rowData, context.steps, 'retrieval') || rowData["Reference Research"] || '');
       console.log(`\n  - Reference Research length: ${references.length}`);
       
       // Get RFP-specific data from job context (this would be passed from the job processor)
       const rfpInstructions = String(rowData["RFP_INSTRUCTIONS"] || '');
+      const draftStep = findStepByType(context.steps, 'draft');
+      const draftCitations: Citation[] = (draftStep && rowData[CITATIONS_KEY]?.[draftStep.name]) || [];
       const additionalDocuments = rowData["ADDITIONAL_DOCUMENTS"] || [];
       
       if (!question) {
@@ -550,7 +572,10 @@ Relevance Score: ${(chunk.similarity * 100).toFixed(1)}%`
         references,
         rfpInstructions,
         additionalDocuments,
-        agent
+        agent,
+        rowData,
+        keepCitations: draftCitations.length > 0,
+        onToken: context.onToken
       });
       
       const latency = Date.now() - startTime;
@@ -561,6 +586,7 @@ Relevance Score: ${(chunk.similarity * 100).toFixed(1)}%`
         output: result.response,
         latency,
         inputPrompt: `Tailored RFP Response for: ${question}`,
+        citations: carryCitations(result.response, draftCitations),
         metadata: {
           ...result.metadata,
           questionLength: question.length,
@@ -574,65 +600,80 @@ Relevance Score: ${(chunk.similarity * 100).toFixed(1)}%`
       console.error(`❌ Tailored response generation failed after ${latency}ms:`, error);
       
       return {
-        output: '',
+        output: error instanceof LLMStreamError ? error.partialContent : '',
         latency,
         inputPrompt: `Tailored RFP Response failed`,
-        error: error instanceof Error ? error.message : 'Unknown error'
+        error: error instanceof Error ? error.message : 'Unknown error',
+        errorClass: classifyError(error)
       };
     }
   }
 
-  processTemplate(template: string, data: Record<string, any>): string {
-    // Handle handlebars-style conditional blocks for PREVIOUS_CONTEXT
-    let processed = template;
-    
-    // Check if PREVIOUS_CONTEXT exists
-    const hasContext = data.PREVIOUS_CONTEXT?.referencedQuestions?.length > 0;
-    
-    // Process {{#if PREVIOUS_CONTEXT}} blocks
-    const ifRegex = /\{\{#if PREVIOUS_CONTEXT\}\}([\s\S]*?)\{\{\/if\}\}/g;
-    processed = processed.replace(ifRegex, (match, content) => {
-      return hasContext ? content : '';
-    });
-    
-    // Process {{#each PREVIOUS_CONTEXT.referencedQuestions}} blocks
-    const eachRegex = /\{\{#each PREVIOUS_CONTEXT\.referencedQuestions\}\}([\s\S]*?)\{\{\/each\}\}/g;
-    processed = processed.replace(eachRegex, (match, content) => {
-      if (!hasContext) return '';
-      
-      return data.PREVIOUS_CONTEXT.referencedQuestions.map((question: any) => {
-        let questionContent = content;
-        questionContent = questionContent.replace(/\{\{questionNumber\}\}/g, question.questionNumber);
-        questionContent = questionContent.replace(/\{\{question\}\}/g, question.question);
-        questionContent = questionContent.replace(/\{\{referenceResearch\}\}/g, question.referenceResearch);
-        questionContent = questionContent.replace(/\{\{tailoredResponse\}\}/g, question.tailoredResponse);
-        questionContent = questionContent.replace(/\{\{referencedAs\}\}/g, question.referencedAs);
-        return questionContent;
-      }).join('\n');
-    });
-    
-    // Process PREVIOUS_CONTEXT object references
-    if (hasContext) {
-      processed = processed.replace(/\{\{PREVIOUS_CONTEXT\.contextNote\}\}/g, data.PREVIOUS_CONTEXT.contextNote || '');
+  private async processClaimVerification(
+    agent: AgentConfig,
+    rowData: Record<string, any>,
+    context: StepExecutionContext
+  ): Promise<ProcessingResult> {
+    const startTime = Date.now();
+    const answerStep = findStepByType(context.steps, 'tailor') || findStepByType(context.steps, 'draft');
+    const answer = answerStep ? String(rowData[answerStep.name] || '') : '';
+    const inputPrompt = `Claim verification of ${answerStep?.name || 'no answer step'}`;
+
+    if (!answerStep || !answer) {
+      return {
+        output: '',
+        latency: 0,
+        inputPrompt,
+        error: 'No tailored or draft answer to verify',
+        errorClass: 'client_error'
+      };
     }
-    
-    // Now process regular placeholders
-    return this.replacePlaceholders(processed, data);
-  }
 
-  private replacePlaceholders(template: string, data: Record<string, any>): string {
-    let result = template;
-    
-    // Handle special placeholder for first column
-    const firstColumnKey = Object.keys(data)[0];
-    if (firstColumnKey) {
-      result = result.replace(/\{\{FIRST_COLUMN\}\}/g, String(data[firstColumnKey] || ''));
+    try {
+      // The chunks the draft was written from, plus any the answer cites. Rows drafted before the
+      // draft recorded its chunk IDs fall back to searching for the question again.
+      let drafted = (rowData[RETRIEVAL_KEY] as RetrievalStats | undefined)?.chunkIds;
+      if (!drafted) {
+        const question = rowData.FULL_CONTEXTUAL_QUESTION || rowData[Object.keys(rowData)[0]] || '';
+        drafted = (await getRelevantContentChunks(question, 15, rowData[KNOWLEDGE_SCOPE_KEY] as KnowledgeScope | undefined)).map(chunk => chunk.id);
+      }
+      const cited = Object.values((rowData[CITATIONS_KEY] || {}) as Record<string, Citation[]>).flat().map(citation => citation.chunkId);
+      const chunks = await storage.getReferenceChunksByIds(Array.from(new Set([...drafted, ...cited])));
+
+      const verification = await verifyClaims({
+        stepName: answerStep.name,
+        answer,
+        evidence: chunks
+          .filter(chunk => chunk.chunkEmbedding)
+          .map(chunk => ({ id: chunk.id, text: chunk.chunkText, embedding: chunk.chunkEmbedding! })),
+        model: agent.model,
+        instructions: this.processTemplate(agent.systemPrompt, rowData) || DEFAULT_VERIFICATION_PROMPT,
+        maxTokens: agent.maxTokens
+      });
+
+      console.log(`🔎 Verified ${verification.claims.length} claims of "${answerStep.name}" against ${chunks.length} chunks - grounding score ${verification.groundingScore.toFixed(2)}`);
+
+      return {
+        output: summarizeVerification(verification),
+        latency: Date.now() - startTime,
+        inputPrompt,
+        verification,
+        metadata: { evidenceChunks: chunks.length }
+      };
+    } catch (error) {
+      console.error(`❌ Claim verification failed:`, error);
+      return {
+        output: '',
+        latency: Date.now() - startTime,
+        inputPrompt,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        errorClass: error instanceof VerificationOutputError ? 'invalid_output' : classifyError(error)
+      };
     }
-    
-    // Replace placeholders like {{ColumnName}} with actual values
-    return result.replace(/\{\{(\w+)\}\}/g, (match, key) => {
-      return data[key] || match;
-    });
+  }
+
+  processTemplate(template: string, data: Record<string, any>): string {
+    return renderTemplate(template, data);
   }
 
   async performWebSearch(query: string): Promise<any> {
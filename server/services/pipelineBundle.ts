@@ -0,0 +1,90 @@
+/**
+ * Pipeline Bundles
+ * Portable JSON/YAML files holding a pipeline's steps, models, tools and prompts, so
+ * pipeline variants can be shared between teams and reviewed in git.
+ */
+
+import YAML from 'yaml';
+import { z } from 'zod';
+import {
+  pipelineBundleSchema,
+  PIPELINE_BUNDLE_FORMAT,
+  PIPELINE_BUNDLE_FORMAT_VERSION,
+  type Pipeline,
+  type PipelineBundle,
+  type PipelineVersion
+} from '@shared/schema';
+import type { AgentConfig } from './openai';
+import { validatePipelineDefinition } from './pipelineGraph';
+
+export type BundleFormat = 'json' | 'yaml';
+
+export class PipelineBundleError extends Error {
+  constructor(message: string, public issues: string[] = []) {
+    super(message);
+    this.name = 'PipelineBundleError';
+  }
+}
+
+export function buildPipelineBundle(pipeline: Pipeline, version?: PipelineVersion): PipelineBundle {
+  const source = version || pipeline;
+  return {
+    format: PIPELINE_BUNDLE_FORMAT,
+    formatVersion: PIPELINE_BUNDLE_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    source: {
+      pipelineId: pipeline.id,
+      version: version?.version ?? pipeline.currentVersion
+    },
+    pipeline: {
+      name: source.name,
+      description: source.description,
+      steps: source.steps as PipelineBundle['pipeline']['steps']
+    }
+  };
+}
+
+export function serializePipelineBundle(bundle: PipelineBundle, format: BundleFormat): string {
+  // Block literals keep multi-line prompts readable in YAML diffs
+  return format === 'yaml'
+    ? YAML.stringify(bundle, { blockQuote: 'literal', lineWidth: 0 })
+    : JSON.stringify(bundle, null, 2);
+}
+
+/**
+ * Parse and validate a bundle given as an object or as JSON/YAML text (YAML is a superset of
+ * JSON, so one parser handles both). Throws PipelineBundleError listing every problem found.
+ */
+export function parsePipelineBundle(input: unknown): PipelineBundle {
+  let raw = input;
+  if (typeof input === 'string') {
+    try {
+      raw = YAML.parse(input);
+    } catch (error) {
+      throw new PipelineBundleError(`Bundle is not valid JSON or YAML: ${error instanceof Error ? error.message : 'parse error'}`);
+    }
+  }
+
+  let bundle: PipelineBundle;
+  try {
+    bundle = pipelineBundleSchema.parse(raw);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const issues = error.errors.map(issue => `${issue.path.join('.') || 'bundle'}: ${issue.message}`);
+      throw new PipelineBundleError('Invalid pipeline bundle', issues);
+    }
+    throw error;
+  }
+
+  const definitionErrors = validatePipelineDefinition(bundle.pipeline.steps as AgentConfig[]);
+  if (definitionErrors.length > 0) {
+    throw new PipelineBundleError('Pipeline bundle cannot run', definitionErrors);
+  }
+
+  return bundle;
+}
+
+export function getBundleFileName(name: string, format: BundleFormat): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'pipeline';
+  return `${slug}.pipeline.${format === 'yaml' ? 'yaml' : 'json'}`;
+}
@@ -0,0 +1,445 @@
+/**
+ * Pipeline Comparison
+ * A/B re-runs of a job's rows against another pipeline version. The job's own results are the
+ * baseline; variant outputs go to comparison_results so csv_data.enrichedData is never touched.
+ * Reviewers pick the better answer per row and the picks roll up into a win rate.
+ */
+
+import { EventEmitter } from 'events';
+import { storage } from '../storage';
+import type { AgentConfig } from './openai';
+import { BASE_TEMPLATE_VARIABLES } from './pipelineGraph';
+import { dryRunPipeline } from './pipelinePlayground';
+import { sumUsage, saveUsage, type TokenUsage } from './usageTracking';
+import { spendLimitService, formatSpendLimitMessage } from './spendLimits';
+import {
+  MAX_JOB_CONCURRENCY,
+  type ComparisonPick,
+  type ComparisonResult,
+  type CsvData,
+  type Job,
+  type JobStep,
+  type PipelineComparison
+} from '@shared/schema';
+
+export interface ComparisonSide {
+  status: string;
+  answer: string | null;
+  latency: number | null;
+  tokenUsage: TokenUsage | null;
+  errorMessage?: string | null;
+}
+
+export interface ComparisonRow {
+  rowIndex: number;
+  question: string;
+  baseline: ComparisonSide;
+  variant: ComparisonSide;
+  pick: ComparisonPick | null;
+  pickedAt: Date | null;
+}
+
+export interface ComparisonSideSummary {
+  avgLatency: number | null;
+  avgTotalTokens: number | null;
+  avgCost: number | null;
+}
+
+export interface ComparisonSummary {
+  totalRows: number;
+  completedRows: number;
+  reviewedRows: number;
+  baselineWins: number;
+  variantWins: number;
+  ties: number;
+  variantWinRate: number | null; // Ties count as half a win; null until a row is reviewed
+  baseline: ComparisonSideSummary;
+  variant: ComparisonSideSummary;
+}
+
+export class ComparisonError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'ComparisonError';
+  }
+}
+
+// The answer a reviewer compares: the last step that produced output (later steps may be skipped)
+function getFinalAnswer(steps: AgentConfig[], data: Record<string, any> | null | undefined): string | null {
+  if (!data) return null;
+  for (let index = steps.length - 1; index >= 0; index--) {
+    const value = data[steps[index].name];
+    if (value !== undefined && value !== null && value !== '') {
+      return typeof value === 'string' ? value : JSON.stringify(value);
+    }
+  }
+  return null;
+}
+
+function getQuestion(row: CsvData): string {
+  if (row.fullContextualQuestion) return row.fullContextualQuestion;
+  const firstValue = Object.values((row.originalData || {}) as Record<string, any>)[0];
+  return firstValue === undefined || firstValue === null ? '' : String(firstValue);
+}
+
+function average(values: (number | null | undefined)[], round: boolean = true): number | null {
+  const present = values.filter((value): value is number => typeof value === 'number');
+  if (present.length === 0) return null;
+  const mean = present.reduce((sum, value) => sum + value, 0) / present.length;
+  return round ? Math.round(mean) : mean;
+}
+
+// Token usage the job recorded for a row's steps; rows processed before usage tracking have none
+function getBaselineUsage(steps: JobStep[]): TokenUsage | null {
+  const tracked = steps.filter(step => step.promptTokens !== null || step.completionTokens !== null);
+  if (tracked.length === 0) return null;
+  return tracked.reduce((total, step) => {
+    const promptTokens = step.promptTokens || 0;
+    const completionTokens = step.completionTokens || 0;
+    return {
+      promptTokens: total.promptTokens + promptTokens,
+      completionTokens: total.completionTokens + completionTokens,
+      reasoningTokens: total.reasoningTokens + (step.reasoningTokens || 0),
+      totalTokens: total.totalTokens + promptTokens + completionTokens,
+      cost: total.cost + (step.cost || 0)
+    };
+  }, { promptTokens: 0, completionTokens: 0, reasoningTokens: 0, totalTokens: 0, cost: 0 });
+}
+
+/**
+ * Rows enriched before csv_data.status existed read 'pending' until the startup backfill has run;
+ * only a completed row gets enrichedData, so it counts as completed too
+ */
+export function isRowCompleted(row: Pick<CsvData, 'status' | 'enrichedData'>): boolean {
+  return row.status === 'completed' || (row.status === 'pending' && row.enrichedData != null);
+}
+
+class PipelineComparisonService extends EventEmitter {
+  // One controller per run; cancelling aborts it, and only the run that owns it removes it
+  private activeRuns = new Map<string, AbortController>();
+
+  /**
+   * Create a comparison of the job's completed rows (all of them, the given rows, or a random
+   * sample) against a pipeline version, and start running it in the background
+   */
+  async createComparison(options: {
+    job: Job;
+    variantVersionId: string;
+    sampleSize?: number;
+    rowIndexes?: number[];
+    createdBy?: string;
+  }): Promise<PipelineComparison> {
+    const { job, variantVersionId, sampleSize, rowIndexes, createdBy } = options;
+
+    const completedRows = (await storage.getCsvData(job.id))
+      .filter(isRowCompleted)
+      .map(row => row.rowIndex);
+
+    let selected = completedRows;
+    if (Array.isArray(rowIndexes) && rowIndexes.length > 0) {
+      const requested = new Set(rowIndexes);
+      selected = completedRows.filter(rowIndex => requested.has(rowIndex));
+    } else if (sampleSize && sampleSize > 0 && sampleSize < completedRows.length) {
+      // Fisher-Yates shuffle, then keep the sample in row order so it reads like the job
+      const shuffled = [...completedRows];
+      for (let index = shuffled.length - 1; index > 0; index--) {
+        const swap = Math.floor(Math.random() * (index + 1));
+        [shuffled[index], shuffled[swap]] = [shuffled[swap], shuffled[index]];
+      }
+      selected = shuffled.slice(0, sampleSize).sort((a, b) => a - b);
+    }
+
+    if (selected.length === 0) {
+      throw new ComparisonError('The job has no completed rows to compare');
+    }
+    await this.assertWithinSpendLimit(createdBy || job.userId);
+
+    const comparison = await storage.createPipelineComparison({
+      jobId: job.id,
+      baselineVersionId: job.pipelineVersionId,
+      variantVersionId,
+      rowIndexes: selected,
+      totalRows: selected.length,
+      createdBy: createdBy || null
+    });
+
+    console.log(`🆚 Created comparison ${comparison.id} for job ${job.id} over ${selected.length} rows`);
+    this.runComparison(comparison.id).catch(error => {
+      console.error(`❌ Comparison ${comparison.id} failed:`, error);
+    });
+    return comparison;
+  }
+
+  /**
+   * Comparison runs only count toward the monthly cap, so that is the only one checked
+   */
+  async assertWithinSpendLimit(userId: string): Promise<void> {
+    const exceeded = await spendLimitService.checkLimits(userId);
+    if (exceeded) {
+      throw new ComparisonError(formatSpendLimitMessage(exceeded), 402);
+    }
+  }
+
+  /**
+   * True until a run's workers have stopped, including while a cancelled run winds down
+   */
+  isRunning(comparisonId: string): boolean {
+    return this.activeRuns.has(comparisonId);
+  }
+
+  cancelComparison(comparisonId: string): void {
+    this.activeRuns.get(comparisonId)?.abort();
+  }
+
+  /**
+   * Run every row that has not completed yet, so a cancelled or failed comparison can be resumed
+   */
+  async runComparison(comparisonId: string): Promise<void> {
+    if (this.activeRuns.has(comparisonId)) return;
+
+    // Registered before the first await, so a second resume can't start a run alongside this one
+    const run = new AbortController();
+    this.activeRuns.set(comparisonId, run);
+    try {
+      await this.executeRun(comparisonId, () => run.signal.aborted);
+    } finally {
+      if (this.activeRuns.get(comparisonId) === run) {
+        this.activeRuns.delete(comparisonId);
+      }
+    }
+  }
+
+  private async executeRun(comparisonId: string, isCancelled: () => boolean): Promise<void> {
+    const comparison = await storage.getPipelineComparison(comparisonId);
+    if (!comparison) {
+      throw new ComparisonError('Comparison not found', 404);
+    }
+    const job = await storage.getJob(comparison.jobId);
+    const variantVersion = await storage.getPipelineVersion(comparison.variantVersionId);
+    if (!job || !variantVersion) {
+      throw new ComparisonError('Comparison job or pipeline version no longer exists', 404);
+    }
+
+    const steps = variantVersion.steps as AgentConfig[];
+    const rowsByIndex = new Map((await storage.getCsvData(job.id)).map(row => [row.rowIndex, row]));
+    const pending = (await storage.getComparisonResults(comparisonId))
+      .filter(result => result.status !== 'completed')
+      .map(result => result.rowIndex);
+
+    await storage.updatePipelineComparison(comparisonId, { status: 'in_progress', errorMessage: null, completedAt: null });
+    this.emit('comparisonStarted', { comparisonId, jobId: job.id });
+
+    const userId = comparison.createdBy || job.userId;
+    let processedRows = comparison.totalRows - pending.length;
+    let failedRows = 0;
+    let nextIndex = 0;
+    let spendLimitMessage: string | null = null;
+
+    const worker = async () => {
+      while (nextIndex < pending.length && !isCancelled() && !spendLimitMessage) {
+        // Rows left unrun stay pending, so the comparison can be resumed once the limit is raised
+        const exceeded = await spendLimitService.checkLimits(userId);
+        if (exceeded) {
+          spendLimitMessage = spendLimitMessage || formatSpendLimitMessage(exceeded);
+          break;
+        }
+
+        const rowIndex = pending[nextIndex++];
+        const row = rowsByIndex.get(rowIndex);
+        let completed = false;
+        if (row) {
+          completed = await this.runRow(comparison, job, row, steps, variantVersion.pipelineId, isCancelled);
+        } else {
+          await storage.updateComparisonResult(comparisonId, rowIndex, { status: 'failed', errorMessage: 'Row no longer exists' });
+        }
+
+        if (isCancelled()) break;
+        if (completed) {
+          processedRows++;
+        } else {
+          failedRows++;
+        }
+        await storage.updatePipelineComparison(comparisonId, { processedRows });
+        this.emit('comparisonProgress', {
+          comparisonId,
+          jobId: job.id,
+          rowIndex,
+          processedRows,
+          failedRows,
+          totalRows: comparison.totalRows
+        });
+      }
+    };
+
+    try {
+      const concurrency = Math.min(Math.max(job.concurrency || 1, 1), MAX_JOB_CONCURRENCY);
+      await Promise.all(Array.from({ length: Math.min(concurrency, Math.max(pending.length, 1)) }, () => worker()));
+
+      const cancelled = isCancelled();
+      const status = cancelled ? 'cancelled' : (failedRows > 0 || spendLimitMessage ? 'error' : 'completed');
+      await storage.updatePipelineComparison(comparisonId, {
+        status,
+        errorMessage: spendLimitMessage || (failedRows > 0 ? `${failedRows} row(s) failed` : null),
+        completedAt: cancelled || spendLimitMessage ? null : new Date()
+      });
+      if (spendLimitMessage) {
+        console.log(`💸 Comparison ${comparisonId} stopped at a spend limit: ${spendLimitMessage}`);
+      }
+      console.log(`🆚 Comparison ${comparisonId} ${status} (${processedRows}/${comparison.totalRows} rows)`);
+      this.emit('comparisonCompleted', { comparisonId, jobId: job.id, status });
+    } catch (error) {
+      await storage.updatePipelineComparison(comparisonId, {
+        status: 'error',
+        errorMessage: error instanceof Error ? error.message : 'Unknown error'
+      });
+      this.emit('comparisonCompleted', { comparisonId, jobId: job.id, status: 'error' });
+      throw error;
+    }
+  }
+
+  private async runRow(
+    comparison: PipelineComparison,
+    job: Job,
+    row: CsvData,
+    steps: AgentConfig[],
+    variantPipelineId: string,
+    isCancelled: () => boolean
+  ): Promise<boolean> {
+    const comparisonId = comparison.id;
+    const enriched = (row.enrichedData || {}) as Record<string, any>;
+    const rowData: Record<string, any> = { ...(row.originalData as Record<string, any>) };
+
+    // Reuse the context the job already resolved; jobId is left out so the job's log stream stays clean
+    BASE_TEMPLATE_VARIABLES
+      .filter(variable => variable !== 'jobId' && enriched[variable] !== undefined)
+      .forEach(variable => {
+        rowData[variable] = enriched[variable];
+      });
+    rowData['FULL_CONTEXTUAL_QUESTION'] = rowData['FULL_CONTEXTUAL_QUESTION'] || getQuestion(row);
+
+    await storage.updateComparisonResult(comparisonId, row.rowIndex, { status: 'processing', errorMessage: null });
+
+    let latency = 0;
+    const result = await dryRunPipeline(steps, rowData, event => {
+      if (event.type === 'stepCompleted' || event.type === 'stepFailed') {
+        latency += event.latency;
+      }
+    }, isCancelled);
+
+    await saveUsage({
+      source: 'comparison',
+      userId: comparison.createdBy,
+      jobId: job.id,
+      pipelineId: variantPipelineId,
+      rowIndex: row.rowIndex
+    }, result.usage);
+
+    if (result.status === 'cancelled') {
+      await storage.updateComparisonResult(comparisonId, row.rowIndex, { status: 'pending' });
+      return false;
+    }
+
+    const outputData = Object.fromEntries(
+      steps.filter(step => result.data[step.name] !== undefined).map(step => [step.name, result.data[step.name]])
+    );
+    await storage.updateComparisonResult(comparisonId, row.rowIndex, {
+      status: result.status === 'completed' ? 'completed' : 'failed',
+      outputData,
+      answer: getFinalAnswer(steps, result.data),
+      latency,
+      tokenUsage: sumUsage(result.usage),
+      errorMessage: result.error || null
+    });
+    return result.status === 'completed';
+  }
+
+  async setPick(comparisonId: string, rowIndex: number, pick: ComparisonPick | null, userId: string): Promise<ComparisonResult> {
+    const result = await storage.updateComparisonResult(comparisonId, rowIndex, {
+      pick,
+      pickedBy: pick ? userId : null,
+      pickedAt: pick ? new Date() : null
+    });
+    if (!result) {
+      throw new ComparisonError('Row is not part of this comparison', 404);
+    }
+    return result;
+  }
+
+  /**
+   * Both answers for every compared row, plus the aggregate win rate and averages
+   */
+  async getComparisonDetails(comparison: PipelineComparison): Promise<{ rows: ComparisonRow[]; summary: ComparisonSummary }> {
+    const job = await storage.getJob(comparison.jobId);
+    const baselineVersion = comparison.baselineVersionId ? await storage.getPipelineVersion(comparison.baselineVersionId) : undefined;
+    const baselinePipeline = !baselineVersion && job?.pipelineId ? await storage.getPipeline(job.pipelineId) : undefined;
+    const baselineSteps = ((baselineVersion || baselinePipeline)?.steps || []) as AgentConfig[];
+
+    const variantVersion = await storage.getPipelineVersion(comparison.variantVersionId);
+    const variantSteps = (variantVersion?.steps || []) as AgentConfig[];
+
+    const rowsByIndex = new Map((await storage.getCsvData(comparison.jobId)).map(row => [row.rowIndex, row]));
+    const stepsByRow = new Map<number, JobStep[]>();
+    (await storage.getJobSteps(comparison.jobId)).forEach(step => {
+      stepsByRow.set(step.rowIndex, [...(stepsByRow.get(step.rowIndex) || []), step]);
+    });
+
+    const rows: ComparisonRow[] = (await storage.getComparisonResults(comparison.id)).map(result => {
+      const row = rowsByIndex.get(result.rowIndex);
+      const rowSteps = stepsByRow.get(result.rowIndex) || [];
+      const baselineLatency = rowSteps
+        .filter(step => step.status === 'completed')
+        .reduce((sum, step) => sum + (step.latency || 0), 0);
+
+      return {
+        rowIndex: result.rowIndex,
+        question: row ? getQuestion(row) : '',
+        baseline: {
+          status: row?.status || 'failed',
+          answer: getFinalAnswer(baselineSteps, row?.enrichedData as Record<string, any>),
+          latency: baselineLatency || null,
+          tokenUsage: getBaselineUsage(rowSteps)
+        },
+        variant: {
+          status: result.status,
+          answer: result.answer || getFinalAnswer(variantSteps, result.outputData as Record<string, any>),
+          latency: result.latency,
+          tokenUsage: result.tokenUsage as TokenUsage | null,
+          errorMessage: result.errorMessage
+        },
+        pick: result.pick,
+        pickedAt: result.pickedAt
+      };
+    });
+
+    const completed = rows.filter(row => row.variant.status === 'completed');
+    const baselineWins = rows.filter(row => row.pick === 'baseline').length;
+    const variantWins = rows.filter(row => row.pick === 'variant').length;
+    const ties = rows.filter(row => row.pick === 'tie').length;
+    const reviewedRows = baselineWins + variantWins + ties;
+
+    return {
+      rows,
+      summary: {
+        totalRows: rows.length,
+        completedRows: completed.length,
+        reviewedRows,
+        baselineWins,
+        variantWins,
+        ties,
+        variantWinRate: reviewedRows > 0 ? (variantWins + ties / 2) / reviewedRows : null,
+        baseline: {
+          avgLatency: average(completed.map(row => row.baseline.latency)),
+          avgTotalTokens: average(completed.map(row => row.baseline.tokenUsage?.totalTokens)),
+          avgCost: average(completed.map(row => row.baseline.tokenUsage?.cost), false)
+        },
+        variant: {
+          avgLatency: average(completed.map(row => row.variant.latency)),
+          avgTotalTokens: average(completed.map(row => row.variant.tokenUsage?.totalTokens)),
+          avgCost: average(completed.map(row => row.variant.tokenUsage?.cost), false)
+        }
+      }
+    };
+  }
+}
+
+export const pipelineComparisonService = new PipelineComparisonService();
@@ -0,0 +1,71 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  buildPipelineGraph,
+  validatePipelineGraph,
+  getUpstreamSteps,
+  evaluateCondition,
+  describeCondition,
+  PipelineGraphError,
+  type StepCondition
+} from './pipelineGraph';
+import type { AgentConfig } from './openai';
+
+function step(name: string, extra: Partial<AgentConfig> = {}): AgentConfig {
+  return { name, type: 'llm', model: 'gpt-4o', temperature: 0, systemPrompt: '', userPrompt: '', ...extra };
+}
+
+test('steps without inputs depend on every earlier step', () => {
+  const graph = buildPipelineGraph([step('A'), step('B'), step('C')]);
+  assert.deepEqual(graph.map(node => node.dependsOn), [[], ['A'], ['A', 'B']]);
+});
+
+test('inputs and condition variables define the dependencies', () => {
+  const graph = buildPipelineGraph([
+    step('A'),
+    step('B', { inputs: [] }),
+    step('C', { id: 'c', inputs: ['A'], condition: { mode: 'run_if', variable: 'B.score', operator: 'greater_than', value: '3' } })
+  ]);
+  assert.deepEqual(graph[1].dependsOn, []);
+  assert.equal(graph[2].id, 'c');
+  assert.deepEqual(graph[2].dependsOn, ['A', 'B']);
+});
+
+test('upstream steps include indirect dependencies only', () => {
+  const steps = [step('A'), step('B', { inputs: ['A'] }), step('C', { inputs: [] }), step('D', { inputs: ['B'] })];
+  assert.deepEqual(getUpstreamSteps(steps, 3).map(upstream => upstream.name), ['A', 'B']);
+});
+
+test('cycles, self references and duplicate ids are reported', () => {
+  assert.deepEqual(validatePipelineGraph([step('A', { inputs: ['B'] }), step('B', { inputs: ['A'] })]), [
+    'Steps "A", "B" form a dependency cycle'
+  ]);
+  assert.ok(validatePipelineGraph([step('A', { inputs: ['A'] })]).includes('Step "A" lists itself as an input'));
+  assert.ok(validatePipelineGraph([step('A'), step('A')]).includes('Step "A" is defined more than once'));
+  assert.throws(() => buildPipelineGraph([step('A', { inputs: ['B'] }), step('B', { inputs: ['A'] })]), PipelineGraphError);
+});
+
+test('conditions compare text case-insensitively and numbers numerically', () => {
+  const data = { Status: 'Approved', Score: '7', Empty: '' };
+  const check = (condition: Omit<StepCondition, 'mode'>) => evaluateCondition({ mode: 'run_if', ...condition }, data);
+
+  assert.equal(check({ variable: 'Status', operator: 'equals', value: 'approved' }), true);
+  assert.equal(check({ variable: 'Status', operator: 'contains', value: 'PROV' }), true);
+  assert.equal(check({ variable: 'Score', operator: 'greater_than', value: '10' }), false);
+  assert.equal(check({ variable: 'Score', operator: 'less_than', value: '10' }), true);
+  assert.equal(check({ variable: 'Empty', operator: 'exists' }), false);
+  assert.equal(check({ variable: 'Missing', operator: 'not_exists' }), true);
+  assert.equal(evaluateCondition({ mode: 'skip_if', variable: 'Status', operator: 'equals', value: 'approved' }, data), false);
+  assert.equal(evaluateCondition(undefined, data), true);
+});
+
+test('conditions read dotted paths into JSON step outputs', () => {
+  const data = { Classifier: JSON.stringify({ category: 'security', scores: { risk: 4 } }) };
+  assert.equal(evaluateCondition({ mode: 'run_if', variable: 'Classifier.category', operator: 'equals', value: 'Security' }, data), true);
+  assert.equal(evaluateCondition({ mode: 'run_if', variable: 'Classifier.scores.risk', operator: 'greater_than', value: '3' }, data), true);
+});
+
+test('conditions describe themselves for skip reasons', () => {
+  assert.equal(describeCondition({ mode: 'skip_if', variable: 'Status', operator: 'not_equals', value: 'open' }), 'skip if Status not equals "open"');
+  assert.equal(describeCondition({ mode: 'run_if', variable: 'Notes', operator: 'exists' }), 'run if Notes exists');
+});
@@ -0,0 +1,341 @@
+/**
+ * Pipeline Graph
+ * Turns a pipeline's steps into a dependency graph. A step depends on:
+ *   - the steps named in its `inputs` (anything else in `inputs` is an original CSV column)
+ *   - the steps whose types its executor reads (e.g. tailor reads the draft)
+ *   - the step its condition looks at
+ * Steps saved before `inputs` existed depend on every earlier step, so old pipelines still run in order.
+ */
+
+import type { AgentConfig } from './openai';
+import { stepExecutorRegistry, resolveStepType } from './stepExecutors';
+import { validateTemplate, type TemplateIssue } from './templateEngine';
+import { stepOutputSchemaSchema } from '@shared/schema';
+
+export type ConditionOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'contains'
+  | 'not_contains'
+  | 'exists'
+  | 'not_exists'
+  | 'greater_than'
+  | 'less_than';
+
+export interface StepCondition {
+  mode: 'run_if' | 'skip_if';
+  variable: string; // Column, step output, or dotted path into a JSON step output
+  operator: ConditionOperator;
+  value?: string;
+}
+
+export interface PipelineNode {
+  id: string;
+  index: number;
+  step: AgentConfig;
+  dependsOn: string[]; // Ids of the steps that must finish (or be skipped) first
+}
+
+export interface StepTemplateValidation {
+  stepIndex: number;
+  stepName: string;
+  field: 'systemPrompt' | 'userPrompt';
+  errors: TemplateIssue[];
+  unknownVariables: string[];
+}
+
+export class PipelineGraphError extends Error {
+  constructor(public issues: string[]) {
+    super(`Invalid pipeline graph: ${issues.join('; ')}`);
+    this.name = 'PipelineGraphError';
+  }
+}
+
+// Set on every row by the job processor before any step runs
+export const BASE_TEMPLATE_VARIABLES = [
+  'FULL_CONTEXTUAL_QUESTION',
+  'PREVIOUS_CONTEXT',
+  'RFP_INSTRUCTIONS',
+  'ADDITIONAL_DOCUMENTS',
+  'KNOWLEDGE_SCOPE',
+  'jobId'
+];
+
+export function getStepId(step: Pick<AgentConfig, 'id' | 'name'>): string {
+  return step.id || step.name;
+}
+
+function findStepIndex(steps: AgentConfig[], reference: string): number {
+  return steps.findIndex(step => getStepId(step) === reference || step.name === reference);
+}
+
+// The step a condition variable points at, matching the whole name first since names contain spaces
+function findConditionStepIndex(steps: AgentConfig[], variable: string): number {
+  const whole = findStepIndex(steps, variable.trim());
+  if (whole !== -1) return whole;
+  return findStepIndex(steps, variable.split('.')[0].trim());
+}
+
+function collectDependencies(steps: AgentConfig[], index: number): number[] {
+  const step = steps[index];
+  const dependencies = new Set<number>();
+
+  if (!Array.isArray(step.inputs)) {
+    for (let previous = 0; previous < index; previous++) {
+      dependencies.add(previous);
+    }
+  } else {
+    step.inputs.forEach(input => {
+      const inputIndex = findStepIndex(steps, input);
+      if (inputIndex !== -1) dependencies.add(inputIndex);
+    });
+
+    const executor = stepExecutorRegistry.get(resolveStepType(step));
+    (executor?.requires || []).forEach(type => {
+      const requiredIndex = steps.findIndex(candidate => resolveStepType(candidate) === type);
+      if (requiredIndex !== -1) dependencies.add(requiredIndex);
+    });
+  }
+
+  if (step.condition?.variable) {
+    const conditionIndex = findConditionStepIndex(steps, step.condition.variable);
+    if (conditionIndex !== -1) dependencies.add(conditionIndex);
+  }
+
+  dependencies.delete(index);
+  return Array.from(dependencies).sort((a, b) => a - b);
+}
+
+/**
+ * Structural problems that would stop the pipeline from running: duplicate ids, self
+ * references and cycles. An empty array means the graph is runnable.
+ */
+export function validatePipelineGraph(steps: AgentConfig[]): string[] {
+  const issues: string[] = [];
+
+  const seen = new Set<string>();
+  steps.forEach(step => {
+    const id = getStepId(step);
+    if (seen.has(id)) {
+      issues.push(`Step "${id}" is defined more than once`);
+    }
+    seen.add(id);
+  });
+
+  steps.forEach(step => {
+    if (Array.isArray(step.inputs) && step.inputs.some(input => input === getStepId(step) || input === step.name)) {
+      issues.push(`Step "${step.name}" lists itself as an input`);
+    }
+  });
+
+  // Kahn's algorithm: whatever never reaches in-degree zero sits on a cycle
+  const dependencies = steps.map((_, index) => collectDependencies(steps, index));
+  const remaining = dependencies.map(deps => deps.length);
+  const queue = remaining.map((count, index) => count === 0 ? index : -1).filter(index => index !== -1);
+  let visited = 0;
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    visited++;
+    dependencies.forEach((deps, index) => {
+      if (deps.includes(current) && --remaining[index] === 0) {
+        queue.push(index);
+      }
+    });
+  }
+  if (visited < steps.length) {
+    const cyclic = steps.filter((_, index) => remaining[index] > 0).map(step => `"${step.name}"`);
+    issues.push(`Steps ${cyclic.join(', ')} form a dependency cycle`);
+  }
+
+  return issues;
+}
+
+/**
+ * Build the runnable graph, throwing PipelineGraphError if the steps do not form a DAG
+ */
+export function buildPipelineGraph(steps: AgentConfig[]): PipelineNode[] {
+  const issues = validatePipelineGraph(steps);
+  if (issues.length > 0) {
+    throw new PipelineGraphError(issues);
+  }
+
+  return steps.map((step, index) => ({
+    id: getStepId(step),
+    index,
+    step,
+    dependsOn: collectDependencies(steps, index).map(dependency => getStepId(steps[dependency]))
+  }));
+}
+
+/**
+ * Every step that finishes before the given one, i.e. the outputs it can safely read
+ */
+export function getUpstreamSteps(steps: AgentConfig[], index: number): AgentConfig[] {
+  const upstream = new Set<number>();
+  const pending = collectDependencies(steps, index);
+  while (pending.length > 0) {
+    const dependency = pending.pop()!;
+    if (upstream.has(dependency) || dependency === index) continue;
+    upstream.add(dependency);
+    pending.push(...collectDependencies(steps, dependency));
+  }
+  return Array.from(upstream).sort((a, b) => a - b).map(dependency => steps[dependency]);
+}
+
+// Step outputs are stored as text, so JSON outputs are parsed on the way down a dotted path
+function resolveConditionValue(data: Record<string, any>, variable: string): any {
+  const path = variable.trim();
+  if (Object.prototype.hasOwnProperty.call(data, path)) {
+    return data[path];
+  }
+
+  const [head, ...rest] = path.split('.').map(segment => segment.trim());
+  let value = data[head];
+  for (const segment of rest) {
+    if (typeof value === 'string') {
+      try {
+        value = JSON.parse(value);
+      } catch {
+        return undefined;
+      }
+    }
+    if (value === null || value === undefined) return undefined;
+    value = value[segment];
+  }
+  return value;
+}
+
+/**
+ * Whether a step with this condition should run for the given row data
+ */
+export function evaluateCondition(condition: StepCondition | undefined, data: Record<string, any>): boolean {
+  if (!condition || !condition.variable) return true;
+
+  const actual = resolveConditionValue(data, condition.variable);
+  const actualText = actual === null || actual === undefined
+    ? ''
+    : (typeof actual === 'object' ? JSON.stringify(actual) : String(actual)).trim();
+  const expectedText = (condition.value || '').trim();
+
+  let matches: boolean;
+  switch (condition.operator) {
+    case 'equals':
+      matches = actualText.toLowerCase() === expectedText.toLowerCase();
+      break;
+    case 'not_equals':
+      matches = actualText.toLowerCase() !== expectedText.toLowerCase();
+      break;
+    case 'contains':
+      matches = actualText.toLowerCase().includes(expectedText.toLowerCase());
+      break;
+    case 'not_contains':
+      matches = !actualText.toLowerCase().includes(expectedText.toLowerCase());
+      break;
+    case 'exists':
+      matches = actualText !== '';
+      break;
+    case 'not_exists':
+      matches = actualText === '';
+      break;
+    case 'greater_than':
+    case 'less_than': {
+      const actualNumber = parseFloat(actualText);
+      const expectedNumber = parseFloat(expectedText);
+      matches = !isNaN(actualNumber) && !isNaN(expectedNumber) &&
+        (condition.operator === 'greater_than' ? actualNumber > expectedNumber : actualNumber < expectedNumber);
+      break;
+    }
+    default:
+      matches = false;
+  }
+
+  return condition.mode === 'skip_if' ? !matches : matches;
+}
+
+export function describeCondition(condition: StepCondition): string {
+  const operator = condition.operator.replace('_', ' ');
+  const value = condition.operator === 'exists' || condition.operator === 'not_exists' ? '' : ` "${condition.value || ''}"`;
+  return `${condition.mode === 'skip_if' ? 'skip if' : 'run if'} ${condition.variable} ${operator}${value}`;
+}
+
+/**
+ * Validate every step prompt: syntax errors, plus variables that are neither built in,
+ * produced by an upstream step, provided by the step's executor, nor one of the given CSV columns
+ */
+export function validatePipelineTemplates(steps: AgentConfig[], columns: string[] = []): StepTemplateValidation[] {
+  const results: StepTemplateValidation[] = [];
+  const graphIsValid = validatePipelineGraph(steps).length === 0;
+
+  steps.forEach((step, stepIndex) => {
+    const executor = stepExecutorRegistry.get(resolveStepType(step));
+    const upstream = graphIsValid ? getUpstreamSteps(steps, stepIndex) : steps.slice(0, stepIndex);
+    const known = [
+      ...BASE_TEMPLATE_VARIABLES,
+      ...columns,
+      ...(step.inputs || []),
+      ...upstream.map(previous => previous.name),
+      ...(executor?.variables || [])
+    ];
+
+    (['systemPrompt', 'userPrompt'] as const).forEach(field => {
+      const validation = validateTemplate(step[field] || '', known);
+      if (validation.errors.length > 0 || validation.unknownVariables.length > 0) {
+        results.push({
+          stepIndex,
+          stepName: step.name,
+          field,
+          errors: validation.errors,
+          unknownVariables: validation.unknownVariables
+        });
+      }
+    });
+  });
+
+  return results;
+}
+
+/**
+ * Output schemas must be well formed and declared only on step types that send them to the model
+ */
+export function validateOutputSchemas(steps: AgentConfig[]): string[] {
+  return steps
+    .filter(step => step.outputSchema !== undefined)
+    .flatMap(step => {
+      const type = resolveStepType(step);
+      if (!stepExecutorRegistry.get(type)?.structuredOutput) {
+        return [`Step "${step.name}" (${type}) does not support an output schema`];
+      }
+      const parsed = stepOutputSchemaSchema.safeParse(step.outputSchema);
+      return parsed.success
+        ? []
+        : [`Invalid output schema in "${step.name}": ${parsed.error.issues[0].path.join('.') || 'schema'} ${parsed.error.issues[0].message}`];
+    });
+}
+
+/**
+ * Everything that would stop a pipeline definition from running: unknown step types,
+ * graph problems, invalid output schemas and template syntax errors. Unknown template
+ * variables are not included because they may be CSV columns.
+ */
+export function validatePipelineDefinition(steps: AgentConfig[]): string[] {
+  const unknownTypes = steps
+    .filter(step => step?.type && !stepExecutorRegistry.has(step.type))
+    .map(step => step.type);
+  if (unknownTypes.length > 0) {
+    return [`Unknown step type(s): ${unknownTypes.join(', ')}`];
+  }
+
+  const graphIssues = validatePipelineGraph(steps);
+  if (graphIssues.length > 0) {
+    return graphIssues;
+  }
+
+  const schemaIssues = validateOutputSchemas(steps);
+  if (schemaIssues.length > 0) {
+    return schemaIssues;
+  }
+
+  return validatePipelineTemplates(steps)
+    .filter(issue => issue.errors.length > 0)
+    .map(issue => `Template error in "${issue.stepName}" ${issue.field}: ${issue.errors[0].message} (line ${issue.errors[0].line})`);
+}
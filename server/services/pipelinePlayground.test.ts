@@ -0,0 +1,90 @@
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { dryRunPipeline, type PlaygroundEvent } from './pipelinePlayground';
+import { setLLMProvider, type ChatRequest } from './llmProvider';
+import { MockLLMProvider } from './mockLlmProvider';
+import type { AgentConfig } from './openai';
+
+function step(name: string, userPrompt: string, extra: Partial<AgentConfig> = {}): AgentConfig {
+  return { name, type: 'llm', model: 'gpt-4o', temperature: 0, systemPrompt: `You are ${name}`, userPrompt, ...extra };
+}
+
+function userPrompt(request: ChatRequest): string {
+  return request.messages.find(message => message.role === 'user')?.content || '';
+}
+
+beforeEach(() => {
+  setLLMProvider(new MockLLMProvider());
+});
+
+test('runs steps in order and feeds each output into later prompts', async () => {
+  setLLMProvider(new MockLLMProvider({ respond: request => `answer to: ${userPrompt(request)}` }));
+  const events: PlaygroundEvent[] = [];
+
+  const result = await dryRunPipeline([
+    step('Draft', '{{Question}}'),
+    step('Polish', 'Polish {{Draft}}')
+  ], { Question: 'Do you support SSO?' }, event => events.push(event));
+
+  assert.equal(result.status, 'completed');
+  assert.equal(result.data.Draft, 'answer to: Do you support SSO?');
+  assert.equal(result.data.Polish, 'answer to: Polish answer to: Do you support SSO?');
+  assert.deepEqual(events.map(event => event.type), ['started', 'stepStarted', 'stepCompleted', 'stepStarted', 'stepCompleted']);
+  assert.equal(result.usage.reduce((calls, usage) => calls + usage.calls, 0), 2);
+});
+
+test('starts independent branches together', async () => {
+  setLLMProvider(new MockLLMProvider({ latencyMs: 20 }));
+  const events: PlaygroundEvent[] = [];
+
+  const result = await dryRunPipeline([
+    step('Root', '{{Question}}'),
+    step('Left', '{{Root}}', { inputs: ['Root'] }),
+    step('Right', '{{Root}}', { inputs: ['Root'] })
+  ], { Question: 'Q' }, event => events.push(event));
+
+  assert.equal(result.status, 'completed');
+  const branchEvents = events.slice(3).map(event => event.type);
+  assert.deepEqual(branchEvents.slice(0, 2), ['stepStarted', 'stepStarted']);
+});
+
+test('skips a step whose condition is not met', async () => {
+  const events: PlaygroundEvent[] = [];
+
+  const result = await dryRunPipeline([
+    step('Draft', '{{Question}}'),
+    step('Translate', '{{Draft}}', { condition: { mode: 'run_if', variable: 'Language', operator: 'not_equals', value: 'en' } })
+  ], { Question: 'Q', Language: 'en' }, event => events.push(event));
+
+  assert.equal(result.status, 'completed');
+  assert.equal(result.data.Translate, undefined);
+  assert.ok(events.some(event => event.type === 'stepSkipped' && event.stepName === 'Translate'));
+});
+
+test('stops after the first failed step', async () => {
+  setLLMProvider(new MockLLMProvider({
+    respond: request => {
+      if (userPrompt(request).startsWith('fail')) {
+        throw Object.assign(new Error('429 Rate limit reached'), { status: 429 });
+      }
+      return undefined;
+    }
+  }));
+  const events: PlaygroundEvent[] = [];
+
+  const result = await dryRunPipeline([
+    step('Draft', 'fail {{Question}}'),
+    step('Polish', '{{Draft}}')
+  ], { Question: 'Q' }, event => events.push(event));
+
+  assert.equal(result.status, 'failed');
+  assert.match(result.error || '', /Draft/);
+  assert.equal(events.filter(event => event.type === 'stepStarted').length, 1);
+});
+
+test('does not start steps once cancelled', async () => {
+  const result = await dryRunPipeline([step('Draft', '{{Question}}')], { Question: 'Q' }, () => {}, () => true);
+
+  assert.equal(result.status, 'cancelled');
+  assert.equal(result.data.Draft, undefined);
+});
@@ -0,0 +1,197 @@
+/**
+ * Pipeline Playground
+ * Dry-runs a (possibly unsaved) pipeline on one typed-in question so prompt changes can be
+ * tried without uploading a CSV. Steps run through the same executors and dependency graph
+ * as a job, but nothing is written to jobs, csv_data or job_steps. Pipeline comparisons use
+ * the same in-memory runner for their variant rows.
+ */
+
+import { openaiService, type AgentConfig } from './openai';
+import { buildPipelineGraph, evaluateCondition, describeCondition } from './pipelineGraph';
+import type { ErrorClass } from './retryPolicy';
+import { mergeUsage, sumUsage, type ModelUsage, type TokenUsage } from './usageTracking';
+import { structuredOutputColumns } from './structuredOutput';
+import { CITATIONS_KEY } from './citations';
+import { VERIFICATION_KEY } from './claimVerification';
+import { RETRIEVAL_KEY } from './answerConfidence';
+
+export interface PlaygroundInput {
+  question: string;
+  rfpInstructions?: string;
+}
+
+export interface PlaygroundChunk {
+  source: string;
+  url: string;
+  similarity: number;
+  text: string;
+}
+
+export type PlaygroundEvent =
+  | { type: 'started'; steps: { index: number; name: string }[] }
+  | { type: 'stepStarted'; stepIndex: number; stepName: string }
+  | { type: 'stepSkipped'; stepIndex: number; stepName: string; reason: string }
+  | {
+      type: 'stepCompleted';
+      stepIndex: number;
+      stepName: string;
+      prompt: string;
+      output: string;
+      latency: number;
+      chunks: PlaygroundChunk[];
+      usage: TokenUsage;
+      metadata?: any;
+    }
+  | {
+      type: 'stepFailed';
+      stepIndex: number;
+      stepName: string;
+      prompt: string;
+      error: string;
+      errorClass?: ErrorClass;
+      latency: number;
+      usage?: TokenUsage;
+    }
+  | { type: 'done'; status: 'completed' | 'failed' | 'cancelled'; latency: number; usage: TokenUsage };
+
+export interface DryRunResult {
+  status: 'completed' | 'failed' | 'cancelled';
+  data: Record<string, any>; // Row data plus each completed step's output under its name
+  latency: number;
+  usage: ModelUsage[]; // Summed over every step that ran
+  error?: string;
+}
+
+/**
+ * Run every step once (no retries) in graph order on the given row data, reporting progress
+ * through onEvent. Stops scheduling new steps after the first failure or once isCancelled
+ * returns true.
+ */
+export async function dryRunPipeline(
+  steps: AgentConfig[],
+  rowData: Record<string, any>,
+  onEvent: (event: PlaygroundEvent) => void = () => {},
+  isCancelled: () => boolean = () => false
+): Promise<DryRunResult> {
+  const startTime = Date.now();
+  const graph = buildPipelineGraph(steps);
+  const currentData: Record<string, any> = { ...rowData };
+
+  onEvent({ type: 'started', steps: graph.map(node => ({ index: node.index, name: node.step.name })) });
+
+  const settled = new Set<string>();
+  const running = new Map<string, Promise<void>>();
+  let failed = false;
+  let firstError: string | undefined;
+  let usage: ModelUsage[] = [];
+
+  const runNode = async (node: typeof graph[number]) => {
+    const { step, index: stepIndex } = node;
+
+    if (!evaluateCondition(step.condition, currentData)) {
+      onEvent({ type: 'stepSkipped', stepIndex, stepName: step.name, reason: `Condition not met: ${describeCondition(step.condition!)}` });
+      settled.add(node.id);
+      return;
+    }
+
+    onEvent({ type: 'stepStarted', stepIndex, stepName: step.name });
+    const result = await openaiService.processWithAgent(step, currentData, { steps });
+    usage = mergeUsage(usage, result.usage || []);
+
+    if (result.error) {
+      failed = true;
+      firstError = firstError || `Step ${step.name} failed: ${result.error}`;
+      onEvent({
+        type: 'stepFailed',
+        stepIndex,
+        stepName: step.name,
+        prompt: result.inputPrompt,
+        error: result.error,
+        errorClass: result.errorClass,
+        latency: result.latency,
+        usage: sumUsage(result.usage || [])
+      });
+      return;
+    }
+
+    currentData[step.name] = result.output;
+    if (step.outputSchema && result.structuredOutput) {
+      Object.assign(currentData, structuredOutputColumns(step.name, step.outputSchema, result.structuredOutput));
+    }
+    if (result.citations) {
+      currentData[CITATIONS_KEY] = { ...currentData[CITATIONS_KEY], [step.name]: result.citations };
+    }
+    if (result.verification) {
+      currentData[VERIFICATION_KEY] = result.verification;
+    }
+    if (result.retrieval) {
+      currentData[RETRIEVAL_KEY] = result.retrieval;
+    }
+    const { retrievedChunks, ...metadata } = result.metadata || {};
+    onEvent({
+      type: 'stepCompleted',
+      stepIndex,
+      stepName: step.name,
+      prompt: result.inputPrompt,
+      output: result.output,
+      latency: result.latency,
+      chunks: retrievedChunks || [],
+      usage: sumUsage(result.usage || []),
+      metadata
+    });
+    settled.add(node.id);
+  };
+
+  while (settled.size < graph.length && !failed && !isCancelled()) {
+    const ready = graph.filter(node =>
+      !settled.has(node.id) && !running.has(node.id) && node.dependsOn.every(id => settled.has(id))
+    );
+    ready.forEach(node => {
+      const run = runNode(node)
+        .catch(error => {
+          failed = true;
+          firstError = firstError || (error instanceof Error ? error.message : 'Unknown error');
+          onEvent({
+            type: 'stepFailed',
+            stepIndex: node.index,
+            stepName: node.step.name,
+            prompt: '',
+            error: error instanceof Error ? error.message : 'Unknown error',
+            latency: 0
+          });
+        })
+        .finally(() => running.delete(node.id));
+      running.set(node.id, run);
+    });
+
+    if (running.size === 0) {
+      break;
+    }
+    await Promise.race(running.values());
+  }
+
+  await Promise.all(running.values());
+
+  const status = isCancelled() ? 'cancelled' : (failed || settled.size < graph.length ? 'failed' : 'completed');
+  return { status, data: currentData, latency: Date.now() - startTime, usage, error: firstError };
+}
+
+export async function runPipelinePlayground(
+  steps: AgentConfig[],
+  input: PlaygroundInput,
+  onEvent: (event: PlaygroundEvent) => void,
+  isCancelled: () => boolean = () => false
+): Promise<DryRunResult> {
+  // Executors that fall back to the first column read the question from here, so it goes first
+  const rowData: Record<string, any> = {
+    Question: input.question,
+    FULL_CONTEXTUAL_QUESTION: input.question
+  };
+  if (input.rfpInstructions) {
+    rowData['RFP_INSTRUCTIONS'] = input.rfpInstructions;
+  }
+
+  const result = await dryRunPipeline(steps, rowData, onEvent, isCancelled);
+  onEvent({ type: 'done', status: result.status, latency: result.latency, usage: sumUsage(result.usage) });
+  return result;
+}
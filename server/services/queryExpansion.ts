@@ -0,0 +1,166 @@
+/**
+ * Query Expansion
+ * Contextual questions often bundle several asks ("encryption at rest and in transit and key
+ * rotation"), and one search for the whole question finds sources for only one of them. In
+ * multi-query mode an LLM splits the question into sub-queries, each optionally paired with a
+ * HyDE-style hypothetical answer, since an answer-shaped text embeds closer to the passages that
+ * hold the real answer. All searches run in parallel; each sub-query's results are fused, and
+ * the sub-queries then take turns filling the chunk budget so every ask gets sources. The
+ * per-sub-query coverage shows reviewers which parts of the question lacked any.
+ */
+
+import type { KnowledgeScope, StepOutputSchema, StepQueryExpansionConfig } from '@shared/schema';
+import { chatCompletion } from './llmProvider';
+import { parseStructuredOutput } from './structuredOutput';
+import { getRelevantContentChunks } from './enhancedReferenceResearch';
+import { reciprocalRankFusion } from './hybridRetrieval';
+
+export type ContentChunk = Awaited<ReturnType<typeof getRelevantContentChunks>>[number];
+
+export interface SubQueryCoverage {
+  query: string;
+  hypotheticalAnswer?: string;
+  chunkCount: number;    // Chunks its searches found, before merging
+  topSimilarity: number;
+  covered: boolean;      // Some chunk is at least COVERAGE_SIMILARITY close
+}
+
+export interface QueryExpansionReport {
+  subQueries: SubQueryCoverage[];
+  error?: string; // Set when the question couldn't be decomposed and was searched whole
+}
+
+export const DEFAULT_MAX_SUB_QUERIES = 4;
+const DEFAULT_EXPANSION_MODEL = 'gpt-4o-mini';
+const COVERAGE_SIMILARITY = 0.4;
+
+function expansionSchema(hyde: boolean): StepOutputSchema {
+  return {
+    type: 'object',
+    properties: {
+      subQueries: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            query: { type: 'string', description: 'A self-contained search query for one part of the question' },
+            ...(hyde ? { hypotheticalAnswer: { type: 'string', description: 'Two or three sentences a vendor document answering this part might contain' } } : {})
+          },
+          required: hyde ? ['query', 'hypotheticalAnswer'] : ['query']
+        }
+      }
+    },
+    required: ['subQueries']
+  };
+}
+
+export async function expandQuery(question: string, config: StepQueryExpansionConfig): Promise<{ query: string; hypotheticalAnswer?: string }[]> {
+  const hyde = config.hyde !== false;
+  const maxSubQueries = config.maxSubQueries || DEFAULT_MAX_SUB_QUERIES;
+  const schema = expansionSchema(hyde);
+
+  const response = await chatCompletion({
+    model: config.model || DEFAULT_EXPANSION_MODEL,
+    messages: [
+      {
+        role: 'system',
+        content: `Split an RFP question into the separate things it asks, at most ${maxSubQueries}. A question that asks one thing gets one sub-query. Each sub-query must make sense on its own, so repeat the subject (e.g. "Twilio encryption key rotation").${hyde ? ' For each, also write a short hypothetical answer in the style of vendor documentation; it is only used for search, so plausible specifics are fine.' : ''}`
+      },
+      { role: 'user', content: question }
+    ],
+    maxTokens: 1500,
+    temperature: 0,
+    outputSchema: schema
+  });
+
+  const parsed = parseStructuredOutput(schema, response.content);
+  if (!parsed.data) {
+    throw new Error(parsed.error);
+  }
+  return (parsed.data.subQueries as { query: string; hypotheticalAnswer?: string | null }[])
+    .filter(subQuery => subQuery.query.trim())
+    .slice(0, maxSubQueries)
+    .map(subQuery => ({ query: subQuery.query, ...(subQuery.hypotheticalAnswer ? { hypotheticalAnswer: subQuery.hypotheticalAnswer } : {}) }));
+}
+
+/**
+ * Retrieve up to maxResults chunks for the question in multi-query mode
+ */
+export async function retrieveWithQueryExpansion(
+  question: string,
+  maxResults: number,
+  config: StepQueryExpansionConfig,
+  scope?: KnowledgeScope | null
+): Promise<{ chunks: ContentChunk[]; report: QueryExpansionReport }> {
+  let subQueries: { query: string; hypotheticalAnswer?: string }[];
+  let error: string | undefined;
+  try {
+    subQueries = await expandQuery(question, config);
+  } catch (expansionError) {
+    console.error('❌ Query expansion failed, searching the whole question:', expansionError);
+    error = expansionError instanceof Error ? expansionError.message : 'Unknown error';
+    subQueries = [];
+  }
+  if (subQueries.length === 0) {
+    subQueries = [{ query: question }];
+  }
+
+  // Every sub-query and hypothetical answer is searched at once
+  const searches = await Promise.all(subQueries.map(subQuery => Promise.all([
+    getRelevantContentChunks(subQuery.query, maxResults, scope),
+    subQuery.hypotheticalAnswer ? getRelevantContentChunks(subQuery.hypotheticalAnswer, maxResults, scope) : Promise.resolve([])
+  ])));
+
+  const chunks = new Map<string, ContentChunk>();
+  const perSubQuery = searches.map(([byQuery, byAnswer]) => {
+    [...byQuery, ...byAnswer].forEach(chunk => {
+      const known = chunks.get(chunk.id);
+      if (!known || chunk.similarity > known.similarity) chunks.set(chunk.id, chunk);
+    });
+    return reciprocalRankFusion([
+      { ids: byQuery.map(chunk => chunk.id), weight: 1 },
+      { ids: byAnswer.map(chunk => chunk.id), weight: 1 }
+    ]).map(fused => fused.id);
+  });
+
+  // Sub-queries take turns, each adding its best chunk not taken yet
+  const merged: ContentChunk[] = [];
+  const taken = new Set<string>();
+  for (let rank = 0; merged.length < maxResults && perSubQuery.some(ids => rank < ids.length); rank++) {
+    perSubQuery.forEach(ids => {
+      const id = ids[rank];
+      if (id && !taken.has(id) && merged.length < maxResults) {
+        taken.add(id);
+        merged.push(chunks.get(id)!);
+      }
+    });
+  }
+
+  const report: QueryExpansionReport = {
+    subQueries: subQueries.map((subQuery, index) => {
+      const found = [...searches[index][0], ...searches[index][1]];
+      const topSimilarity = found.reduce((best, chunk) => Math.max(best, chunk.similarity), 0);
+      return {
+        ...subQuery,
+        chunkCount: new Set(found.map(chunk => chunk.id)).size,
+        topSimilarity,
+        covered: topSimilarity >= COVERAGE_SIMILARITY
+      };
+    }),
+    ...(error ? { error } : {})
+  };
+
+  const uncovered = report.subQueries.filter(subQuery => !subQuery.covered).length;
+  console.log(`🧩 Multi-query retrieval: ${subQueries.length} sub-queries, ${merged.length} chunks merged, ${uncovered} without sources`);
+  return { chunks: merged, report };
+}
+
+/**
+ * "3 of 4 parts of the question have sources. Missing: key rotation"
+ */
+export function summarizeCoverage(report: QueryExpansionReport): string {
+  const covered = report.subQueries.filter(subQuery => subQuery.covered).length;
+  const missing = report.subQueries.filter(subQuery => !subQuery.covered).map(subQuery => subQuery.query);
+  const summary = `${covered} of ${report.subQueries.length} parts of the question have sources`;
+  return missing.length > 0 ? `${summary}. Missing: ${missing.join('; ')}` : summary;
+}
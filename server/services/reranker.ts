@@ -0,0 +1,199 @@
+/**
+ * Reranker
+ * Optional stage between retrieval and drafting. Retrieval over-fetches candidates, a reranker
+ * scores each one against the question, and the best topK go on to the model. Rerankers:
+ *   llm            - one chat call rates every passage 0-10 with a one-line reason
+ *   cross-encoder  - a local cross-encoder served with the text-embeddings-inference /rerank API
+ *                    at RERANKER_URL
+ *   mock           - share of the question's words a passage contains; deterministic, for tests
+ * The step's rerank.reranker picks one, then the RERANKER variable, then llm. If reranking
+ * fails the chunks keep their retrieval order, so a reranker outage doesn't fail the draft.
+ */
+
+import type { StepOutputSchema, StepRerankConfig } from '@shared/schema';
+import { chatCompletion } from './llmProvider';
+import { parseStructuredOutput } from './structuredOutput';
+
+export type RerankerName = NonNullable<StepRerankConfig['reranker']>;
+
+export interface RerankCandidate {
+  id: string;
+  text: string;
+}
+
+export interface RerankScore {
+  id: string;
+  score: number;   // 0-1, higher is more relevant
+  reason?: string;
+}
+
+export interface Reranker {
+  readonly name: RerankerName;
+  score(query: string, candidates: RerankCandidate[], options: { model?: string }): Promise<RerankScore[]>;
+}
+
+// Why each candidate did or didn't make the cut; kept in the draft step's metadata
+export interface RerankTrace {
+  reranker: RerankerName;
+  candidates: number;
+  topK: number;
+  error?: string; // Set when reranking failed and retrieval order was kept
+  chunks: {
+    chunkId: string;
+    source: string;
+    retrievalRank: number;
+    similarity: number;
+    rerankScore: number | null;
+    reason?: string;
+    selected: boolean;
+  }[];
+}
+
+export const DEFAULT_RERANK_CANDIDATES = 50;
+export const DEFAULT_RERANK_TOP_K = 15;
+const DEFAULT_RERANK_MODEL = 'gpt-4o-mini';
+const MAX_PASSAGE_CHARS = 800;
+
+const RELEVANCE_SCHEMA: StepOutputSchema = {
+  type: 'object',
+  properties: {
+    scores: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          passage: { type: 'integer', description: 'Number of the passage' },
+          relevance: { type: 'integer', minimum: 0, maximum: 10 },
+          reason: { type: 'string', description: 'A few words on what the passage does or does not answer' }
+        },
+        required: ['passage', 'relevance', 'reason']
+      }
+    }
+  },
+  required: ['scores']
+};
+
+class LLMReranker implements Reranker {
+  readonly name = 'llm';
+
+  async score(query: string, candidates: RerankCandidate[], options: { model?: string }): Promise<RerankScore[]> {
+    const passages = candidates
+      .map((candidate, index) => `Passage ${index + 1}: ${candidate.text.slice(0, MAX_PASSAGE_CHARS)}`)
+      .join('\n\n');
+
+    const response = await chatCompletion({
+      model: options.model || DEFAULT_RERANK_MODEL,
+      messages: [
+        { role: 'system', content: 'You rank reference passages for answering an RFP question. Rate every passage from 0 (irrelevant) to 10 (directly answers the question with specifics).' },
+        { role: 'user', content: `Question: ${query}\n\n${passages}` }
+      ],
+      maxTokens: 4000,
+      temperature: 0,
+      outputSchema: RELEVANCE_SCHEMA
+    });
+
+    const parsed = parseStructuredOutput(RELEVANCE_SCHEMA, response.content);
+    if (!parsed.data) {
+      throw new Error(parsed.error);
+    }
+    const scores = new Map((parsed.data.scores as { passage: number; relevance: number; reason: string }[])
+      .map(score => [score.passage, score]));
+
+    // A passage the model skipped counts as irrelevant
+    return candidates.map((candidate, index) => {
+      const rated = scores.get(index + 1);
+      return { id: candidate.id, score: rated ? rated.relevance / 10 : 0, reason: rated?.reason || 'Not rated' };
+    });
+  }
+}
+
+class CrossEncoderReranker implements Reranker {
+  readonly name = 'cross-encoder';
+
+  async score(query: string, candidates: RerankCandidate[]): Promise<RerankScore[]> {
+    const baseUrl = process.env.RERANKER_URL || 'http://localhost:8080';
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}/rerank`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query, texts: candidates.map(candidate => candidate.text), truncate: true })
+    });
+    if (!response.ok) {
+      throw new Error(`Cross-encoder returned ${response.status}: ${await response.text()}`);
+    }
+
+    const results = await response.json() as { index: number; score: number }[];
+    const scores = new Map(results.map(result => [result.index, result.score]));
+    return candidates.map((candidate, index) => ({ id: candidate.id, score: scores.get(index) ?? 0 }));
+  }
+}
+
+class MockReranker implements Reranker {
+  readonly name = 'mock';
+
+  async score(query: string, candidates: RerankCandidate[]): Promise<RerankScore[]> {
+    const words = (text: string) => new Set((text.toLowerCase().match(/[a-z0-9]+/g) || []).filter(word => word.length >= 3));
+    const queryWords = words(query);
+    return candidates.map(candidate => {
+      const passageWords = words(candidate.text);
+      const shared = Array.from(queryWords).filter(word => passageWords.has(word)).length;
+      return { id: candidate.id, score: queryWords.size > 0 ? shared / queryWords.size : 0 };
+    });
+  }
+}
+
+export function createReranker(name: string = process.env.RERANKER || 'llm'): Reranker {
+  switch (name) {
+    case 'llm':
+      return new LLMReranker();
+    case 'cross-encoder':
+      return new CrossEncoderReranker();
+    case 'mock':
+      return new MockReranker();
+    default:
+      throw new Error(`Unknown reranker "${name}" (expected llm, cross-encoder or mock)`);
+  }
+}
+
+/**
+ * Rerank retrieved chunks and keep the topK. Chunks come in retrieval order; the ones kept
+ * carry their rerank score.
+ */
+export async function rerankChunks<T extends { id: string; text: string; similarity: number; source: string }>(
+  query: string,
+  chunks: T[],
+  config: StepRerankConfig
+): Promise<{ chunks: (T & { rerankScore: number | null })[]; trace: RerankTrace }> {
+  const reranker = createReranker(config.reranker);
+  const topK = config.topK || DEFAULT_RERANK_TOP_K;
+  const trace: RerankTrace = { reranker: reranker.name, candidates: chunks.length, topK, chunks: [] };
+
+  let scores: Map<string, RerankScore>;
+  try {
+    const results = await reranker.score(query, chunks.map(chunk => ({ id: chunk.id, text: chunk.text })), { model: config.model });
+    scores = new Map(results.map(result => [result.id, result]));
+  } catch (error) {
+    console.error(`❌ ${reranker.name} reranking failed, keeping retrieval order:`, error);
+    trace.error = error instanceof Error ? error.message : 'Unknown error';
+    scores = new Map();
+  }
+
+  // Stable sort: ties, and everything after a failure, keep retrieval order
+  const ranked = chunks
+    .map((chunk, index) => ({ chunk, retrievalRank: index + 1, scored: scores.get(chunk.id) }))
+    .sort((a, b) => (b.scored?.score ?? -1) - (a.scored?.score ?? -1));
+
+  trace.chunks = ranked.map(({ chunk, retrievalRank, scored }, index) => ({
+    chunkId: chunk.id,
+    source: chunk.source,
+    retrievalRank,
+    similarity: chunk.similarity,
+    rerankScore: scored?.score ?? null,
+    ...(scored?.reason ? { reason: scored.reason } : {}),
+    selected: index < topK
+  }));
+
+  return {
+    chunks: ranked.slice(0, topK).map(({ chunk, scored }) => ({ ...chunk, rerankScore: scored?.score ?? null })),
+    trace
+  };
+}
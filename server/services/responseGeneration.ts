@@ -6,6 +6,8 @@
 import { storage } from '../storage';
 import { embeddingsService } from './embeddings';
 import { openaiService } from './openai';
+import { renderTemplate } from './templateEngine';
+import { chatCompletion } from './llmProvider';
 
 interface CachedResponse {
   fromCache: boolean;
@@ -75,94 +77,23 @@ export class ResponseGenerationService {
     rowData: any
   ): Promise<CachedResponse> {
     
-    // Replace placeholders in the original OpenAI service way
-    const processedSystemPrompt = this.replacePlaceholders(agent.systemPrompt, rowData);
-    const processedUserPrompt = this.replacePlaceholders(agent.userPrompt, rowData);
+    const processedSystemPrompt = renderTemplate(agent.systemPrompt, rowData);
+    const processedUserPrompt = renderTemplate(agent.userPrompt, rowData);
     
     const startTime = Date.now();
     
     try {
-      // Create OpenAI instance directly since we can't access openaiService.openai
-      const OpenAI = (await import('openai')).default;
-      const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-      
-      // Helper function to determine correct token parameter based on model
-      const getTokensParam = (model: string, maxTokens: number) => {
-        // o3 and gpt-5 models require max_completion_tokens instead of max_tokens
-        if (model.startsWith('o3') || model.startsWith('gpt-5')) {
-          return { max_completion_tokens: maxTokens };
-        }
-        return { max_tokens: maxTokens };
-      };
-
-      const tokensParam = getTokensParam(agent.model, agent.maxTokens || 2000);
-
-      // Build request parameters - gpt-5 and o3 models don't support temperature
-      const requestParams: any = {
+      const response = await chatCompletion({
         model: agent.model,
         messages: [
           { role: "system", content: processedSystemPrompt },
           { role: "user", content: processedUserPrompt }
         ],
-        ...tokensParam,
-      };
-
-      // Only add temperature for models that support it
-      if (!agent.model.startsWith('o3') && !agent.model.startsWith('gpt-5')) {
-        requestParams.temperature = agent.temperature || 0.3;
-      }
-
-      // GPT-5 specific parameters
-      if (agent.model.startsWith('gpt-5')) {
-        requestParams.reasoning_effort = 'medium'; // Options: minimal, low, medium, high
-      }
-
-      const response = await openai.chat.completions.create(requestParams);
-
-      // EXTENSIVE DEBUG LOGGING FOR GPT-5 (responseGeneration)
-      if (agent.model.startsWith('gpt-5')) {
-        console.log(`\n🔵🔵🔵 GPT-5 RESPONSE GEN DEBUG 🔵🔵🔵`);
-        console.log(`FULL RESPONSE:`);
-        console.log(JSON.stringify(response, null, 2));
-        console.log(`🔵🔵🔵 END RESPONSE GEN DEBUG 🔵🔵🔵\n`);
-      }
-
-      // Extract content - GPT-5 might use different field names
-      let output = '';
-      if (agent.model.startsWith('gpt-5')) {
-        console.log(`🟢 EXTRACTING GPT-5 CONTENT (responseGeneration)...`);
-        
-        // Try ALL possible fields
-        const choice = response.choices?.[0] as any;
-        const possibleContents = [
-          choice?.message?.content,
-          choice?.message?.output,
-          choice?.message?.reasoning,
-          choice?.message?.answer,
-          choice?.message?.response,
-          choice?.message?.text,
-          choice?.text,
-          choice?.output,
-          choice?.content,
-          (response as any)?.output,
-          (response as any)?.text,
-          (response as any)?.content
-        ];
-        
-        for (let i = 0; i < possibleContents.length; i++) {
-          if (possibleContents[i]) {
-            output = possibleContents[i];
-            console.log(`✅ FOUND at index ${i}: ${output.substring(0, 100)}...`);
-            break;
-          }
-        }
-        
-        if (!output) {
-          console.log(`❌ NO CONTENT FOUND!`);
-        }
-      } else {
-        output = response.choices[0]?.message?.content || '';
-      }
+        maxTokens: agent.maxTokens || 2000,
+        temperature: agent.temperature || 0.3,
+        reasoningEffort: 'medium'
+      });
+      const output = response.content;
       const latency = Date.now() - startTime;
 
       console.log(`✅ Generated new response in ${latency}ms`);
@@ -239,21 +170,6 @@ export class ResponseGenerationService {
     
     return [...urls, ...titles].join(' | ').substring(0, 500);
   }
-
-  private replacePlaceholders(template: string, data: Record<string, any>): string {
-    let result = template;
-    
-    // Handle special placeholder for first column
-    const firstColumnKey = Object.keys(data)[0];
-    if (firstColumnKey) {
-      result = result.replace(/\{\{FIRST_COLUMN\}\}/g, String(data[firstColumnKey] || ''));
-    }
-    
-    // Replace placeholders like {{ColumnName}} with actual values
-    return result.replace(/\{\{(\w+)\}\}/g, (match, key) => {
-      return data[key] || match;
-    });
-  }
 }
 
 export const responseGenerationService = new ResponseGenerationService();
\ No newline at end of file
@@ -0,0 +1,50 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { classifyError, resolveRetryPolicy, shouldRetry, getBackoffDelay, DEFAULT_RETRY_POLICY } from './retryPolicy';
+
+test('classifies errors by HTTP status, error code and message', () => {
+  assert.equal(classifyError({ status: 429 }), 'rate_limit');
+  assert.equal(classifyError({ status: 503 }), 'server_error');
+  assert.equal(classifyError({ status: 400 }), 'client_error');
+  assert.equal(classifyError({ code: 'ETIMEDOUT' }), 'timeout');
+  assert.equal(classifyError({ name: 'APIConnectionError' }), 'server_error');
+  assert.equal(classifyError(new Error('429 Rate limit reached for gpt-4o')), 'rate_limit');
+  assert.equal(classifyError('Request timed out'), 'timeout');
+  assert.equal(classifyError(new Error('502 Bad Gateway')), 'server_error');
+  assert.equal(classifyError(new Error('Model returned empty output')), 'empty_output');
+  assert.equal(classifyError(new Error('Something odd')), 'unknown');
+  assert.equal(classifyError(null), 'unknown');
+});
+
+test('partial policies merge over the defaults and are clamped', () => {
+  assert.deepEqual(resolveRetryPolicy(undefined), DEFAULT_RETRY_POLICY);
+  const policy = resolveRetryPolicy({ maxAttempts: 50, initialDelayMs: -5, backoffMultiplier: 0.5 });
+  assert.equal(policy.maxAttempts, 10);
+  assert.equal(policy.initialDelayMs, 0);
+  assert.equal(policy.backoffMultiplier, 1);
+  assert.deepEqual(policy.retryOn, DEFAULT_RETRY_POLICY.retryOn);
+});
+
+test('retries only listed error classes while attempts remain', () => {
+  const policy = resolveRetryPolicy({ maxAttempts: 3 });
+  assert.equal(shouldRetry(policy, 'rate_limit', 1), true);
+  assert.equal(shouldRetry(policy, 'rate_limit', 3), false);
+  assert.equal(shouldRetry(policy, 'client_error', 1), false);
+});
+
+test('backoff grows exponentially with equal jitter and stays under the cap', () => {
+  const policy = resolveRetryPolicy({ initialDelayMs: 1000, backoffMultiplier: 2, maxDelayMs: 3000 });
+  for (let i = 0; i < 50; i++) {
+    const first = getBackoffDelay(policy, 1);
+    assert.ok(first >= 500 && first <= 1000, `first retry waited ${first}ms`);
+    const capped = getBackoffDelay(policy, 5);
+    assert.ok(capped >= 1500 && capped <= 3000, `capped retry waited ${capped}ms`);
+  }
+});
+
+test('rate limits wait at least the initial delay', () => {
+  const policy = resolveRetryPolicy({ initialDelayMs: 1000, backoffMultiplier: 1 });
+  for (let i = 0; i < 50; i++) {
+    assert.ok(getBackoffDelay(policy, 1, 'rate_limit') >= 1000);
+  }
+});
@@ -0,0 +1,126 @@
+/**
+ * Retry policy and error classification for pipeline steps.
+ * A single transient failure (rate limit, timeout, 5xx) should be retried
+ * with backoff instead of failing the whole job.
+ */
+
+export type ErrorClass =
+  | 'rate_limit'
+  | 'timeout'
+  | 'server_error'
+  | 'empty_output'
+  | 'invalid_output' // Answer didn't match the step's output schema
+  | 'client_error'
+  | 'unknown';
+
+export interface RetryPolicy {
+  maxAttempts: number;       // Total attempts including the first call
+  initialDelayMs: number;    // Delay before the first retry
+  maxDelayMs: number;        // Upper bound for any single delay
+  backoffMultiplier: number; // Delay growth factor per attempt
+  retryOn: ErrorClass[];     // Error classes that are worth retrying
+}
+
+export interface StepAttempt {
+  attempt: number;
+  startedAt: string;
+  latency: number;
+  status: 'completed' | 'error';
+  errorClass?: ErrorClass;
+  errorMessage?: string;
+  retryDelayMs?: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  initialDelayMs: 2000,
+  maxDelayMs: 60000,
+  backoffMultiplier: 2,
+  retryOn: ['rate_limit', 'timeout', 'server_error', 'empty_output', 'invalid_output']
+};
+
+const MAX_ATTEMPTS_LIMIT = 10;
+
+/**
+ * Merge a step's (possibly partial) policy over the defaults and clamp it to sane bounds
+ */
+export function resolveRetryPolicy(policy?: Partial<RetryPolicy> | null): RetryPolicy {
+  const merged = { ...DEFAULT_RETRY_POLICY, ...(policy || {}) };
+  return {
+    maxAttempts: Math.max(1, Math.min(Math.floor(merged.maxAttempts), MAX_ATTEMPTS_LIMIT)),
+    initialDelayMs: Math.max(0, merged.initialDelayMs),
+    maxDelayMs: Math.max(0, merged.maxDelayMs),
+    backoffMultiplier: Math.max(1, merged.backoffMultiplier),
+    retryOn: Array.isArray(merged.retryOn) ? merged.retryOn : DEFAULT_RETRY_POLICY.retryOn
+  };
+}
+
+/**
+ * Classify an error thrown by the OpenAI SDK (or the message string it left behind)
+ */
+export function classifyError(error: unknown): ErrorClass {
+  if (!error) return 'unknown';
+
+  if (typeof error === 'object') {
+    const err = error as { status?: number; code?: string; name?: string; message?: string };
+
+    if (typeof err.status === 'number') {
+      if (err.status === 429) return 'rate_limit';
+      if (err.status === 408) return 'timeout';
+      if (err.status >= 500) return 'server_error';
+      if (err.status >= 400) return 'client_error';
+    }
+
+    if (err.name === 'APIConnectionTimeoutError' || err.code === 'ETIMEDOUT' || err.code === 'ECONNABORTED') {
+      return 'timeout';
+    }
+    if (err.name === 'APIConnectionError' || err.code === 'ECONNRESET' || err.code === 'ECONNREFUSED') {
+      return 'server_error';
+    }
+
+    return classifyMessage(err.message || '');
+  }
+
+  return classifyMessage(String(error));
+}
+
+// OpenAI SDK messages start with the HTTP status, e.g. "429 Rate limit reached for ..."
+function classifyMessage(message: string): ErrorClass {
+  const text = message.toLowerCase();
+
+  if (/^429\b/.test(text) || text.includes('rate limit') || text.includes('too many requests')) {
+    return 'rate_limit';
+  }
+  if (text.includes('timeout') || text.includes('timed out') || /^408\b/.test(text)) {
+    return 'timeout';
+  }
+  if (/^5\d\d\b/.test(text) || text.includes('internal server error') || text.includes('bad gateway') ||
+      text.includes('service unavailable') || text.includes('connection error') || text.includes('overloaded')) {
+    return 'server_error';
+  }
+  if (/^4\d\d\b/.test(text)) {
+    return 'client_error';
+  }
+  if (text.includes('empty output') || text.includes('no output')) {
+    return 'empty_output';
+  }
+  return 'unknown';
+}
+
+export function shouldRetry(policy: RetryPolicy, errorClass: ErrorClass, attempt: number): boolean {
+  return attempt < policy.maxAttempts && policy.retryOn.includes(errorClass);
+}
+
+/**
+ * Exponential backoff with equal jitter (half the delay fixed, half random); rate limits wait at least the initial delay
+ */
+export function getBackoffDelay(policy: RetryPolicy, attempt: number, errorClass?: ErrorClass): number {
+  const exponential = policy.initialDelayMs * Math.pow(policy.backoffMultiplier, attempt - 1);
+  const capped = Math.min(exponential, policy.maxDelayMs);
+  const jittered = Math.round(capped / 2 + Math.random() * (capped / 2));
+  return errorClass === 'rate_limit' ? Math.max(jittered, policy.initialDelayMs) : jittered;
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
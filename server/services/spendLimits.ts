@@ -0,0 +1,153 @@
+/**
+ * Spend Limits
+ * Admin-set caps on what a user may spend per calendar month and what a single job may spend,
+ * measured from the usage_records ledger. The job processor checks them before every step and
+ * pauses the job once one is reached; steps already running finish, so spend can overshoot a
+ * cap by at most the steps in flight. Comparisons check the monthly cap before every row and
+ * playground runs before they start.
+ */
+
+import { storage } from '../storage';
+import type { Job, SpendLimit, SpendLimitScope, UsageSource } from '@shared/schema';
+
+export interface ExceededSpendLimit {
+  scope: SpendLimitScope;
+  limit: number;
+  spent: number;
+}
+
+export interface JobBudget {
+  monthly: { limit: number | null; spent: number };
+  job: { limit: number | null; spent: number };
+  exceeded: ExceededSpendLimit | null;
+}
+
+export interface RemainingCostEstimate {
+  remainingRows: number;
+  completedRows: number;
+  avgRowCost: number | null;     // Averaged over the job's completed rows
+  estimatedCost: number | null;  // null until at least one row has completed
+}
+
+// What a job's own processing spends; comparisons and playground runs only count toward the monthly cap
+const JOB_SPEND_SOURCES: UsageSource[] = ['step', 'context', 'feedback'];
+
+const LIMIT_CACHE_TTL_MS = 30000;
+
+export function startOfMonth(date: Date = new Date()): Date {
+  return new Date(date.getFullYear(), date.getMonth(), 1);
+}
+
+export function formatSpendLimitMessage(exceeded: ExceededSpendLimit): string {
+  const spent = `$${exceeded.spent.toFixed(2)}`;
+  const limit = `$${exceeded.limit.toFixed(2)}`;
+  return exceeded.scope === 'job'
+    ? `This job reached its spend limit of ${limit} (${spent} spent). Ask an admin to raise the limit to resume.`
+    : `The monthly spend limit of ${limit} was reached (${spent} spent this month). Ask an admin to raise the limit to resume.`;
+}
+
+class SpendLimitService {
+  private cache: { limits: SpendLimit[]; loadedAt: number } | null = null;
+
+  async getLimits(): Promise<SpendLimit[]> {
+    if (this.cache && Date.now() - this.cache.loadedAt < LIMIT_CACHE_TTL_MS) {
+      return this.cache.limits;
+    }
+    const limits = await storage.getSpendLimits();
+    this.cache = { limits, loadedAt: Date.now() };
+    return limits;
+  }
+
+  invalidate(): void {
+    this.cache = null;
+  }
+
+  /**
+   * The most specific limit that applies: job, then user, then the default for everyone
+   */
+  private resolveLimit(limits: SpendLimit[], scope: SpendLimitScope, userId: string, jobId?: string): SpendLimit | undefined {
+    const candidates = limits.filter(limit => limit.scope === scope);
+    return (jobId ? candidates.find(limit => limit.jobId === jobId) : undefined)
+      || candidates.find(limit => !limit.jobId && limit.userId === userId)
+      || candidates.find(limit => !limit.jobId && !limit.userId);
+  }
+
+  private async getMonthlySpend(userId: string): Promise<number> {
+    const [totals] = await storage.getUsageTotals({ userId, from: startOfMonth() });
+    return totals?.cost || 0;
+  }
+
+  private async getJobSpend(jobId: string): Promise<number> {
+    const [totals] = await storage.getUsageTotals({ jobId, sources: JOB_SPEND_SOURCES });
+    return totals?.cost || 0;
+  }
+
+  /**
+   * The first cap the user or job has reached, or null. Without a jobId only the monthly cap is
+   * checked. Only queries spend for caps that exist.
+   */
+  async checkLimits(userId: string, jobId?: string): Promise<ExceededSpendLimit | null> {
+    const limits = await this.getLimits();
+
+    const jobLimit = jobId ? this.resolveLimit(limits, 'job', userId, jobId) : undefined;
+    if (jobId && jobLimit) {
+      const spent = await this.getJobSpend(jobId);
+      if (spent >= jobLimit.amount) {
+        return { scope: 'job', limit: jobLimit.amount, spent };
+      }
+    }
+
+    const monthlyLimit = this.resolveLimit(limits, 'user_monthly', userId);
+    if (monthlyLimit) {
+      const spent = await this.getMonthlySpend(userId);
+      if (spent >= monthlyLimit.amount) {
+        return { scope: 'user_monthly', limit: monthlyLimit.amount, spent };
+      }
+    }
+
+    return null;
+  }
+
+  async getJobBudget(job: Job): Promise<JobBudget> {
+    const limits = await this.getLimits();
+    const monthlyLimit = this.resolveLimit(limits, 'user_monthly', job.userId);
+    const jobLimit = this.resolveLimit(limits, 'job', job.userId, job.id);
+    const [monthlySpent, jobSpent] = await Promise.all([this.getMonthlySpend(job.userId), this.getJobSpend(job.id)]);
+
+    let exceeded: ExceededSpendLimit | null = null;
+    if (jobLimit && jobSpent >= jobLimit.amount) {
+      exceeded = { scope: 'job', limit: jobLimit.amount, spent: jobSpent };
+    } else if (monthlyLimit && monthlySpent >= monthlyLimit.amount) {
+      exceeded = { scope: 'user_monthly', limit: monthlyLimit.amount, spent: monthlySpent };
+    }
+
+    return {
+      monthly: { limit: monthlyLimit?.amount ?? null, spent: monthlySpent },
+      job: { limit: jobLimit?.amount ?? null, spent: jobSpent },
+      exceeded
+    };
+  }
+
+  /**
+   * Cost of the rows still to process, extrapolated from what the job's completed rows cost
+   */
+  async estimateRemainingCost(job: Job): Promise<RemainingCostEstimate> {
+    const rows = await storage.getCsvData(job.id);
+    const completedRows = new Set(rows.filter(row => row.status === 'completed').map(row => String(row.rowIndex)));
+    const remainingRows = rows.filter(row => row.status !== 'completed' && !(row.status === 'failed' && job.continueOnRowFailure)).length;
+
+    const rowCosts = (await storage.getUsageTotals({ jobId: job.id, sources: JOB_SPEND_SOURCES }, 'row'))
+      .filter(entry => entry.key !== null && completedRows.has(entry.key))
+      .map(entry => entry.cost);
+
+    const avgRowCost = rowCosts.length > 0 ? rowCosts.reduce((sum, cost) => sum + cost, 0) / rowCosts.length : null;
+    return {
+      remainingRows,
+      completedRows: rowCosts.length,
+      avgRowCost,
+      estimatedCost: avgRowCost === null ? null : avgRowCost * remainingRows
+    };
+  }
+}
+
+export const spendLimitService = new SpendLimitService();
@@ -0,0 +1,95 @@
+/**
+ * Step Executor Registry
+ * Maps a pipeline step's `type` to the code that runs it, so step behaviour no longer
+ * depends on the step's display name. New step kinds register an executor here.
+ */
+
+import type { AgentConfig, ProcessingResult } from './openai';
+
+export type StepType = 'retrieval' | 'draft' | 'tailor' | 'verify' | 'llm';
+
+export interface StepExecutionContext {
+  steps: AgentConfig[]; // Full pipeline, so executors can find earlier outputs by step type
+  onToken?: (token: string) => void; // Set when the caller wants the step's answer streamed as it is written
+}
+
+export interface StepExecutor {
+  type: string;
+  label: string;
+  description: string;
+  variables?: string[]; // Extra template variables this executor provides to its own prompts
+  requires?: string[];  // Step types whose outputs this executor reads, so they must run first
+  structuredOutput?: boolean; // Passes the step's outputSchema to the model, so steps of this type may declare one
+  execute(agent: AgentConfig, rowData: Record<string, any>, context: StepExecutionContext): Promise<ProcessingResult>;
+}
+
+export interface StepTypeInfo {
+  type: string;
+  label: string;
+  description: string;
+  variables: string[];
+  requires: string[];
+  structuredOutput: boolean;
+}
+
+// Pipelines saved before steps had a type were dispatched by name
+const LEGACY_STEP_TYPES: Record<string, StepType> = {
+  'Reference Research': 'retrieval',
+  'Generic Draft Generation': 'draft',
+  'Response Generation': 'draft',
+  'Tailored RFP Response': 'tailor'
+};
+
+export const DEFAULT_STEP_TYPE: StepType = 'llm';
+
+class StepExecutorRegistry {
+  private executors = new Map<string, StepExecutor>();
+
+  register(executor: StepExecutor): void {
+    if (this.executors.has(executor.type)) {
+      console.warn(`⚠️  Step executor "${executor.type}" is already registered, replacing it`);
+    }
+    this.executors.set(executor.type, executor);
+  }
+
+  get(type: string): StepExecutor | undefined {
+    return this.executors.get(type);
+  }
+
+  has(type: string): boolean {
+    return this.executors.has(type);
+  }
+
+  list(): StepTypeInfo[] {
+    return Array.from(this.executors.values()).map(({ type, label, description, variables, requires, structuredOutput }) => ({
+      type,
+      label,
+      description,
+      variables: variables || [],
+      requires: requires || [],
+      structuredOutput: !!structuredOutput
+    }));
+  }
+}
+
+export const stepExecutorRegistry = new StepExecutorRegistry();
+
+/**
+ * The step's explicit type, falling back to the legacy name mapping and then a plain LLM call
+ */
+export function resolveStepType(step: Pick<AgentConfig, 'name' | 'type'>): string {
+  return step.type || LEGACY_STEP_TYPES[step.name] || DEFAULT_STEP_TYPE;
+}
+
+export function findStepByType(steps: AgentConfig[], type: string): AgentConfig | undefined {
+  return steps.find(step => resolveStepType(step) === type);
+}
+
+/**
+ * Output of the first step of the given type, read from the row data under that step's name
+ */
+export function getStepOutputByType(rowData: Record<string, any>, steps: AgentConfig[], type: string): any {
+  const step = findStepByType(steps, type);
+  return step ? rowData[step.name] : undefined;
+}
+
@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseStructuredOutput, structuredOutputColumns, toProviderJsonSchema, withSchemaInstructions } from './structuredOutput';
+import type { StepOutputSchema } from '@shared/schema';
+
+const schema: StepOutputSchema = {
+  type: 'object',
+  properties: {
+    answer: { type: 'string' },
+    compliance: { type: 'string', enum: ['yes', 'partial', 'no'] },
+    confidence: { type: 'number', minimum: 0, maximum: 1 },
+    notes: { type: 'string' }
+  },
+  required: ['answer', 'compliance', 'confidence']
+};
+
+test('parses answers that match the schema, with or without code fences', () => {
+  const json = JSON.stringify({ answer: 'Yes', compliance: 'yes', confidence: 0.9 });
+  assert.deepEqual(parseStructuredOutput(schema, json).data, { answer: 'Yes', compliance: 'yes', confidence: 0.9 });
+  assert.deepEqual(parseStructuredOutput(schema, '```json\n' + json + '\n```').data?.answer, 'Yes');
+});
+
+test('optional fields may be null', () => {
+  const result = parseStructuredOutput(schema, JSON.stringify({ answer: 'Yes', compliance: 'no', confidence: 0, notes: null }));
+  assert.equal(result.error, undefined);
+});
+
+test('rejects invalid JSON and values outside the schema', () => {
+  assert.equal(parseStructuredOutput(schema, 'Yes, we do').error, 'Output is not valid JSON');
+  const result = parseStructuredOutput(schema, JSON.stringify({ answer: 'Yes', compliance: 'maybe', confidence: 2 }));
+  assert.match(result.error || '', /^Output does not match the output schema - /);
+  assert.match(result.error || '', /compliance/);
+  assert.match(result.error || '', /confidence/);
+});
+
+test('provider schemas list every property as required and allow null for optional ones', () => {
+  const provider = toProviderJsonSchema(schema) as any;
+  assert.deepEqual(provider.required, ['answer', 'compliance', 'confidence', 'notes']);
+  assert.equal(provider.additionalProperties, false);
+  assert.deepEqual(provider.properties.notes, { anyOf: [{ type: 'string' }, { type: 'null' }] });
+  assert.deepEqual(provider.properties.confidence, { type: 'number', description: 'minimum 0, maximum 1' });
+});
+
+test('schema instructions are appended to the system prompt', () => {
+  const messages = withSchemaInstructions([{ role: 'system', content: 'Be brief' }, { role: 'user', content: 'Q' }], schema);
+  assert.equal(messages.length, 2);
+  assert.match(messages[0].content, /^Be brief\n\nRespond with a single JSON object/);
+});
+
+test('each top-level field becomes a Step.field column', () => {
+  assert.deepEqual(structuredOutputColumns('Classify', schema, { answer: 'Yes', compliance: 'yes', confidence: 1 }), {
+    'Classify.answer': 'Yes',
+    'Classify.compliance': 'yes',
+    'Classify.confidence': 1,
+    'Classify.notes': null
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Structured Output
+ * A step with an outputSchema must answer with a JSON object of that shape. The provider is asked
+ * to enforce it (structured outputs where the model supports them, JSON mode plus instructions
+ * otherwise), the answer is then checked with a zod schema built from the same definition, and
+ * each top-level field is stored as its own "<Step>.<field>" column next to the raw answer.
+ */
+
+import { z } from 'zod';
+import type { OutputSchemaNode, StepOutputSchema } from '@shared/schema';
+import type { ChatMessage } from './llmProvider';
+
+export type StructuredParseResult =
+  | { data: Record<string, unknown>; error?: undefined }
+  | { data?: undefined; error: string };
+
+function toZod(node: OutputSchemaNode): z.ZodTypeAny {
+  switch (node.type) {
+    case 'string':
+      return node.enum ? z.enum(node.enum as [string, ...string[]]) : z.string();
+    case 'number':
+    case 'integer': {
+      let schema = node.type === 'integer' ? z.number().int() : z.number();
+      if (node.minimum !== undefined) schema = schema.min(node.minimum);
+      if (node.maximum !== undefined) schema = schema.max(node.maximum);
+      return schema;
+    }
+    case 'boolean':
+      return z.boolean();
+    case 'array':
+      return z.array(toZod(node.items));
+    case 'object': {
+      const required = new Set(node.required || []);
+      return z.object(Object.fromEntries(Object.entries(node.properties).map(([name, property]) => [
+        name,
+        required.has(name) ? toZod(property) : toZod(property).nullable().optional()
+      ])));
+    }
+  }
+}
+
+export function toZodSchema(schema: StepOutputSchema): z.ZodTypeAny {
+  return toZod(schema);
+}
+
+/**
+ * The schema in the form OpenAI's strict structured outputs accept: every property is listed as
+ * required (optional ones may be null instead), no extra properties, and bounds the API rejects
+ * are moved into the description.
+ */
+export function toProviderJsonSchema(node: OutputSchemaNode): Record<string, unknown> {
+  switch (node.type) {
+    case 'number':
+    case 'integer': {
+      const bounds = [
+        node.minimum !== undefined ? `minimum ${node.minimum}` : '',
+        node.maximum !== undefined ? `maximum ${node.maximum}` : ''
+      ].filter(Boolean).join(', ');
+      const description = [node.description, bounds].filter(Boolean).join(' ');
+      return { type: node.type, ...(description ? { description } : {}) };
+    }
+    case 'array':
+      return { type: 'array', ...(node.description ? { description: node.description } : {}), items: toProviderJsonSchema(node.items) };
+    case 'object': {
+      const required = new Set(node.required || []);
+      return {
+        type: 'object',
+        ...(node.description ? { description: node.description } : {}),
+        properties: Object.fromEntries(Object.entries(node.properties).map(([name, property]) => [
+          name,
+          required.has(name) ? toProviderJsonSchema(property) : { anyOf: [toProviderJsonSchema(property), { type: 'null' }] }
+        ])),
+        required: Object.keys(node.properties),
+        additionalProperties: false
+      };
+    }
+    default:
+      return { ...node };
+  }
+}
+
+/**
+ * For models without structured outputs, the schema goes into the system prompt instead
+ */
+export function withSchemaInstructions(messages: ChatMessage[], schema: StepOutputSchema): ChatMessage[] {
+  const instructions = `Respond with a single JSON object and nothing else. It must match this JSON schema:\n${JSON.stringify(schema, null, 2)}`;
+  const [first, ...rest] = messages;
+  return first?.role === 'system'
+    ? [{ role: 'system', content: `${first.content}\n\n${instructions}` }, ...rest]
+    : [{ role: 'system', content: instructions }, ...messages];
+}
+
+/**
+ * Parse a model's answer and check it against the schema. Code fences around the JSON are
+ * tolerated since models without JSON mode often add them.
+ */
+export function parseStructuredOutput(schema: StepOutputSchema, output: string): StructuredParseResult {
+  const text = output.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { error: 'Output is not valid JSON' };
+  }
+
+  const validation = toZodSchema(schema).safeParse(parsed);
+  if (!validation.success) {
+    const issues = validation.error.issues
+      .slice(0, 3)
+      .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    return { error: `Output does not match the output schema - ${issues}` };
+  }
+  return { data: validation.data };
+}
+
+/**
+ * One column per top-level field, named "<Step>.<field>" so templates can read them as
+ * {{Step.field}}. Missing optional fields still get their column, left empty.
+ */
+export function structuredOutputColumns(stepName: string, schema: StepOutputSchema, data: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.keys(schema.properties).map(field => [`${stepName}.${field}`, data[field] ?? null]));
+}
@@ -4,9 +4,9 @@
  * Incorporates RFP instructions and additional documents
  */
 
-import OpenAI from "openai";
-
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+import { renderTemplate } from "./templateEngine";
+import { chatCompletion } from "./llmProvider";
+import { KEEP_CITATIONS_INSTRUCTIONS } from "./citations";
 
 interface TailoredResponseConfig {
   question: string;
@@ -15,6 +15,9 @@ interface TailoredResponseConfig {
   rfpInstructions?: string;
   additionalDocuments?: Array<{fileName: string, content: string}>;
   agent: any;
+  rowData?: Record<string, any>; // Full row data for template variables such as PREVIOUS_CONTEXT
+  keepCitations?: boolean; // The draft cites references as [N] and the response should keep them
+  onToken?: (token: string) => void; // Streams the response as it is written
 }
 
 interface TailoredResponseResult {
@@ -39,102 +42,33 @@ export class TailoredResponseService {
       // Prepare the context with all available information
       const context = this.prepareContext(config);
       
-      // Replace placeholders in the agent's prompts
-      const systemPrompt = this.replacePlaceholders(config.agent.systemPrompt, {
+      // Render the agent's prompts against the full row so every pipeline variable is available
+      const templateData = {
+        ...(config.rowData || {}),
         RFP_INSTRUCTIONS: config.rfpInstructions || '',
         ADDITIONAL_DOCUMENTS: this.formatAdditionalDocuments(config.additionalDocuments),
         FIRST_COLUMN: config.question,
         'Generic Draft Generation': config.genericDraft,
         'Reference Research': config.references
-      });
-
-      const userPrompt = this.replacePlaceholders(config.agent.userPrompt, {
-        RFP_INSTRUCTIONS: config.rfpInstructions || '',
-        ADDITIONAL_DOCUMENTS: this.formatAdditionalDocuments(config.additionalDocuments),
-        FIRST_COLUMN: config.question,
-        'Generic Draft Generation': config.genericDraft,
-        'Reference Research': config.references
-      });
-
-      console.log(`🚀 Using ${config.agent.model} with ${config.additionalDocuments?.length || 0} additional documents`);
-
-      // Helper function to determine correct token parameter based on model
-      const getTokensParam = (model: string, maxTokens: number) => {
-        // o3 and gpt-5 models require max_completion_tokens instead of max_tokens
-        if (model.startsWith('o3') || model.startsWith('gpt-5')) {
-          return { max_completion_tokens: maxTokens };
-        }
-        return { max_tokens: maxTokens };
       };
+      const systemPrompt = renderTemplate(config.agent.systemPrompt, templateData)
+        + (config.keepCitations ? `\n\n${KEEP_CITATIONS_INSTRUCTIONS}` : '');
+      const userPrompt = renderTemplate(config.agent.userPrompt, templateData);
 
-      const tokensParam = getTokensParam(config.agent.model, config.agent.maxTokens || 3000);
+      console.log(`🚀 Using ${config.agent.model} with ${config.additionalDocuments?.length || 0} additional documents`);
 
-      // Prepare request parameters - o3 models don't support temperature parameter
-      const requestParams: any = {
+      const response = await chatCompletion({
         model: config.agent.model,
         messages: [
           { role: "system", content: systemPrompt },
           { role: "user", content: userPrompt }
         ],
-        ...tokensParam,
-      };
-
-      // Only add temperature for non-o3 and non-gpt-5 models
-      if (!config.agent.model.startsWith('o3') && !config.agent.model.startsWith('gpt-5')) {
-        requestParams.temperature = config.agent.temperature || 0.4;
-      }
-
-      // GPT-5 specific parameters
-      if (config.agent.model.startsWith('gpt-5')) {
-        requestParams.reasoning_effort = 'medium'; // Options: minimal, low, medium, high
-      }
-
-      const response = await openai.chat.completions.create(requestParams);
-
-      // EXTENSIVE DEBUG LOGGING FOR GPT-5 (tailoredResponse)
-      if (config.agent.model.startsWith('gpt-5')) {
-        console.log(`\n🟣🟣🟣 GPT-5 TAILORED RESPONSE DEBUG 🟣🟣🟣`);
-        console.log(`FULL RESPONSE:`);
-        console.log(JSON.stringify(response, null, 2));
-        console.log(`🟣🟣🟣 END TAILORED DEBUG 🟣🟣🟣\n`);
-      }
-
-      // Extract content - GPT-5 might use different field names
-      let output = '';
-      if (config.agent.model.startsWith('gpt-5')) {
-        console.log(`🟤 EXTRACTING GPT-5 CONTENT (tailoredResponse)...`);
-        
-        // Try ALL possible fields
-        const choice = response.choices?.[0] as any;
-        const possibleContents = [
-          choice?.message?.content,
-          choice?.message?.output,
-          choice?.message?.reasoning,
-          choice?.message?.answer,
-          choice?.message?.response,
-          choice?.message?.text,
-          choice?.text,
-          choice?.output,
-          choice?.content,
-          (response as any)?.output,
-          (response as any)?.text,
-          (response as any)?.content
-        ];
-        
-        for (let i = 0; i < possibleContents.length; i++) {
-          if (possibleContents[i]) {
-            output = possibleContents[i];
-            console.log(`✅ FOUND at index ${i}: ${output.substring(0, 100)}...`);
-            break;
-          }
-        }
-        
-        if (!output) {
-          console.log(`❌ NO CONTENT FOUND!`);
-        }
-      } else {
-        output = response.choices[0]?.message?.content || '';
-      }
+        maxTokens: config.agent.maxTokens || 3000,
+        temperature: config.agent.temperature || 0.4,
+        reasoningEffort: 'medium',
+        outputSchema: config.agent.outputSchema
+      }, config.onToken ? { onToken: config.onToken } : undefined);
+      const output = response.content;
       const latency = Date.now() - startTime;
 
       console.log(`✅ Tailored response generated in ${latency}ms using ${config.agent.model}`);
@@ -186,18 +120,6 @@ export class TailoredResponseService {
     ).join('\n\n');
   }
 
-  private replacePlaceholders(template: string, data: Record<string, any>): string {
-    let result = template;
-    
-    // Replace all placeholders
-    Object.entries(data).forEach(([key, value]) => {
-      const placeholder = `{{${key}}}`;
-      result = result.replaceAll(placeholder, String(value || ''));
-    });
-    
-    return result;
-  }
-
   getDefaultRfpInstructions(): string {
     return `# Default RFP Response Instructions
 
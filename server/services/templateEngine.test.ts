@@ -0,0 +1,63 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { renderTemplate, validateTemplate, parseTemplate, TemplateSyntaxError } from './templateEngine';
+
+test('renders variables, keys with spaces and dotted paths', () => {
+  const data = { Question: 'SSO?', 'Generic Draft Generation': 'Yes.', PREVIOUS_CONTEXT: { contextNote: 'See Q1' } };
+  assert.equal(
+    renderTemplate('{{Question}} {{Generic Draft Generation}} {{PREVIOUS_CONTEXT.contextNote}}', data),
+    'SSO? Yes. See Q1'
+  );
+});
+
+test('missing variables render empty and defaults fill them', () => {
+  assert.equal(renderTemplate('[{{Missing}}]', {}), '[]');
+  assert.equal(renderTemplate('{{RFP_INSTRUCTIONS || "None provided"}}', { RFP_INSTRUCTIONS: '' }), 'None provided');
+  assert.equal(renderTemplate('{{Primary || Fallback}}', { Fallback: 'used' }), 'used');
+});
+
+test('renders conditionals with else branches', () => {
+  const template = '{{#if Notes}}Notes: {{Notes}}{{else}}No notes{{/if}}{{#unless Notes}}!{{/unless}}';
+  assert.equal(renderTemplate(template, { Notes: 'x' }), 'Notes: x');
+  assert.equal(renderTemplate(template, { Notes: [] }), 'No notes!');
+});
+
+test('loops expose item fields, this and @index while outer variables stay visible', () => {
+  const template = '{{#each Items}}{{@index}}:{{name}}/{{Suffix}} {{/each}}{{#each Tags}}{{this}}{{/each}}';
+  assert.equal(
+    renderTemplate(template, { Items: [{ name: 'a' }, { name: 'b' }], Suffix: 's', Tags: ['x', 'y'] }),
+    '0:a/s 1:b/s xy'
+  );
+});
+
+test('comments are dropped and escaped braces render literally', () => {
+  assert.equal(renderTemplate('a{{! note }}b \\{{literal}}', { literal: 'no' }), 'ab {{literal}}');
+});
+
+test('objects render as JSON', () => {
+  assert.equal(renderTemplate('{{Data}}', { Data: { a: 1 } }), JSON.stringify({ a: 1 }, null, 2));
+});
+
+test('malformed templates throw TemplateSyntaxError with the line', () => {
+  assert.throws(() => parseTemplate('line one\n{{#if X}}open'), (error: unknown) =>
+    error instanceof TemplateSyntaxError && error.line === 2);
+  assert.throws(() => parseTemplate('{{/each}}'), TemplateSyntaxError);
+  assert.throws(() => parseTemplate('{{#if X}}{{/each}}'), TemplateSyntaxError);
+  assert.throws(() => parseTemplate('{{ stray {{Question}}'), TemplateSyntaxError);
+});
+
+test('malformed stored templates still render their plain variables', () => {
+  assert.equal(
+    renderTemplate('Answer {{Question}} as JSON like {{ "answer": ... }', { Question: 'SSO?' }),
+    'Answer SSO? as JSON like {{ "answer": ... }'
+  );
+});
+
+test('validation reports syntax errors and unknown variables outside loops', () => {
+  const invalid = validateTemplate('{{#if X}}');
+  assert.equal(invalid.valid, false);
+  assert.equal(invalid.errors.length, 1);
+
+  const result = validateTemplate('{{Question}} {{Typo}} {{#each Items}}{{anything}}{{/each}}', ['Question', 'Items']);
+  assert.deepEqual(result.unknownVariables, ['Typo']);
+});
@@ -0,0 +1,376 @@
+/**
+ * Prompt Template Engine
+ * Handlebars-style templates for pipeline step prompts:
+ *   {{FULL_CONTEXTUAL_QUESTION}}            variables, including keys with spaces ({{Generic Draft Generation}})
+ *   {{PREVIOUS_CONTEXT.contextNote}}        dotted paths
+ *   {{RFP_INSTRUCTIONS || "None provided"}} defaults (quoted literal or another path)
+ *   {{#if X}}...{{else}}...{{/if}}          conditionals, plus {{#unless X}}
+ *   {{#each X}}{{this}} {{@index}}{{/each}} loops; item fields resolve before outer variables
+ *   {{! comment }}                           comments
+ *   \{{literal}}                             escaped braces, rendered as {{literal}}
+ */
+
+type BlockType = 'if' | 'unless' | 'each';
+
+interface TextNode {
+  type: 'text';
+  value: string;
+}
+
+interface VariableNode {
+  type: 'variable';
+  alternatives: Expression[];
+  line: number;
+}
+
+interface BlockNode {
+  type: BlockType;
+  path: string;
+  body: TemplateNode[];
+  inverse: TemplateNode[];
+  line: number;
+}
+
+type TemplateNode = TextNode | VariableNode | BlockNode;
+
+type Expression = { kind: 'path'; path: string } | { kind: 'literal'; value: string };
+
+export interface TemplateIssue {
+  message: string;
+  line: number;
+}
+
+export interface TemplateValidationResult {
+  valid: boolean;
+  errors: TemplateIssue[];
+  variables: string[];        // Top-level variables referenced outside loops
+  unknownVariables: string[]; // Variables not in the known list (only when one is given)
+}
+
+export class TemplateSyntaxError extends Error {
+  constructor(public reason: string, public line: number) {
+    super(`${reason} (line ${line})`);
+    this.name = 'TemplateSyntaxError';
+  }
+}
+
+// Always available regardless of row data
+const SPECIAL_VARIABLES = new Set(['this', 'FIRST_COLUMN']);
+
+function lineAt(template: string, offset: number): number {
+  let line = 1;
+  for (let i = 0; i < offset && i < template.length; i++) {
+    if (template[i] === '\n') line++;
+  }
+  return line;
+}
+
+function parseExpression(source: string): Expression[] {
+  return source.split('||').map(part => {
+    const trimmed = part.trim();
+    const quoted = trimmed.match(/^(["'])([\s\S]*)\1$/);
+    return quoted
+      ? { kind: 'literal' as const, value: quoted[2] }
+      : { kind: 'path' as const, path: trimmed };
+  });
+}
+
+/**
+ * Parse a template into a node tree, throwing TemplateSyntaxError on malformed blocks
+ */
+export function parseTemplate(template: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: { node: BlockNode; inElse: boolean }[] = [];
+  const current = () => {
+    const top = stack[stack.length - 1];
+    return top ? (top.inElse ? top.node.inverse : top.node.body) : root;
+  };
+  const pushText = (value: string) => {
+    if (!value) return;
+    const nodes = current();
+    const last = nodes[nodes.length - 1];
+    if (last && last.type === 'text') {
+      last.value += value;
+    } else {
+      nodes.push({ type: 'text', value });
+    }
+  };
+
+  let position = 0;
+  while (position < template.length) {
+    const open = template.indexOf('{{', position);
+    if (open === -1) {
+      pushText(template.slice(position));
+      break;
+    }
+
+    // Escaped opening braces render literally
+    if (open > 0 && template[open - 1] === '\\') {
+      pushText(template.slice(position, open - 1) + '{{');
+      position = open + 2;
+      continue;
+    }
+
+    pushText(template.slice(position, open));
+    const line = lineAt(template, open);
+    const close = template.indexOf('}}', open + 2);
+    const nextOpen = template.indexOf('{{', open + 2);
+    if (close === -1 || (nextOpen !== -1 && nextOpen < close)) {
+      throw new TemplateSyntaxError('Unclosed "{{" tag', line);
+    }
+
+    const tag = template.slice(open + 2, close).trim();
+    position = close + 2;
+
+    if (!tag) {
+      throw new TemplateSyntaxError('Empty "{{}}" tag', line);
+    }
+    if (tag.startsWith('!')) {
+      continue;
+    }
+
+    const blockOpen = tag.match(/^#(if|unless|each)\s+(.+)$/);
+    if (blockOpen) {
+      const node: BlockNode = { type: blockOpen[1] as BlockType, path: blockOpen[2].trim(), body: [], inverse: [], line };
+      current().push(node);
+      stack.push({ node, inElse: false });
+      continue;
+    }
+
+    if (tag.startsWith('#')) {
+      throw new TemplateSyntaxError(`Unknown block "${tag}"`, line);
+    }
+
+    if (tag === 'else') {
+      const top = stack[stack.length - 1];
+      if (!top || top.inElse) {
+        throw new TemplateSyntaxError('Unexpected "{{else}}"', line);
+      }
+      top.inElse = true;
+      continue;
+    }
+
+    const blockClose = tag.match(/^\/(\w+)$/);
+    if (blockClose) {
+      const top = stack.pop();
+      if (!top) {
+        throw new TemplateSyntaxError(`Unexpected "{{/${blockClose[1]}}}" with no open block`, line);
+      }
+      if (top.node.type !== blockClose[1]) {
+        throw new TemplateSyntaxError(`"{{/${blockClose[1]}}}" closes "{{#${top.node.type}}}" opened on line ${top.node.line}`, line);
+      }
+      continue;
+    }
+
+    current().push({ type: 'variable', alternatives: parseExpression(tag), line });
+  }
+
+  const unclosed = stack.pop();
+  if (unclosed) {
+    throw new TemplateSyntaxError(`"{{#${unclosed.node.type} ${unclosed.node.path}}}" is never closed`, unclosed.node.line);
+  }
+
+  return root;
+}
+
+interface Frame {
+  scope: any;
+  locals: Record<string, any>;
+}
+
+function lookupInScope(scope: any, path: string): { found: boolean; value: any } {
+  if (scope === null || typeof scope !== 'object') {
+    return { found: false, value: undefined };
+  }
+
+  // Whole key first so column names containing dots or spaces still resolve
+  if (Object.prototype.hasOwnProperty.call(scope, path)) {
+    return { found: true, value: scope[path] };
+  }
+
+  const segments = path.split('.').map(segment => segment.trim());
+  if (segments.length < 2 || !Object.prototype.hasOwnProperty.call(scope, segments[0])) {
+    return { found: false, value: undefined };
+  }
+
+  let value = scope[segments[0]];
+  for (const segment of segments.slice(1)) {
+    if (value === null || value === undefined) {
+      return { found: true, value: undefined };
+    }
+    value = value[segment];
+  }
+  return { found: true, value };
+}
+
+function resolvePath(path: string, frames: Frame[]): any {
+  const frame = frames[frames.length - 1];
+
+  if (path === 'this') {
+    return frame.scope;
+  }
+  if (path.startsWith('this.')) {
+    return lookupInScope(frame.scope, path.slice(5)).value;
+  }
+  if (path.startsWith('@')) {
+    return frame.locals[path];
+  }
+  if (path === 'FIRST_COLUMN') {
+    const rootScope = frames[0].scope || {};
+    const firstKey = Object.keys(rootScope)[0];
+    return firstKey ? rootScope[firstKey] : undefined;
+  }
+
+  for (let i = frames.length - 1; i >= 0; i--) {
+    const result = lookupInScope(frames[i].scope, path);
+    if (result.found) {
+      return result.value;
+    }
+  }
+  return undefined;
+}
+
+function isTruthy(value: any): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return !!value;
+}
+
+function stringify(value: any): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'string') return value;
+  if (typeof value === 'object') return JSON.stringify(value, null, 2);
+  return String(value);
+}
+
+function resolveAlternatives(alternatives: Expression[], frames: Frame[]): any {
+  let value: any = undefined;
+  for (const alternative of alternatives) {
+    value = alternative.kind === 'literal' ? alternative.value : resolvePath(alternative.path, frames);
+    if (value !== undefined && value !== null && value !== '') break;
+  }
+  return value;
+}
+
+function renderNodes(nodes: TemplateNode[], frames: Frame[]): string {
+  let output = '';
+
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      output += node.value;
+    } else if (node.type === 'variable') {
+      output += stringify(resolveAlternatives(node.alternatives, frames));
+    } else if (node.type === 'if' || node.type === 'unless') {
+      const condition = isTruthy(resolvePath(node.path, frames));
+      const branch = (node.type === 'if') === condition ? node.body : node.inverse;
+      output += renderNodes(branch, frames);
+    } else {
+      const collection = resolvePath(node.path, frames);
+      const entries: [string | number, any][] = Array.isArray(collection)
+        ? collection.map((item, index) => [index, item])
+        : collection && typeof collection === 'object' ? Object.entries(collection) : [];
+
+      if (entries.length === 0) {
+        output += renderNodes(node.inverse, frames);
+        continue;
+      }
+
+      entries.forEach(([key, item], index) => {
+        output += renderNodes(node.body, [...frames, {
+          scope: item,
+          locals: {
+            '@index': index,
+            '@number': index + 1,
+            '@key': key,
+            '@first': index === 0,
+            '@last': index === entries.length - 1
+          }
+        }]);
+      });
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Fill in plain {{variable}} tags and leave every other brace as literal text, the way prompts
+ * were rendered before the template engine
+ */
+function renderPlaceholders(template: string, frames: Frame[]): string {
+  return template.replace(/\{\{([^{}]+)\}\}/g, (tag, source: string) => {
+    const trimmed = source.trim();
+    if (/^[#\/!]/.test(trimmed) || trimmed === 'else') return tag;
+    return stringify(resolveAlternatives(parseExpression(trimmed), frames));
+  });
+}
+
+/**
+ * Render a template against row data. Missing variables render as empty strings. Templates saved
+ * before pipelines were validated can hold malformed tags; those render their variables only
+ * instead of failing every row.
+ */
+export function renderTemplate(template: string, data: Record<string, any>): string {
+  if (!template) return '';
+  const frames: Frame[] = [{ scope: data, locals: {} }];
+  try {
+    return renderNodes(parseTemplate(template), frames);
+  } catch (error) {
+    if (!(error instanceof TemplateSyntaxError)) throw error;
+    console.warn(`⚠️ Template syntax error, rendering its variables only: ${error.message}`);
+    return renderPlaceholders(template, frames);
+  }
+}
+
+function collectVariables(nodes: TemplateNode[], insideLoop: boolean, variables: Set<string>): void {
+  const addPath = (path: string) => {
+    // Loop items can have any fields, so only paths outside loops are checked
+    if (insideLoop || path.startsWith('@') || path.startsWith('this')) return;
+    variables.add(path.split('.')[0].trim());
+  };
+
+  for (const node of nodes) {
+    if (node.type === 'variable') {
+      node.alternatives.forEach(alternative => {
+        if (alternative.kind === 'path') addPath(alternative.path);
+      });
+    } else if (node.type !== 'text') {
+      addPath(node.path);
+      collectVariables(node.body, insideLoop || node.type === 'each', variables);
+      collectVariables(node.inverse, insideLoop, variables);
+    }
+  }
+}
+
+/**
+ * Check a template for syntax errors and, when knownVariables is given, for variables
+ * that will not exist at render time
+ */
+export function validateTemplate(template: string, knownVariables?: string[]): TemplateValidationResult {
+  let nodes: TemplateNode[];
+  try {
+    nodes = parseTemplate(template || '');
+  } catch (error) {
+    if (!(error instanceof TemplateSyntaxError)) throw error;
+    return {
+      valid: false,
+      errors: [{ message: error.reason, line: error.line }],
+      variables: [],
+      unknownVariables: []
+    };
+  }
+
+  const variables = new Set<string>();
+  collectVariables(nodes, false, variables);
+
+  const known = knownVariables ? new Set(knownVariables) : null;
+  const unknownVariables = known
+    ? Array.from(variables).filter(variable => !known.has(variable) && !SPECIAL_VARIABLES.has(variable))
+    : [];
+
+  return {
+    valid: unknownVariables.length === 0,
+    errors: [],
+    variables: Array.from(variables),
+    unknownVariables
+  };
+}
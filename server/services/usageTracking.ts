@@ -0,0 +1,135 @@
+/**
+ * Usage Tracking
+ * Collects the token usage of every OpenAI call made while a tracked function runs, without
+ * threading a collector through each service: call sites report `response.usage` with
+ * reportModelUsage, and trackUsage gathers whatever was reported in its async context.
+ * Scopes do not nest; a call is counted by the innermost trackUsage only.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { storage } from '../storage';
+import { modelPricingService } from './modelPricing';
+import type { UsageSource } from '@shared/schema';
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number; // Includes reasoning tokens
+  reasoningTokens: number;
+  totalTokens: number;
+  cost: number; // USD
+}
+
+export interface ModelUsage extends TokenUsage {
+  model: string;
+  calls: number;
+}
+
+// Where usage is attributed when it is saved to the usage_records ledger
+export interface UsageContext {
+  source: UsageSource;
+  userId?: string | null;
+  jobId?: string | null;
+  pipelineId?: string | null;
+  jobStepId?: string | null;
+  rowIndex?: number | null;
+  stepName?: string | null;
+}
+
+type ReportedCall = Omit<ModelUsage, 'calls' | 'cost'>;
+
+const collector = new AsyncLocalStorage<ReportedCall[]>();
+
+export const EMPTY_USAGE: TokenUsage = { promptTokens: 0, completionTokens: 0, reasoningTokens: 0, totalTokens: 0, cost: 0 };
+
+/**
+ * Record the usage block of a chat completion or embeddings response. A no-op outside trackUsage.
+ */
+export function reportModelUsage(model: string, usage: any): void {
+  const calls = collector.getStore();
+  if (!calls || !usage) return;
+
+  const promptTokens = usage.prompt_tokens || 0;
+  const completionTokens = usage.completion_tokens || 0;
+  calls.push({
+    model,
+    promptTokens,
+    completionTokens,
+    reasoningTokens: usage.completion_tokens_details?.reasoning_tokens || 0,
+    totalTokens: usage.total_tokens || promptTokens + completionTokens
+  });
+}
+
+/**
+ * Sum usage per model, e.g. across the attempts of a retried step
+ */
+export function mergeUsage(...lists: ModelUsage[][]): ModelUsage[] {
+  const byModel = new Map<string, ModelUsage>();
+  lists.flat().forEach(entry => {
+    const current = byModel.get(entry.model);
+    byModel.set(entry.model, current
+      ? {
+          model: entry.model,
+          calls: current.calls + entry.calls,
+          promptTokens: current.promptTokens + entry.promptTokens,
+          completionTokens: current.completionTokens + entry.completionTokens,
+          reasoningTokens: current.reasoningTokens + entry.reasoningTokens,
+          totalTokens: current.totalTokens + entry.totalTokens,
+          cost: current.cost + entry.cost
+        }
+      : { ...entry });
+  });
+  return Array.from(byModel.values());
+}
+
+export function sumUsage(usage: ModelUsage[]): TokenUsage {
+  return usage.reduce((total, entry) => ({
+    promptTokens: total.promptTokens + entry.promptTokens,
+    completionTokens: total.completionTokens + entry.completionTokens,
+    reasoningTokens: total.reasoningTokens + entry.reasoningTokens,
+    totalTokens: total.totalTokens + entry.totalTokens,
+    cost: total.cost + entry.cost
+  }), { ...EMPTY_USAGE });
+}
+
+/**
+ * Run fn and return its result with the priced usage of every model call it made
+ */
+export async function trackUsage<T>(fn: () => Promise<T>): Promise<{ result: T; usage: ModelUsage[] }> {
+  const calls: ReportedCall[] = [];
+  const result = await collector.run(calls, fn);
+
+  const usage = mergeUsage(calls.map(call => ({ ...call, calls: 1, cost: 0 })));
+  for (const entry of usage) {
+    entry.cost = await modelPricingService.calculateCost(entry.model, entry.promptTokens, entry.completionTokens);
+  }
+  return { result, usage };
+}
+
+/**
+ * Append usage to the ledger. Failures are logged rather than thrown so accounting never fails a job.
+ */
+export async function saveUsage(context: UsageContext, usage: ModelUsage[]): Promise<void> {
+  const records = usage.filter(entry => entry.calls > 0);
+  if (records.length === 0) return;
+
+  try {
+    await storage.createUsageRecords(records.map(entry => ({
+      source: context.source,
+      userId: context.userId ?? null,
+      jobId: context.jobId ?? null,
+      pipelineId: context.pipelineId ?? null,
+      jobStepId: context.jobStepId ?? null,
+      rowIndex: context.rowIndex ?? null,
+      stepName: context.stepName ?? null,
+      model: entry.model,
+      calls: entry.calls,
+      promptTokens: entry.promptTokens,
+      completionTokens: entry.completionTokens,
+      reasoningTokens: entry.reasoningTokens,
+      totalTokens: entry.totalTokens,
+      cost: entry.cost
+    })));
+  } catch (error) {
+    console.error('⚠️  Failed to record model usage:', error);
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Vector Index
+ * Nearest-neighbour and keyword search over reference chunks. Chosen by VECTOR_INDEX:
+ *   pgvector (default) - top-k query against the HNSW index on reference_cache.chunk_embedding,
+ *                        and Postgres full-text search over the GIN index on chunk_search
+ *   memory             - brute-force cosine similarity and BM25 in process, over chunks it is
+ *                        given or loads from storage; for tests, and the default when server/migrate.ts
+ *                        can't enable the vector extension
+ * Both searches take an optional knowledge scope and only return chunks inside it; without one, uploaded documents are left out.
+ */
+
+import type { KnowledgeScope, ReferenceCache } from '@shared/schema';
+import { storage } from '../storage';
+import { matchesKnowledgeScope } from './knowledgeScope';
+
+export interface VectorMatch {
+  chunk: ReferenceCache;
+  similarity: number; // Cosine similarity, 1 = same direction
+}
+
+export interface KeywordMatch {
+  chunk: ReferenceCache;
+  rank: number; // Keyword relevance; only comparable within one result list
+}
+
+export interface VectorIndex {
+  readonly name: string;
+  search(embedding: number[], limit: number, scope?: KnowledgeScope | null): Promise<VectorMatch[]>;
+  searchText(query: string, limit: number, scope?: KnowledgeScope | null): Promise<KeywordMatch[]>;
+}
+
+// BM25 parameters: term frequency saturation and length normalisation
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Lowercase words and numbers, keeping versions like "1.2" and "27001" whole
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+(?:\.[a-z0-9]+)*/g) || []);
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    throw new Error('Vectors must have the same length');
+  }
+
+  let dotProduct = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dotProduct += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+class PgVectorIndex implements VectorIndex {
+  readonly name = 'pgvector';
+
+  search(embedding: number[], limit: number, scope?: KnowledgeScope | null): Promise<VectorMatch[]> {
+    return storage.searchReferenceChunks(embedding, limit, scope);
+  }
+
+  searchText(query: string, limit: number, scope?: KnowledgeScope | null): Promise<KeywordMatch[]> {
+    return storage.searchReferenceChunksByText(query, limit, scope);
+  }
+}
+
+export class InMemoryVectorIndex implements VectorIndex {
+  readonly name = 'memory';
+  private chunks = new Map<string, ReferenceCache>();
+
+  /**
+   * With a loader, every search runs over a fresh load; without one, over the chunks added
+   */
+  constructor(private readonly load?: () => Promise<ReferenceCache[]>) {}
+
+  add(chunks: ReferenceCache[]): void {
+    chunks.forEach(chunk => this.chunks.set(chunk.id, chunk));
+  }
+
+  remove(ids: string[]): void {
+    ids.forEach(id => this.chunks.delete(id));
+  }
+
+  clear(): void {
+    this.chunks.clear();
+  }
+
+  private async currentChunks(scope?: KnowledgeScope | null): Promise<ReferenceCache[]> {
+    const chunks = this.load ? await this.load() : Array.from(this.chunks.values());
+    const now = new Date();
+    return chunks.filter(chunk => matchesKnowledgeScope(chunk, scope, now));
+  }
+
+  async search(embedding: number[], limit: number, scope?: KnowledgeScope | null): Promise<VectorMatch[]> {
+    const chunks = await this.currentChunks(scope);
+    return chunks
+      .filter(chunk => chunk.chunkEmbedding?.length === embedding.length)
+      .map(chunk => ({ chunk, similarity: cosineSimilarity(embedding, chunk.chunkEmbedding!) }))
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit);
+  }
+
+  async searchText(query: string, limit: number, scope?: KnowledgeScope | null): Promise<KeywordMatch[]> {
+    const chunks = (await this.currentChunks(scope)).filter(chunk => chunk.chunkEmbedding);
+    const terms = Array.from(new Set(tokenize(query)));
+    if (chunks.length === 0 || terms.length === 0) return [];
+
+    const documents = chunks.map(chunk => tokenize(chunk.chunkText));
+    const avgLength = documents.reduce((sum, tokens) => sum + tokens.length, 0) / documents.length || 1;
+    const documentFrequency = new Map(terms.map(term => [term, documents.filter(tokens => tokens.includes(term)).length]));
+
+    return chunks
+      .map((chunk, index) => {
+        const tokens = documents[index];
+        const rank = terms.reduce((sum, term) => {
+          const frequency = tokens.filter(token => token === term).length;
+          if (frequency === 0) return sum;
+          const matching = documentFrequency.get(term)!;
+          const idf = Math.log(1 + (chunks.length - matching + 0.5) / (matching + 0.5));
+          return sum + idf * (frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * (1 - BM25_B + BM25_B * tokens.length / avgLength));
+        }, 0);
+        return { chunk, rank };
+      })
+      .filter(match => match.rank > 0)
+      .sort((a, b) => b.rank - a.rank)
+      .slice(0, limit);
+  }
+}
+
+export function createVectorIndex(name: string = process.env.VECTOR_INDEX || 'pgvector'): VectorIndex {
+  switch (name) {
+    case 'pgvector':
+      return new PgVectorIndex();
+    case 'memory':
+      return new InMemoryVectorIndex(() => storage.getAllReferenceChunks());
+    default:
+      throw new Error(`Unknown VECTOR_INDEX "${name}" (expected pgvector or memory)`);
+  }
+}
+
+let activeIndex: VectorIndex | null = null;
+
+export function getVectorIndex(): VectorIndex {
+  if (!activeIndex) {
+    activeIndex = createVectorIndex();
+    console.log(`🧭 Vector index: ${activeIndex.name}`);
+  }
+  return activeIndex;
+}
+
+/**
+ * Replace the active index, e.g. with a seeded InMemoryVectorIndex in a test
+ */
+export function setVectorIndex(index: VectorIndex): void {
+  activeIndex = index;
+}
@@ -11,6 +11,7 @@ export interface ScrapedContent {
     description?: string;
     timestamp: string;
     wordCount: number;
+    language?: string; // Primary subtag of <html lang>, e.g. "en"; knowledge scopes filter on it
   };
 }
 
@@ -48,6 +49,9 @@ export class WebScraperService {
       // Extract title
       const title = $('title').text().trim() || $('h1').first().text().trim() || 'Untitled';
 
+      const langAttribute = ($('html').attr('lang') || '').split('-')[0].toLowerCase();
+      const language = /^[a-z]{2,3}$/.test(langAttribute) ? langAttribute : undefined;
+
       // Extract meta description
       const description = $('meta[name="description"]').attr('content') || 
                          $('meta[property="og:description"]').attr('content') || '';
@@ -105,7 +109,8 @@ export class WebScraperService {
           title,
           description,
           timestamp: new Date().toISOString(),
-          wordCount
+          wordCount,
+          ...(language ? { language } : {})
         }
       };
 
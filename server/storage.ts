@@ -1,6 +1,95 @@
-import { users, jobs, pipelines, jobSteps, csvData, referenceCache, responseCache, referenceDocuments, processingQueue, type User, type InsertUser, type Job, type InsertJob, type Pipeline, type InsertPipeline, type JobStep, type InsertJobStep, type CsvData, type InsertCsvData, type ReferenceCache, type InsertReferenceCache, type ResponseCache, type InsertResponseCache, type ReferenceDocument, type InsertReferenceDocument, type JobStatus } from "@shared/schema";
+import { users, jobs, pipelines, pipelineVersions, pipelineComparisons, comparisonResults, usageRecords, modelPrices, spendLimits, jobSteps, jobQueue, csvData, referenceCache, responseCache, referenceDocuments, processingQueue, type User, type InsertUser, type Job, type InsertJob, type Pipeline, type InsertPipeline, type PipelineVersion, type PipelineComparison, type InsertPipelineComparison, type ComparisonResult, type InsertUsageRecord, type ModelPrice, type InsertModelPrice, type SpendLimit, type InsertSpendLimit, type JobStep, type InsertJobStep, type CsvData, type InsertCsvData, type ReferenceCache, type InsertReferenceCache, type ResponseCache, type InsertResponseCache, type ReferenceDocument, type InsertReferenceDocument, type JobQueueItem, type JobStatus, type UsageSource, type KnowledgeScope, PRODUCT_TAGS, NEEDS_EMBEDDING_KEY } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, count, sql } from "drizzle-orm";
+import { eq, desc, and, count, max, sql, ne, lt, gte, or, isNull, isNotNull, inArray, notInArray, cosineDistance, type SQL } from "drizzle-orm";
+
+// The versioned part of a pipeline
+export interface PipelineSnapshot {
+  name: string;
+  description?: string | null;
+  steps: unknown;
+}
+
+export interface UsageFilter {
+  userId?: string;
+  jobId?: string;
+  pipelineId?: string;
+  sources?: UsageSource[];
+  from?: Date;
+  to?: Date;
+}
+
+export type UsageGroupBy = 'user' | 'pipeline' | 'model' | 'step' | 'row' | 'source';
+
+export interface UsageTotals {
+  key: string | null; // Value of the grouped column; null for ungrouped totals
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  reasoningTokens: number;
+  totalTokens: number;
+  cost: number;
+}
+
+// Averages over completed job_steps, used to estimate what a job will cost and how long it will take
+export interface StepHistory {
+  stepName: string;
+  model: string | null;
+  samples: number;
+  avgLatency: number | null;
+  avgPromptTokens: number | null;     // null when none of the samples recorded token usage
+  avgCompletionTokens: number | null;
+  avgCost: number | null;
+}
+
+const USAGE_GROUP_COLUMNS = {
+  user: usageRecords.userId,
+  pipeline: usageRecords.pipelineId,
+  model: usageRecords.model,
+  step: usageRecords.stepName,
+  row: usageRecords.rowIndex,
+  source: usageRecords.source,
+} as const;
+
+// pgvector's default hnsw.ef_search, and the most a scoped search widens it to
+const DEFAULT_HNSW_EF_SEARCH = 40;
+const SCOPED_HNSW_EF_SEARCH = 1000;
+
+// Host of a chunk's URL without www., e.g. "docs.sendgrid.com"
+const referenceHost = sql`lower(substring(${referenceCache.url} from '^[a-zA-Z]+://(?:www\\.)?([^/:?#]+)'))`;
+
+// Uploaded document chunks only when the scope lists their document; scraped chunks always pass
+function scopeDocumentsCondition(scope?: KnowledgeScope | null): SQL {
+  return scope?.documentIds?.length
+    ? or(isNull(referenceCache.documentId), inArray(referenceCache.documentId, scope.documentIds))!
+    : isNull(referenceCache.documentId);
+}
+
+// The rest of the knowledge scope as a WHERE clause; matchesKnowledgeScope in services/knowledgeScope.ts
+// is the in-memory twin of both
+function knowledgeScopeCondition(scope?: KnowledgeScope | null): SQL | undefined {
+  if (!scope) return undefined;
+  const conditions: SQL[] = [];
+  if (scope.domains) {
+    conditions.push(or(
+      isNull(referenceCache.url),
+      ...scope.domains.map(domain => sql`(${referenceHost} = ${domain} OR ${referenceHost} LIKE ${`%.${domain}`})`)
+    )!);
+  }
+  if (scope.productTags) {
+    conditions.push(or(
+      isNull(referenceCache.url),
+      ...scope.productTags.map(tag => sql`${referenceCache.url} ~* ${PRODUCT_TAGS[tag].urlPattern}`)
+    )!);
+  }
+  if (scope.maxCacheAgeDays) {
+    conditions.push(gte(referenceCache.createdAt, new Date(Date.now() - scope.maxCacheAgeDays * 24 * 60 * 60 * 1000)));
+  }
+  if (scope.languages) {
+    const language = sql`${referenceCache.metadata}->>'language'`;
+    conditions.push(or(isNull(language), inArray(language, scope.languages))!);
+  }
+  return conditions.length > 0 ? and(...conditions) : undefined;
+}
 
 export interface IStorage {
   // Users
@@ -8,6 +97,7 @@ export interface IStorage {
   getUserByEmail(email: string): Promise<User | undefined>;
   getUserByGoogleId(googleId: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  getAllUsers(): Promise<User[]>;
 
 
   // Jobs
@@ -22,13 +112,50 @@ export interface IStorage {
   getAllPipelines(): Promise<Pipeline[]>;
   getDefaultPipelines(): Promise<Pipeline[]>;
   createPipeline(pipeline: InsertPipeline): Promise<Pipeline>;
+  updatePipeline(id: string, updates: Partial<InsertPipeline>): Promise<Pipeline>;
+
+  // Pipeline Versions (immutable snapshots; every definition change appends one)
+  createPipelineVersion(pipelineId: string, snapshot: PipelineSnapshot, createdBy?: string | null, changeNote?: string | null): Promise<PipelineVersion>;
+  getPipelineVersions(pipelineId: string): Promise<PipelineVersion[]>;
+  getPipelineVersion(id: string): Promise<PipelineVersion | undefined>;
+  getPipelineVersionByNumber(pipelineId: string, version: number): Promise<PipelineVersion | undefined>;
+  getCurrentPipelineVersion(pipelineId: string): Promise<PipelineVersion | undefined>;
+
+  // Pipeline Comparisons (A/B re-runs of job rows; results never touch csv_data)
+  createPipelineComparison(comparison: InsertPipelineComparison): Promise<PipelineComparison>;
+  getPipelineComparison(id: string): Promise<PipelineComparison | undefined>;
+  getJobComparisons(jobId: string): Promise<PipelineComparison[]>;
+  updatePipelineComparison(id: string, updates: Partial<PipelineComparison>): Promise<PipelineComparison>;
+  getComparisonResults(comparisonId: string): Promise<ComparisonResult[]>;
+  updateComparisonResult(comparisonId: string, rowIndex: number, updates: Partial<ComparisonResult>): Promise<ComparisonResult | undefined>;
+
+  // Usage (token and cost ledger)
+  createUsageRecords(records: InsertUsageRecord[]): Promise<void>;
+  getUsageTotals(filter: UsageFilter, groupBy?: UsageGroupBy): Promise<UsageTotals[]>;
+  getModelPrices(): Promise<ModelPrice[]>;
+  upsertModelPrice(price: InsertModelPrice): Promise<ModelPrice>;
+  deleteModelPrice(model: string): Promise<void>;
+
+  // Spend limits
+  getSpendLimits(): Promise<SpendLimit[]>;
+  upsertSpendLimit(limit: InsertSpendLimit): Promise<SpendLimit>;
+  deleteSpendLimit(id: string): Promise<void>;
 
   // Job Steps
   getJobSteps(jobId: string): Promise<JobStep[]>;
   getJobStepsByRow(jobId: string, rowIndex: number): Promise<JobStep[]>;
+  getStepHistory(pipelineId?: string): Promise<StepHistory[]>;
   createJobStep(step: InsertJobStep): Promise<JobStep>;
   updateJobStep(id: string, updates: Partial<JobStep>): Promise<JobStep>;
   clearJobSteps(jobId: string): Promise<void>;
+  clearIncompleteJobSteps(jobId: string, rowIndex: number): Promise<void>;
+
+  // Job Queue (durable leases)
+  acquireJobLease(jobId: string, owner: string, ttlMs: number): Promise<JobQueueItem | undefined>;
+  renewJobLease(jobId: string, owner: string, ttlMs: number): Promise<JobQueueItem | undefined>;
+  releaseJobLease(jobId: string, owner: string): Promise<void>;
+  hasLiveJobLease(jobId: string): Promise<boolean>;
+  getOrphanedJobs(): Promise<Job[]>;
 
   // CSV Data
   getJobCsvData(jobId: string): Promise<CsvData[]>;
@@ -38,10 +165,17 @@ export interface IStorage {
   updateCsvData(id: string, updates: Partial<CsvData>): Promise<CsvData>;
   updateCsvRowFeedback(jobId: string, rowIndex: number, feedback: string): Promise<void>;
   getRowsWithFeedback(jobId: string): Promise<CsvData[]>;
+  markCsvRowReviewed(jobId: string, rowIndex: number): Promise<CsvData | undefined>;
 
   // Reference Cache - Chunk-based storage
   getAllReferenceChunks(): Promise<ReferenceCache[]>;
   getReferenceChunksByUrl(url: string): Promise<ReferenceCache[]>;
+  getReferenceChunksByIds(ids: string[]): Promise<ReferenceCache[]>;
+  getReferenceChunksNeedingEmbedding(): Promise<ReferenceCache[]>;
+  updateReferenceChunkEmbedding(id: string, embedding: number[]): Promise<void>;
+  searchReferenceChunks(embedding: number[], limit: number, scope?: KnowledgeScope | null): Promise<{ chunk: ReferenceCache; similarity: number }[]>;
+  searchReferenceChunksByText(query: string, limit: number, scope?: KnowledgeScope | null): Promise<{ chunk: ReferenceCache; rank: number }[]>;
+  getReferenceLanguages(): Promise<string[]>;
   getReferenceChunksByHash(contentHash: string): Promise<ReferenceCache[]>;
   createReferenceCache(cache: InsertReferenceCache): Promise<ReferenceCache>;
   clearReferenceCache(): Promise<void>;
@@ -72,6 +206,8 @@ export interface IStorage {
     totalJobs: number;
     activeJobs: number;
     completedToday: number;
+    tokensThisMonth: number;
+    costThisMonth: number;
   }>;
 
   // Processing Queue
@@ -94,6 +230,10 @@ export interface IStorage {
   }>;
 }
 
+function leaseExpiry(ttlMs: number): SQL {
+  return sql`now() + ${ttlMs}::integer * interval '1 millisecond'`;
+}
+
 export class DatabaseStorage implements IStorage {
   // Users
   async getUser(id: string): Promise<User | undefined> {
@@ -116,6 +256,10 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async getAllUsers(): Promise<User[]> {
+    return await db.select().from(users).orderBy(users.name);
+  }
+
 
 
   // Jobs
@@ -145,7 +289,12 @@ export class DatabaseStorage implements IStorage {
 
   async deleteJob(id: string): Promise<void> {
     // Delete all related data first (foreign key constraints)
+    const comparisonIds = db.select({ id: pipelineComparisons.id }).from(pipelineComparisons).where(eq(pipelineComparisons.jobId, id));
+    await db.delete(comparisonResults).where(inArray(comparisonResults.comparisonId, comparisonIds));
+    await db.delete(pipelineComparisons).where(eq(pipelineComparisons.jobId, id));
     await db.delete(jobSteps).where(eq(jobSteps.jobId, id));
+    await db.delete(jobQueue).where(eq(jobQueue.jobId, id));
+    await db.delete(spendLimits).where(eq(spendLimits.jobId, id));
     await db.delete(csvData).where(eq(csvData.jobId, id));
     await db.delete(jobs).where(eq(jobs.id, id));
   }
@@ -165,8 +314,18 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createPipeline(insertPipeline: InsertPipeline): Promise<Pipeline> {
-    const [pipeline] = await db.insert(pipelines).values(insertPipeline).returning();
-    return pipeline;
+    return await db.transaction(async (tx) => {
+      const [pipeline] = await tx.insert(pipelines).values(insertPipeline).returning();
+      await tx.insert(pipelineVersions).values({
+        pipelineId: pipeline.id,
+        version: 1,
+        name: pipeline.name,
+        description: pipeline.description,
+        steps: pipeline.steps,
+        changeNote: 'Created'
+      });
+      return pipeline;
+    });
   }
 
   async updatePipeline(id: string, updates: Partial<InsertPipeline>): Promise<Pipeline> {
@@ -177,13 +336,260 @@ export class DatabaseStorage implements IStorage {
     return pipeline;
   }
 
+  // Pipeline Versions
+  async createPipelineVersion(
+    pipelineId: string,
+    snapshot: PipelineSnapshot,
+    createdBy: string | null = null,
+    changeNote: string | null = null
+  ): Promise<PipelineVersion> {
+    return await db.transaction(async (tx) => {
+      // Row lock serialises concurrent edits so version numbers stay gapless
+      const [pipeline] = await tx.select().from(pipelines).where(eq(pipelines.id, pipelineId)).for('update');
+      if (!pipeline) {
+        throw new Error('Pipeline not found');
+      }
+
+      const [{ latest }] = await tx.select({ latest: max(pipelineVersions.version) })
+        .from(pipelineVersions)
+        .where(eq(pipelineVersions.pipelineId, pipelineId));
+
+      // Pipelines created before versioning keep their original definition as version 1
+      let nextVersion = (latest ?? 0) + 1;
+      if (latest === null) {
+        await tx.insert(pipelineVersions).values({
+          pipelineId,
+          version: 1,
+          name: pipeline.name,
+          description: pipeline.description,
+          steps: pipeline.steps,
+          changeNote: 'Snapshot of existing pipeline'
+        });
+        nextVersion = 2;
+      }
+
+      const [version] = await tx.insert(pipelineVersions).values({
+        pipelineId,
+        version: nextVersion,
+        name: snapshot.name,
+        description: snapshot.description !== undefined ? snapshot.description : pipeline.description,
+        steps: snapshot.steps,
+        changeNote,
+        createdBy
+      }).returning();
+
+      await tx.update(pipelines)
+        .set({
+          name: version.name,
+          description: version.description,
+          steps: version.steps,
+          currentVersion: version.version
+        })
+        .where(eq(pipelines.id, pipelineId));
+
+      return version;
+    });
+  }
+
+  async getPipelineVersions(pipelineId: string): Promise<PipelineVersion[]> {
+    return await db.select().from(pipelineVersions)
+      .where(eq(pipelineVersions.pipelineId, pipelineId))
+      .orderBy(desc(pipelineVersions.version));
+  }
+
+  async getPipelineVersion(id: string): Promise<PipelineVersion | undefined> {
+    const [version] = await db.select().from(pipelineVersions).where(eq(pipelineVersions.id, id));
+    return version || undefined;
+  }
+
+  async getPipelineVersionByNumber(pipelineId: string, version: number): Promise<PipelineVersion | undefined> {
+    const [pipelineVersion] = await db.select().from(pipelineVersions)
+      .where(and(eq(pipelineVersions.pipelineId, pipelineId), eq(pipelineVersions.version, version)));
+    return pipelineVersion || undefined;
+  }
+
+  async getCurrentPipelineVersion(pipelineId: string): Promise<PipelineVersion | undefined> {
+    const pipeline = await this.getPipeline(pipelineId);
+    if (!pipeline) {
+      return undefined;
+    }
+
+    const current = await this.getPipelineVersionByNumber(pipelineId, pipeline.currentVersion);
+    if (current) {
+      return current;
+    }
+
+    // Pipelines created before versioning get their live definition snapshotted on first use
+    await db.insert(pipelineVersions).values({
+      pipelineId,
+      version: pipeline.currentVersion,
+      name: pipeline.name,
+      description: pipeline.description,
+      steps: pipeline.steps,
+      changeNote: 'Snapshot of existing pipeline'
+    }).onConflictDoNothing();
+    return await this.getPipelineVersionByNumber(pipelineId, pipeline.currentVersion);
+  }
+
   // Job Steps
+  // Pipeline Comparisons
+  async createPipelineComparison(comparison: InsertPipelineComparison): Promise<PipelineComparison> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(pipelineComparisons).values(comparison).returning();
+      const rowIndexes = created.rowIndexes as number[];
+      if (rowIndexes.length > 0) {
+        await tx.insert(comparisonResults).values(
+          rowIndexes.map(rowIndex => ({ comparisonId: created.id, rowIndex }))
+        );
+      }
+      return created;
+    });
+  }
+
+  async getPipelineComparison(id: string): Promise<PipelineComparison | undefined> {
+    const [comparison] = await db.select().from(pipelineComparisons).where(eq(pipelineComparisons.id, id));
+    return comparison || undefined;
+  }
+
+  async getJobComparisons(jobId: string): Promise<PipelineComparison[]> {
+    return await db.select().from(pipelineComparisons)
+      .where(eq(pipelineComparisons.jobId, jobId))
+      .orderBy(desc(pipelineComparisons.createdAt));
+  }
+
+  async updatePipelineComparison(id: string, updates: Partial<PipelineComparison>): Promise<PipelineComparison> {
+    const [comparison] = await db.update(pipelineComparisons)
+      .set(updates)
+      .where(eq(pipelineComparisons.id, id))
+      .returning();
+    return comparison;
+  }
+
+  async getComparisonResults(comparisonId: string): Promise<ComparisonResult[]> {
+    return await db.select().from(comparisonResults)
+      .where(eq(comparisonResults.comparisonId, comparisonId))
+      .orderBy(comparisonResults.rowIndex);
+  }
+
+  async updateComparisonResult(comparisonId: string, rowIndex: number, updates: Partial<ComparisonResult>): Promise<ComparisonResult | undefined> {
+    const [result] = await db.update(comparisonResults)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(comparisonResults.comparisonId, comparisonId), eq(comparisonResults.rowIndex, rowIndex)))
+      .returning();
+    return result || undefined;
+  }
+
+  // Usage
+  async createUsageRecords(records: InsertUsageRecord[]): Promise<void> {
+    if (records.length === 0) return;
+    await db.insert(usageRecords).values(records);
+  }
+
+  async getUsageTotals(filter: UsageFilter, groupBy?: UsageGroupBy): Promise<UsageTotals[]> {
+    const conditions = [];
+    if (filter.userId) conditions.push(eq(usageRecords.userId, filter.userId));
+    if (filter.jobId) conditions.push(eq(usageRecords.jobId, filter.jobId));
+    if (filter.pipelineId) conditions.push(eq(usageRecords.pipelineId, filter.pipelineId));
+    if (filter.sources) conditions.push(inArray(usageRecords.source, filter.sources));
+    if (filter.from) conditions.push(gte(usageRecords.createdAt, filter.from));
+    if (filter.to) conditions.push(lt(usageRecords.createdAt, filter.to));
+
+    const totals = {
+      calls: sql<number>`coalesce(sum(${usageRecords.calls}), 0)`.mapWith(Number),
+      promptTokens: sql<number>`coalesce(sum(${usageRecords.promptTokens}), 0)`.mapWith(Number),
+      completionTokens: sql<number>`coalesce(sum(${usageRecords.completionTokens}), 0)`.mapWith(Number),
+      reasoningTokens: sql<number>`coalesce(sum(${usageRecords.reasoningTokens}), 0)`.mapWith(Number),
+      totalTokens: sql<number>`coalesce(sum(${usageRecords.totalTokens}), 0)`.mapWith(Number),
+      cost: sql<number>`coalesce(sum(${usageRecords.cost}), 0)`.mapWith(Number),
+    };
+
+    if (!groupBy) {
+      const [row] = await db.select(totals).from(usageRecords).where(and(...conditions));
+      return [{ key: null, ...row }];
+    }
+
+    const column = USAGE_GROUP_COLUMNS[groupBy];
+    return await db.select({ key: sql<string | null>`${column}::text`, ...totals })
+      .from(usageRecords)
+      .where(and(...conditions))
+      .groupBy(column)
+      .orderBy(desc(sql`sum(${usageRecords.cost})`));
+  }
+
+  async getModelPrices(): Promise<ModelPrice[]> {
+    return await db.select().from(modelPrices).orderBy(modelPrices.model);
+  }
+
+  async upsertModelPrice(price: InsertModelPrice): Promise<ModelPrice> {
+    const [saved] = await db.insert(modelPrices)
+      .values(price)
+      .onConflictDoUpdate({
+        target: modelPrices.model,
+        set: { inputPerMillion: price.inputPerMillion, outputPerMillion: price.outputPerMillion, updatedAt: new Date() }
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteModelPrice(model: string): Promise<void> {
+    await db.delete(modelPrices).where(eq(modelPrices.model, model));
+  }
+
+  // Spend limits
+  async getSpendLimits(): Promise<SpendLimit[]> {
+    return await db.select().from(spendLimits).orderBy(spendLimits.scope, spendLimits.createdAt);
+  }
+
+  // One limit per scope and target, so setting it again replaces the amount
+  async upsertSpendLimit(limit: InsertSpendLimit): Promise<SpendLimit> {
+    const target = and(
+      eq(spendLimits.scope, limit.scope),
+      limit.userId ? eq(spendLimits.userId, limit.userId) : isNull(spendLimits.userId),
+      limit.jobId ? eq(spendLimits.jobId, limit.jobId) : isNull(spendLimits.jobId)
+    );
+
+    const [existing] = await db.select().from(spendLimits).where(target);
+    if (existing) {
+      const [updated] = await db.update(spendLimits)
+        .set({ amount: limit.amount, createdBy: limit.createdBy, updatedAt: new Date() })
+        .where(eq(spendLimits.id, existing.id))
+        .returning();
+      return updated;
+    }
+
+    const [created] = await db.insert(spendLimits).values(limit).returning();
+    return created;
+  }
+
+  async deleteSpendLimit(id: string): Promise<void> {
+    await db.delete(spendLimits).where(eq(spendLimits.id, id));
+  }
+
   async getJobSteps(jobId: string): Promise<JobStep[]> {
     return await db.select().from(jobSteps)
       .where(eq(jobSteps.jobId, jobId))
       .orderBy(jobSteps.rowIndex, jobSteps.stepIndex);
   }
 
+  async getStepHistory(pipelineId?: string): Promise<StepHistory[]> {
+    const conditions = [eq(jobSteps.status, 'completed')];
+    if (pipelineId) conditions.push(eq(jobs.pipelineId, pipelineId));
+
+    return await db.select({
+      stepName: jobSteps.stepName,
+      model: jobSteps.model,
+      samples: count(),
+      avgLatency: sql<number | null>`avg(${jobSteps.latency})`.mapWith(Number),
+      avgPromptTokens: sql<number | null>`avg(${jobSteps.promptTokens})`.mapWith(Number),
+      avgCompletionTokens: sql<number | null>`avg(${jobSteps.completionTokens})`.mapWith(Number),
+      avgCost: sql<number | null>`avg(${jobSteps.cost})`.mapWith(Number),
+    })
+      .from(jobSteps)
+      .innerJoin(jobs, eq(jobSteps.jobId, jobs.id))
+      .where(and(...conditions))
+      .groupBy(jobSteps.stepName, jobSteps.model);
+  }
+
   async getJobStepsByRow(jobId: string, rowIndex: number): Promise<JobStep[]> {
     return await db.select().from(jobSteps)
       .where(and(eq(jobSteps.jobId, jobId), eq(jobSteps.rowIndex, rowIndex)))
@@ -240,6 +646,15 @@ export class DatabaseStorage implements IStorage {
       .where(and(eq(csvData.jobId, jobId), eq(csvData.rowIndex, rowIndex)));
   }
 
+  async markCsvRowReviewed(jobId: string, rowIndex: number): Promise<CsvData | undefined> {
+    const [row] = await db
+      .update(csvData)
+      .set({ needsReview: false, reviewedAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(csvData.jobId, jobId), eq(csvData.rowIndex, rowIndex)))
+      .returning();
+    return row;
+  }
+
   async getRowsWithFeedback(jobId: string): Promise<CsvData[]> {
     return db
       .select()
@@ -258,6 +673,66 @@ export class DatabaseStorage implements IStorage {
       .orderBy(referenceCache.chunkIndex);
   }
 
+  async getReferenceChunksByIds(ids: string[]): Promise<ReferenceCache[]> {
+    if (ids.length === 0) return [];
+    return await db.select().from(referenceCache).where(inArray(referenceCache.id, ids));
+  }
+
+  async getReferenceChunksNeedingEmbedding(): Promise<ReferenceCache[]> {
+    return await db.select().from(referenceCache)
+      .where(sql`${referenceCache.metadata}->>${NEEDS_EMBEDDING_KEY} = 'true'`);
+  }
+
+  // Stores the regenerated embedding and clears the needs-embedding flag
+  async updateReferenceChunkEmbedding(id: string, embedding: number[]): Promise<void> {
+    await db.update(referenceCache)
+      .set({ chunkEmbedding: embedding, metadata: sql`${referenceCache.metadata} - ${NEEDS_EMBEDDING_KEY}` })
+      .where(eq(referenceCache.id, id));
+  }
+
+  // Nearest chunks by cosine distance, served by the HNSW index on chunk_embedding
+  async searchReferenceChunks(embedding: number[], limit: number, scope?: KnowledgeScope | null): Promise<{ chunk: ReferenceCache; similarity: number }[]> {
+    const distance = cosineDistance(referenceCache.chunkEmbedding, embedding);
+    const scopeCondition = knowledgeScopeCondition(scope);
+    const search = (executor: Pick<typeof db, 'select'>) => executor.select({ chunk: referenceCache, distance })
+      .from(referenceCache)
+      .where(and(isNotNull(referenceCache.chunkEmbedding), scopeDocumentsCondition(scope), scopeCondition))
+      .orderBy(distance)
+      .limit(limit);
+
+    // HNSW filters the ef_search nearest chunks it finds, so a narrow scope needs a wider search
+    const rows = scopeCondition || limit > DEFAULT_HNSW_EF_SEARCH
+      ? await db.transaction(async (tx) => {
+          await tx.execute(sql.raw(`SET LOCAL hnsw.ef_search = ${scopeCondition ? SCOPED_HNSW_EF_SEARCH : Math.min(limit, SCOPED_HNSW_EF_SEARCH)}`));
+          return search(tx);
+        })
+      : await search(db);
+    return rows.map(row => ({ chunk: row.chunk, similarity: 1 - Number(row.distance) }));
+  }
+
+  // Chunks sharing any stemmed term with the query, ranked by ts_rank_cd (term frequency and
+  // proximity, normalised by chunk length) over the GIN index on chunk_search
+  async searchReferenceChunksByText(query: string, limit: number, scope?: KnowledgeScope | null): Promise<{ chunk: ReferenceCache; rank: number }[]> {
+    const tsQuery = sql`(
+      SELECT to_tsquery('simple', string_agg(quote_literal(lexeme), ' | '))
+      FROM unnest(tsvector_to_array(to_tsvector('english', ${query}))) AS lexeme
+    )`;
+    const rank = sql<number>`ts_rank_cd(${referenceCache.chunkSearch}, ${tsQuery}, 1)`;
+    const rows = await db.select({ chunk: referenceCache, rank })
+      .from(referenceCache)
+      .where(and(isNotNull(referenceCache.chunkEmbedding), sql`${referenceCache.chunkSearch} @@ ${tsQuery}`, scopeDocumentsCondition(scope), knowledgeScopeCondition(scope)))
+      .orderBy(desc(rank))
+      .limit(limit);
+    return rows.map(row => ({ chunk: row.chunk, rank: Number(row.rank) }));
+  }
+
+  // Languages recorded on scraped chunks, for the knowledge scope picker
+  async getReferenceLanguages(): Promise<string[]> {
+    const language = sql<string>`${referenceCache.metadata}->>'language'`;
+    const rows = await db.selectDistinct({ language }).from(referenceCache).where(isNotNull(language)).orderBy(language);
+    return rows.map(row => row.language);
+  }
+
   async getReferenceChunksByHash(contentHash: string): Promise<ReferenceCache[]> {
     return await db.select().from(referenceCache)
       .where(eq(referenceCache.contentHash, contentHash))
@@ -338,6 +813,8 @@ export class DatabaseStorage implements IStorage {
     totalJobs: number;
     activeJobs: number;
     completedToday: number;
+    tokensThisMonth: number;
+    costThisMonth: number;
   }> {
     const totalJobs = await db.select({ count: count() })
       .from(jobs)
@@ -357,15 +834,20 @@ export class DatabaseStorage implements IStorage {
       .from(jobs)
       .where(and(
         eq(jobs.userId, userId),
-        eq(jobs.status, "completed"),
+        inArray(jobs.status, ["completed", "completed_with_errors"]),
         // @ts-ignore - Drizzle SQL date comparison
         sql`${jobs.updatedAt} >= ${today}`
       ));
 
+    const monthStart = new Date(today.getFullYear(), today.getMonth(), 1);
+    const [usageThisMonth] = await this.getUsageTotals({ userId, from: monthStart });
+
     return {
       totalJobs: totalJobs[0]?.count || 0,
       activeJobs: activeJobs[0]?.count || 0,
       completedToday: completedToday[0]?.count || 0,
+      tokensThisMonth: usageThisMonth?.totalTokens || 0,
+      costThisMonth: usageThisMonth?.cost || 0,
     };
   }
 
@@ -377,6 +859,82 @@ export class DatabaseStorage implements IStorage {
     await db.delete(jobSteps).where(eq(jobSteps.jobId, jobId));
   }
 
+  async clearIncompleteJobSteps(jobId: string, rowIndex: number): Promise<void> {
+    await db.delete(jobSteps).where(and(
+      eq(jobSteps.jobId, jobId),
+      eq(jobSteps.rowIndex, rowIndex),
+      ne(jobSteps.status, 'completed')
+    ));
+  }
+
+  // Job Queue. Lease times come from the database clock only, so app servers whose clocks
+  // drift apart still agree on which leases are live.
+  async acquireJobLease(jobId: string, owner: string, ttlMs: number): Promise<JobQueueItem | undefined> {
+    const now = sql`now()`;
+    const leaseExpiresAt = leaseExpiry(ttlMs);
+
+    // Single statement so two workers can never both win the lease: the update only
+    // applies when the existing lease is released, expired, or already ours
+    const [lease] = await db.insert(jobQueue)
+      .values({ jobId, status: 'leased', leaseOwner: owner, leaseExpiresAt, heartbeatAt: now, attempts: 1 })
+      .onConflictDoUpdate({
+        target: jobQueue.jobId,
+        set: {
+          status: 'leased',
+          leaseOwner: owner,
+          leaseExpiresAt,
+          heartbeatAt: now,
+          attempts: sql`${jobQueue.attempts} + 1`,
+          updatedAt: now
+        },
+        setWhere: or(
+          ne(jobQueue.status, 'leased'),
+          isNull(jobQueue.leaseExpiresAt),
+          lt(jobQueue.leaseExpiresAt, now),
+          eq(jobQueue.leaseOwner, owner)
+        )
+      })
+      .returning();
+    return lease || undefined;
+  }
+
+  async renewJobLease(jobId: string, owner: string, ttlMs: number): Promise<JobQueueItem | undefined> {
+    const now = sql`now()`;
+    const [lease] = await db.update(jobQueue)
+      .set({ leaseExpiresAt: leaseExpiry(ttlMs), heartbeatAt: now, updatedAt: now })
+      .where(and(
+        eq(jobQueue.jobId, jobId),
+        eq(jobQueue.leaseOwner, owner),
+        eq(jobQueue.status, 'leased')
+      ))
+      .returning();
+    return lease || undefined;
+  }
+
+  async releaseJobLease(jobId: string, owner: string): Promise<void> {
+    await db.update(jobQueue)
+      .set({ status: 'released', leaseOwner: null, leaseExpiresAt: null, updatedAt: sql`now()` })
+      .where(and(eq(jobQueue.jobId, jobId), eq(jobQueue.leaseOwner, owner)));
+  }
+
+  async hasLiveJobLease(jobId: string): Promise<boolean> {
+    const [lease] = await db.select({ jobId: jobQueue.jobId }).from(jobQueue)
+      .where(and(eq(jobQueue.jobId, jobId), eq(jobQueue.status, 'leased'), sql`${jobQueue.leaseExpiresAt} >= now()`));
+    return !!lease;
+  }
+
+  async getOrphanedJobs(): Promise<Job[]> {
+    // In-progress jobs whose lease is missing, released, or past its expiry have no live worker
+    const liveLeases = db.select({ jobId: jobQueue.jobId }).from(jobQueue)
+      .where(and(eq(jobQueue.status, 'leased'), sql`${jobQueue.leaseExpiresAt} >= now()`));
+
+    return await db.select().from(jobs)
+      .where(and(
+        eq(jobs.status, 'in_progress'),
+        notInArray(jobs.id, liveLeases)
+      ));
+  }
+
   async getActiveJobs(): Promise<Job[]> {
     return await db.select().from(jobs).where(eq(jobs.status, 'in_progress'));
   }
@@ -466,7 +1024,7 @@ export class DatabaseStorage implements IStorage {
         contentHash: 'pending',
         chunkIndex: 0,
         chunkText: 'URL queued for processing',
-        chunkEmbedding: '[]',
+        chunkEmbedding: null,
         metadata: { status: 'pending' }
       });
     }
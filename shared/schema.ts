@@ -1,11 +1,20 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, timestamp, boolean, jsonb, pgEnum, index } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, timestamp, boolean, jsonb, pgEnum, index, uniqueIndex, doublePrecision, vector, customType } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
 
-export const jobStatusEnum = pgEnum("job_status", ["not_started", "in_progress", "paused", "completed", "error", "cancelled"]);
-export const stepStatusEnum = pgEnum("step_status", ["pending", "running", "completed", "error"]);
+// Upper bound for the per-job row worker pool
+export const MAX_JOB_CONCURRENCY = 10;
+
+export const jobStatusEnum = pgEnum("job_status", ["not_started", "in_progress", "paused", "completed", "completed_with_errors", "error", "cancelled"]);
+export const stepStatusEnum = pgEnum("step_status", ["pending", "running", "completed", "skipped", "error"]);
+export const rowStatusEnum = pgEnum("row_status", ["pending", "processing", "completed", "failed"]);
+export const jobQueueStatusEnum = pgEnum("job_queue_status", ["queued", "leased", "released"]);
+export const comparisonStatusEnum = pgEnum("comparison_status", ["pending", "in_progress", "completed", "error", "cancelled"]);
+export const comparisonPickEnum = pgEnum("comparison_pick", ["baseline", "variant", "tie"]);
+export const usageSourceEnum = pgEnum("usage_source", ["step", "context", "feedback", "comparison", "playground"]);
+export const spendLimitScopeEnum = pgEnum("spend_limit_scope", ["user_monthly", "job"]);
 
 // Session storage table for Replit Auth
 export const sessions = pgTable(
@@ -24,6 +33,7 @@ export const users = pgTable("users", {
   email: text("email").notNull().unique(),
   name: text("name").notNull(),
   googleId: text("google_id").unique().notNull(),
+  isAdmin: boolean("is_admin").notNull().default(false), // Emails in ADMIN_EMAILS are admins too
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -38,11 +48,16 @@ export const jobs = pgTable("jobs", {
   totalRows: integer("total_rows").notNull(),
   processedRows: integer("processed_rows").notNull().default(0),
   pipelineId: varchar("pipeline_id").references(() => pipelines.id),
+  pipelineVersionId: varchar("pipeline_version_id").references(() => pipelineVersions.id), // Snapshot the job runs with
   progress: integer("progress").notNull().default(0),
+  concurrency: integer("concurrency").notNull().default(1), // Number of rows processed in parallel
+  continueOnRowFailure: boolean("continue_on_row_failure").notNull().default(false), // Mark failed rows and keep going instead of failing the job
+  failedRows: integer("failed_rows").notNull().default(0),
   errorMessage: text("error_message"),
   // New RFP-specific fields
   rfpInstructions: text("rfp_instructions"), // Rich text instructions for this RFP
   additionalDocuments: jsonb("additional_documents"), // Array of {fileName, filePath, uploadedAt}
+  knowledgeScope: jsonb("knowledge_scope"), // KnowledgeScope limiting what retrieval may draw on; null searches everything
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -53,9 +68,25 @@ export const pipelines = pgTable("pipelines", {
   description: text("description"),
   steps: jsonb("steps").notNull(), // Array of step configurations
   isDefault: boolean("is_default").notNull().default(false),
+  currentVersion: integer("current_version").notNull().default(1), // Mirrors the latest pipeline_versions row
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Immutable snapshot of a pipeline definition; every edit appends one
+export const pipelineVersions = pgTable("pipeline_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  pipelineId: varchar("pipeline_id").notNull().references(() => pipelines.id),
+  version: integer("version").notNull(),
+  name: text("name").notNull(),
+  description: text("description"),
+  steps: jsonb("steps").notNull(),
+  changeNote: text("change_note"), // e.g. "Rolled back to version 3"
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("idx_pipeline_versions_pipeline_version").on(table.pipelineId, table.version)
+]);
+
 export const jobSteps = pgTable("job_steps", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   jobId: varchar("job_id").notNull().references(() => jobs.id),
@@ -69,20 +100,132 @@ export const jobSteps = pgTable("job_steps", {
   model: text("model"),
   latency: integer("latency"), // in milliseconds
   errorMessage: text("error_message"),
+  attempts: jsonb("attempts"), // One entry per call: attempt, latency, status, errorClass, retryDelayMs
+  promptTokens: integer("prompt_tokens"), // Summed over every model call and retry of the step
+  completionTokens: integer("completion_tokens"), // Includes reasoning tokens
+  reasoningTokens: integer("reasoning_tokens"),
+  cost: doublePrecision("cost"), // USD, from model_prices
   createdAt: timestamp("created_at").defaultNow().notNull(),
   completedAt: timestamp("completed_at"),
 });
 
+// Durable work queue: one leased item per running job so orphaned jobs can be resumed after a restart
+export const jobQueue = pgTable("job_queue", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  jobId: varchar("job_id").notNull().unique().references(() => jobs.id),
+  status: jobQueueStatusEnum("status").notNull().default("queued"),
+  leaseOwner: varchar("lease_owner"), // Worker id (host:pid:nonce) currently holding the lease
+  leaseExpiresAt: timestamp("lease_expires_at"),
+  heartbeatAt: timestamp("heartbeat_at"),
+  attempts: integer("attempts").notNull().default(0), // Number of times the job has been leased
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_job_queue_status").on(table.status),
+  index("idx_job_queue_lease_expires").on(table.leaseExpiresAt)
+]);
+
 export const csvData = pgTable("csv_data", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   jobId: varchar("job_id").notNull().references(() => jobs.id),
   rowIndex: integer("row_index").notNull(),
   originalData: jsonb("original_data").notNull(),
   enrichedData: jsonb("enriched_data"),
+  status: rowStatusEnum("status").notNull().default("pending"),
+  errorMessage: text("error_message"), // Why the row failed when status is 'failed'
   fullContextualQuestion: text("full_contextual_question"), // LLM-generated contextual question
   feedback: text("feedback"), // User feedback comments for reprocessing
   needsReprocessing: boolean("needs_reprocessing").notNull().default(false), // Flag for feedback-based reprocessing
   reprocessedAt: timestamp("reprocessed_at"), // Timestamp of last feedback reprocessing
+  groundingScore: doublePrecision("grounding_score"), // 0-1 share of the answer's claims the references support, set by a verify step
+  confidenceScore: doublePrecision("confidence_score"), // 0-1 blend of retrieval, source, grounding and self-assessment signals
+  needsReview: boolean("needs_review").notNull().default(false), // Confidence below the review threshold and not yet reviewed
+  reviewedAt: timestamp("reviewed_at"), // When a reviewer cleared the row from the review queue
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Re-run of some of a job's rows against another pipeline version, kept apart from csv_data
+export const pipelineComparisons = pgTable("pipeline_comparisons", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  jobId: varchar("job_id").notNull().references(() => jobs.id),
+  baselineVersionId: varchar("baseline_version_id").references(() => pipelineVersions.id), // The job's pinned version
+  variantVersionId: varchar("variant_version_id").notNull().references(() => pipelineVersions.id),
+  rowIndexes: jsonb("row_indexes").notNull(), // Sampled job rows, in processing order
+  status: comparisonStatusEnum("status").notNull().default("pending"),
+  totalRows: integer("total_rows").notNull(),
+  processedRows: integer("processed_rows").notNull().default(0),
+  errorMessage: text("error_message"),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+}, (table) => [
+  index("idx_pipeline_comparisons_job").on(table.jobId)
+]);
+
+// Variant output for one row of a comparison; the baseline stays in csv_data/job_steps
+export const comparisonResults = pgTable("comparison_results", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  comparisonId: varchar("comparison_id").notNull().references(() => pipelineComparisons.id),
+  rowIndex: integer("row_index").notNull(),
+  status: rowStatusEnum("status").notNull().default("pending"),
+  outputData: jsonb("output_data"), // Variant step outputs keyed by step name
+  answer: text("answer"), // Output of the variant's final step
+  latency: integer("latency"), // Sum of step latencies, in milliseconds
+  tokenUsage: jsonb("token_usage"), // {promptTokens, completionTokens, totalTokens}
+  errorMessage: text("error_message"),
+  pick: comparisonPickEnum("pick"), // Reviewer's preferred answer
+  pickedBy: varchar("picked_by").references(() => users.id),
+  pickedAt: timestamp("picked_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("idx_comparison_results_comparison_row").on(table.comparisonId, table.rowIndex)
+]);
+
+// Ledger of billed model usage, one row per model per step/row/run. Ids are not foreign keys
+// so spend history survives job deletion.
+export const usageRecords = pgTable("usage_records", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id"),
+  jobId: varchar("job_id"),
+  pipelineId: varchar("pipeline_id"),
+  jobStepId: varchar("job_step_id"),
+  rowIndex: integer("row_index"),
+  stepName: text("step_name"),
+  source: usageSourceEnum("source").notNull(),
+  model: text("model").notNull(),
+  calls: integer("calls").notNull().default(1),
+  promptTokens: integer("prompt_tokens").notNull().default(0),
+  completionTokens: integer("completion_tokens").notNull().default(0),
+  reasoningTokens: integer("reasoning_tokens").notNull().default(0),
+  totalTokens: integer("total_tokens").notNull().default(0),
+  cost: doublePrecision("cost").notNull().default(0), // USD
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_usage_records_user_created").on(table.userId, table.createdAt),
+  index("idx_usage_records_job").on(table.jobId),
+  index("idx_usage_records_created").on(table.createdAt)
+]);
+
+// Overrides for the built-in model prices; a row matches its model id or any id it prefixes
+export const modelPrices = pgTable("model_prices", {
+  model: text("model").primaryKey(),
+  inputPerMillion: doublePrecision("input_per_million").notNull(), // USD per 1M prompt tokens
+  outputPerMillion: doublePrecision("output_per_million").notNull(), // USD per 1M completion tokens
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Admin-set spend caps in USD, checked against usage_records before each job step.
+// user_monthly caps a user's spend per calendar month, job caps each job's spend.
+// A row without userId/jobId is the default for everyone; a job-specific row beats a user-specific one.
+export const spendLimits = pgTable("spend_limits", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  scope: spendLimitScopeEnum("scope").notNull(),
+  userId: varchar("user_id").references(() => users.id),
+  jobId: varchar("job_id").references(() => jobs.id),
+  amount: doublePrecision("amount").notNull(),
+  createdBy: varchar("created_by").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -105,6 +248,17 @@ export const referenceDocuments = pgTable("reference_documents", {
   index("idx_reference_documents_status").on(table.cachingStatus)
 ]);
 
+// Dimensions of text-embedding-3-small, the model reference chunks are embedded with
+export const EMBEDDING_DIMENSIONS = 1536;
+
+// reference_cache.metadata flag on chunks whose embedding was dropped and still has to be regenerated
+export const NEEDS_EMBEDDING_KEY = 'needsEmbedding';
+
+// Postgres full-text search document; drizzle has no built-in tsvector column
+const tsvector = customType<{ data: string }>({
+  dataType: () => "tsvector",
+});
+
 // Cache table for chunk-based reference storage with embeddings for semantic search
 export const referenceCache = pgTable("reference_cache", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -113,14 +267,17 @@ export const referenceCache = pgTable("reference_cache", {
   contentHash: text("content_hash").notNull(), // Hash of the full page content
   chunkIndex: integer("chunk_index").notNull(), // Index of this chunk in the page
   chunkText: text("chunk_text").notNull(), // The actual chunk content
-  chunkEmbedding: text("chunk_embedding").notNull(), // JSON stringified embedding vector
+  chunkEmbedding: vector("chunk_embedding", { dimensions: EMBEDDING_DIMENSIONS }), // pgvector; null for placeholder rows
+  chunkSearch: tsvector("chunk_search").generatedAlwaysAs(sql`to_tsvector('english', chunk_text)`), // Keyword side of hybrid retrieval
   metadata: jsonb("metadata"), // Additional metadata like title, section, timestamp, etc.
   createdAt: timestamp("created_at").defaultNow().notNull(),
 }, (table) => [
   index("idx_reference_cache_url").on(table.url),
   index("idx_reference_cache_document").on(table.documentId),
   index("idx_reference_cache_hash").on(table.contentHash),
-  index("idx_reference_cache_created").on(table.createdAt)
+  index("idx_reference_cache_created").on(table.createdAt),
+  index("idx_reference_cache_embedding").using("hnsw", table.chunkEmbedding.op("vector_cosine_ops")),
+  index("idx_reference_cache_search").using("gin", table.chunkSearch)
 ]);
 
 // Processing queue for async URL and document processing with status tracking
@@ -173,12 +330,45 @@ export const jobsRelations = relations(jobs, ({ one, many }) => ({
     fields: [jobs.pipelineId],
     references: [pipelines.id],
   }),
+  pipelineVersion: one(pipelineVersions, {
+    fields: [jobs.pipelineVersionId],
+    references: [pipelineVersions.id],
+  }),
   steps: many(jobSteps),
   csvData: many(csvData),
+  comparisons: many(pipelineComparisons),
 }));
 
 export const pipelinesRelations = relations(pipelines, ({ many }) => ({
   jobs: many(jobs),
+  versions: many(pipelineVersions),
+}));
+
+export const pipelineVersionsRelations = relations(pipelineVersions, ({ one, many }) => ({
+  pipeline: one(pipelines, {
+    fields: [pipelineVersions.pipelineId],
+    references: [pipelines.id],
+  }),
+  jobs: many(jobs),
+}));
+
+export const pipelineComparisonsRelations = relations(pipelineComparisons, ({ one, many }) => ({
+  job: one(jobs, {
+    fields: [pipelineComparisons.jobId],
+    references: [jobs.id],
+  }),
+  variantVersion: one(pipelineVersions, {
+    fields: [pipelineComparisons.variantVersionId],
+    references: [pipelineVersions.id],
+  }),
+  results: many(comparisonResults),
+}));
+
+export const comparisonResultsRelations = relations(comparisonResults, ({ one }) => ({
+  comparison: one(pipelineComparisons, {
+    fields: [comparisonResults.comparisonId],
+    references: [pipelineComparisons.id],
+  }),
 }));
 
 export const jobStepsRelations = relations(jobSteps, ({ one }) => ({
@@ -188,6 +378,13 @@ export const jobStepsRelations = relations(jobSteps, ({ one }) => ({
   }),
 }));
 
+export const jobQueueRelations = relations(jobQueue, ({ one }) => ({
+  job: one(jobs, {
+    fields: [jobQueue.jobId],
+    references: [jobs.id],
+  }),
+}));
+
 export const csvDataRelations = relations(csvData, ({ one }) => ({
   job: one(jobs, {
     fields: [csvData.jobId],
@@ -223,6 +420,12 @@ export const insertJobSchema = createInsertSchema(jobs).omit({
 });
 
 export const insertPipelineSchema = createInsertSchema(pipelines).omit({
+  id: true,
+  currentVersion: true,
+  createdAt: true,
+});
+
+export const insertPipelineVersionSchema = createInsertSchema(pipelineVersions).omit({
   id: true,
   createdAt: true,
 });
@@ -233,6 +436,33 @@ export const insertJobStepSchema = createInsertSchema(jobSteps).omit({
   completedAt: true,
 });
 
+export const insertPipelineComparisonSchema = createInsertSchema(pipelineComparisons).omit({
+  id: true,
+  createdAt: true,
+  completedAt: true,
+});
+
+export const insertComparisonResultSchema = createInsertSchema(comparisonResults).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertUsageRecordSchema = createInsertSchema(usageRecords).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertModelPriceSchema = createInsertSchema(modelPrices).omit({
+  updatedAt: true,
+});
+
+export const insertSpendLimitSchema = createInsertSchema(spendLimits).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertCsvDataSchema = createInsertSchema(csvData).omit({
   id: true,
   createdAt: true,
@@ -255,6 +485,147 @@ export const insertReferenceDocumentsSchema = createInsertSchema(referenceDocume
   updatedAt: true,
 });
 
+// Domains reference URLs are scraped from
+export const KNOWLEDGE_DOMAINS = ["twilio.com", "sendgrid.com", "segment.com"] as const;
+
+// twilio.com product pages and docs, with or without a locale prefix like /en-us/
+const twilioProductUrl = (paths: string) => `^https?://(www\\.)?twilio\\.com/([a-z]{2}-[a-z]{2}/)?(docs/)?(${paths})([/?#]|$)`;
+
+// Product tags a knowledge scope can filter on. Each matches reference URLs with a regex that
+// means the same in Postgres (~*) and JavaScript, so both vector index implementations agree.
+export const PRODUCT_TAGS = {
+  messaging: { label: "Messaging (SMS, WhatsApp, Conversations)", urlPattern: twilioProductUrl("messaging|sms|whatsapp|conversations") },
+  voice: { label: "Programmable Voice and SIP", urlPattern: twilioProductUrl("voice|sip-trunking|elastic-sip-trunking") },
+  video: { label: "Video", urlPattern: twilioProductUrl("video") },
+  verify: { label: "Verify and Lookup", urlPattern: twilioProductUrl("verify|lookup") },
+  flex: { label: "Flex contact center", urlPattern: twilioProductUrl("flex") },
+  security: { label: "Security, trust and compliance", urlPattern: twilioProductUrl("security|trust|legal|gdpr|hipaa") },
+  sendgrid: { label: "SendGrid email", urlPattern: "^https?://([a-z0-9-]+\\.)*sendgrid\\.com([/?#:]|$)" },
+  segment: { label: "Segment CDP", urlPattern: "^https?://([a-z0-9-]+\\.)*segment\\.com([/?#:]|$)" },
+} as const;
+
+export type ProductTag = keyof typeof PRODUCT_TAGS;
+
+// What a job's retrieval may draw on. Each set field narrows it further: domains and product tags
+// apply to scraped URL chunks, documentIds to uploaded document chunks, the rest to both.
+export const knowledgeScopeSchema = z.object({
+  domains: z.array(z.string().regex(/^[a-z0-9.-]+$/i).transform(domain => domain.toLowerCase())).min(1).optional(), // Subdomains match too
+  productTags: z.array(z.enum(Object.keys(PRODUCT_TAGS) as [ProductTag, ...ProductTag[]])).min(1).optional(), // A URL matching any tag qualifies
+  documentIds: z.array(z.string().min(1)).min(1).optional(),
+  maxCacheAgeDays: z.number().int().positive().optional(), // By when the chunk was cached, not when the page or document was written
+  languages: z.array(z.string().regex(/^[a-z]{2,3}$/i).transform(language => language.toLowerCase())).min(1).optional(), // Chunks with no recorded language are kept
+}).strict();
+
+export type KnowledgeScope = z.infer<typeof knowledgeScopeSchema>;
+
+// Portable pipeline bundles (export/import). Steps are strict so typos in hand-edited files are caught.
+export const PIPELINE_BUNDLE_FORMAT = "rfp-assistant/pipeline";
+export const PIPELINE_BUNDLE_FORMAT_VERSION = 1;
+
+export const pipelineStepConditionSchema = z.object({
+  mode: z.enum(["run_if", "skip_if"]),
+  variable: z.string().min(1),
+  operator: z.enum(["equals", "not_equals", "contains", "not_contains", "exists", "not_exists", "greater_than", "less_than"]),
+  value: z.string().optional(),
+}).strict();
+
+export const pipelineStepRetryPolicySchema = z.object({
+  maxAttempts: z.number().int().min(1).max(10),
+  initialDelayMs: z.number().min(0),
+  maxDelayMs: z.number().min(0),
+  backoffMultiplier: z.number().min(1),
+  retryOn: z.array(z.enum(["rate_limit", "timeout", "server_error", "empty_output", "invalid_output", "client_error", "unknown"])),
+}).partial().strict();
+
+// JSON Schema subset a step's answer must match; each top-level property becomes its own column
+export type OutputSchemaNode =
+  | { type: "string"; description?: string; enum?: string[] }
+  | { type: "number" | "integer"; description?: string; minimum?: number; maximum?: number }
+  | { type: "boolean"; description?: string }
+  | { type: "array"; description?: string; items: OutputSchemaNode }
+  | OutputSchemaObject;
+
+export interface OutputSchemaObject {
+  type: "object";
+  description?: string;
+  properties: Record<string, OutputSchemaNode>;
+  required?: string[]; // Properties not listed may be omitted or null
+}
+
+const outputSchemaObjectSchema: z.ZodType<OutputSchemaObject> = z.lazy(() => z.object({
+  type: z.literal("object"),
+  description: z.string().optional(),
+  properties: z.record(outputSchemaNodeSchema).refine(properties => Object.keys(properties).length > 0, "must declare at least one property"),
+  required: z.array(z.string()).optional(),
+}).strict().superRefine((node, ctx) => {
+  (node.required || [])
+    .filter(name => !(name in node.properties))
+    .forEach(name => ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["required"], message: `"${name}" is not a declared property` }));
+}));
+
+export const outputSchemaNodeSchema: z.ZodType<OutputSchemaNode> = z.lazy(() => z.union([
+  z.object({ type: z.literal("string"), description: z.string().optional(), enum: z.array(z.string()).min(1).optional() }).strict(),
+  z.object({ type: z.enum(["number", "integer"]), description: z.string().optional(), minimum: z.number().optional(), maximum: z.number().optional() }).strict(),
+  z.object({ type: z.literal("boolean"), description: z.string().optional() }).strict(),
+  z.object({ type: z.literal("array"), description: z.string().optional(), items: outputSchemaNodeSchema }).strict(),
+  outputSchemaObjectSchema,
+]));
+
+export const stepOutputSchemaSchema = outputSchemaObjectSchema;
+export type StepOutputSchema = OutputSchemaObject;
+
+// Rerank stage between retrieval and drafting: over-fetch candidates, keep the topK the reranker scores highest
+export const pipelineStepRerankSchema = z.object({
+  reranker: z.enum(["llm", "cross-encoder", "mock"]).optional(), // Defaults to RERANKER, then "llm"
+  candidates: z.number().int().min(1).max(200).optional(),
+  topK: z.number().int().min(1).max(50).optional(),
+  model: z.string().min(1).optional(), // For the llm reranker
+}).strict();
+
+export type StepRerankConfig = z.infer<typeof pipelineStepRerankSchema>;
+
+// Multi-query retrieval: split the question into sub-queries, optionally search with a hypothetical answer to each too
+export const pipelineStepQueryExpansionSchema = z.object({
+  maxSubQueries: z.number().int().min(1).max(8).optional(),
+  hyde: z.boolean().optional(), // Defaults to true
+  model: z.string().min(1).optional(),
+}).strict();
+
+export type StepQueryExpansionConfig = z.infer<typeof pipelineStepQueryExpansionSchema>;
+
+export const pipelineStepSchema = z.object({
+  id: z.string().min(1).optional(),
+  name: z.string().min(1),
+  type: z.string().min(1).optional(),
+  model: z.string().min(1),
+  temperature: z.number().min(0).max(2),
+  maxTokens: z.number().int().positive().optional(),
+  tools: z.array(z.string()).default([]),
+  systemPrompt: z.string(),
+  userPrompt: z.string(),
+  inputs: z.array(z.string()).optional(),
+  condition: pipelineStepConditionSchema.optional(),
+  retryPolicy: pipelineStepRetryPolicySchema.optional(),
+  outputSchema: stepOutputSchemaSchema.optional(),
+  rerank: pipelineStepRerankSchema.optional(),
+  queryExpansion: pipelineStepQueryExpansionSchema.optional(),
+}).strict();
+
+export const pipelineBundleSchema = z.object({
+  format: z.literal(PIPELINE_BUNDLE_FORMAT),
+  formatVersion: z.literal(PIPELINE_BUNDLE_FORMAT_VERSION),
+  exportedAt: z.string().optional(),
+  source: z.object({
+    pipelineId: z.string(),
+    version: z.number().int(),
+  }).optional(),
+  pipeline: z.object({
+    name: z.string().min(1),
+    description: z.string().nullable().optional(),
+    steps: z.array(pipelineStepSchema).min(1),
+  }),
+});
+
 // Types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
@@ -262,18 +633,38 @@ export type Job = typeof jobs.$inferSelect;
 export type InsertJob = z.infer<typeof insertJobSchema>;
 export type Pipeline = typeof pipelines.$inferSelect;
 export type InsertPipeline = z.infer<typeof insertPipelineSchema>;
+export type PipelineVersion = typeof pipelineVersions.$inferSelect;
+export type InsertPipelineVersion = z.infer<typeof insertPipelineVersionSchema>;
+export type PipelineStepDefinition = z.infer<typeof pipelineStepSchema>;
+export type PipelineBundle = z.infer<typeof pipelineBundleSchema>;
 export type JobStep = typeof jobSteps.$inferSelect;
 export type InsertJobStep = z.infer<typeof insertJobStepSchema>;
+export type PipelineComparison = typeof pipelineComparisons.$inferSelect;
+export type InsertPipelineComparison = z.infer<typeof insertPipelineComparisonSchema>;
+export type ComparisonResult = typeof comparisonResults.$inferSelect;
+export type InsertComparisonResult = z.infer<typeof insertComparisonResultSchema>;
+export type UsageRecord = typeof usageRecords.$inferSelect;
+export type InsertUsageRecord = z.infer<typeof insertUsageRecordSchema>;
+export type ModelPrice = typeof modelPrices.$inferSelect;
+export type InsertModelPrice = z.infer<typeof insertModelPriceSchema>;
+export type SpendLimit = typeof spendLimits.$inferSelect;
+export type InsertSpendLimit = z.infer<typeof insertSpendLimitSchema>;
 export type CsvData = typeof csvData.$inferSelect;
 export type InsertCsvData = z.infer<typeof insertCsvDataSchema>;
 export type ReferenceCache = typeof referenceCache.$inferSelect;
 export type InsertReferenceCache = z.infer<typeof insertReferenceCacheSchema>;
 export type ProcessingQueue = typeof processingQueue.$inferSelect;
 export type InsertProcessingQueue = typeof processingQueue.$inferInsert;
+export type JobQueueItem = typeof jobQueue.$inferSelect;
 export type ResponseCache = typeof responseCache.$inferSelect;
 export type InsertResponseCache = z.infer<typeof insertResponseCacheSchema>;
 export type ReferenceDocument = typeof referenceDocuments.$inferSelect;
 export type InsertReferenceDocument = z.infer<typeof insertReferenceDocumentsSchema>;
-export type JobStatus = "not_started" | "in_progress" | "paused" | "completed" | "error" | "cancelled";
-export type StepStatus = "pending" | "running" | "completed" | "error";
+export type JobStatus = "not_started" | "in_progress" | "paused" | "completed" | "completed_with_errors" | "error" | "cancelled";
+export type RowStatus = "pending" | "processing" | "completed" | "failed";
+export type StepStatus = "pending" | "running" | "completed" | "skipped" | "error";
+export type ComparisonStatus = "pending" | "in_progress" | "completed" | "error" | "cancelled";
+export type ComparisonPick = "baseline" | "variant" | "tie";
+export type UsageSource = "step" | "context" | "feedback" | "comparison" | "playground";
+export type SpendLimitScope = "user_monthly" | "job";
 export type CachingStatus = "pending" | "processing" | "completed" | "error";